@@ -0,0 +1,334 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import { isAddress } from "thirdweb/utils";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ConnectButtonWrapper } from "@/components/wallet/connect-button-wrapper";
+import { InvestorTier, getInvestorTierLabel } from "@/lib/contracts/compliance";
+import {
+  getInvestorRegistryContract,
+  getAttestation,
+  getAttestationStatus,
+  getRegistryOwner,
+  isVerifier,
+  type InvestorAttestation,
+  type RegistryNetwork,
+} from "@/lib/contracts/registry";
+import { useAttestationActions } from "@/src/presentation/hooks";
+
+const DEFAULT_VALIDITY_DAYS = 365;
+
+const STATUS_BADGES = {
+  none: { label: "Not attested", variant: "outline" },
+  active: { label: "Verified", variant: "default" },
+  expired: { label: "Expired", variant: "secondary" },
+  revoked: { label: "Revoked", variant: "destructive" },
+} as const;
+
+export default function InvestorAdminPage() {
+  const account = useActiveAccount();
+
+  const [network, setNetwork] = useState<RegistryNetwork>("local");
+  const { issueAttestation, revokeAttestation, setVerifier: sendSetVerifier, isSending: isPending } =
+    useAttestationActions(network);
+  const [isOwner, setIsOwner] = useState(false);
+  const [canAttest, setCanAttest] = useState(false);
+
+  const [investor, setInvestor] = useState("");
+  const [tier, setTier] = useState<InvestorTier>(InvestorTier.Retail);
+  const [validityDays, setValidityDays] = useState(String(DEFAULT_VALIDITY_DAYS));
+  const [attestation, setAttestation] = useState<InvestorAttestation | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+
+  const [verifier, setVerifier] = useState("");
+
+  const isDeployed = getInvestorRegistryContract(network) !== null;
+  const status = getAttestationStatus(attestation);
+
+  // Load the connected wallet's roles on the selected network
+  useEffect(() => {
+    async function loadRoles() {
+      if (!account || !isDeployed) {
+        setIsOwner(false);
+        setCanAttest(false);
+        return;
+      }
+
+      const [owner, verifierStatus] = await Promise.all([
+        getRegistryOwner(network),
+        isVerifier(account.address, network),
+      ]);
+      setIsOwner(owner?.toLowerCase() === account.address.toLowerCase());
+      setCanAttest(verifierStatus);
+    }
+
+    loadRoles();
+  }, [account, network, isDeployed]);
+
+  const lookupInvestor = useCallback(async () => {
+    if (!isAddress(investor)) {
+      setAttestation(null);
+      return;
+    }
+
+    setIsLookingUp(true);
+    try {
+      setAttestation(await getAttestation(investor, network));
+    } finally {
+      setIsLookingUp(false);
+    }
+  }, [investor, network]);
+
+  useEffect(() => {
+    lookupInvestor();
+  }, [lookupInvestor]);
+
+  // Run a registry transaction, reporting the outcome as a toast
+  const sendRegistryTx = async (send: () => Promise<unknown>, successMessage: string, onSuccess?: () => void) => {
+    try {
+      await send();
+      toast.success(successMessage);
+      onSuccess?.();
+    } catch (error) {
+      console.error("Registry transaction failed:", error);
+      toast.error(error instanceof Error ? error.message : "Transaction failed");
+    }
+  };
+
+  const handleIssue = () => {
+    const days = Number(validityDays);
+    if (!Number.isInteger(days) || days <= 0) {
+      toast.error("Validity must be a whole number of days");
+      return;
+    }
+
+    const expiresAt = Math.floor(Date.now() / 1000) + days * 86400;
+    sendRegistryTx(
+      () =>
+        issueAttestation({
+          investor,
+          tier: tier === InvestorTier.Professional ? "professional" : "retail",
+          expiresAt,
+        }),
+      `${getInvestorTierLabel(tier)} attestation issued`,
+      lookupInvestor
+    );
+  };
+
+  const handleRevoke = () => {
+    sendRegistryTx(() => revokeAttestation(investor), "Attestation revoked", lookupInvestor);
+  };
+
+  const handleSetVerifier = (allowed: boolean) => {
+    sendRegistryTx(
+      () => sendSetVerifier(verifier, allowed),
+      allowed ? "Verifier approved" : "Verifier removed",
+      () => {
+        if (account && verifier.toLowerCase() === account.address.toLowerCase()) {
+          setCanAttest(allowed);
+        }
+      }
+    );
+  };
+
+  if (!account) {
+    return (
+      <div className="min-h-screen bg-muted/20">
+        <div className="container mx-auto px-4 py-16">
+          <div className="mx-auto max-w-md text-center">
+            <div className="text-6xl mb-6">🔐</div>
+            <h1 className="text-2xl font-bold mb-4">Connect Your Wallet</h1>
+            <p className="text-muted-foreground mb-6">
+              Connect a verifier or registry owner wallet to manage investor attestations.
+            </p>
+            <ConnectButtonWrapper />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-muted/20">
+      {/* Header */}
+      <div className="border-b bg-background">
+        <div className="container mx-auto px-4 py-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold">Investor Verification</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                Issue and revoke KYC attestations in the InvestorRegistry
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner && <Badge variant="secondary">Owner</Badge>}
+              {canAttest && <Badge>Verifier</Badge>}
+              <Select value={network} onValueChange={(v) => setNetwork(v as RegistryNetwork)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue placeholder="Network" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="local">Local Hardhat</SelectItem>
+                  <SelectItem value="sepolia">Mantle Sepolia</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-8 space-y-8">
+        {!isDeployed ? (
+          <Card>
+            <CardContent className="py-12 text-center text-muted-foreground">
+              {network === "local"
+                ? "No local registry configured. Run npm run deploy:milestone-local and set NEXT_PUBLIC_LOCAL_INVESTOR_REGISTRY."
+                : "InvestorRegistry is not deployed on Mantle Sepolia yet."}
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* Attestations */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Attestations</CardTitle>
+                <CardDescription>
+                  Verified investors may pledge; professional investors are exempt from the retail annual cap
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="space-y-2">
+                  <Label htmlFor="investor">Investor Address</Label>
+                  <Input
+                    id="investor"
+                    placeholder="0x..."
+                    value={investor}
+                    onChange={(e) => setInvestor(e.target.value.trim())}
+                  />
+                </div>
+
+                {isAddress(investor) && (
+                  <div className="rounded-lg border p-4 space-y-2 text-sm">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Status</span>
+                      {isLookingUp ? (
+                        <span className="text-muted-foreground">Loading...</span>
+                      ) : (
+                        <Badge variant={STATUS_BADGES[status].variant}>{STATUS_BADGES[status].label}</Badge>
+                      )}
+                    </div>
+                    {attestation && (
+                      <>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Tier</span>
+                          <span>{getInvestorTierLabel(attestation.tier)}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Verifier</span>
+                          <span className="font-mono">
+                            {attestation.verifier.slice(0, 6)}...{attestation.verifier.slice(-4)}
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Expires</span>
+                          <span>{new Date(attestation.expiresAt * 1000).toLocaleDateString()}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label>Tier</Label>
+                    <Select value={String(tier)} onValueChange={(v) => setTier(Number(v) as InvestorTier)}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Tier" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={String(InvestorTier.Retail)}>Retail</SelectItem>
+                        <SelectItem value={String(InvestorTier.Professional)}>Professional</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="validity">Valid For (days)</Label>
+                    <Input
+                      id="validity"
+                      type="number"
+                      min={1}
+                      value={validityDays}
+                      onChange={(e) => setValidityDays(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button onClick={handleIssue} disabled={!canAttest || isPending}>
+                    Issue Attestation
+                  </Button>
+                  <Button
+                    variant="destructive"
+                    onClick={handleRevoke}
+                    disabled={(!canAttest && !isOwner) || status !== "active" || isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+                {!canAttest && (
+                  <p className="text-sm text-muted-foreground">
+                    The connected wallet is not an approved verifier on this network.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Verifiers (owner only) */}
+            {isOwner && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Verifiers</CardTitle>
+                  <CardDescription>
+                    Attestations issued by a removed verifier stay valid until revoked or expired
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="verifier">Verifier Address</Label>
+                    <Input
+                      id="verifier"
+                      placeholder="0x..."
+                      value={verifier}
+                      onChange={(e) => setVerifier(e.target.value.trim())}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleSetVerifier(true)} disabled={isPending}>
+                      Approve
+                    </Button>
+                    <Button variant="outline" onClick={() => handleSetVerifier(false)} disabled={isPending}>
+                      Remove
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
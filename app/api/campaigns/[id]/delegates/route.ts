@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getIndexerStore, serialize } from "@/src/infrastructure/indexer";
+
+/**
+ * GET /api/campaigns/:id/delegates
+ * Returns the campaign's top delegates by voting power; add ?delegator=0x...
+ * for that holder's delegation history
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const store = getIndexerStore();
+  if (!store) {
+    return NextResponse.json({ error: "Indexer not available" }, { status: 503 });
+  }
+
+  const campaignId = Number((await params).id);
+  const campaign = Number.isInteger(campaignId) ? store.getCampaign(campaignId) : null;
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  const delegator = request.nextUrl.searchParams.get("delegator");
+
+  return NextResponse.json({
+    lastIndexedBlock: store.getLastIndexedBlock(),
+    delegates: store.getTopDelegates(campaignId).map(serialize),
+    history: delegator ? store.getDelegationHistory(campaignId, delegator).map(serialize) : [],
+  });
+}
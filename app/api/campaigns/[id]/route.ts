@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getIndexerStore, serialize } from "@/src/infrastructure/indexer";
+
+/**
+ * GET /api/campaigns/:id
+ * Returns an indexed campaign with its milestones and governance proposals
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const store = getIndexerStore();
+  if (!store) {
+    return NextResponse.json({ error: "Indexer not available" }, { status: 503 });
+  }
+
+  const campaignId = Number((await params).id);
+  const campaign = Number.isInteger(campaignId) ? store.getCampaign(campaignId) : null;
+  if (!campaign) {
+    return NextResponse.json({ error: "Campaign not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    lastIndexedBlock: store.getLastIndexedBlock(),
+    campaign: serialize(campaign),
+    milestones: store.getMilestones(campaignId).map(serialize),
+    proposals: store.getProposalsByCampaign(campaignId).map(serialize),
+  });
+}
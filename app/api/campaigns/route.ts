@@ -0,0 +1,29 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getIndexerStore, serialize } from "@/src/infrastructure/indexer";
+
+/**
+ * GET /api/campaigns
+ * Lists indexed campaigns; filter with ?creator=0x... or ?investor=0x...
+ * (investor results include pledgeAmount and tokensClaimed)
+ */
+export async function GET(request: NextRequest) {
+  const store = getIndexerStore();
+  if (!store) {
+    return NextResponse.json({ error: "Indexer not available" }, { status: 503 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const creator = searchParams.get("creator");
+  const investor = searchParams.get("investor");
+
+  const campaigns = investor
+    ? store.getCampaignsByInvestor(investor)
+    : creator
+      ? store.getCampaignsByCreator(creator)
+      : store.getAllCampaigns();
+
+  return NextResponse.json({
+    lastIndexedBlock: store.getLastIndexedBlock(),
+    campaigns: campaigns.map(serialize),
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { MAX_METADATA_BYTES } from "@/lib/metadata/schema";
+import { parseMilestoneEvidence, serializeMilestoneEvidence } from "@/lib/metadata/evidence";
+import { getContentStore } from "@/src/infrastructure/storage";
+
+/**
+ * POST /api/evidence
+ * Validates and stores a milestone evidence bundle, returning the hash to submit on-chain
+ * Stored bundles are read back through GET /api/metadata/:hash
+ */
+export async function POST(request: NextRequest) {
+  let content: string;
+  try {
+    content = serializeMilestoneEvidence(parseMilestoneEvidence(await request.json()));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid evidence";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  if (new TextEncoder().encode(content).length > MAX_METADATA_BYTES) {
+    return NextResponse.json({ error: "Evidence bundle is too large" }, { status: 413 });
+  }
+
+  try {
+    const hash = await getContentStore().put(content);
+    return NextResponse.json({ hash }, { status: 201 });
+  } catch (error) {
+    console.error("Error storing evidence:", error);
+    return NextResponse.json({ error: "Failed to store evidence" }, { status: 502 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { isMetadataHash } from "@/lib/metadata/schema";
+import { getContentStore } from "@/src/infrastructure/storage";
+
+/**
+ * GET /api/metadata/:hash
+ * Returns the stored document bytes unchanged so clients can verify them against the on-chain hash
+ * Serves every document in the content store, including milestone evidence bundles
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+  if (!isMetadataHash(hash)) {
+    return NextResponse.json({ error: "Invalid metadata hash" }, { status: 400 });
+  }
+
+  try {
+    const content = await getContentStore().get(hash);
+    if (content === null) {
+      return NextResponse.json({ error: "Metadata not found" }, { status: 404 });
+    }
+
+    // Content-addressed, so it never changes for a given hash
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": "application/json",
+        "Cache-Control": "public, max-age=31536000, immutable",
+      },
+    });
+  } catch (error) {
+    console.error("Error loading metadata:", error);
+    return NextResponse.json({ error: "Failed to load metadata" }, { status: 502 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  MAX_METADATA_BYTES,
+  parseCampaignMetadata,
+  serializeCampaignMetadata,
+} from "@/lib/metadata/schema";
+import { getContentStore } from "@/src/infrastructure/storage";
+
+/**
+ * POST /api/metadata
+ * Validates and stores a campaign metadata document, returning the hash to record on-chain
+ */
+export async function POST(request: NextRequest) {
+  let content: string;
+  try {
+    content = serializeCampaignMetadata(parseCampaignMetadata(await request.json()));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid metadata";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  if (new TextEncoder().encode(content).length > MAX_METADATA_BYTES) {
+    return NextResponse.json({ error: "Metadata document is too large" }, { status: 413 });
+  }
+
+  try {
+    const hash = await getContentStore().put(content);
+    return NextResponse.json({ hash }, { status: 201 });
+  } catch (error) {
+    console.error("Error storing metadata:", error);
+    return NextResponse.json({ error: "Failed to store metadata" }, { status: 502 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getIndexerStore, serialize } from "@/src/infrastructure/indexer";
+
+/**
+ * GET /api/proposals/:id/votes
+ * Returns the indexed proposal and every vote cast on it
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const store = getIndexerStore();
+  if (!store) {
+    return NextResponse.json({ error: "Indexer not available" }, { status: 503 });
+  }
+
+  const proposalId = Number((await params).id);
+  const proposal = Number.isInteger(proposalId) ? store.getProposal(proposalId) : null;
+  if (!proposal) {
+    return NextResponse.json({ error: "Proposal not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    lastIndexedBlock: store.getLastIndexedBlock(),
+    proposal: serialize(proposal),
+    votes: store.getVotes(proposalId).map(serialize),
+  });
+}
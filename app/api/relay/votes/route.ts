@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { BallotRejectedError, getVoteRelayer, type SignedBallot } from "@/src/infrastructure/relayer";
+
+const HEX_PATTERN = /^0x[0-9a-fA-F]*$/;
+
+function parseSignedBallot(body: unknown): SignedBallot {
+  const { ballot, signature } = (body ?? {}) as { ballot?: Record<string, unknown>; signature?: unknown };
+  if (!ballot || typeof ballot !== "object") throw new Error("Missing ballot");
+  if (typeof signature !== "string" || !HEX_PATTERN.test(signature)) throw new Error("Invalid signature");
+  if (ballot.support !== 0 && ballot.support !== 1 && ballot.support !== 2) throw new Error("Invalid support");
+  if (typeof ballot.voter !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(ballot.voter)) {
+    throw new Error("Invalid voter");
+  }
+
+  const toUint = (field: string) => {
+    const value = ballot[field];
+    if (typeof value !== "string" || !/^\d+$/.test(value)) throw new Error(`Invalid ${field}`);
+    return BigInt(value);
+  };
+
+  return {
+    proposalId: toUint("proposalId"),
+    support: ballot.support,
+    releaseBps: toUint("releaseBps"),
+    voter: ballot.voter,
+    nonce: toUint("nonce"),
+    deadline: toUint("deadline"),
+    signature,
+  };
+}
+
+/**
+ * POST /api/relay/votes
+ * Casts an EIP-712 signed ballot on the voter's behalf, batched with other ballots
+ * received in the same window. Numeric ballot fields are decimal strings.
+ */
+export async function POST(request: NextRequest) {
+  const relayer = getVoteRelayer();
+  if (!relayer) {
+    return NextResponse.json({ error: "Vote relayer not available" }, { status: 503 });
+  }
+
+  let ballot: SignedBallot;
+  try {
+    ballot = parseSignedBallot(await request.json());
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid ballot";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+
+  try {
+    const txHash = await relayer.submit(ballot);
+    return NextResponse.json({ txHash });
+  } catch (error) {
+    if (error instanceof BallotRejectedError) {
+      return NextResponse.json({ error: error.reason }, { status: 422 });
+    }
+    console.error("Error relaying vote:", error);
+    return NextResponse.json({ error: "Failed to submit vote" }, { status: 502 });
+  }
+}
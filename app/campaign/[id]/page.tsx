@@ -19,9 +19,11 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RefundWithdrawCard } from '@/components/crowdfunding/refund-withdraw-card';
 import { ContributeForm } from '@/components/project/contribute-form';
+import { ProjectDetailsCard } from '@/components/project/project-details-card';
 import { ConnectButtonWrapper } from '@/components/wallet/connect-button-wrapper';
 import { GovernanceTab } from '@/components/governance/governance-tab';
 import { MilestoneTab } from '@/components/milestones/milestone-tab';
+import { DistributionsTab } from '@/components/dividends/distributions-tab';
 import {
   getCampaign,
   getPledge,
@@ -41,6 +43,7 @@ import {
   ExternalLink,
   Vote,
   Info,
+  Coins,
 } from 'lucide-react';
 
 export default function CampaignDetailPage() {
@@ -211,12 +214,19 @@ export default function CampaignDetailPage() {
               <Vote className="h-4 w-4" />
               Governance
             </TabsTrigger>
+            <TabsTrigger value="distributions" className="gap-2">
+              <Coins className="h-4 w-4" />
+              Distributions
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview">
             <div className="grid gap-8 lg:grid-cols-3">
               {/* Main Content */}
               <div className="lg:col-span-2 space-y-6">
+                {/* Off-chain project details, verified against the on-chain hash */}
+                <ProjectDetailsCard metadataHash={campaign.metadataHash} />
+
                 {/* Funding Progress Card */}
             <Card>
               <CardHeader>
@@ -483,6 +493,10 @@ export default function CampaignDetailPage() {
               equityTokenAddress={campaign.equityToken}
             />
           </TabsContent>
+
+          <TabsContent value="distributions">
+            <DistributionsTab campaignId={campaignId} campaign={campaign} />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
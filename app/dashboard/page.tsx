@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ConnectButtonWrapper } from "@/components/wallet/connect-button-wrapper";
+import { ClaimableDividendsCard } from "@/components/dividends/claimable-dividends-card";
 import {
   getAllCampaigns,
   getCampaignsByInvestor,
@@ -260,6 +261,11 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
+        {/* Claimable Dividends */}
+        {!isLoading && investedCampaigns.length > 0 && (
+          <ClaimableDividendsCard campaigns={investedCampaigns} />
+        )}
+
         {/* My Created Projects */}
         {createdCampaigns.length > 0 && (
           <Card>
@@ -4,7 +4,7 @@ import { useState, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { useActiveAccount, useSendTransaction } from "thirdweb/react";
-import { toWei } from "thirdweb";
+import { toUnits } from "thirdweb";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -15,15 +15,22 @@ import { toast } from "sonner";
 import { KR_CROWDFUNDING_RULES } from "@/lib/constants/regulations";
 import { prepareCreateCampaign, getEscrowContract } from "@/lib/contracts/escrow";
 import { prepareCreateCampaignWithMilestones } from "@/lib/contracts/milestones";
+import {
+  MAX_PROPOSAL_THRESHOLD_PERCENT,
+  MAX_VOTING_PERIOD_DAYS,
+  MIN_VOTING_PERIOD_DAYS,
+  areGovernanceParamsValid,
+  validateMilestoneSchedule,
+  type GovernanceParamsInput,
+  type MilestoneInput,
+  type VotingRulesInput,
+} from "@/lib/contracts/types";
 import { ROUTES } from "@/lib/constants/routes";
+import { NATIVE_TOKEN, PAYMENT_TOKENS } from "@/lib/constants/addresses";
+import { CAMPAIGN_METADATA_VERSION, uploadCampaignMetadata } from "@/lib/metadata";
 import type { ProjectCategory } from "@/lib/constants/projects";
-
-interface MilestoneInput {
-  title: string;
-  description: string;
-  percentage: number; // 0-100
-  daysAfterEnd: number;
-}
+import { DEFAULT_MILESTONE_TEMPLATE } from "@/lib/constants/milestone-templates";
+import { MilestoneFormStep } from "@/components/milestones/milestone-form-step";
 
 interface ProjectFormData {
   // Basic Info
@@ -33,6 +40,7 @@ interface ProjectFormData {
   category: ProjectCategory;
 
   // Funding Info
+  paymentToken: string; // NATIVE_TOKEN for MNT, or an allow-listed stablecoin
   goal: string;
   durationDays: string;
 
@@ -43,6 +51,8 @@ interface ProjectFormData {
   // Milestone Info
   useMilestones: boolean;
   milestones: MilestoneInput[];
+  votingRules: VotingRulesInput[]; // [General, Milestone, Amendment]
+  governanceParams: GovernanceParamsInput;
 
   // Company Info
   companyName: string;
@@ -52,23 +62,39 @@ interface ProjectFormData {
   website: string;
 }
 
-const DEFAULT_MILESTONES: MilestoneInput[] = [
-  { title: "Milestone 1: MVP Launch", description: "Complete MVP with core features", percentage: 30, daysAfterEnd: 30 },
-  { title: "Milestone 2: Beta Release", description: "Beta version with user feedback integration", percentage: 40, daysAfterEnd: 60 },
-  { title: "Milestone 3: Full Launch", description: "Production release with all planned features", percentage: 30, daysAfterEnd: 90 },
+// Quorum and approval threshold per proposal type: [General, Milestone, Amendment]
+const DEFAULT_VOTING_RULES: VotingRulesInput[] = [
+  { quorumPercent: 10, approvalPercent: 50 },
+  { quorumPercent: 20, approvalPercent: 60 },
+  { quorumPercent: 20, approvalPercent: 60 },
 ];
 
+const VOTING_RULE_LABELS = ["General Proposals", "Milestone Approvals", "Milestone Amendments"];
+
+const DEFAULT_GOVERNANCE_PARAMS: GovernanceParamsInput = {
+  votingPeriodDays: 3,
+  proposalThresholdPercent: 1,
+};
+
+// Only offer stablecoins that are deployed on this network
+const AVAILABLE_PAYMENT_TOKENS = PAYMENT_TOKENS.filter(
+  (token) => token.symbol === "MNT" || token.address !== NATIVE_TOKEN
+);
+
 const INITIAL_FORM_DATA: ProjectFormData = {
   name: "",
   description: "",
   longDescription: "",
   category: "tech",
+  paymentToken: NATIVE_TOKEN,
   goal: "",
   durationDays: "30",
   tokenSymbol: "",
   founderSharePercent: "0",
   useMilestones: false,
-  milestones: DEFAULT_MILESTONES,
+  milestones: DEFAULT_MILESTONE_TEMPLATE.milestones,
+  votingRules: DEFAULT_VOTING_RULES,
+  governanceParams: DEFAULT_GOVERNANCE_PARAMS,
   companyName: "",
   foundedYear: "",
   employees: "",
@@ -108,16 +134,33 @@ export default function CreateProjectPage() {
     setFormData((prev) => ({ ...prev, [field]: value }));
   };
 
-  const updateMilestone = (index: number, field: keyof MilestoneInput, value: string | number) => {
+  const updateMilestones = (milestones: MilestoneInput[]) => {
+    setFormData((prev) => ({ ...prev, milestones }));
+  };
+
+  const updateVotingRule = (index: number, field: keyof VotingRulesInput, value: number) => {
     setFormData((prev) => {
-      const newMilestones = [...prev.milestones];
-      newMilestones[index] = { ...newMilestones[index], [field]: value };
-      return { ...prev, milestones: newMilestones };
+      const newRules = [...prev.votingRules];
+      newRules[index] = { ...newRules[index], [field]: value };
+      return { ...prev, votingRules: newRules };
     });
   };
 
-  const getMilestoneTotalPercentage = (): number => {
-    return formData.milestones.reduce((sum, m) => sum + m.percentage, 0);
+  const updateGovernanceParam = (field: keyof GovernanceParamsInput, value: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      governanceParams: { ...prev.governanceParams, [field]: value },
+    }));
+  };
+
+  const areVotingRulesValid = (): boolean => {
+    return formData.votingRules.every(
+      (r) =>
+        r.quorumPercent >= 0 &&
+        r.quorumPercent <= 100 &&
+        r.approvalPercent >= 50 &&
+        r.approvalPercent <= 100
+    );
   };
 
   const validateStep = (step: number): boolean => {
@@ -131,11 +174,11 @@ export default function CreateProjectPage() {
       case 4:
         // Milestones step - validate if using milestones
         if (!formData.useMilestones) return true;
-        const total = getMilestoneTotalPercentage();
-        const allFilled = formData.milestones.every(
-          (m) => m.title && m.description && m.percentage > 0 && m.daysAfterEnd > 0
+        return (
+          validateMilestoneSchedule(formData.milestones).length === 0 &&
+          areVotingRulesValid() &&
+          areGovernanceParamsValid(formData.governanceParams)
         );
-        return total === 100 && allFilled;
       case 5:
         return !!(formData.foundedYear && formData.location);
       case 6:
@@ -157,6 +200,10 @@ export default function CreateProjectPage() {
     setCurrentStep((prev) => Math.max(prev - 1, 1));
   };
 
+  const selectedPaymentToken =
+    AVAILABLE_PAYMENT_TOKENS.find((token) => token.address === formData.paymentToken) ??
+    AVAILABLE_PAYMENT_TOKENS[0];
+
   const handleSubmit = async () => {
     if (!account?.address) {
       toast.error("Please connect your wallet");
@@ -173,14 +220,31 @@ export default function CreateProjectPage() {
     setIsSubmitting(true);
 
     try {
-      // Convert goal to wei (18 decimals for MNT)
-      const goalInWei = toWei(formData.goal);
+      // Convert goal to the payment token's smallest unit (18 decimals for MNT)
+      const goalInWei = toUnits(formData.goal, selectedPaymentToken.decimals);
       const durationDays = parseInt(formData.durationDays);
       const tokenName = `${formData.name} Equity`;
       const tokenSymbol = formData.tokenSymbol;
       // Convert percentage to basis points (1% = 100 bps)
       const founderShareBps = parseInt(formData.founderSharePercent) * 100;
 
+      // Publish the off-chain project details; only their content hash goes on-chain
+      const metadataHash = await uploadCampaignMetadata({
+        version: CAMPAIGN_METADATA_VERSION,
+        name: formData.name,
+        description: formData.description,
+        longDescription: formData.longDescription,
+        category: formData.category,
+        image: "",
+        companyName: formData.companyName,
+        companyInfo: {
+          foundedYear: parseInt(formData.foundedYear) || 0,
+          employees: parseInt(formData.employees) || 0,
+          location: formData.location,
+          website: formData.website,
+        },
+      });
+
       let tx;
 
       if (formData.useMilestones) {
@@ -188,7 +252,7 @@ export default function CreateProjectPage() {
         const milestoneTitles = formData.milestones.map((m) => m.title);
         const milestoneDescriptions = formData.milestones.map((m) => m.description);
         const milestonePercentages = formData.milestones.map((m) => m.percentage);
-        const milestoneDaysAfterEnd = formData.milestones.map((m) => m.daysAfterEnd);
+        const milestoneDaysAfterEnd = formData.milestones.map((m) => m.deadlineDays);
 
         tx = prepareCreateCampaignWithMilestones(
           goalInWei,
@@ -200,7 +264,11 @@ export default function CreateProjectPage() {
           milestoneTitles,
           milestoneDescriptions,
           milestonePercentages,
-          milestoneDaysAfterEnd
+          milestoneDaysAfterEnd,
+          formData.votingRules,
+          formData.governanceParams,
+          formData.paymentToken,
+          metadataHash
         );
       } else {
         // Prepare the regular createCampaign transaction
@@ -210,7 +278,9 @@ export default function CreateProjectPage() {
           formData.name,
           tokenName,
           tokenSymbol,
-          founderShareBps
+          founderShareBps,
+          formData.paymentToken,
+          metadataHash
         );
       }
 
@@ -365,7 +435,26 @@ export default function CreateProjectPage() {
               {currentStep === 2 && (
                 <>
                   <div className="space-y-2">
-                    <label className="text-sm font-medium">Funding Goal (MNT) *</label>
+                    <label className="text-sm font-medium">Payment Token *</label>
+                    <div className="flex gap-2 flex-wrap">
+                      {AVAILABLE_PAYMENT_TOKENS.map((token) => (
+                        <Button
+                          key={token.symbol}
+                          type="button"
+                          variant={formData.paymentToken === token.address ? "default" : "outline"}
+                          onClick={() => updateFormData("paymentToken", token.address)}
+                        >
+                          {token.symbol}
+                        </Button>
+                      ))}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Investors pledge, and milestones are paid out, in this token
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Funding Goal ({selectedPaymentToken.symbol}) *</label>
                     <Input
                       type="number"
                       placeholder="e.g., 10000"
@@ -506,84 +595,91 @@ export default function CreateProjectPage() {
                           </p>
                         </div>
 
-                        <div className="space-y-4">
-                          {formData.milestones.map((milestone, index) => (
-                            <div key={index} className="rounded-lg border p-4 space-y-3">
-                              <div className="flex items-center justify-between">
-                                <span className="text-sm font-medium text-primary">
-                                  Milestone {index + 1}
-                                </span>
-                                <span className="text-sm text-muted-foreground">
-                                  {milestone.percentage}% of funds
-                                </span>
-                              </div>
+                        <MilestoneFormStep
+                          milestones={formData.milestones}
+                          onChange={updateMilestones}
+                        />
 
+                        <div className="rounded-lg border p-4 space-y-3">
+                          <div>
+                            <h4 className="font-medium">Governance Rules</h4>
+                            <p className="text-sm text-muted-foreground">
+                              Quorum is the share of token supply that must vote. Approval is the share
+                              of votes that must be in favor (at least 50%). Every proposal stays open for
+                              the voting period, and only holders with at least the proposal threshold
+                              can create one.
+                            </p>
+                          </div>
+                          {formData.votingRules.map((rule, index) => (
+                            <div key={index} className="grid grid-cols-3 gap-4 items-end">
+                              <span className="text-sm font-medium pb-2">
+                                {VOTING_RULE_LABELS[index]}
+                              </span>
                               <div className="space-y-2">
+                                <label className="text-xs text-muted-foreground">Quorum (%)</label>
                                 <Input
-                                  placeholder="Milestone title"
-                                  value={milestone.title}
-                                  onChange={(e) => updateMilestone(index, "title", e.target.value)}
+                                  type="number"
+                                  min="0"
+                                  max="100"
+                                  value={rule.quorumPercent}
+                                  onChange={(e) =>
+                                    updateVotingRule(index, "quorumPercent", parseInt(e.target.value) || 0)
+                                  }
                                 />
                               </div>
-
                               <div className="space-y-2">
-                                <textarea
-                                  className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                                  placeholder="Describe what you will deliver for this milestone"
-                                  value={milestone.description}
-                                  onChange={(e) => updateMilestone(index, "description", e.target.value)}
+                                <label className="text-xs text-muted-foreground">Approval (%)</label>
+                                <Input
+                                  type="number"
+                                  min="50"
+                                  max="100"
+                                  value={rule.approvalPercent}
+                                  onChange={(e) =>
+                                    updateVotingRule(index, "approvalPercent", parseInt(e.target.value) || 0)
+                                  }
                                 />
                               </div>
-
-                              <div className="grid grid-cols-2 gap-4">
-                                <div className="space-y-2">
-                                  <label className="text-xs text-muted-foreground">
-                                    Fund Percentage (%)
-                                  </label>
-                                  <Input
-                                    type="number"
-                                    min="1"
-                                    max="100"
-                                    value={milestone.percentage}
-                                    onChange={(e) =>
-                                      updateMilestone(index, "percentage", parseInt(e.target.value) || 0)
-                                    }
-                                  />
-                                </div>
-                                <div className="space-y-2">
-                                  <label className="text-xs text-muted-foreground">
-                                    Deadline (days after funding)
-                                  </label>
-                                  <Input
-                                    type="number"
-                                    min="1"
-                                    value={milestone.daysAfterEnd}
-                                    onChange={(e) =>
-                                      updateMilestone(index, "daysAfterEnd", parseInt(e.target.value) || 0)
-                                    }
-                                  />
-                                </div>
-                              </div>
                             </div>
                           ))}
-                        </div>
-
-                        <div className={`rounded-lg p-4 ${
-                          getMilestoneTotalPercentage() === 100
-                            ? "bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800"
-                            : "bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800"
-                        }`}>
-                          <div className="flex justify-between items-center">
-                            <span className="text-sm font-medium">Total Allocation:</span>
-                            <span className={`font-bold ${
-                              getMilestoneTotalPercentage() === 100
-                                ? "text-green-700 dark:text-green-300"
-                                : "text-red-700 dark:text-red-300"
-                            }`}>
-                              {getMilestoneTotalPercentage()}%
-                              {getMilestoneTotalPercentage() !== 100 && " (must equal 100%)"}
-                            </span>
+                          {!areVotingRulesValid() && (
+                            <p className="text-xs text-red-600">
+                              Quorum must be 0-100% and approval must be 50-100%
+                            </p>
+                          )}
+                          <div className="grid grid-cols-3 gap-4 items-end">
+                            <span className="text-sm font-medium pb-2">All Proposals</span>
+                            <div className="space-y-2">
+                              <label className="text-xs text-muted-foreground">Voting Period (days)</label>
+                              <Input
+                                type="number"
+                                min={MIN_VOTING_PERIOD_DAYS}
+                                max={MAX_VOTING_PERIOD_DAYS}
+                                value={formData.governanceParams.votingPeriodDays}
+                                onChange={(e) =>
+                                  updateGovernanceParam("votingPeriodDays", parseInt(e.target.value) || 0)
+                                }
+                              />
+                            </div>
+                            <div className="space-y-2">
+                              <label className="text-xs text-muted-foreground">Proposal Threshold (%)</label>
+                              <Input
+                                type="number"
+                                min="0.01"
+                                max={MAX_PROPOSAL_THRESHOLD_PERCENT}
+                                step="0.01"
+                                value={formData.governanceParams.proposalThresholdPercent}
+                                onChange={(e) =>
+                                  updateGovernanceParam("proposalThresholdPercent", parseFloat(e.target.value) || 0)
+                                }
+                              />
+                            </div>
                           </div>
+                          {!areGovernanceParamsValid(formData.governanceParams) && (
+                            <p className="text-xs text-red-600">
+                              Voting period must be {MIN_VOTING_PERIOD_DAYS}-{MAX_VOTING_PERIOD_DAYS} days and
+                              the proposal threshold must be 0.01-{MAX_PROPOSAL_THRESHOLD_PERCENT}% of token supply
+                            </p>
+                          )}
                         </div>
                       </>
                     )}
@@ -668,7 +764,7 @@ export default function CreateProjectPage() {
                       <h4 className="font-medium">Funding Info</h4>
                       <div className="grid grid-cols-2 gap-2 text-sm">
                         <div className="text-muted-foreground">Funding Goal</div>
-                        <div className="font-medium">{Number(formData.goal || 0).toLocaleString()} MNT</div>
+                        <div className="font-medium">{Number(formData.goal || 0).toLocaleString()} {selectedPaymentToken.symbol}</div>
                         <div className="text-muted-foreground">Duration</div>
                         <div className="font-medium">{formData.durationDays} days</div>
                         <div className="text-muted-foreground">Fund Release</div>
@@ -690,10 +786,28 @@ export default function CreateProjectPage() {
                                 {milestone.title || `Milestone ${index + 1}`}
                               </span>
                               <span className="font-medium">
-                                {milestone.percentage}% ({milestone.daysAfterEnd} days)
+                                {milestone.percentage}% ({milestone.deadlineDays} days)
+                              </span>
+                            </div>
+                          ))}
+                          {formData.votingRules.map((rule, index) => (
+                            <div key={`rule-${index}`} className="flex justify-between text-sm">
+                              <span className="text-muted-foreground">{VOTING_RULE_LABELS[index]}</span>
+                              <span className="font-medium">
+                                {rule.quorumPercent}% quorum, {rule.approvalPercent}% approval
                               </span>
                             </div>
                           ))}
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">Voting Period</span>
+                            <span className="font-medium">{formData.governanceParams.votingPeriodDays} days</span>
+                          </div>
+                          <div className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">Proposal Threshold</span>
+                            <span className="font-medium">
+                              {formData.governanceParams.proposalThresholdPercent}% of token supply
+                            </span>
+                          </div>
                         </div>
                       </div>
                     )}
@@ -10,8 +10,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, CheckCircle, Clock, RefreshCw, Wallet, Coins, Plus } from 'lucide-react';
-import { useRefund, useWithdraw, useClaimTokens, useClaimFounderTokens } from '@/src/presentation/hooks';
+import { AlertCircle, CheckCircle, Clock, RefreshCw, Wallet, Coins, Plus, TimerOff } from 'lucide-react';
+import {
+  useRefund,
+  useWithdraw,
+  useClaimTokens,
+  useClaimFounderTokens,
+  useEmergencyRefund,
+} from '@/src/presentation/hooks';
 import { toEther } from 'thirdweb/utils';
 import { toast } from 'sonner';
 
@@ -56,6 +62,7 @@ export function RefundWithdrawCard({ campaignId, isFounder = false }: RefundWith
 function InvestorSection({ campaignId }: { campaignId: number }) {
   const refund = useRefund(campaignId);
   const claim = useClaimTokens(campaignId);
+  const emergency = useEmergencyRefund(campaignId);
 
   // Check localStorage for token added status
   const storageKey = `tokenAdded_${campaignId}`;
@@ -77,10 +84,11 @@ function InvestorSection({ campaignId }: { campaignId: number }) {
   useEffect(() => {
     refund.checkEligibility();
     claim.checkEligibility();
+    emergency.checkEligibility();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const isLoading = refund.isChecking || claim.isChecking;
+  const isLoading = refund.isChecking || claim.isChecking || emergency.isChecking;
 
   // Show loading state
   if (isLoading) {
@@ -145,6 +153,69 @@ function InvestorSection({ campaignId }: { campaignId: number }) {
     );
   }
 
+  // Milestone rejected or expired - show pro-rata refund of unreleased funds
+  if (isSuccessful && campaign.hasMilestones && emergency.canRefund) {
+    return (
+      <Card className="border-orange-200 bg-orange-50/50">
+        <CardHeader className="pb-3">
+          <div className="flex items-center gap-2">
+            <TimerOff className="h-5 w-5 text-orange-500" />
+            <CardTitle className="text-base">Emergency Refund Available</CardTitle>
+            <Badge variant="outline" className="text-orange-600 border-orange-300">
+              Milestone Failed
+            </Badge>
+          </div>
+          <CardDescription>
+            A milestone was rejected or missed its deadline
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-lg bg-white p-4 border">
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-muted-foreground">Refundable Amount</span>
+              <span className="text-xl font-bold text-orange-600">
+                {toEther(emergency.refundAmount)} MNT
+              </span>
+            </div>
+            <div className="text-xs text-muted-foreground mt-1">
+              Pro-rata share of unreleased funds (pledged {toEther(emergency.pledgeAmount)} MNT)
+            </div>
+            {claim.hasClaimed && (
+              <div className="text-xs text-orange-700 mt-1">
+                Your {toEther(emergency.pledgeAmount)} {campaign.tokenSymbol} tokens will be burned and must still be in your wallet.
+              </div>
+            )}
+          </div>
+          <Button
+            className="w-full"
+            variant="outline"
+            onClick={async () => {
+              const success = await emergency.requestRefund();
+              if (success) {
+                toast.success('Emergency refund processed successfully!');
+              } else {
+                toast.error(emergency.error || 'Failed to process emergency refund');
+              }
+            }}
+            disabled={emergency.isRefunding}
+          >
+            {emergency.isRefunding ? (
+              <span className="flex items-center gap-2">
+                <span className="animate-spin">⏳</span>
+                Processing...
+              </span>
+            ) : (
+              <>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Request Emergency Refund
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+    );
+  }
+
   // Goal reached - show token claim option
   if (isSuccessful) {
     return (
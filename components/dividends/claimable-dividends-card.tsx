@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useActiveAccount } from "thirdweb/react";
+import { toTokens } from "thirdweb/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coins, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { PaymentTokenInfo, getPaymentTokenInfo } from "@/lib/contracts/escrow";
+import {
+  DistributionWithClaim,
+  getClaimableDividends,
+  getDividendDistributorContract,
+} from "@/lib/contracts/dividends";
+import { useDividendActions } from "@/src/presentation/hooks";
+
+interface ClaimableDividendsCardProps {
+  campaigns: { id: number; name: string }[];
+}
+
+export function ClaimableDividendsCard({ campaigns }: ClaimableDividendsCardProps) {
+  const account = useActiveAccount();
+  const { claimDividend } = useDividendActions();
+  const [claimable, setClaimable] = useState<DistributionWithClaim[]>([]);
+  const [tokens, setTokens] = useState<Record<string, PaymentTokenInfo>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [claimingId, setClaimingId] = useState<number | null>(null);
+
+  const campaignIds = campaigns.map((c) => c.id).join(",");
+
+  const fetchClaimable = useCallback(async () => {
+    if (!account?.address || !getDividendDistributorContract()) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const ids = campaignIds ? campaignIds.split(",").map(Number) : [];
+      const result = await getClaimableDividends(account.address, ids);
+
+      const addresses = [...new Set(result.map((d) => d.paymentToken.toLowerCase()))];
+      const infos = await Promise.all(addresses.map((address) => getPaymentTokenInfo(address)));
+
+      setTokens(Object.fromEntries(addresses.map((address, i) => [address, infos[i]])));
+      setClaimable(result);
+    } catch (error) {
+      console.error("Failed to fetch claimable dividends:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account?.address, campaignIds]);
+
+  useEffect(() => {
+    fetchClaimable();
+  }, [fetchClaimable]);
+
+  const formatAmount = (distribution: DistributionWithClaim) => {
+    const token = tokens[distribution.paymentToken.toLowerCase()];
+    return token ? `${toTokens(distribution.claimable, token.decimals)} ${token.symbol}` : "...";
+  };
+
+  const handleClaim = async (distribution: DistributionWithClaim) => {
+    setClaimingId(distribution.id);
+    try {
+      await claimDividend(distribution.id);
+      toast.success(`Claimed ${formatAmount(distribution)}`);
+      fetchClaimable();
+    } catch (error) {
+      console.error("Claim failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to claim dividend");
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  if (!getDividendDistributorContract()) {
+    return null;
+  }
+
+  const campaignNames = Object.fromEntries(campaigns.map((c) => [c.id, c.name]));
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Claimable Dividends
+        </CardTitle>
+        <CardDescription>Revenue distributed to you as a token holder</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-12 w-full" />
+          </div>
+        ) : claimable.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            Nothing to claim right now
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {claimable.map((distribution) => (
+              <div
+                key={distribution.id}
+                className="flex items-center gap-4 p-4 rounded-lg border"
+              >
+                <div className="flex-1 min-w-0">
+                  <Link
+                    href={`/campaign/${distribution.campaignId}`}
+                    className="font-medium hover:text-primary truncate"
+                  >
+                    {campaignNames[distribution.campaignId] ?? `Campaign #${distribution.campaignId}`}
+                  </Link>
+                  <div className="text-sm text-muted-foreground mt-1">
+                    Distribution #{distribution.id} · {new Date(distribution.createdAt * 1000).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="font-semibold">{formatAmount(distribution)}</div>
+                <Button
+                  size="sm"
+                  onClick={() => handleClaim(distribution)}
+                  disabled={claimingId !== null}
+                >
+                  {claimingId === distribution.id && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Claim
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useActiveAccount } from "thirdweb/react";
+import { toTokens } from "thirdweb/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, CheckCircle, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  DistributionWithClaim,
+  DIVIDEND_CLAIM_PERIOD_SECONDS,
+  canReclaimDistribution,
+} from "@/lib/contracts/dividends";
+import { PaymentTokenInfo } from "@/lib/contracts/escrow";
+import { useDividendActions } from "@/src/presentation/hooks";
+
+interface DistributionCardProps {
+  distribution: DistributionWithClaim;
+  token: PaymentTokenInfo;
+  isCreator: boolean;
+  onUpdated: () => void;
+}
+
+export function DistributionCard({ distribution, token, isCreator, onUpdated }: DistributionCardProps) {
+  const account = useActiveAccount();
+  const { claimDividend, reclaimUnclaimed, isSending } = useDividendActions();
+
+  const format = (amount: bigint) => `${toTokens(amount, token.decimals)} ${token.symbol}`;
+  const claimedPercent =
+    distribution.amount > BigInt(0) ? Number((distribution.claimedAmount * BigInt(100)) / distribution.amount) : 0;
+  const closesAt = new Date((distribution.createdAt + DIVIDEND_CLAIM_PERIOD_SECONDS) * 1000);
+
+  const handleClaim = async () => {
+    try {
+      await claimDividend(distribution.id);
+      toast.success(`Claimed ${format(distribution.claimable)}`);
+      onUpdated();
+    } catch (error) {
+      console.error("Claim failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to claim dividend");
+    }
+  };
+
+  const handleReclaim = async () => {
+    try {
+      await reclaimUnclaimed(distribution.id);
+      toast.success("Unclaimed funds returned to your wallet");
+      onUpdated();
+    } catch (error) {
+      console.error("Reclaim failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reclaim unclaimed funds");
+    }
+  };
+
+  return (
+    <Card className="border-l-4 border-l-primary/50">
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-lg font-semibold">{format(distribution.amount)}</p>
+            <p className="text-sm text-muted-foreground">
+              Distribution #{distribution.id} &middot; {new Date(distribution.createdAt * 1000).toLocaleDateString()}
+            </p>
+          </div>
+          {distribution.reclaimed ? (
+            <Badge variant="secondary">Closed</Badge>
+          ) : (
+            <Badge variant="outline">Claimable until {closesAt.toLocaleDateString()}</Badge>
+          )}
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Claimed by holders</span>
+            <span>{format(distribution.claimedAmount)}</span>
+          </div>
+          <Progress value={claimedPercent} className="h-2" />
+        </div>
+
+        {account && (
+          <div className="flex items-center justify-between gap-4 border-t pt-4">
+            <div className="text-sm">
+              {distribution.claimed ? (
+                <span className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="h-4 w-4" />
+                  You claimed your share
+                </span>
+              ) : distribution.claimable > BigInt(0) ? (
+                <span>
+                  Your share: <strong>{format(distribution.claimable)}</strong>
+                </span>
+              ) : (
+                <span className="text-muted-foreground">You held no tokens at this distribution&apos;s snapshot</span>
+              )}
+            </div>
+            <div className="flex gap-2">
+              {distribution.claimable > BigInt(0) && (
+                <Button size="sm" onClick={handleClaim} disabled={isSending}>
+                  {isSending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Claim
+                </Button>
+              )}
+              {isCreator && canReclaimDistribution(distribution) && (
+                <Button size="sm" variant="outline" onClick={handleReclaim} disabled={isSending}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Reclaim Unclaimed
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import { toUnits } from "thirdweb/utils";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coins, AlertCircle, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { DistributionCard } from "./distribution-card";
+import {
+  CampaignData,
+  PaymentTokenInfo,
+  getPaymentTokenInfo,
+} from "@/lib/contracts/escrow";
+import {
+  DistributionWithClaim,
+  getCampaignDistributions,
+  getDividendDistributorContract,
+} from "@/lib/contracts/dividends";
+import { useDividendActions } from "@/src/presentation/hooks";
+
+// Helper function to compute campaign status (called outside component)
+function computeCampaignStatus(campaign: CampaignData) {
+  const now = Math.floor(Date.now() / 1000);
+  const isEnded = now >= Number(campaign.endAt);
+  const isSuccessful = isEnded && campaign.pledged >= campaign.goal;
+  return { isEnded, isSuccessful };
+}
+
+interface DistributionsTabProps {
+  campaignId: number;
+  campaign: CampaignData;
+}
+
+export function DistributionsTab({ campaignId, campaign }: DistributionsTabProps) {
+  const account = useActiveAccount();
+  const { createDistribution } = useDividendActions();
+  const [distributions, setDistributions] = useState<DistributionWithClaim[]>([]);
+  const [tokens, setTokens] = useState<Record<string, PaymentTokenInfo>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [isDepositing, setIsDepositing] = useState(false);
+
+  const { isEnded, isSuccessful } = computeCampaignStatus(campaign);
+  const isCreator = account?.address.toLowerCase() === campaign.creator.toLowerCase();
+  const isConfigured = getDividendDistributorContract() !== null;
+  const campaignToken = tokens[campaign.paymentToken.toLowerCase()];
+
+  const fetchDistributions = useCallback(async () => {
+    if (!isConfigured) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const result = await getCampaignDistributions(campaignId, account?.address);
+
+      // Look up symbol and decimals once per payment token
+      const addresses = [...new Set([campaign.paymentToken, ...result.map((d) => d.paymentToken)].map((a) => a.toLowerCase()))];
+      const infos = await Promise.all(addresses.map((address) => getPaymentTokenInfo(address)));
+
+      setTokens(Object.fromEntries(addresses.map((address, i) => [address, infos[i]])));
+      setDistributions(result);
+    } catch (error) {
+      console.error("Error fetching distributions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [campaignId, campaign.paymentToken, account?.address, isConfigured]);
+
+  useEffect(() => {
+    fetchDistributions();
+  }, [fetchDistributions]);
+
+  const handleDeposit = async () => {
+    if (!account || !campaignToken) return;
+
+    const parsed = Number(amount);
+    if (!amount || isNaN(parsed) || parsed <= 0) {
+      toast.error("Enter an amount to distribute");
+      return;
+    }
+
+    setIsDepositing(true);
+    try {
+      await createDistribution({
+        projectAddress: campaign.equityToken,
+        amount: toUnits(amount, campaignToken.decimals),
+      });
+
+      toast.success(`Distributed ${amount} ${campaignToken.symbol} to token holders`);
+      setAmount("");
+      await fetchDistributions();
+    } catch (error) {
+      console.error("Distribution failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create distribution");
+    } finally {
+      setIsDepositing(false);
+    }
+  };
+
+  // Distributions need holders, which only exist once the campaign succeeded
+  if (!isSuccessful || !isConfigured) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Distributions
+          </CardTitle>
+          <CardDescription>
+            Revenue and dividends paid to token holders
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium mb-2">Distributions Not Available</h3>
+            <p className="text-muted-foreground max-w-md">
+              {!isConfigured
+                ? "The dividend distributor has not been deployed on this network yet."
+                : !isEnded
+                  ? "Distributions will be available after the campaign ends successfully."
+                  : "This campaign did not reach its funding goal. Distributions are not available."}
+            </p>
+            {isConfigured && !isEnded && (
+              <Badge variant="outline" className="mt-4">
+                Campaign in Progress
+              </Badge>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Coins className="h-5 w-5" />
+            Distributions
+          </CardTitle>
+          <CardDescription>
+            Token holders claim each distribution pro-rata to their balance when it was made
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!account ? (
+            <div className="text-center py-4 text-muted-foreground">
+              Connect your wallet to claim distributions
+            </div>
+          ) : isCreator ? (
+            <div className="space-y-2">
+              <Label htmlFor="distribution-amount">
+                Distribute revenue ({campaignToken?.symbol ?? "..."})
+              </Label>
+              <div className="flex gap-2">
+                <Input
+                  id="distribution-amount"
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="0.0"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  disabled={isDepositing}
+                />
+                <Button onClick={handleDeposit} disabled={isDepositing || !campaignToken}>
+                  {isDepositing && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Distribute
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Unclaimed amounts can be reclaimed one year after each distribution.
+              </p>
+            </div>
+          ) : (
+            <div className="text-sm text-muted-foreground">
+              Tokens bought after a distribution do not share in it.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      ) : distributions.length === 0 ? (
+        <Card>
+          <CardContent>
+            <div className="text-center py-8 text-muted-foreground">
+              <Coins className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No distributions yet</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {distributions.map((distribution) => (
+            <DistributionCard
+              key={distribution.id}
+              distribution={distribution}
+              token={tokens[distribution.paymentToken.toLowerCase()]}
+              isCreator={isCreator}
+              onUpdated={fetchDistributions}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CalendarClock } from "lucide-react";
+import { getAmendment } from "@/lib/contracts/governance";
+import { getCampaignMilestones } from "@/lib/contracts/milestones";
+import {
+  bpsToPercentage,
+  formatMilestoneDeadline,
+  type MilestoneAmendment,
+  type MilestoneData,
+} from "@/lib/contracts/types";
+
+interface AmendmentDetailsProps {
+  proposalId: number;
+  campaignId: number;
+}
+
+/**
+ * Proposed milestone schedule, with the current terms struck through where they change
+ */
+export function AmendmentDetails({ proposalId, campaignId }: AmendmentDetailsProps) {
+  const [data, setData] = useState<{ amendment: MilestoneAmendment; milestones: MilestoneData[] } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([getAmendment(proposalId), getCampaignMilestones(campaignId)]).then(
+      ([amendment, milestones]) => {
+        if (!cancelled && amendment) setData({ amendment, milestones });
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalId, campaignId]);
+
+  if (!data) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const { amendment, milestones } = data;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <CalendarClock className="h-4 w-4" />
+        Proposed Milestone Schedule
+      </div>
+      <ul className="space-y-1 text-sm">
+        {milestones.map((milestone, index) => {
+          const percentage = amendment.percentages[index];
+          const deadline = amendment.deadlines[index];
+          return (
+            <li key={index} className="flex items-center justify-between gap-2">
+              <span className="truncate">{index + 1}. {milestone.title}</span>
+              <span className="shrink-0 text-muted-foreground">
+                {percentage !== milestone.percentage && (
+                  <s className="mr-1">{bpsToPercentage(milestone.percentage)}%</s>
+                )}
+                <span className="text-foreground">{bpsToPercentage(percentage)}%</span>
+                {" · "}
+                {deadline !== milestone.deadline && (
+                  <s className="mr-1">{formatMilestoneDeadline(milestone.deadline)}</s>
+                )}
+                <span className="text-foreground">{formatMilestoneDeadline(deadline)}</span>
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
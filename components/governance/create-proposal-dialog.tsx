@@ -3,6 +3,7 @@
 import { useState } from "react";
 import { useActiveAccount, useSendTransaction, useReadContract } from "thirdweb/react";
 import { getContract } from "thirdweb";
+import { isAddress } from "thirdweb/utils";
 import {
   Dialog,
   DialogContent,
@@ -16,25 +17,89 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, Loader2, AlertCircle } from "lucide-react";
 import { toast } from "sonner";
 import { mantleSepolia } from "@/lib/thirdweb/chains";
 import { client } from "@/lib/thirdweb/client";
-import { prepareCreateProposal } from "@/lib/contracts/governance";
+import {
+  prepareCreateActionProposal,
+  prepareCreateAmendmentProposal,
+  prepareCreateProposal,
+} from "@/lib/contracts/governance";
+import { getCampaignMilestones } from "@/lib/contracts/milestones";
+import {
+  ProposalActionType,
+  bpsToPercentage,
+  formatVotingPeriod,
+  getProposalActionLabel,
+  validateMilestoneAmendment,
+  type GovernanceParams,
+  type MilestoneAmendment,
+  type MilestoneData,
+} from "@/lib/contracts/types";
+import { MilestoneAmendmentForm } from "./milestone-amendment-form";
+
+type ProposalKind = "general" | "amendment";
 
 interface CreateProposalDialogProps {
   campaignId: number;
   equityTokenAddress: string;
+  creatorAddress: string;
+  hasMilestones: boolean;
+  /** Campaign's voting period and proposal threshold (null while loading) */
+  governanceParams: GovernanceParams | null;
 }
 
-export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateProposalDialogProps) {
+// GovernanceV2 defaults, for campaigns whose params have not loaded
+const DEFAULT_PROPOSAL_THRESHOLD_BPS = BigInt(100);
+const DEFAULT_VOTING_PERIOD = BigInt(3 * 86400);
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// What each escrow action does once the proposal passes and is executed
+const ACTION_DESCRIPTIONS: Record<ProposalActionType, string> = {
+  [ProposalActionType.None]: "The result is recorded on-chain but nothing changes automatically.",
+  [ProposalActionType.EmergencyRefund]:
+    "Every holder can claim back their share of the unreleased funds. Milestone submissions and releases stop.",
+  [ProposalActionType.ReplacePayoutAddress]:
+    "Released funds go to the new address instead of the creator's wallet.",
+  [ProposalActionType.PauseMilestoneSubmissions]:
+    "The creator cannot submit further milestones until a vote resumes submissions.",
+  [ProposalActionType.ResumeMilestoneSubmissions]: "The creator can submit milestones again.",
+};
+
+// Refunds and submission pauses only exist for milestone campaigns
+const MILESTONE_ONLY_ACTIONS = [
+  ProposalActionType.EmergencyRefund,
+  ProposalActionType.PauseMilestoneSubmissions,
+  ProposalActionType.ResumeMilestoneSubmissions,
+];
+
+export function CreateProposalDialog({
+  campaignId,
+  equityTokenAddress,
+  creatorAddress,
+  hasMilestones,
+  governanceParams,
+}: CreateProposalDialogProps) {
   const account = useActiveAccount();
   const { mutate: sendTx, isPending } = useSendTransaction();
   const [open, setOpen] = useState(false);
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
+  const [kind, setKind] = useState<ProposalKind>("general");
+  const [milestones, setMilestones] = useState<MilestoneData[] | null>(null);
+  const [amendment, setAmendment] = useState<MilestoneAmendment | null>(null);
+  const [actionType, setActionType] = useState<ProposalActionType>(ProposalActionType.None);
+  const [payoutAddress, setPayoutAddress] = useState("");
 
-  // Get token balance and total supply for threshold check
+  // Only the campaign creator can propose milestone amendments
+  const canAmend =
+    hasMilestones && !!account && account.address.toLowerCase() === creatorAddress.toLowerCase();
+  const isAmendment = canAmend && kind === "amendment";
+
+  // Get voting power (own plus delegated tokens) and total supply for threshold check
   const tokenContract = getContract({
     client,
     chain: mantleSepolia,
@@ -43,7 +108,7 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
 
   const { data: tokenBalance } = useReadContract({
     contract: tokenContract,
-    method: "function balanceOf(address) view returns (uint256)",
+    method: "function getVotes(address) view returns (uint256)",
     params: account ? [account.address] : ["0x0000000000000000000000000000000000000000"],
   });
 
@@ -52,17 +117,54 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
     method: "function totalSupply() view returns (uint256)",
   });
 
-  // Check if user has 1% of total supply (minimum threshold)
+  // Check if user meets the campaign's proposal threshold
+  const thresholdBps = governanceParams?.proposalThresholdBps ?? DEFAULT_PROPOSAL_THRESHOLD_BPS;
+  const thresholdPercent = bpsToPercentage(thresholdBps);
   const hasMinimumTokens =
     tokenBalance &&
     totalSupply &&
-    tokenBalance >= (totalSupply * BigInt(1)) / BigInt(100);
+    tokenBalance >= (totalSupply * thresholdBps) / BigInt(10000);
 
   const tokenPercentage =
     tokenBalance && totalSupply && totalSupply > BigInt(0)
       ? Number((tokenBalance * BigInt(10000)) / totalSupply) / 100
       : 0;
 
+  const availableActions = Object.values(ProposalActionType).filter(
+    (action): action is ProposalActionType =>
+      typeof action === "number" && (hasMilestones || !MILESTONE_ONLY_ACTIONS.includes(action))
+  );
+  const replacesPayout = actionType === ProposalActionType.ReplacePayoutAddress;
+  const actionValid =
+    !replacesPayout || (isAddress(payoutAddress) && payoutAddress.toLowerCase() !== ZERO_ADDRESS);
+
+  const amendmentValid =
+    !!milestones && !!amendment && validateMilestoneAmendment(milestones, amendment).length === 0;
+
+  // Start the amendment from the current schedule
+  const selectKind = async (next: ProposalKind) => {
+    setKind(next);
+    if (next !== "amendment" || milestones) return;
+
+    const current = await getCampaignMilestones(campaignId);
+    setMilestones(current);
+    setAmendment({
+      deadlines: current.map((m) => m.deadline),
+      percentages: current.map((m) => m.percentage),
+    });
+  };
+
+  const resetForm = () => {
+    setOpen(false);
+    setTitle("");
+    setDescription("");
+    setKind("general");
+    setMilestones(null);
+    setAmendment(null);
+    setActionType(ProposalActionType.None);
+    setPayoutAddress("");
+  };
+
   const handleSubmit = () => {
     if (!account) {
       toast.error("Please connect your wallet");
@@ -79,19 +181,34 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
       return;
     }
 
-    if (!hasMinimumTokens) {
-      toast.error("You need at least 1% of tokens to create a proposal");
+    if (isAmendment && (!amendment || !amendmentValid)) {
+      toast.error("Please fix the milestone schedule");
+      return;
+    }
+
+    if (!isAmendment && !actionValid) {
+      toast.error("Enter a valid payout address");
+      return;
+    }
+
+    if (!isAmendment && !hasMinimumTokens) {
+      toast.error(`You need at least ${thresholdPercent}% of tokens to create a proposal`);
       return;
     }
 
     try {
-      const tx = prepareCreateProposal(campaignId, title.trim(), description.trim());
+      const tx = isAmendment && amendment
+        ? prepareCreateAmendmentProposal(campaignId, title.trim(), description.trim(), amendment)
+        : actionType !== ProposalActionType.None
+          ? prepareCreateActionProposal(campaignId, title.trim(), description.trim(), {
+              actionType,
+              payoutAddress: replacesPayout ? payoutAddress : ZERO_ADDRESS,
+            })
+          : prepareCreateProposal(campaignId, title.trim(), description.trim());
       sendTx(tx, {
         onSuccess: () => {
           toast.success("Proposal created successfully!");
-          setOpen(false);
-          setTitle("");
-          setDescription("");
+          resetForm();
           // Reload page to show new proposal
           window.location.reload();
         },
@@ -114,24 +231,46 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
           Create Proposal
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[525px]">
+      <DialogContent className="sm:max-w-[525px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Proposal</DialogTitle>
           <DialogDescription>
             Submit a proposal for token holders to vote on.
-            Voting period is 3 days.
+            Voting period is {formatVotingPeriod(governanceParams?.votingPeriod ?? DEFAULT_VOTING_PERIOD)}.
           </DialogDescription>
         </DialogHeader>
 
-        {!hasMinimumTokens && (
+        {canAmend && (
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={kind === "general" ? "default" : "outline"}
+              onClick={() => selectKind("general")}
+              disabled={isPending}
+            >
+              General
+            </Button>
+            <Button
+              type="button"
+              variant={kind === "amendment" ? "default" : "outline"}
+              onClick={() => selectKind("amendment")}
+              disabled={isPending}
+            >
+              Milestone Amendment
+            </Button>
+          </div>
+        )}
+
+        {!isAmendment && !hasMinimumTokens && (
           <div className="flex items-start gap-2 p-3 bg-destructive/10 rounded-md text-sm">
             <AlertCircle className="h-4 w-4 mt-0.5 text-destructive" />
             <div>
               <p className="font-medium text-destructive">Insufficient tokens</p>
               <p className="text-muted-foreground">
-                You need at least 1% of total token supply to create a proposal.
+                You need at least {thresholdPercent}% of total token supply to create a proposal.
+                Tokens you have delegated count for your delegate instead.
                 {tokenPercentage > 0 && (
-                  <> You currently hold {tokenPercentage.toFixed(2)}%.</>
+                  <> You currently vote with {tokenPercentage.toFixed(2)}%.</>
                 )}
               </p>
             </div>
@@ -158,7 +297,11 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
             <Label htmlFor="description">Description</Label>
             <Textarea
               id="description"
-              placeholder="Describe your proposal in detail..."
+              placeholder={
+                isAmendment
+                  ? "Explain why the milestones need to change..."
+                  : "Describe your proposal in detail..."
+              }
               value={description}
               onChange={(e) => setDescription(e.target.value)}
               disabled={isPending}
@@ -169,6 +312,62 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
               {description.length}/1000 characters
             </p>
           </div>
+
+          {!isAmendment && (
+            <div className="space-y-2">
+              <Label>On-chain Action</Label>
+              <Select
+                value={String(actionType)}
+                onValueChange={(v) => setActionType(Number(v) as ProposalActionType)}
+                disabled={isPending}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Action" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableActions.map((action) => (
+                    <SelectItem key={action} value={String(action)}>
+                      {getProposalActionLabel(action)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {ACTION_DESCRIPTIONS[actionType]}
+                {actionType !== ProposalActionType.None && " Runs automatically if the proposal passes."}
+              </p>
+              {replacesPayout && (
+                <Input
+                  placeholder="New payout address (0x...)"
+                  value={payoutAddress}
+                  onChange={(e) => setPayoutAddress(e.target.value.trim())}
+                  disabled={isPending}
+                />
+              )}
+            </div>
+          )}
+
+          {isAmendment && (
+            <div className="space-y-2">
+              <Label>Milestone Schedule</Label>
+              <p className="text-xs text-muted-foreground">
+                Extend deadlines or rebalance percentages of milestones that have not been
+                submitted or released. An expired milestone given a new deadline can be submitted again.
+              </p>
+              {milestones && amendment ? (
+                <MilestoneAmendmentForm
+                  milestones={milestones}
+                  amendment={amendment}
+                  onChange={setAmendment}
+                  disabled={isPending}
+                />
+              ) : (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         <DialogFooter>
@@ -181,7 +380,12 @@ export function CreateProposalDialog({ campaignId, equityTokenAddress }: CreateP
           </Button>
           <Button
             onClick={handleSubmit}
-            disabled={isPending || !hasMinimumTokens || !title.trim() || !description.trim()}
+            disabled={
+              isPending ||
+              (isAmendment ? !amendmentValid : !hasMinimumTokens || !actionValid) ||
+              !title.trim() ||
+              !description.trim()
+            }
           >
             {isPending ? (
               <>
@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { useActiveAccount } from "thirdweb/react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Loader2, UserCheck, Users } from "lucide-react";
+import { toast } from "sonner";
+import {
+  fetchCampaignDelegates,
+  getDelegation,
+  type DelegateInfo,
+  type DelegationRecord,
+} from "@/lib/contracts/equity-token";
+import { useDelegateVotes } from "@/src/presentation/hooks";
+
+interface DelegationPanelProps {
+  campaignId: number;
+  equityTokenAddress: string;
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatVotes(votes: bigint): string {
+  return Number(votes / BigInt(10 ** 18)).toLocaleString();
+}
+
+/**
+ * Lets holders hand their campaign voting power to another address, and lists the top delegates
+ */
+export function DelegationPanel({ campaignId, equityTokenAddress }: DelegationPanelProps) {
+  const account = useActiveAccount();
+  const { delegateVotes, isSending: isPending } = useDelegateVotes(equityTokenAddress);
+  const [delegation, setDelegation] = useState<{ delegate: string; votes: bigint } | null>(null);
+  const [delegates, setDelegates] = useState<DelegateInfo[] | null>(null);
+  const [history, setHistory] = useState<DelegationRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [delegatee, setDelegatee] = useState("");
+
+  const fetchDelegation = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [current, indexed] = await Promise.all([
+        account ? getDelegation(equityTokenAddress, account.address) : null,
+        fetchCampaignDelegates(campaignId, account?.address),
+      ]);
+      setDelegation(current);
+      setDelegates(indexed?.delegates ?? null);
+      setHistory(indexed?.history ?? []);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [account, campaignId, equityTokenAddress]);
+
+  useEffect(() => {
+    fetchDelegation();
+  }, [fetchDelegation]);
+
+  const hasDelegated =
+    !!account && !!delegation && delegation.delegate.toLowerCase() !== account.address.toLowerCase();
+
+  const handleDelegate = async (target: string) => {
+    if (!account) {
+      toast.error("Please connect your wallet");
+      return;
+    }
+
+    const undelegating = target.toLowerCase() === account.address.toLowerCase();
+    try {
+      await delegateVotes(target);
+      toast.success(undelegating ? "Voting power returned to you" : "Voting power delegated");
+      setDelegatee("");
+      fetchDelegation();
+    } catch (error) {
+      console.error("Delegation failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to delegate");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          Delegation
+        </CardTitle>
+        <CardDescription>
+          Let another address vote with your tokens. Delegation applies to proposals created after it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {account && (
+          <div className="space-y-3">
+            {isLoading && !delegation ? (
+              <Skeleton className="h-10 w-full" />
+            ) : (
+              delegation && (
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-muted-foreground">
+                    {hasDelegated
+                      ? `Delegated to ${shortAddress(delegation.delegate)}`
+                      : "Voting with your own tokens"}
+                  </span>
+                  <span className="font-medium">Voting power: {formatVotes(delegation.votes)} tokens</span>
+                </div>
+              )
+            )}
+            <div className="flex gap-2">
+              <Input
+                placeholder="Delegate address (0x...)"
+                value={delegatee}
+                onChange={(e) => setDelegatee(e.target.value.trim())}
+                disabled={isPending}
+              />
+              <Button onClick={() => handleDelegate(delegatee)} disabled={isPending || !delegatee}>
+                {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Delegate"}
+              </Button>
+              {hasDelegated && (
+                <Button variant="outline" onClick={() => handleDelegate(account.address)} disabled={isPending}>
+                  Undelegate
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Top Delegates</h4>
+          {isLoading && !delegates ? (
+            <Skeleton className="h-16 w-full" />
+          ) : !delegates ? (
+            <p className="text-sm text-muted-foreground">Delegate rankings are unavailable right now.</p>
+          ) : delegates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No holder has delegated their votes yet.</p>
+          ) : (
+            <ul className="space-y-1">
+              {delegates.map((delegate, index) => (
+                <li key={delegate.delegate} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2">
+                    <span className="text-muted-foreground">{index + 1}.</span>
+                    <code>{shortAddress(delegate.delegate)}</code>
+                    {account && delegate.delegate.toLowerCase() === account.address.toLowerCase() && (
+                      <Badge variant="outline">You</Badge>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    <span className="text-muted-foreground">
+                      {delegate.delegators} {delegate.delegators === 1 ? "delegator" : "delegators"}
+                    </span>
+                    <span className="font-medium">{formatVotes(delegate.votes)} votes</span>
+                    {account && !isPending && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => handleDelegate(delegate.delegate)}
+                        disabled={delegation?.delegate.toLowerCase() === delegate.delegate.toLowerCase()}
+                      >
+                        <UserCheck className="h-4 w-4 mr-1" />
+                        Delegate
+                      </Button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {history.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Your Delegation History</h4>
+            <ul className="space-y-1 text-sm text-muted-foreground">
+              {history.map((record) => (
+                <li key={`${record.blockNumber}-${record.toDelegate}`} className="flex justify-between gap-2">
+                  <span>
+                    {record.toDelegate.toLowerCase() === record.delegator.toLowerCase()
+                      ? "Took voting power back"
+                      : `Delegated to ${shortAddress(record.toDelegate)}`}
+                  </span>
+                  <span>Block {record.blockNumber.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,12 +1,16 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { useActiveAccount } from "thirdweb/react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Vote, AlertCircle } from "lucide-react";
+import { Vote, AlertCircle, Clock, FileText } from "lucide-react";
 import { ProposalList } from "./proposal-list";
 import { CreateProposalDialog } from "./create-proposal-dialog";
+import { DelegationPanel } from "./delegation-panel";
 import { CampaignData } from "@/lib/contracts/escrow";
+import { getGovernanceParams } from "@/lib/contracts/governance";
+import { bpsToPercentage, formatVotingPeriod, type GovernanceParams } from "@/lib/contracts/types";
 
 // Helper function to compute campaign status (called outside component)
 function computeCampaignStatus(campaign: CampaignData) {
@@ -24,6 +28,19 @@ interface GovernanceTabProps {
 
 export function GovernanceTab({ campaignId, campaign, equityTokenAddress }: GovernanceTabProps) {
   const account = useActiveAccount();
+  const [governanceParams, setGovernanceParams] = useState<GovernanceParams | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getGovernanceParams(campaignId).then((params) => {
+      if (!cancelled) setGovernanceParams(params);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
 
   // Check if campaign is successful (ended and goal reached)
   const { isEnded, isSuccessful } = computeCampaignStatus(campaign);
@@ -80,11 +97,29 @@ export function GovernanceTab({ campaignId, campaign, equityTokenAddress }: Gove
               <CreateProposalDialog
                 campaignId={campaignId}
                 equityTokenAddress={equityTokenAddress}
+                creatorAddress={campaign.creator}
+                hasMilestones={campaign.hasMilestones}
+                governanceParams={governanceParams}
               />
             )}
           </div>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
+          {governanceParams && (
+            <div className="flex flex-wrap gap-x-6 gap-y-2 text-sm">
+              <span className="flex items-center gap-2">
+                <Clock className="h-4 w-4 text-muted-foreground" />
+                Voting period: <span className="font-medium">{formatVotingPeriod(governanceParams.votingPeriod)}</span>
+              </span>
+              <span className="flex items-center gap-2">
+                <FileText className="h-4 w-4 text-muted-foreground" />
+                Proposal threshold:{" "}
+                <span className="font-medium">
+                  {bpsToPercentage(governanceParams.proposalThresholdBps)}% of supply
+                </span>
+              </span>
+            </div>
+          )}
           {!account ? (
             <div className="text-center py-4 text-muted-foreground">
               Connect your wallet to participate in governance
@@ -92,14 +127,20 @@ export function GovernanceTab({ campaignId, campaign, equityTokenAddress }: Gove
           ) : (
             <div className="text-sm text-muted-foreground">
               <p>
-                Voting power is based on your token holdings.
-                You need at least 1% of total supply to create a proposal.
+                Voting power is based on your token holdings plus any tokens delegated to you.
+                Creating a proposal requires voting power of at least the proposal threshold.
               </p>
             </div>
           )}
         </CardContent>
       </Card>
 
+      {/* Delegation */}
+      <DelegationPanel
+        campaignId={campaignId}
+        equityTokenAddress={equityTokenAddress}
+      />
+
       {/* Proposal List */}
       <ProposalList
         campaignId={campaignId}
@@ -0,0 +1,115 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Lock } from "lucide-react";
+import {
+  MILESTONE_AMENDMENT_ERROR_MESSAGES,
+  bpsToPercentage,
+  getMilestoneStatusLabel,
+  isMilestoneAmendable,
+  percentageToBps,
+  validateMilestoneAmendment,
+  type MilestoneAmendment,
+  type MilestoneData,
+} from "@/lib/contracts/types";
+
+interface MilestoneAmendmentFormProps {
+  milestones: MilestoneData[];
+  amendment: MilestoneAmendment;
+  onChange: (amendment: MilestoneAmendment) => void;
+  disabled?: boolean;
+}
+
+const SECONDS_PER_DAY = 86400;
+
+// Date inputs work in whole UTC days; keep the original time of day so unchanged dates round-trip
+function toDateInput(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString().slice(0, 10);
+}
+
+function fromDateInput(value: string, original: bigint): bigint {
+  const day = Math.floor(Date.parse(value) / 1000);
+  return BigInt(day) + (original % BigInt(SECONDS_PER_DAY));
+}
+
+export function MilestoneAmendmentForm({
+  milestones,
+  amendment,
+  onChange,
+  disabled,
+}: MilestoneAmendmentFormProps) {
+  const errors = validateMilestoneAmendment(milestones, amendment);
+  const totalBps = amendment.percentages.reduce((sum, p) => sum + p, BigInt(0));
+
+  const update = (index: number, field: keyof MilestoneAmendment, value: bigint) => {
+    const next = [...amendment[field]];
+    next[index] = value;
+    onChange({ ...amendment, [field]: next });
+  };
+
+  return (
+    <div className="space-y-3">
+      {milestones.map((milestone, index) => {
+        const locked = !isMilestoneAmendable(milestone.status);
+        return (
+          <div key={index} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-medium truncate">
+                {index + 1}. {milestone.title}
+              </span>
+              <Badge variant="outline" className="flex items-center gap-1 shrink-0">
+                {locked && <Lock className="h-3 w-3" />}
+                {getMilestoneStatusLabel(milestone.status)}
+              </Badge>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Fund Percentage (%)</label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={bpsToPercentage(amendment.percentages[index])}
+                  onChange={(e) =>
+                    update(index, "percentages", percentageToBps(parseFloat(e.target.value) || 0))
+                  }
+                  disabled={disabled || locked}
+                />
+              </div>
+              <div className="space-y-1">
+                <label className="text-xs text-muted-foreground">Deadline</label>
+                <Input
+                  type="date"
+                  value={toDateInput(amendment.deadlines[index])}
+                  onChange={(e) =>
+                    e.target.value &&
+                    update(index, "deadlines", fromDateInput(e.target.value, milestone.deadline))
+                  }
+                  disabled={disabled || locked}
+                />
+              </div>
+            </div>
+          </div>
+        );
+      })}
+
+      <div className={`rounded-lg p-3 space-y-1 text-sm ${
+        errors.length === 0
+          ? "bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800"
+          : "bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800"
+      }`}>
+        <div className="flex justify-between">
+          <span className="font-medium">Total Allocation:</span>
+          <span className="font-bold">{bpsToPercentage(totalBps)}%</span>
+        </div>
+        {errors.map((error) => (
+          <p key={error} className="text-red-700 dark:text-red-300">
+            {MILESTONE_AMENDMENT_ERROR_MESSAGES[error]}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
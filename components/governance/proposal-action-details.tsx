@@ -0,0 +1,52 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Zap } from "lucide-react";
+import { getProposalAction } from "@/lib/contracts/governance";
+import {
+  ProposalActionType,
+  getProposalActionLabel,
+  type ProposalAction,
+} from "@/lib/contracts/types";
+
+interface ProposalActionDetailsProps {
+  proposalId: number;
+}
+
+/**
+ * Escrow action a general proposal runs if it passes (renders nothing for signaling proposals)
+ */
+export function ProposalActionDetails({ proposalId }: ProposalActionDetailsProps) {
+  const [action, setAction] = useState<ProposalAction | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getProposalAction(proposalId).then((fetched) => {
+      if (!cancelled) setAction(fetched);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalId]);
+
+  if (!action || action.actionType === ProposalActionType.None) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-lg border p-3 space-y-1">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Zap className="h-4 w-4" />
+        On-chain Action: {getProposalActionLabel(action.actionType)}
+      </div>
+      {action.actionType === ProposalActionType.ReplacePayoutAddress && (
+        <p className="text-sm text-muted-foreground">
+          New payout address: <code>{action.payoutAddress}</code>
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">Runs on the escrow when the passed proposal is executed.</p>
+    </div>
+  );
+}
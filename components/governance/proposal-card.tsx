@@ -3,9 +3,12 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Clock, ThumbsUp, ThumbsDown, CheckCircle, XCircle } from "lucide-react";
+import { Clock, ThumbsUp, ThumbsDown, MinusCircle, CheckCircle, XCircle, Users } from "lucide-react";
 import { VoteButtons } from "./vote-buttons";
+import { AmendmentDetails } from "./amendment-details";
+import { ProposalActionDetails } from "./proposal-action-details";
 import { formatTimeRemaining } from "@/lib/contracts/governance";
+import { ProposalType } from "@/lib/contracts/types";
 
 interface FormattedProposal {
   id: number;
@@ -15,15 +18,21 @@ interface FormattedProposal {
   description: string;
   forVotes: string;
   againstVotes: string;
+  abstainVotes: string;
   totalVotes: string;
+  quorumVotes: string;
+  quorumReached: boolean;
+  quorumPercent: number;
   startTime: Date;
   endTime: Date;
   executed: boolean;
   canceled: boolean;
+  proposalType: number;
   isActive: boolean;
   isEnded: boolean;
   forPercent: number;
   againstPercent: number;
+  abstainPercent: number;
   passed: boolean;
   timeRemaining: number;
 }
@@ -47,6 +56,9 @@ function getStatusBadge(proposal: FormattedProposal) {
     if (proposal.passed) {
       return <Badge className="bg-green-600">Passed</Badge>;
     }
+    if (!proposal.quorumReached) {
+      return <Badge variant="secondary">No Quorum</Badge>;
+    }
     return <Badge variant="secondary">Failed</Badge>;
   }
   return <Badge variant="outline">Pending</Badge>;
@@ -71,8 +83,11 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
       <CardHeader className="pb-3">
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1">
-            <CardTitle className="text-lg font-semibold">
+            <CardTitle className="text-lg font-semibold flex items-center gap-2">
               #{proposal.id}: {proposal.title}
+              {proposal.proposalType === ProposalType.Amendment && (
+                <Badge variant="outline">Amendment</Badge>
+              )}
             </CardTitle>
             <p className="text-sm text-muted-foreground mt-1 line-clamp-2">
               {proposal.description}
@@ -82,6 +97,11 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
         </div>
       </CardHeader>
       <CardContent className="space-y-4">
+        {proposal.proposalType === ProposalType.Amendment && (
+          <AmendmentDetails proposalId={proposal.id} campaignId={Number(proposal.campaignId)} />
+        )}
+        {proposal.proposalType === ProposalType.General && <ProposalActionDetails proposalId={proposal.id} />}
+
         {/* Voting Progress */}
         <div className="space-y-2">
           <div className="flex items-center justify-between text-sm">
@@ -93,6 +113,10 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
               <ThumbsDown className="h-4 w-4 text-red-600" />
               <span>Against: {formatVoteCount(proposal.againstVotes)} ({proposal.againstPercent}%)</span>
             </div>
+            <div className="flex items-center gap-2">
+              <MinusCircle className="h-4 w-4 text-muted-foreground" />
+              <span>Abstain: {formatVoteCount(proposal.abstainVotes)} ({proposal.abstainPercent}%)</span>
+            </div>
           </div>
           <div className="flex gap-1 h-2">
             <Progress
@@ -103,7 +127,32 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
               value={proposal.againstPercent}
               className="flex-1 [&>div]:bg-red-600"
             />
+            <Progress
+              value={proposal.abstainPercent}
+              className="flex-1 [&>div]:bg-muted-foreground"
+            />
+          </div>
+        </div>
+
+        {/* Quorum Progress */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Users className="h-4 w-4" />
+              <span>
+                Quorum: {formatVoteCount(proposal.totalVotes)} / {formatVoteCount(proposal.quorumVotes)} votes
+              </span>
+            </div>
+            {proposal.quorumReached ? (
+              <span className="flex items-center gap-1 text-green-600 font-medium">
+                <CheckCircle className="h-4 w-4" />
+                Reached
+              </span>
+            ) : (
+              <span className="text-muted-foreground">Not reached</span>
+            )}
           </div>
+          <Progress value={proposal.quorumPercent} className="h-1.5" />
         </div>
 
         {/* Time Remaining / Status */}
@@ -128,7 +177,9 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
               ) : (
                 <>
                   <XCircle className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-muted-foreground">Not Passed</span>
+                  <span className="text-muted-foreground">
+                    {proposal.quorumReached ? "Not Passed" : "Quorum Not Reached"}
+                  </span>
                 </>
               )}
             </div>
@@ -145,6 +196,7 @@ export function ProposalCard({ proposal, equityTokenAddress }: ProposalCardProps
           <VoteButtons
             proposalId={proposal.id}
             equityTokenAddress={equityTokenAddress}
+            allowReleaseShare={proposal.proposalType === ProposalType.Milestone}
           />
         )}
 
@@ -7,7 +7,7 @@ import { FileText } from "lucide-react";
 import { ProposalCard } from "./proposal-card";
 import {
   getCampaignProposalsWithDetails,
-  ProposalData,
+  ProposalWithResults,
   formatProposalForDisplay,
 } from "@/lib/contracts/governance";
 
@@ -17,7 +17,7 @@ interface ProposalListProps {
 }
 
 export function ProposalList({ campaignId, equityTokenAddress }: ProposalListProps) {
-  const [proposals, setProposals] = useState<(ProposalData & { id: number })[]>([]);
+  const [proposals, setProposals] = useState<ProposalWithResults[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -1,47 +1,47 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { useActiveAccount, useSendTransaction, useReadContract } from "thirdweb/react";
-import { getContract } from "thirdweb";
+import { useActiveAccount } from "thirdweb/react";
 import { Button } from "@/components/ui/button";
-import { ThumbsUp, ThumbsDown, Play, Loader2, CheckCircle } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { ThumbsUp, ThumbsDown, MinusCircle, Play, Loader2, CheckCircle } from "lucide-react";
 import { toast } from "sonner";
-import { mantleSepolia } from "@/lib/thirdweb/chains";
-import { client } from "@/lib/thirdweb/client";
 import {
-  prepareVote,
-  prepareExecuteProposal,
-  hasAddressVoted,
-  getVoteWeight,
+  createBallot,
+  getBallotTypedData,
+  relayVote,
+  getVote,
+  getVotingPower,
 } from "@/lib/contracts/governance";
+import {
+  VoteType,
+  bpsToPercentage,
+  getVoteTypeLabel,
+  percentageToBps,
+  type VoteRecord,
+} from "@/lib/contracts/types";
+import { useProposalActions } from "@/src/presentation/hooks";
 
 interface VoteButtonsProps {
   proposalId: number;
   equityTokenAddress: string;
   showExecute?: boolean;
+  /** Milestone proposals let a for vote approve only part of the tranche */
+  allowReleaseShare?: boolean;
 }
 
-export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: VoteButtonsProps) {
+export function VoteButtons({ proposalId, showExecute, allowReleaseShare }: VoteButtonsProps) {
   const account = useActiveAccount();
-  const { mutate: sendTx, isPending } = useSendTransaction();
-  const [hasVoted, setHasVoted] = useState(false);
-  const [voteWeight, setVoteWeight] = useState<bigint>(BigInt(0));
+  const { castVote, executeProposal, isSending } = useProposalActions();
+  const [currentVote, setCurrentVote] = useState<VoteRecord | null>(null);
+  const [votingPower, setVotingPower] = useState<bigint>(BigInt(0));
   const [isChecking, setIsChecking] = useState(true);
+  const [releasePercent, setReleasePercent] = useState(100);
+  const [gasless, setGasless] = useState(true);
+  const [isRelaying, setIsRelaying] = useState(false);
+  const isPending = isSending || isRelaying;
 
-  // Get token balance for voting power display
-  const tokenContract = getContract({
-    client,
-    chain: mantleSepolia,
-    address: equityTokenAddress,
-  });
-
-  const { data: tokenBalance } = useReadContract({
-    contract: tokenContract,
-    method: "function balanceOf(address) view returns (uint256)",
-    params: account ? [account.address] : ["0x0000000000000000000000000000000000000000"],
-  });
-
-  // Check if user has already voted
+  // Load the user's current vote and voting power at the proposal snapshot
   useEffect(() => {
     async function checkVoteStatus() {
       if (!account) {
@@ -50,12 +50,16 @@ export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: Vot
       }
 
       try {
-        const voted = await hasAddressVoted(proposalId, account.address);
-        setHasVoted(voted);
-
-        if (voted) {
-          const weight = await getVoteWeight(proposalId, account.address);
-          setVoteWeight(weight);
+        const vote = await getVote(proposalId, account.address);
+        if (vote?.voted) {
+          setCurrentVote(vote);
+          setVotingPower(vote.weight);
+          if (vote.support === VoteType.For) {
+            setReleasePercent(bpsToPercentage(vote.releaseBps));
+          }
+        } else {
+          const power = await getVotingPower(proposalId, account.address);
+          setVotingPower(power);
         }
       } catch (error) {
         console.error("Error checking vote status:", error);
@@ -67,55 +71,89 @@ export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: Vot
     checkVoteStatus();
   }, [account, proposalId]);
 
-  const handleVote = (support: boolean) => {
+  // Release share a for vote would approve with the current input
+  const releaseBpsFor = (support: VoteType) =>
+    allowReleaseShare && support === VoteType.For ? percentageToBps(releasePercent) : BigInt(10000);
+
+  const isCurrentChoice = (support: VoteType) =>
+    !!currentVote &&
+    currentVote.support === support &&
+    (support !== VoteType.For || currentVote.releaseBps === releaseBpsFor(support));
+
+  const recordVote = (support: VoteType, releaseBps: bigint) => {
+    toast.success(
+      currentVote
+        ? `Vote changed to ${getVoteTypeLabel(support)}`
+        : `Vote ${getVoteTypeLabel(support)} submitted!`
+    );
+    setCurrentVote({
+      voted: true,
+      support,
+      weight: votingPower,
+      releaseBps: support === VoteType.For ? releaseBps : BigInt(0),
+    });
+  };
+
+  const handleVote = async (support: VoteType) => {
     if (!account) {
       toast.error("Please connect your wallet");
       return;
     }
 
-    if (!tokenBalance || tokenBalance === BigInt(0)) {
-      toast.error("You need tokens to vote");
+    if (votingPower === BigInt(0)) {
+      toast.error("You had no voting power when this proposal was created");
+      return;
+    }
+
+    const releaseBps = releaseBpsFor(support);
+    if (gasless) {
+      handleSignedVote(support, releaseBps);
       return;
     }
 
     try {
-      const tx = prepareVote(proposalId, support);
-      sendTx(tx, {
-        onSuccess: () => {
-          toast.success(`Vote ${support ? "For" : "Against"} submitted!`);
-          setHasVoted(true);
-        },
-        onError: (error) => {
-          console.error("Vote failed:", error);
-          toast.error(error.message || "Failed to submit vote");
-        },
+      await castVote({
+        proposalId,
+        support,
+        releaseBps: support === VoteType.For ? releaseBps : undefined,
       });
+      recordVote(support, releaseBps);
+    } catch (error) {
+      console.error("Vote failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit vote");
+    }
+  };
+
+  // Sign the ballot and let the relayer pay the gas
+  const handleSignedVote = async (support: VoteType, releaseBps: bigint) => {
+    if (!account) return;
+
+    setIsRelaying(true);
+    try {
+      const ballot = await createBallot(proposalId, support, account.address, releaseBps);
+      const signature = await account.signTypedData(getBallotTypedData(ballot));
+      await relayVote(ballot, signature);
+      recordVote(support, releaseBps);
     } catch (error) {
-      console.error("Error preparing vote:", error);
-      toast.error("Failed to prepare vote transaction");
+      console.error("Signed vote failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit vote");
+    } finally {
+      setIsRelaying(false);
     }
   };
 
-  const handleExecute = () => {
+  const handleExecute = async () => {
     if (!account) {
       toast.error("Please connect your wallet");
       return;
     }
 
     try {
-      const tx = prepareExecuteProposal(proposalId);
-      sendTx(tx, {
-        onSuccess: () => {
-          toast.success("Proposal executed successfully!");
-        },
-        onError: (error) => {
-          console.error("Execute failed:", error);
-          toast.error(error.message || "Failed to execute proposal");
-        },
-      });
+      await executeProposal(proposalId);
+      toast.success("Proposal executed successfully!");
     } catch (error) {
-      console.error("Error preparing execute:", error);
-      toast.error("Failed to prepare execution transaction");
+      console.error("Execute failed:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to execute proposal");
     }
   };
 
@@ -159,34 +197,67 @@ export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: Vot
     );
   }
 
-  // User has already voted
-  if (hasVoted) {
-    const formattedWeight = Number(voteWeight / BigInt(10 ** 18)).toLocaleString();
-    return (
-      <div className="flex items-center justify-center gap-2 py-2 text-sm text-muted-foreground">
-        <CheckCircle className="h-4 w-4 text-green-600" />
-        <span>You voted with {formattedWeight} tokens</span>
-      </div>
-    );
-  }
-
-  // Check if user has tokens
-  const hasTokens = tokenBalance && tokenBalance > BigInt(0);
-  const formattedBalance = tokenBalance
-    ? Number(tokenBalance / BigInt(10 ** 18)).toLocaleString()
-    : "0";
+  // Check if user held tokens at the proposal snapshot
+  const hasTokens = votingPower > BigInt(0);
+  const formattedBalance = Number(votingPower / BigInt(10 ** 18)).toLocaleString();
 
   return (
     <div className="space-y-2">
-      {hasTokens && (
-        <div className="text-center text-xs text-muted-foreground">
-          Your voting power: {formattedBalance} tokens
+      {currentVote ? (
+        <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <CheckCircle className="h-4 w-4 text-green-600" />
+          <span>
+            You voted {getVoteTypeLabel(currentVote.support)} with {formattedBalance} tokens
+            {currentVote.support === VoteType.For && currentVote.releaseBps < BigInt(10000) &&
+              ` (${bpsToPercentage(currentVote.releaseBps)}% of tranche)`}
+            . You can change your vote until voting ends.
+          </span>
+        </div>
+      ) : (
+        hasTokens && (
+          <div className="text-center text-xs text-muted-foreground">
+            Your voting power: {formattedBalance} tokens
+          </div>
+        )
+      )}
+      {allowReleaseShare && hasTokens && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <label htmlFor={`release-share-${proposalId}`} className="text-muted-foreground">
+            Approve release of
+          </label>
+          <div className="flex items-center gap-1">
+            <Input
+              id={`release-share-${proposalId}`}
+              type="number"
+              min="1"
+              max="100"
+              step="1"
+              value={releasePercent}
+              onChange={(e) =>
+                setReleasePercent(Math.min(100, Math.max(1, Math.round(Number(e.target.value) || 1))))
+              }
+              disabled={isPending}
+              className="h-8 w-20"
+            />
+            <span className="text-muted-foreground">% of tranche</span>
+          </div>
         </div>
       )}
+      {hasTokens && (
+        <label className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          <input
+            type="checkbox"
+            checked={gasless}
+            onChange={(e) => setGasless(e.target.checked)}
+            disabled={isPending}
+          />
+          Vote with a signature (no gas fee)
+        </label>
+      )}
       <div className="flex gap-2">
         <Button
-          onClick={() => handleVote(true)}
-          disabled={isPending || !hasTokens}
+          onClick={() => handleVote(VoteType.For)}
+          disabled={isPending || !hasTokens || isCurrentChoice(VoteType.For)}
           className="flex-1 bg-green-600 hover:bg-green-700"
         >
           {isPending ? (
@@ -199,8 +270,8 @@ export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: Vot
           )}
         </Button>
         <Button
-          onClick={() => handleVote(false)}
-          disabled={isPending || !hasTokens}
+          onClick={() => handleVote(VoteType.Against)}
+          disabled={isPending || !hasTokens || isCurrentChoice(VoteType.Against)}
           variant="destructive"
           className="flex-1"
         >
@@ -213,10 +284,26 @@ export function VoteButtons({ proposalId, equityTokenAddress, showExecute }: Vot
             </>
           )}
         </Button>
+        <Button
+          onClick={() => handleVote(VoteType.Abstain)}
+          disabled={isPending || !hasTokens || isCurrentChoice(VoteType.Abstain)}
+          variant="outline"
+          className="flex-1"
+        >
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <>
+              <MinusCircle className="h-4 w-4 mr-2" />
+              Abstain
+            </>
+          )}
+        </Button>
       </div>
       {!hasTokens && (
         <div className="text-center text-xs text-muted-foreground">
-          You need tokens to vote on proposals
+          Only tokens held when the proposal was created can vote, and delegated tokens vote through
+          your delegate
         </div>
       )}
     </div>
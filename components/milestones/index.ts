@@ -1,4 +1,5 @@
 // Milestone components
 export { MilestoneCard } from "./milestone-card";
+export { MilestoneFormStep } from "./milestone-form-step";
 export { MilestoneProgressCard } from "./milestone-progress-card";
 export { MilestoneTab } from "./milestone-tab";
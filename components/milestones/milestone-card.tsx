@@ -9,12 +9,19 @@ import {
   CheckCircle,
   XCircle,
   AlertCircle,
-  Send,
   DollarSign,
   Vote,
   Loader2,
+  TimerOff,
+  Hourglass,
+  ShieldAlert,
 } from "lucide-react";
-import { MilestoneStatus } from "@/lib/contracts/types";
+import { HOLDER_VETO_BPS, MilestoneStatus } from "@/lib/contracts/types";
+import { EMPTY_METADATA_HASH } from "@/lib/metadata";
+import { VoteButtons } from "@/components/governance/vote-buttons";
+import type { MilestoneEvidenceInput } from "@/src/presentation/hooks/useMilestones";
+import { MilestoneEvidence } from "./milestone-evidence";
+import { SubmitEvidenceDialog } from "./submit-evidence-dialog";
 
 interface MilestoneCardProps {
   index: number;
@@ -26,13 +33,23 @@ interface MilestoneCardProps {
   daysRemaining: number;
   status: MilestoneStatus;
   proposalId?: number;
+  evidenceHash: string;
+  equityTokenAddress: string;
   isCreator: boolean;
   canSubmit: boolean;
   canRelease: boolean;
+  canCancel?: boolean;
+  canVeto?: boolean;
+  isGuardian?: boolean;
+  isReleaseLocked?: boolean;
   isSubmitting: boolean;
   isReleasing: boolean;
-  onSubmit: () => void;
+  isCanceling?: boolean;
+  isVetoing?: boolean;
+  onSubmit: (evidence: MilestoneEvidenceInput) => Promise<boolean>;
   onRelease: () => void;
+  onCancel?: () => void;
+  onVeto?: () => void;
   onViewProposal?: () => void;
 }
 
@@ -73,6 +90,13 @@ function getStatusBadge(status: MilestoneStatus) {
           Released
         </Badge>
       );
+    case MilestoneStatus.Expired:
+      return (
+        <Badge className="bg-orange-600 flex items-center gap-1">
+          <TimerOff className="h-3 w-3" />
+          Expired
+        </Badge>
+      );
     default:
       return <Badge variant="secondary">Unknown</Badge>;
   }
@@ -90,6 +114,8 @@ function getStatusColor(status: MilestoneStatus) {
       return "border-l-red-500";
     case MilestoneStatus.Released:
       return "border-l-emerald-500";
+    case MilestoneStatus.Expired:
+      return "border-l-orange-500";
     default:
       return "border-l-gray-400";
   }
@@ -105,16 +131,27 @@ export function MilestoneCard({
   daysRemaining,
   status,
   proposalId,
+  evidenceHash,
+  equityTokenAddress,
   isCreator,
   canSubmit,
   canRelease,
+  canCancel,
+  canVeto,
+  isGuardian,
+  isReleaseLocked,
   isSubmitting,
   isReleasing,
+  isCanceling,
+  isVetoing,
   onSubmit,
   onRelease,
+  onCancel,
+  onVeto,
   onViewProposal,
 }: MilestoneCardProps) {
   const isDeadlinePassed = daysRemaining <= 0;
+  const hasEvidence = evidenceHash.toLowerCase() !== EMPTY_METADATA_HASH;
 
   return (
     <Card className={`border-l-4 ${getStatusColor(status)}`}>
@@ -184,25 +221,71 @@ export function MilestoneCard({
           </div>
         )}
 
+        {/* Evidence from the latest submission, reviewed alongside the vote */}
+        {hasEvidence && <MilestoneEvidence evidenceHash={evidenceHash} />}
+
+        {status === MilestoneStatus.Voting && proposalId && (
+          <VoteButtons proposalId={proposalId} equityTokenAddress={equityTokenAddress} allowReleaseShare />
+        )}
+
+        {/* Release timelock - the approval can still be vetoed on evidence of fraud */}
+        {status === MilestoneStatus.Approved && isReleaseLocked && (
+          <div className="space-y-2 p-3 bg-amber-50 dark:bg-amber-950 rounded-lg">
+            <div className="flex items-center gap-2">
+              <Hourglass className="h-4 w-4 text-amber-600" />
+              <span className="text-sm text-amber-700 dark:text-amber-300">
+                Funds are time-locked before release. The platform guardian or holders of{" "}
+                {HOLDER_VETO_BPS / 100}% of the tokens can veto the release until then.
+              </span>
+            </div>
+            {canVeto && onVeto && (
+              <Button
+                onClick={onVeto}
+                disabled={isVetoing}
+                variant="outline"
+                size="sm"
+                className="w-full border-red-300 text-red-700 hover:bg-red-50"
+              >
+                {isVetoing ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <ShieldAlert className="mr-2 h-4 w-4" />
+                )}
+                {isGuardian ? "Veto Release" : "Join Veto"}
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Action Buttons - Creator only */}
         {isCreator && (
           <div className="flex gap-2">
             {/* Submit for Approval Button */}
             {canSubmit && status === MilestoneStatus.Pending && (
+              <SubmitEvidenceDialog
+                milestoneTitle={title}
+                isSubmitting={isSubmitting}
+                onSubmit={onSubmit}
+              />
+            )}
+
+            {/* Cancel Submission Button */}
+            {canCancel && onCancel && status === MilestoneStatus.Voting && (
               <Button
-                onClick={onSubmit}
-                disabled={isSubmitting}
+                onClick={onCancel}
+                disabled={isCanceling}
+                variant="outline"
                 className="flex-1"
               >
-                {isSubmitting ? (
+                {isCanceling ? (
                   <>
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    Submitting...
+                    Canceling...
                   </>
                 ) : (
                   <>
-                    <Send className="mr-2 h-4 w-4" />
-                    Submit for Approval
+                    <XCircle className="mr-2 h-4 w-4" />
+                    Cancel Submission
                   </>
                 )}
               </Button>
@@ -242,6 +325,15 @@ export function MilestoneCard({
           </div>
         )}
 
+        {status === MilestoneStatus.Expired && (
+          <div className="flex items-center gap-2 p-3 bg-orange-50 dark:bg-orange-950 rounded-lg">
+            <TimerOff className="h-4 w-4 text-orange-600" />
+            <span className="text-sm text-orange-700 dark:text-orange-300">
+              The deadline passed before this milestone was submitted. Emergency refund is available.
+            </span>
+          </div>
+        )}
+
         {status === MilestoneStatus.Released && (
           <div className="flex items-center gap-2 p-3 bg-emerald-50 dark:bg-emerald-950 rounded-lg">
             <CheckCircle className="h-4 w-4 text-emerald-600" />
@@ -0,0 +1,103 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ExternalLink, FileCheck, ShieldAlert, ShieldCheck } from "lucide-react";
+import { fetchMilestoneEvidence, type MilestoneEvidenceResult } from "@/lib/metadata";
+
+interface MilestoneEvidenceProps {
+  evidenceHash: string;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${bytes} B`;
+}
+
+export function MilestoneEvidence({ evidenceHash }: MilestoneEvidenceProps) {
+  const [result, setResult] = useState<MilestoneEvidenceResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchMilestoneEvidence(evidenceHash).then((fetched) => {
+      if (!cancelled) setResult(fetched);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [evidenceHash]);
+
+  if (!result) {
+    return <Skeleton className="h-24 w-full" />;
+  }
+
+  if (result.status === "none") {
+    return null;
+  }
+
+  if (result.status !== "verified") {
+    return (
+      <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-950 rounded-lg">
+        <ShieldAlert className="h-4 w-4 text-red-600" />
+        <span className="text-sm text-red-700 dark:text-red-300">
+          {result.status === "mismatch"
+            ? "The stored evidence does not match the hash recorded on-chain."
+            : "The evidence for this milestone could not be loaded."}
+        </span>
+      </div>
+    );
+  }
+
+  const { report, links, files } = result.evidence;
+
+  return (
+    <div className="rounded-lg border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Submitted Evidence</span>
+        <Badge variant="outline" className="flex items-center gap-1 text-green-700">
+          <ShieldCheck className="h-3 w-3" />
+          Verified
+        </Badge>
+      </div>
+
+      {report && <p className="text-sm whitespace-pre-wrap">{report}</p>}
+
+      {links.length > 0 && (
+        <ul className="space-y-1">
+          {links.map((link, index) => (
+            <li key={index}>
+              <a
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-sm text-primary hover:underline"
+              >
+                <ExternalLink className="h-3 w-3" />
+                {link.label}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map((file, index) => (
+            <li key={index} className="flex items-center gap-2 text-sm">
+              <FileCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+              <span className="truncate">{file.name}</span>
+              <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+              <code className="ml-auto text-xs text-muted-foreground" title={file.sha256}>
+                SHA-256 {file.sha256.slice(2, 14)}...
+              </code>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
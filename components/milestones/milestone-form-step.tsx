@@ -0,0 +1,238 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, GripVertical, Plus, Trash2 } from "lucide-react";
+import { MILESTONE_TEMPLATES } from "@/lib/constants/milestone-templates";
+import {
+  MAX_MILESTONES,
+  MILESTONE_SCHEDULE_ERROR_MESSAGES,
+  validateMilestoneSchedule,
+  type MilestoneInput,
+} from "@/lib/contracts/types";
+
+interface MilestoneFormStepProps {
+  milestones: MilestoneInput[];
+  onChange: (milestones: MilestoneInput[]) => void;
+}
+
+// Move an item to a new position, shifting the ones in between
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+}
+
+export function MilestoneFormStep({ milestones, onChange }: MilestoneFormStepProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const errors = validateMilestoneSchedule(milestones);
+  const totalPercentage = milestones.reduce((sum, m) => sum + m.percentage, 0);
+
+  const updateMilestone = (index: number, field: keyof MilestoneInput, value: string | number) => {
+    const next = [...milestones];
+    next[index] = { ...next[index], [field]: value };
+    onChange(next);
+  };
+
+  const addMilestone = () => {
+    const lastDeadline = milestones[milestones.length - 1]?.deadlineDays ?? 0;
+    onChange([
+      ...milestones,
+      { title: "", description: "", percentage: 0, deadlineDays: lastDeadline + 30 },
+    ]);
+  };
+
+  const removeMilestone = (index: number) => {
+    onChange(milestones.filter((_, i) => i !== index));
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveItem(milestones, dragIndex, index));
+    }
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Templates */}
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Start from a template</label>
+        <div className="grid grid-cols-3 gap-3">
+          {MILESTONE_TEMPLATES.map((template) => (
+            <button
+              key={template.id}
+              type="button"
+              onClick={() => onChange(template.milestones.map((m) => ({ ...m })))}
+              className="rounded-lg border p-3 text-left transition-colors hover:border-primary hover:bg-primary/5"
+            >
+              <div className="text-xl">{template.icon}</div>
+              <div className="text-sm font-medium mt-1">{template.label}</div>
+              <div className="text-xs text-muted-foreground">
+                {template.milestones.length} milestones · {template.description}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Milestones */}
+      <div className="space-y-4">
+        {milestones.map((milestone, index) => {
+          const deadlineOutOfOrder = index > 0 && milestone.deadlineDays <= milestones[index - 1].deadlineDays;
+          return (
+            <div
+              key={index}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`rounded-lg border p-4 space-y-3 ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" />
+                  <span className="text-sm font-medium text-primary">
+                    Milestone {index + 1}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <span className="text-sm text-muted-foreground mr-2">
+                    {milestone.percentage}% of funds
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => onChange(moveItem(milestones, index, index - 1))}
+                    aria-label="Move milestone up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === milestones.length - 1}
+                    onClick={() => onChange(moveItem(milestones, index, index + 1))}
+                    aria-label="Move milestone down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={milestones.length === 1}
+                    onClick={() => removeMilestone(index)}
+                    aria-label="Remove milestone"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Input
+                  placeholder="Milestone title"
+                  value={milestone.title}
+                  onChange={(e) => updateMilestone(index, "title", e.target.value)}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <textarea
+                  className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  placeholder="Describe what you will deliver for this milestone"
+                  value={milestone.description}
+                  onChange={(e) => updateMilestone(index, "description", e.target.value)}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-xs text-muted-foreground">
+                    Fund Percentage (%)
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={milestone.percentage}
+                    onChange={(e) =>
+                      updateMilestone(index, "percentage", parseInt(e.target.value) || 0)
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-xs text-muted-foreground">
+                    Deadline (days after funding)
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={milestone.deadlineDays}
+                    className={deadlineOutOfOrder ? "border-red-500" : undefined}
+                    onChange={(e) =>
+                      updateMilestone(index, "deadlineDays", parseInt(e.target.value) || 0)
+                    }
+                  />
+                  {deadlineOutOfOrder && (
+                    <p className="text-xs text-red-600">
+                      Must be after day {milestones[index - 1].deadlineDays}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={addMilestone}
+        disabled={milestones.length >= MAX_MILESTONES}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Milestone ({milestones.length}/{MAX_MILESTONES})
+      </Button>
+
+      {/* Live validation */}
+      <div className={`rounded-lg p-4 space-y-1 ${
+        errors.length === 0
+          ? "bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-800"
+          : "bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-800"
+      }`}>
+        <div className="flex justify-between items-center">
+          <span className="text-sm font-medium">Total Allocation:</span>
+          <span className={`font-bold ${
+            totalPercentage === 100
+              ? "text-green-700 dark:text-green-300"
+              : "text-red-700 dark:text-red-300"
+          }`}>
+            {totalPercentage}%
+            {totalPercentage !== 100 && " (must equal 100%)"}
+          </span>
+        </div>
+        {errors
+          .filter((error) => error !== "PercentagesMustSumTo100")
+          .map((error) => (
+            <p key={error} className="text-sm text-red-700 dark:text-red-300">
+              {MILESTONE_SCHEDULE_ERROR_MESSAGES[error]}
+            </p>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import {
@@ -9,14 +10,18 @@ import {
   Vote,
   XCircle,
   DollarSign,
+  TimerOff,
+  Hourglass,
 } from "lucide-react";
 import { MilestoneStatus } from "@/lib/contracts/types";
+import { formatTimeRemaining } from "@/lib/contracts/governance";
 
 interface MilestoneProgressCardProps {
   milestones: Array<{
     title: string;
     status: MilestoneStatus;
     percentage: number;
+    unlockAt?: number; // Unix timestamp the approved funds can be released from
   }>;
   releasedAmount: string;
   totalAmount: string;
@@ -51,6 +56,12 @@ function getStatusIcon(status: MilestoneStatus, isActive: boolean) {
           <XCircle className={`${baseClass} text-white`} />
         </div>
       );
+    case MilestoneStatus.Expired:
+      return (
+        <div className={`rounded-full bg-orange-600 p-1 ${isActive ? 'ring-4 ring-orange-200 dark:ring-orange-900' : ''}`}>
+          <TimerOff className={`${baseClass} text-white`} />
+        </div>
+      );
     case MilestoneStatus.Pending:
     default:
       return (
@@ -77,6 +88,8 @@ function getStatusLabel(status: MilestoneStatus): string {
       return "Rejected";
     case MilestoneStatus.Released:
       return "Released";
+    case MilestoneStatus.Expired:
+      return "Expired";
     default:
       return "Unknown";
   }
@@ -92,6 +105,9 @@ function getConnectorColor(status: MilestoneStatus) {
   if (status === MilestoneStatus.Rejected) {
     return "bg-red-500";
   }
+  if (status === MilestoneStatus.Expired) {
+    return "bg-orange-500";
+  }
   return "bg-gray-300 dark:bg-gray-600";
 }
 
@@ -101,6 +117,20 @@ export function MilestoneProgressCard({
   totalAmount,
   releasedPercent,
 }: MilestoneProgressCardProps) {
+  // Tick so pending-release countdowns stay current
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const pendingReleases = milestones
+    .map((m, index) => ({ index, status: m.status, unlockAt: m.unlockAt ?? 0 }))
+    .filter((m) => m.status === MilestoneStatus.Approved && m.unlockAt > now);
+  const hasPendingRelease = pendingReleases.length > 0;
+
+  useEffect(() => {
+    if (!hasPendingRelease) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 30000);
+    return () => clearInterval(interval);
+  }, [hasPendingRelease]);
+
   // Find the first non-released milestone (active one)
   const activeIndex = milestones.findIndex(
     (m) => m.status !== MilestoneStatus.Released
@@ -161,6 +191,12 @@ export function MilestoneProgressCard({
                     >
                       {getStatusLabel(milestone.status)}
                     </p>
+                    {milestone.status === MilestoneStatus.Approved &&
+                      (milestone.unlockAt ?? 0) > now && (
+                        <p className="text-xs text-amber-600">
+                          {formatTimeRemaining((milestone.unlockAt ?? 0) - now)}
+                        </p>
+                      )}
                   </div>
                 </div>
               );
@@ -168,6 +204,22 @@ export function MilestoneProgressCard({
           </div>
         </div>
 
+        {/* Pending release countdown - funds stay locked while the release can be vetoed */}
+        {pendingReleases.map((m) => (
+          <div
+            key={m.index}
+            className="flex items-center justify-between gap-2 p-3 rounded-lg bg-amber-50 dark:bg-amber-950 text-sm"
+          >
+            <div className="flex items-center gap-2 text-amber-700 dark:text-amber-300">
+              <Hourglass className="h-4 w-4" />
+              <span>M{m.index + 1} release pending (veto window open)</span>
+            </div>
+            <span className="font-medium text-amber-700 dark:text-amber-300">
+              {formatTimeRemaining(m.unlockAt - now)}
+            </span>
+          </div>
+        ))}
+
         {/* Released Amount Summary */}
         <div className="space-y-2">
           <div className="flex justify-between text-sm">
@@ -205,6 +257,10 @@ export function MilestoneProgressCard({
             <div className="w-3 h-3 rounded-full bg-red-600" />
             <span>Rejected</span>
           </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-full bg-orange-600" />
+            <span>Expired</span>
+          </div>
         </div>
       </CardContent>
     </Card>
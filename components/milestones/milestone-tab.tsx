@@ -5,16 +5,24 @@ import { useActiveAccount } from "thirdweb/react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { AlertTriangle, RefreshCw, Loader2 } from "lucide-react";
+import { AlertTriangle, RefreshCw, Loader2, PauseCircle, Wallet } from "lucide-react";
 import { MilestoneCard } from "./milestone-card";
 import { MilestoneProgressCard } from "./milestone-progress-card";
 import {
   useMilestones,
   useSubmitMilestone,
   useReleaseMilestoneFunds,
+  useAutoRelease,
+  useReleaseVeto,
   useEmergencyRefund,
 } from "@/src/presentation/hooks/useMilestones";
-import { MilestoneStatus } from "@/lib/contracts/types";
+import {
+  MilestoneStatus,
+  isMilestoneDeadlinePassed,
+  isMilestoneFailed,
+  getReleaseSecondsRemaining,
+} from "@/lib/contracts/types";
+import type { MilestoneEvidenceInput } from "@/src/presentation/hooks/useMilestones";
 import { toast } from "sonner";
 
 interface MilestoneTabProps {
@@ -32,6 +40,8 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
     isLoading,
     campaign,
     milestones,
+    releaseWindows,
+    controls,
     progress,
     error,
     refetch,
@@ -42,8 +52,13 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
     formatAmount,
   } = useMilestones(campaignId);
 
-  const { isSubmitting, submitMilestone, error: submitError } =
-    useSubmitMilestone(campaignId);
+  const {
+    isSubmitting,
+    isCanceling,
+    submitMilestone,
+    cancelSubmission,
+    error: submitError,
+  } = useSubmitMilestone(campaignId);
 
   const {
     isReleasing,
@@ -51,10 +66,24 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
     error: releaseError,
   } = useReleaseMilestoneFunds(campaignId);
 
+  const {
+    enabled: autoReleaseEnabled,
+    isUpdating: isUpdatingAutoRelease,
+    setAutoRelease,
+    error: autoReleaseError,
+  } = useAutoRelease(campaignId);
+
+  const {
+    isGuardian,
+    isVetoing,
+    vetoRelease,
+    error: vetoError,
+  } = useReleaseVeto(campaignId);
+
   const {
     isRefunding,
     canRefund,
-    pledgeAmount,
+    refundAmount,
     checkEligibility: checkRefundEligibility,
     requestRefund,
     formatAmount: formatRefundAmount,
@@ -64,29 +93,41 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
   // Check refund eligibility when milestones load
   useEffect(() => {
     if (milestones.length > 0 && account?.address) {
-      const hasRejected = milestones.some(
-        (m) => m.status === MilestoneStatus.Rejected
-      );
-      if (hasRejected) {
+      const allReleased = milestones.every((m) => m.status === MilestoneStatus.Released);
+      if (milestones.some(isMilestoneFailed) || allReleased || controls?.refundsEnabled) {
         checkRefundEligibility();
       }
     }
-  }, [milestones, account?.address, checkRefundEligibility]);
+  }, [milestones, controls?.refundsEnabled, account?.address, checkRefundEligibility]);
 
   // Handlers
   const handleSubmit = useCallback(
-    async (index: number) => {
-      const success = await submitMilestone(index);
+    async (index: number, evidence: MilestoneEvidenceInput) => {
+      const success = await submitMilestone(index, evidence);
       if (success) {
         toast.success("Milestone submitted for approval!");
         refetch();
       } else if (submitError) {
         toast.error(submitError);
       }
+      return success;
     },
     [submitMilestone, submitError, refetch]
   );
 
+  const handleCancel = useCallback(
+    async (proposalId: number) => {
+      const success = await cancelSubmission(proposalId);
+      if (success) {
+        toast.success("Submission canceled. The milestone can be resubmitted.");
+        refetch();
+      } else if (submitError) {
+        toast.error(submitError);
+      }
+    },
+    [cancelSubmission, submitError, refetch]
+  );
+
   const handleRelease = useCallback(
     async (index: number) => {
       const success = await releaseFunds(index);
@@ -100,6 +141,31 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
     [releaseFunds, releaseError, refetch]
   );
 
+  const handleAutoReleaseChange = useCallback(
+    async (enabled: boolean) => {
+      const success = await setAutoRelease(enabled);
+      if (success) {
+        toast.success(enabled ? "Auto-release enabled" : "Auto-release disabled");
+      } else if (autoReleaseError) {
+        toast.error(autoReleaseError);
+      }
+    },
+    [setAutoRelease, autoReleaseError]
+  );
+
+  const handleVeto = useCallback(
+    async (index: number) => {
+      const success = await vetoRelease(index);
+      if (success) {
+        toast.success(isGuardian ? "Release vetoed" : "Your veto has been recorded");
+        refetch();
+      } else if (vetoError) {
+        toast.error(vetoError);
+      }
+    },
+    [vetoRelease, isGuardian, vetoError, refetch]
+  );
+
   const handleEmergencyRefund = useCallback(async () => {
     const success = await requestRefund();
     if (success) {
@@ -160,10 +226,11 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
     <div className="space-y-6">
       {/* Progress Overview */}
       <MilestoneProgressCard
-        milestones={milestones.map((m) => ({
+        milestones={milestones.map((m, i) => ({
           title: m.title,
           status: m.status,
           percentage: getMilestonePercentage(m),
+          unlockAt: releaseWindows[i] ? Number(releaseWindows[i]?.unlockAt) : undefined,
         }))}
         releasedAmount={formatAmount(progress.releasedAmount)}
         totalAmount={formatAmount(campaign.pledged)}
@@ -180,8 +247,14 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
                 Emergency Refund Available
               </p>
               <p className="text-sm text-red-600 dark:text-red-400">
-                A milestone was rejected. You can claim your refund of{" "}
-                {formatRefundAmount(pledgeAmount)} MNT.
+                {milestones.some(isMilestoneFailed)
+                  ? "A milestone was rejected or missed its deadline."
+                  : controls?.refundsEnabled
+                    ? "Token holders voted to refund the remaining funds."
+                    : "Part of the funds was withheld when milestones were approved."}{" "}
+                You can claim your refund of{" "}
+                {formatRefundAmount(refundAmount)} MNT. Any equity tokens you
+                claimed for this pledge will be burned.
               </p>
             </div>
             <Button
@@ -202,6 +275,48 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
         </Alert>
       )}
 
+      {/* Governance actions affecting the creator */}
+      {controls?.submissionsPaused && !controls.refundsEnabled && (
+        <Alert>
+          <PauseCircle className="h-4 w-4" />
+          <AlertDescription>
+            Token holders voted to pause milestone submissions. A new vote can resume them.
+          </AlertDescription>
+        </Alert>
+      )}
+      {controls && controls.payoutAddress.toLowerCase() !== creatorAddress?.toLowerCase() && (
+        <Alert>
+          <Wallet className="h-4 w-4" />
+          <AlertDescription>
+            Token holders voted to send released funds to{" "}
+            <code>{controls.payoutAddress}</code> instead of the creator.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Auto-release - Creator only */}
+      {isCreator && (
+        <div className="flex items-center justify-between rounded-lg border p-4">
+          <div>
+            <h4 className="font-medium">Release Funds on Approval</h4>
+            <p className="text-sm text-muted-foreground">
+              Transfer a milestone&apos;s approved funds when its proposal is executed,
+              without a separate release transaction
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={autoReleaseEnabled}
+              onChange={(e) => handleAutoReleaseChange(e.target.checked)}
+              disabled={isUpdatingAutoRelease}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-muted peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-primary rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary"></div>
+          </label>
+        </div>
+      )}
+
       {/* Milestone Cards */}
       <div className="space-y-4">
         <div className="flex items-center justify-between">
@@ -215,12 +330,32 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
         {milestones.map((milestone, index) => {
           const canSubmit =
             isCreator &&
+            !controls?.submissionsPaused &&
+            !controls?.refundsEnabled &&
             milestone.status === MilestoneStatus.Pending &&
+            !isMilestoneDeadlinePassed(milestone.deadline) &&
             (index === 0 ||
               milestones[index - 1].status === MilestoneStatus.Released);
 
+          const releaseWindow = releaseWindows[index];
+          const isReleaseLocked =
+            !!releaseWindow && getReleaseSecondsRemaining(releaseWindow) > 0;
+
           const canRelease =
-            isCreator && milestone.status === MilestoneStatus.Approved;
+            isCreator &&
+            milestone.status === MilestoneStatus.Approved &&
+            !isReleaseLocked &&
+            !controls?.refundsEnabled;
+
+          // The guardian or investors (holder veto) can block the release while it is locked
+          const canVeto =
+            !isCreator &&
+            !!account?.address &&
+            milestone.status === MilestoneStatus.Approved &&
+            isReleaseLocked;
+
+          const canCancel =
+            isCreator && milestone.status === MilestoneStatus.Voting;
 
           return (
             <MilestoneCard
@@ -238,13 +373,23 @@ export function MilestoneTab({ campaignId, creatorAddress }: MilestoneTabProps)
                   ? Number(milestone.proposalId)
                   : undefined
               }
+              evidenceHash={milestone.evidenceHash}
+              equityTokenAddress={campaign.equityToken}
               isCreator={isCreator}
               canSubmit={canSubmit}
               canRelease={canRelease}
+              canCancel={canCancel}
+              canVeto={canVeto}
+              isGuardian={isGuardian}
+              isReleaseLocked={isReleaseLocked}
               isSubmitting={isSubmitting}
               isReleasing={isReleasing}
-              onSubmit={() => handleSubmit(index)}
+              isCanceling={isCanceling}
+              isVetoing={isVetoing}
+              onSubmit={(evidence) => handleSubmit(index, evidence)}
               onRelease={() => handleRelease(index)}
+              onCancel={() => handleCancel(Number(milestone.proposalId))}
+              onVeto={() => handleVeto(index)}
               onViewProposal={
                 milestone.proposalId > BigInt(0)
                   ? () => {
@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { FileCheck, Link2, Loader2, Send, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  MAX_EVIDENCE_FILES,
+  MAX_EVIDENCE_LINKS,
+  hashEvidenceFile,
+  type EvidenceFile,
+  type EvidenceLink,
+} from "@/lib/metadata";
+import type { MilestoneEvidenceInput } from "@/src/presentation/hooks/useMilestones";
+
+interface SubmitEvidenceDialogProps {
+  milestoneTitle: string;
+  isSubmitting: boolean;
+  onSubmit: (evidence: MilestoneEvidenceInput) => Promise<boolean>;
+}
+
+export function SubmitEvidenceDialog({ milestoneTitle, isSubmitting, onSubmit }: SubmitEvidenceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [report, setReport] = useState("");
+  const [links, setLinks] = useState<EvidenceLink[]>([]);
+  const [files, setFiles] = useState<EvidenceFile[]>([]);
+  const [isHashing, setIsHashing] = useState(false);
+
+  const filledLinks = links.filter((link) => link.url.trim());
+  const hasEvidence = !!report.trim() || filledLinks.length > 0 || files.length > 0;
+
+  const updateLink = (index: number, field: keyof EvidenceLink, value: string) => {
+    setLinks((prev) => prev.map((link, i) => (i === index ? { ...link, [field]: value } : link)));
+  };
+
+  // Only the hashes are published; the files themselves are shared with investors separately
+  const handleFiles = async (selected: FileList | null) => {
+    if (!selected) return;
+    if (files.length + selected.length > MAX_EVIDENCE_FILES) {
+      toast.error(`At most ${MAX_EVIDENCE_FILES} files can be attached`);
+      return;
+    }
+
+    setIsHashing(true);
+    try {
+      const hashed = await Promise.all(
+        Array.from(selected, async (file) => ({
+          name: file.name,
+          sha256: await hashEvidenceFile(file),
+          size: file.size,
+        }))
+      );
+      setFiles((prev) => [...prev, ...hashed]);
+    } catch (error) {
+      console.error("Error hashing files:", error);
+      toast.error("Failed to hash the selected files");
+    } finally {
+      setIsHashing(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const success = await onSubmit({
+      report: report.trim(),
+      links: filledLinks.map((link) => ({ label: link.label.trim() || link.url.trim(), url: link.url.trim() })),
+      files,
+    });
+
+    if (success) {
+      setOpen(false);
+      setReport("");
+      setLinks([]);
+      setFiles([]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button className="flex-1" disabled={isSubmitting}>
+          <Send className="mr-2 h-4 w-4" />
+          Submit for Approval
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Submit Evidence: {milestoneTitle}</DialogTitle>
+          <DialogDescription>
+            Show investors the work is done. The evidence is stored with a content hash
+            recorded on-chain, so it cannot be changed after submission.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label htmlFor="evidence-report">Progress Report</Label>
+            <Textarea
+              id="evidence-report"
+              placeholder="Describe what was delivered and how investors can verify it..."
+              value={report}
+              onChange={(e) => setReport(e.target.value)}
+              disabled={isSubmitting}
+              rows={6}
+              maxLength={5000}
+            />
+            <p className="text-xs text-muted-foreground">{report.length}/5000 characters</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Links</Label>
+            {links.map((link, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  placeholder="Label (e.g. Demo video)"
+                  value={link.label}
+                  onChange={(e) => updateLink(index, "label", e.target.value)}
+                  disabled={isSubmitting}
+                  className="w-1/3"
+                />
+                <Input
+                  placeholder="https://..."
+                  value={link.url}
+                  onChange={(e) => updateLink(index, "url", e.target.value)}
+                  disabled={isSubmitting}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setLinks((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove link"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setLinks((prev) => [...prev, { label: "", url: "" }])}
+              disabled={isSubmitting || links.length >= MAX_EVIDENCE_LINKS}
+            >
+              <Link2 className="h-4 w-4 mr-2" />
+              Add Link
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="evidence-files">Deliverable Files</Label>
+            <p className="text-xs text-muted-foreground">
+              Files are hashed in your browser and only their SHA-256 fingerprints are published.
+            </p>
+            {files.map((file, index) => (
+              <div key={`${file.sha256}-${index}`} className="flex items-center gap-2 text-sm">
+                <FileCheck className="h-4 w-4 text-muted-foreground shrink-0" />
+                <span className="truncate">{file.name}</span>
+                <code className="text-xs text-muted-foreground">{file.sha256.slice(0, 10)}...</code>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="ml-auto h-7 w-7"
+                  onClick={() => setFiles((prev) => prev.filter((_, i) => i !== index))}
+                  aria-label="Remove file"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center gap-2">
+              <Input
+                id="evidence-files"
+                type="file"
+                multiple
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  e.target.value = "";
+                }}
+                disabled={isSubmitting || isHashing}
+              />
+              {isHashing && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={isSubmitting || isHashing || !hasEvidence}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Submitting...
+              </>
+            ) : (
+              <>
+                <Send className="h-4 w-4 mr-2" />
+                Submit Milestone
+              </>
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
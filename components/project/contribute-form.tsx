@@ -23,7 +23,14 @@ import {
   CONFIRMATION_STEPS,
   RISK_WARNINGS,
 } from "@/lib/constants/regulations";
-import { useInvestment, useProjectInvestment } from "@/src/presentation/hooks";
+import {
+  useInvestment,
+  useProjectInvestment,
+  useCampaignPaymentToken,
+  useInvestmentAllowance,
+} from "@/src/presentation/hooks";
+import { COMPLIANCE_DECIMALS, getInvestorTierLabel } from "@/lib/contracts/compliance";
+import { toTokens } from "thirdweb/utils";
 
 interface ContributeFormProps {
   project: Project;
@@ -40,12 +47,23 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
   // Use unified investment hook with MilestoneEscrow contract
   const { invest, isInvesting, currentStep, error: investError } = useInvestment();
   const { balance: pledgeBalance, refetch: refetchBalance } = useProjectInvestment(campaignId);
-
-  // Mock previous investments (in production, fetch from contract/db)
-  const previousInvestments = 0;
+  const { paymentToken } = useCampaignPaymentToken(campaignId);
+  const currency = paymentToken.symbol;
+
+  // Cap and rolling 12-month usage come from the InvestmentCompliance contract,
+  // which MilestoneEscrow enforces on every pledge. The static rule is only a
+  // fallback until the module is deployed.
+  const { allowance, refetch: refetchAllowance } = useInvestmentAllowance();
+  const annualLimit = allowance
+    ? allowance.unlimited
+      ? Infinity
+      : Number(toTokens(allowance.cap, COMPLIANCE_DECIMALS))
+    : KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC;
+  const previousInvestments = allowance ? Number(toTokens(allowance.used, COMPLIANCE_DECIMALS)) : 0;
+  const annualLimitLabel = Number.isFinite(annualLimit) ? `${annualLimit} ${currency}` : "No limit";
 
   const numAmount = Number(amount) || 0;
-  const limitCheck = checkInvestmentLimit(numAmount, previousInvestments);
+  const limitCheck = checkInvestmentLimit(numAmount, previousInvestments, annualLimit);
 
   const canInvest =
     numAmount > 0 && limitCheck.isAllowed && project.status === "active";
@@ -93,17 +111,18 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
       // Execute pledge via unified MilestoneEscrow contract
       const success = await invest({
         campaignId,
-        amountMnt: amount,
+        amount,
       });
 
       if (success) {
         setTransactionStep("success");
 
-        // Refetch pledge balance
+        // Refetch pledge balance and remaining allowance
         await refetchBalance();
+        refetchAllowance();
 
         toast.success("Investment pledged!", {
-          description: `Pledged ${numAmount} MNT to ${project.name}. Tokens will be issued after funding succeeds.`,
+          description: `Pledged ${numAmount} ${currency} to ${project.name}. Tokens will be issued after funding succeeds.`,
           action: {
             label: "View on Explorer",
             onClick: () =>
@@ -159,7 +178,7 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
             disabled={project.status !== "active"}
           />
           <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm font-medium text-muted-foreground">
-            MNT
+            {currency}
           </span>
         </div>
 
@@ -181,14 +200,22 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
 
         {/* Limit Info */}
         <div className="text-xs text-muted-foreground space-y-1">
+          {allowance && (
+            <div className="flex justify-between">
+              <span>Investor Tier</span>
+              <span>{getInvestorTierLabel(allowance.tier)}</span>
+            </div>
+          )}
           <div className="flex justify-between">
-            <span>Annual Limit</span>
-            <span>{KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC} MNT</span>
+            <span>Annual Limit (12 months)</span>
+            <span>{annualLimitLabel}</span>
           </div>
           <div className="flex justify-between">
             <span>Remaining Limit</span>
             <span className="font-medium">
-              {KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC - previousInvestments} MNT
+              {Number.isFinite(annualLimit)
+                ? `${Math.max(0, annualLimit - previousInvestments)} ${currency}`
+                : "No limit"}
             </span>
           </div>
         </div>
@@ -205,7 +232,7 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
           <div className="space-y-2 text-sm">
             <div className="flex justify-between font-semibold">
               <span>Investment Amount</span>
-              <span>{numAmount.toLocaleString()} MNT</span>
+              <span>{numAmount.toLocaleString()} {currency}</span>
             </div>
           </div>
         )}
@@ -265,9 +292,7 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
                 <div className="rounded-lg bg-muted p-4 text-sm">
                   <p>
                     Annual Individual Investment Limit:{" "}
-                    <span className="font-semibold">
-                      {KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC} MNT
-                    </span>
+                    <span className="font-semibold">{annualLimitLabel}</span>
                   </p>
                   <p className="mt-2 text-muted-foreground">
                     (Based on securities crowdfunding regulations)
@@ -293,7 +318,7 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Investment</span>
-                      <span className="font-medium">{numAmount.toLocaleString()} MNT</span>
+                      <span className="font-medium">{numAmount.toLocaleString()} {currency}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-muted-foreground">Token</span>
@@ -324,7 +349,8 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
                 ) : isInvesting ? (
                   <span className="flex items-center gap-2">
                     <span className="animate-spin">⏳</span>
-                    {currentStep === "pledging" && "Pledging MNT..."}
+                    {currentStep === "approving" && `Approving ${currency}...`}
+                    {currentStep === "pledging" && `Pledging ${currency}...`}
                     {!currentStep && "Processing..."}
                   </span>
                 ) : confirmationStep === CONFIRMATION_STEPS.length - 1 ? (
@@ -349,7 +375,7 @@ export function ContributeForm({ project, campaignId = 0 }: ContributeFormProps)
               Your Pledged Amount
             </div>
             <div className="text-lg font-semibold text-blue-800 dark:text-blue-200">
-              {pledgeBalance.formatted} MNT
+              {toTokens(pledgeBalance.pledgeAmount, paymentToken.decimals)} {currency}
             </div>
             <div className="text-xs text-blue-600 dark:text-blue-400 mt-1">
               Tokens will be issued after funding succeeds
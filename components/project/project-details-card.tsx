@@ -0,0 +1,145 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Skeleton } from "@/components/ui/skeleton";
+import { fetchCampaignMetadata, type CampaignMetadataResult } from "@/lib/metadata";
+import { Building2, ExternalLink, ShieldAlert, ShieldCheck } from "lucide-react";
+
+interface ProjectDetailsCardProps {
+  metadataHash: string;
+}
+
+/**
+ * Renders the off-chain project details for a campaign after checking them
+ * against the content hash recorded on-chain
+ */
+export function ProjectDetailsCard({ metadataHash }: ProjectDetailsCardProps) {
+  const [result, setResult] = useState<CampaignMetadataResult | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchCampaignMetadata(metadataHash).then((loaded) => {
+      if (!cancelled) setResult(loaded);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [metadataHash]);
+
+  if (result?.status === "none") return null;
+
+  if (!result) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-40" />
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <Skeleton className="h-4 w-full" />
+          <Skeleton className="h-4 w-3/4" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (result.status !== "verified") {
+    return (
+      <Card className="border-orange-200">
+        <CardContent className="pt-6 flex items-start gap-3">
+          <ShieldAlert className="w-5 h-5 text-orange-500 mt-0.5" />
+          <div>
+            <p className="font-medium">
+              {result.status === "mismatch"
+                ? "Project details failed verification"
+                : "Project details unavailable"}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {result.status === "mismatch"
+                ? "The stored document does not match the hash recorded on-chain, so it is not shown."
+                : "The metadata document could not be loaded from the content store."}
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const { metadata } = result;
+  const { companyInfo } = metadata;
+  // Only link creator-supplied URLs with a web scheme
+  const websiteHref = companyInfo.website && /^https?:\/\//i.test(companyInfo.website)
+    ? companyInfo.website
+    : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>About the Project</CardTitle>
+          <Badge variant="outline" className="gap-1 border-green-500 text-green-600">
+            <ShieldCheck className="w-3 h-3" />
+            Verified
+          </Badge>
+        </div>
+        {metadata.description && <CardDescription>{metadata.description}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {metadata.longDescription && (
+          <p className="text-sm whitespace-pre-line">{metadata.longDescription}</p>
+        )}
+
+        <Separator />
+
+        <div className="flex items-center gap-2 font-medium">
+          <Building2 className="w-4 h-4" />
+          {metadata.companyName || "Company"}
+        </div>
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Category</p>
+            <p className="font-medium capitalize">{metadata.category}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Founded</p>
+            <p className="font-medium">{companyInfo.foundedYear || "-"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Employees</p>
+            <p className="font-medium">{companyInfo.employees || "-"}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Location</p>
+            <p className="font-medium">{companyInfo.location || "-"}</p>
+          </div>
+          {companyInfo.website && (
+            <div className="col-span-2">
+              <p className="text-muted-foreground">Website</p>
+              {websiteHref ? (
+                <a
+                  href={websiteHref}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium text-primary hover:underline flex items-center gap-1"
+                >
+                  {companyInfo.website}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              ) : (
+                <p className="font-medium">{companyInfo.website}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <p className="text-xs text-muted-foreground font-mono break-all">
+          Content hash: {metadataHash}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./EquityToken.sol";
+import "./MilestoneEscrow.sol";
+
+/**
+ * @title DividendDistributor
+ * @notice Revenue and dividend distribution to EquityToken holders of CrowdMantle campaigns
+ * @dev The campaign creator deposits MNT or an allow-listed ERC-20 token; holders claim
+ *      pro-rata to their EquityToken balance at the snapshot taken on deposit. Tokens the
+ *      escrow had not minted by the snapshot count as held by the investor (or founder)
+ *      entitled to them, so shares are measured against the campaign's full entitlement.
+ *
+ * Key Features:
+ * - Any number of distributions per successfully funded campaign
+ * - Snapshot-based shares, so tokens bought after a deposit do not claim it
+ * - Investors who have not claimed their tokens yet keep their pro-rata share
+ * - Creator can reclaim unclaimed amounts after the claim period
+ *
+ * Network: Mantle Sepolia Testnet (Chain ID: 5003)
+ */
+contract DividendDistributor is ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
+    // ============ Structs ============
+
+    struct Distribution {
+        uint256 campaignId;
+        address paymentToken;       // address(0) for native MNT
+        uint256 amount;             // Total deposited
+        uint256 claimedAmount;      // Total claimed by holders so far
+        uint256 snapshotTime;       // Timestamp at which holder shares are measured
+        uint256 createdAt;
+        bool reclaimed;             // Unclaimed remainder returned to the creator
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Time holders have to claim before the creator may reclaim the remainder
+    uint256 public constant CLAIM_PERIOD = 365 days;
+
+    /// @notice MilestoneEscrow contract the campaigns belong to
+    MilestoneEscrow public immutable escrow;
+
+    /// @notice Total number of distributions created
+    uint256 public distributionCount;
+
+    /// @notice Distribution ID => Distribution data
+    mapping(uint256 => Distribution) public distributions;
+
+    /// @notice Campaign ID => Distribution IDs
+    mapping(uint256 => uint256[]) public campaignDistributions;
+
+    /// @notice Distribution ID => Holder => Whether the holder has claimed
+    mapping(uint256 => mapping(address => bool)) public hasClaimed;
+
+    // ============ Events ============
+
+    event DistributionCreated(
+        uint256 indexed distributionId,
+        uint256 indexed campaignId,
+        address paymentToken,
+        uint256 amount,
+        uint256 snapshotTime
+    );
+
+    event DividendClaimed(uint256 indexed distributionId, address indexed holder, uint256 amount);
+
+    event UnclaimedReclaimed(uint256 indexed distributionId, address indexed creator, uint256 amount);
+
+    // ============ Errors ============
+
+    error CampaignNotFound();
+    error CampaignNotSuccessful();
+    error NotCampaignCreator();
+    error PaymentTokenNotAllowed();
+    error ZeroAmount();
+    error WrongPaymentMethod();
+    error DistributionNotFound();
+    error AlreadyClaimed();
+    error NothingToClaim();
+    error ClaimPeriodActive();
+    error DistributionClosed();
+    error TransferFailed();
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Initialize the distributor
+     * @param _escrow Address of the MilestoneEscrow contract
+     */
+    constructor(address _escrow) {
+        escrow = MilestoneEscrow(payable(_escrow));
+    }
+
+    // ============ External Functions ============
+
+    /**
+     * @notice Deposit revenue for the holders of a campaign's EquityToken
+     * @dev Only the campaign creator, and only once the campaign succeeded.
+     *      Send MNT as msg.value with _paymentToken = address(0), or approve the
+     *      ERC-20 amount first.
+     * @param _campaignId ID of the campaign
+     * @param _paymentToken address(0) for MNT, or an ERC-20 allow-listed by the escrow
+     * @param _amount ERC-20 amount (ignored for MNT)
+     * @return distributionId The ID of the new distribution
+     */
+    function createDistribution(uint256 _campaignId, address _paymentToken, uint256 _amount)
+        external
+        payable
+        nonReentrant
+        returns (uint256 distributionId)
+    {
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_campaignId);
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (msg.sender != campaign.creator) revert NotCampaignCreator();
+        if (block.timestamp < campaign.endAt || campaign.pledged < campaign.goal) revert CampaignNotSuccessful();
+
+        uint256 amount;
+        if (_paymentToken == address(0)) {
+            amount = msg.value;
+        } else {
+            if (msg.value != 0) revert WrongPaymentMethod();
+            if (!escrow.allowedPaymentTokens(_paymentToken)) revert PaymentTokenNotAllowed();
+            amount = _amount;
+        }
+        if (amount == 0) revert ZeroAmount();
+
+        // Snapshot the previous second so balances are final, matching GovernanceV2
+        uint256 snapshotTime = block.timestamp - 1;
+
+        if (_paymentToken != address(0)) {
+            IERC20(_paymentToken).safeTransferFrom(msg.sender, address(this), amount);
+        }
+
+        distributionId = distributionCount;
+        distributionCount++;
+
+        distributions[distributionId] = Distribution({
+            campaignId: _campaignId,
+            paymentToken: _paymentToken,
+            amount: amount,
+            claimedAmount: 0,
+            snapshotTime: snapshotTime,
+            createdAt: block.timestamp,
+            reclaimed: false
+        });
+        campaignDistributions[_campaignId].push(distributionId);
+
+        emit DistributionCreated(distributionId, _campaignId, _paymentToken, amount, snapshotTime);
+    }
+
+    /**
+     * @notice Claim the caller's share of a distribution
+     * @param _distributionId ID of the distribution
+     */
+    function claim(uint256 _distributionId) external nonReentrant {
+        Distribution storage distribution = _getDistribution(_distributionId);
+        if (distribution.reclaimed) revert DistributionClosed();
+        if (hasClaimed[_distributionId][msg.sender]) revert AlreadyClaimed();
+
+        uint256 share = getClaimableAmount(_distributionId, msg.sender);
+        if (share == 0) revert NothingToClaim();
+
+        hasClaimed[_distributionId][msg.sender] = true;
+        distribution.claimedAmount += share;
+
+        _transferOut(distribution.paymentToken, msg.sender, share);
+
+        emit DividendClaimed(_distributionId, msg.sender, share);
+    }
+
+    /**
+     * @notice Return the unclaimed remainder of a distribution to the creator
+     * @dev Only after the claim period; closes the distribution for further claims
+     * @param _distributionId ID of the distribution
+     */
+    function reclaimUnclaimed(uint256 _distributionId) external nonReentrant {
+        Distribution storage distribution = _getDistribution(_distributionId);
+        address creator = escrow.getCampaign(distribution.campaignId).creator;
+        if (msg.sender != creator) revert NotCampaignCreator();
+        if (block.timestamp < distribution.createdAt + CLAIM_PERIOD) revert ClaimPeriodActive();
+        if (distribution.reclaimed) revert DistributionClosed();
+
+        distribution.reclaimed = true;
+        uint256 remaining = distribution.amount - distribution.claimedAmount;
+        if (remaining > 0) {
+            _transferOut(distribution.paymentToken, creator, remaining);
+        }
+
+        emit UnclaimedReclaimed(_distributionId, creator, remaining);
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Get a holder's unclaimed share of a distribution
+     * @dev The holder's snapshot balance plus any tokens they were entitled to but the escrow
+     *      had not minted by the snapshot, out of the campaign's full token entitlement
+     * @return Share of the distribution (0 if claimed, closed or no entitlement at the snapshot)
+     */
+    function getClaimableAmount(uint256 _distributionId, address _holder) public view returns (uint256) {
+        if (_distributionId >= distributionCount) return 0;
+
+        Distribution storage distribution = distributions[_distributionId];
+        if (distribution.reclaimed || hasClaimed[_distributionId][_holder]) return 0;
+
+        uint256 campaignId = distribution.campaignId;
+        uint256 snapshotTime = distribution.snapshotTime;
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(campaignId);
+
+        uint256 shares = EquityToken(campaign.equityToken).getPastBalance(_holder, snapshotTime);
+        if (!_mintedBy(escrow.tokensClaimedAt(campaignId, _holder), snapshotTime)) {
+            shares += escrow.pledges(campaignId, _holder);
+        }
+        uint256 founderTokens = _founderTokens(campaign);
+        if (_holder == campaign.creator && !_mintedBy(escrow.founderTokensClaimedAt(campaignId), snapshotTime)) {
+            shares += founderTokens;
+        }
+        if (shares == 0) return 0;
+
+        return (distribution.amount * shares) / (campaign.pledged + founderTokens);
+    }
+
+    /**
+     * @notice Get distribution details
+     */
+    function getDistribution(uint256 _distributionId) external view returns (Distribution memory) {
+        return distributions[_distributionId];
+    }
+
+    /**
+     * @notice Get all distribution IDs for a campaign
+     */
+    function getCampaignDistributions(uint256 _campaignId) external view returns (uint256[] memory) {
+        return campaignDistributions[_campaignId];
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Load a distribution, reverting if it does not exist
+     */
+    function _getDistribution(uint256 _distributionId) internal view returns (Distribution storage) {
+        if (_distributionId >= distributionCount) revert DistributionNotFound();
+        return distributions[_distributionId];
+    }
+
+    /**
+     * @dev Whether tokens claimed at _claimedAt (0 if unclaimed) were minted by the snapshot
+     */
+    function _mintedBy(uint256 _claimedAt, uint256 _snapshotTime) internal pure returns (bool) {
+        return _claimedAt != 0 && _claimedAt <= _snapshotTime;
+    }
+
+    /**
+     * @dev Founder tokens the campaign entitles its creator to, computed as the escrow mints them
+     */
+    function _founderTokens(MilestoneEscrow.Campaign memory _campaign) internal view returns (uint256) {
+        uint256 denominator = escrow.BPS_DENOMINATOR();
+        return (_campaign.pledged * _campaign.founderShareBps) / (denominator - _campaign.founderShareBps);
+    }
+
+    /**
+     * @dev Send native MNT or an ERC-20 token
+     */
+    function _transferOut(address _paymentToken, address _to, uint256 _amount) internal {
+        if (_paymentToken == address(0)) {
+            (bool success, ) = _to.call{value: _amount}("");
+            if (!success) revert TransferFailed();
+        } else {
+            IERC20(_paymentToken).safeTransfer(_to, _amount);
+        }
+    }
+}
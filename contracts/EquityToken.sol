@@ -2,24 +2,107 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/utils/structs/Checkpoints.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "@openzeppelin/contracts/utils/types/Time.sol";
+import "./interfaces/IInvestorRegistry.sol";
+
+/// @dev Escrow view used to find the InvestorRegistry for registered-only transfers
+interface IInvestorRegistrySource {
+    function investorRegistry() external view returns (address);
+}
 
 /**
  * @title EquityToken
  * @notice ERC20 token representing equity in a crowdfunded project
- * @dev Deployed by CrowdfundingEscrow for each campaign
+ * @dev Deployed through EquityTokenFactory for each MilestoneEscrow campaign
  *      Only the escrow contract can mint tokens (after successful funding)
- *      1 MNT invested = 1 EquityToken (1:1 ratio)
+ *      1 unit of the campaign's payment token invested = 1 EquityToken (1:1 ratio),
+ *      so the token uses the payment token's decimals (18 for MNT)
+ *      Balances and total supply are checkpointed by timestamp so governance
+ *      can weigh votes by historical holdings (ERC20Votes-style lookups)
+ *      Holders vote with their own balance unless they delegate it to another
+ *      address; voting power and each holder's delegate are checkpointed too
+ *      Holder-to-holder transfers follow the issuer's transfer rules (lock-up after
+ *      the campaign ends, registered investors only, max holder count). Mints and
+ *      burns by the escrow are never restricted.
  */
 contract EquityToken is ERC20 {
+    using Checkpoints for Checkpoints.Trace208;
+
+    /// @notice Secondary transfer restrictions, fixed once the campaign ends
+    struct TransferRules {
+        uint64 lockupPeriod;    // Seconds after campaign end during which transfers are blocked
+        bool registeredOnly;    // Sender and recipient must be verified in the InvestorRegistry
+        uint32 maxHolders;      // Maximum number of holders (0 = no limit)
+    }
+
     /// @notice Address of the escrow contract that deployed this token
     address public immutable escrowContract;
 
     /// @notice Campaign ID this token belongs to
     uint256 public immutable campaignId;
 
+    /// @notice Campaign creator allowed to set the transfer rules
+    address public immutable issuer;
+
+    /// @notice Campaign end timestamp; the lock-up starts here and the rules freeze
+    uint256 public immutable campaignEnd;
+
+    /// @notice Decimals matching the campaign's payment token
+    uint8 private immutable _decimals;
+
+    /// @notice Transfer rules (no restrictions unless set by the issuer)
+    TransferRules public transferRules;
+
+    /// @notice Number of accounts holding a non-zero balance
+    uint256 public holderCount;
+
+    /// @notice Account => balance history
+    mapping(address => Checkpoints.Trace208) private _balanceCheckpoints;
+
+    /// @notice Total supply history
+    Checkpoints.Trace208 private _totalSupplyCheckpoints;
+
+    /// @notice Account => delegate chosen by the account (address(0) = votes itself)
+    mapping(address => address) private _delegatees;
+
+    /// @notice Account => voting power history (own undelegated balance plus delegated balances)
+    mapping(address => Checkpoints.Trace208) private _voteCheckpoints;
+
+    /// @notice Account => delegate history
+    mapping(address => Checkpoints.Trace208) private _delegateCheckpoints;
+
     /// @notice Error when caller is not the escrow contract
     error OnlyEscrowContract();
 
+    /// @notice Error when looking up a timepoint that is not yet finalized
+    error FutureLookup(uint256 timepoint, uint48 clock);
+
+    /// @notice Error when caller is not the issuer
+    error OnlyIssuer();
+
+    /// @notice Error when changing the rules after the campaign ended
+    error TransferRulesFrozen();
+
+    /// @notice Error when transferring before the lock-up ends
+    error TransferLocked(uint256 unlocksAt);
+
+    /// @notice Error when a registered-only transfer involves an unverified account
+    error InvestorNotRegistered(address account);
+
+    /// @notice Error when a transfer would add a holder beyond the maximum
+    error MaxHoldersExceeded(uint256 maxHolders);
+
+    /// @notice Emitted when the issuer sets the transfer rules
+    event TransferRulesSet(uint64 lockupPeriod, bool registeredOnly, uint32 maxHolders);
+
+    /// @notice Emitted when a holder changes the delegate of their voting power
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+
+    /// @notice Emitted when an account's voting power changes
+    event DelegateVotesChanged(address indexed delegate, uint256 previousVotes, uint256 newVotes);
+
     /// @notice Modifier to restrict function access to escrow contract only
     modifier onlyEscrow() {
         if (msg.sender != escrowContract) revert OnlyEscrowContract();
@@ -32,15 +115,24 @@ contract EquityToken is ERC20 {
      * @param _symbol Token symbol (e.g., "TECH")
      * @param _escrowContract Address of the CrowdfundingEscrow contract
      * @param _campaignId ID of the campaign in the escrow contract
+     * @param _tokenDecimals Decimals of the campaign's payment token
+     * @param _issuer Campaign creator allowed to set the transfer rules
+     * @param _campaignEnd Campaign end timestamp
      */
     constructor(
         string memory _name,
         string memory _symbol,
         address _escrowContract,
-        uint256 _campaignId
+        uint256 _campaignId,
+        uint8 _tokenDecimals,
+        address _issuer,
+        uint256 _campaignEnd
     ) ERC20(_name, _symbol) {
         escrowContract = _escrowContract;
         campaignId = _campaignId;
+        _decimals = _tokenDecimals;
+        issuer = _issuer;
+        campaignEnd = _campaignEnd;
     }
 
     /**
@@ -55,10 +147,244 @@ contract EquityToken is ERC20 {
     }
 
     /**
-     * @notice Returns the number of decimals (18, same as MNT)
+     * @notice Burn tokens from an investor when their pledge is refunded
+     * @dev Can only be called by the escrow contract. No allowance is required;
+     *      reverts if the investor no longer holds the full amount.
+     * @param from Address whose tokens are burned (investor)
+     * @param amount Amount of tokens to burn (equal to MNT originally invested)
+     */
+    function burnFrom(address from, uint256 amount) external onlyEscrow {
+        _burn(from, amount);
+    }
+
+    /**
+     * @notice Returns the number of decimals (same as the payment token, 18 for MNT)
      * @return Number of decimals
      */
-    function decimals() public pure override returns (uint8) {
-        return 18;
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    // ============ Transfer Rules ============
+
+    /**
+     * @notice Set the secondary transfer rules
+     * @dev Only the issuer, and only before the campaign ends, so investors know the
+     *      terms while they can still unpledge
+     * @param _lockupPeriod Seconds after campaign end during which transfers are blocked
+     * @param _registeredOnly Whether sender and recipient must be verified investors
+     * @param _maxHolders Maximum number of holders (0 = no limit)
+     */
+    function setTransferRules(uint64 _lockupPeriod, bool _registeredOnly, uint32 _maxHolders) external {
+        if (msg.sender != issuer) revert OnlyIssuer();
+        if (block.timestamp >= campaignEnd) revert TransferRulesFrozen();
+
+        transferRules = TransferRules({
+            lockupPeriod: _lockupPeriod,
+            registeredOnly: _registeredOnly,
+            maxHolders: _maxHolders
+        });
+
+        emit TransferRulesSet(_lockupPeriod, _registeredOnly, _maxHolders);
+    }
+
+    /**
+     * @notice Timestamp from which holder-to-holder transfers are allowed
+     * @return Campaign end plus the lock-up period
+     */
+    function lockupEndsAt() public view returns (uint256) {
+        return campaignEnd + transferRules.lockupPeriod;
+    }
+
+    // ============ Delegation ============
+
+    /**
+     * @notice Delegate the caller's voting power to another address
+     * @dev The whole balance follows the delegate, including tokens received later.
+     *      Delegating to address(0) or to yourself takes the votes back.
+     * @param delegatee Address that votes with the caller's tokens
+     */
+    function delegate(address delegatee) external {
+        address account = msg.sender;
+        if (delegatee == account) delegatee = address(0);
+
+        address oldDelegate = delegates(account);
+        _delegatees[account] = delegatee;
+        address newDelegate = delegates(account);
+
+        _delegateCheckpoints[account].push(clock(), uint208(uint160(delegatee)));
+
+        emit DelegateChanged(account, oldDelegate, newDelegate);
+
+        _moveVotes(oldDelegate, newDelegate, balanceOf(account));
+    }
+
+    /**
+     * @notice Get the address that votes with an account's tokens
+     * @param account Address to look up
+     * @return The chosen delegate, or the account itself if it has not delegated
+     */
+    function delegates(address account) public view returns (address) {
+        address delegatee = _delegatees[account];
+        return delegatee == address(0) ? account : delegatee;
+    }
+
+    /**
+     * @notice Get an account's current voting power
+     * @param account Address to look up
+     * @return Own undelegated balance plus balances delegated to the account
+     */
+    function getVotes(address account) external view returns (uint256) {
+        return _voteCheckpoints[account].latest();
+    }
+
+    /**
+     * @notice Get an account's voting power at a past timestamp
+     * @dev Reverts if the timepoint is not strictly in the past
+     * @param account Address to look up
+     * @param timepoint Timestamp to look up
+     * @return Voting power at the end of that timestamp
+     */
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256) {
+        return _voteCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /**
+     * @notice Get the delegate an account had chosen at a past timestamp
+     * @dev Reverts if the timepoint is not strictly in the past
+     * @param account Address to look up
+     * @param timepoint Timestamp to look up
+     * @return The delegate at the end of that timestamp (the account itself if none)
+     */
+    function getPastDelegate(address account, uint256 timepoint) external view returns (address) {
+        uint208 delegatee = _delegateCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+        return delegatee == 0 ? account : address(uint160(delegatee));
+    }
+
+    // ============ Checkpoints ============
+
+    /**
+     * @notice Current timepoint used for checkpoints (EIP-6372)
+     * @return Current block timestamp
+     */
+    function clock() public view returns (uint48) {
+        return Time.timestamp();
+    }
+
+    /**
+     * @notice Description of the clock (EIP-6372)
+     * @return Clock mode string
+     */
+    function CLOCK_MODE() public pure returns (string memory) {
+        return "mode=timestamp";
+    }
+
+    /**
+     * @notice Get the balance of an account at a past timestamp
+     * @dev Reverts if the timepoint is not strictly in the past
+     * @param account Address to look up
+     * @param timepoint Timestamp to look up
+     * @return Balance held at the end of that timestamp
+     */
+    function getPastBalance(address account, uint256 timepoint) external view returns (uint256) {
+        return _balanceCheckpoints[account].upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /**
+     * @notice Get the total supply at a past timestamp
+     * @dev Reverts if the timepoint is not strictly in the past
+     * @param timepoint Timestamp to look up
+     * @return Total supply at the end of that timestamp
+     */
+    function getPastTotalSupply(uint256 timepoint) external view returns (uint256) {
+        return _totalSupplyCheckpoints.upperLookupRecent(_validateTimepoint(timepoint));
+    }
+
+    /**
+     * @notice Enforce the transfer rules and record balance and supply checkpoints
+     *         on every transfer, mint and burn
+     */
+    function _update(address from, address to, uint256 value) internal override {
+        bool isTransfer = from != address(0) && to != address(0);
+        if (isTransfer) _checkTransferRules(from, to);
+
+        bool newHolder = to != address(0) && value > 0 && balanceOf(to) == 0;
+
+        super._update(from, to, value);
+
+        if (newHolder) holderCount++;
+        if (from != address(0) && value > 0 && balanceOf(from) == 0) holderCount--;
+
+        uint256 maxHolders = transferRules.maxHolders;
+        if (isTransfer && newHolder && maxHolders != 0 && holderCount > maxHolders) {
+            revert MaxHoldersExceeded(maxHolders);
+        }
+
+        uint48 timepoint = clock();
+        if (from == address(0) || to == address(0)) {
+            _totalSupplyCheckpoints.push(timepoint, SafeCast.toUint208(totalSupply()));
+        }
+        if (from != address(0)) {
+            _balanceCheckpoints[from].push(timepoint, SafeCast.toUint208(balanceOf(from)));
+        }
+        if (to != address(0)) {
+            _balanceCheckpoints[to].push(timepoint, SafeCast.toUint208(balanceOf(to)));
+        }
+
+        _moveVotes(
+            from == address(0) ? address(0) : delegates(from),
+            to == address(0) ? address(0) : delegates(to),
+            value
+        );
+    }
+
+    /**
+     * @notice Move voting power between delegates and record their checkpoints
+     * @dev address(0) stands for minted or burned tokens
+     */
+    function _moveVotes(address from, address to, uint256 amount) internal {
+        if (from == to || amount == 0) return;
+
+        uint48 timepoint = clock();
+        if (from != address(0)) {
+            uint256 previousVotes = _voteCheckpoints[from].latest();
+            uint256 newVotes = previousVotes - amount;
+            _voteCheckpoints[from].push(timepoint, SafeCast.toUint208(newVotes));
+            emit DelegateVotesChanged(from, previousVotes, newVotes);
+        }
+        if (to != address(0)) {
+            uint256 previousVotes = _voteCheckpoints[to].latest();
+            uint256 newVotes = previousVotes + amount;
+            _voteCheckpoints[to].push(timepoint, SafeCast.toUint208(newVotes));
+            emit DelegateVotesChanged(to, previousVotes, newVotes);
+        }
+    }
+
+    /**
+     * @notice Revert if a holder-to-holder transfer breaks the lock-up or registration rules
+     * @dev Registration is only checked while the escrow has an InvestorRegistry set
+     */
+    function _checkTransferRules(address from, address to) internal view {
+        uint256 unlocksAt = lockupEndsAt();
+        if (block.timestamp < unlocksAt) revert TransferLocked(unlocksAt);
+
+        if (transferRules.registeredOnly) {
+            address registry = IInvestorRegistrySource(escrowContract).investorRegistry();
+            if (registry != address(0)) {
+                if (!IInvestorRegistry(registry).isVerified(from)) revert InvestorNotRegistered(from);
+                if (!IInvestorRegistry(registry).isVerified(to)) revert InvestorNotRegistered(to);
+            }
+        }
+    }
+
+    /**
+     * @notice Validate a lookup timepoint is in the past
+     * @param timepoint Timestamp to validate
+     * @return Timepoint as uint48
+     */
+    function _validateTimepoint(uint256 timepoint) internal view returns (uint48) {
+        uint48 currentTimepoint = clock();
+        if (timepoint >= currentTimepoint) revert FutureLookup(timepoint, currentTimepoint);
+        return SafeCast.toUint48(timepoint);
     }
 }
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./EquityToken.sol";
+import "./interfaces/IEquityTokenFactory.sol";
+
+/**
+ * @title EquityTokenFactory
+ * @notice Deploys the EquityToken of each MilestoneEscrow campaign
+ * @dev The caller becomes the token's escrow contract, so tokens created by anyone
+ *      other than the escrow can never be minted by it
+ *
+ * Network: Mantle Sepolia Testnet (Chain ID: 5003)
+ */
+contract EquityTokenFactory is IEquityTokenFactory {
+    // ============ Events ============
+
+    event EquityTokenCreated(address indexed escrowContract, uint256 indexed campaignId, address token);
+
+    // ============ External Functions ============
+
+    /// @inheritdoc IEquityTokenFactory
+    function createEquityToken(
+        string calldata name,
+        string calldata symbol,
+        uint256 campaignId,
+        uint8 tokenDecimals,
+        address issuer,
+        uint256 campaignEnd
+    ) external returns (address) {
+        EquityToken token = new EquityToken(name, symbol, msg.sender, campaignId, tokenDecimals, issuer, campaignEnd);
+
+        emit EquityTokenCreated(msg.sender, campaignId, address(token));
+        return address(token);
+    }
+}
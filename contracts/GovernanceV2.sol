@@ -2,6 +2,10 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "./EquityToken.sol";
 import "./MilestoneEscrow.sol";
 
@@ -16,16 +20,40 @@ import "./MilestoneEscrow.sol";
  * Key Features:
  * - Regular proposals for general governance decisions
  * - Milestone proposals for approving fund releases
- * - Token-weighted voting based on EquityToken holdings
- * - Automatic callback to MilestoneEscrow on milestone proposal execution
+ * - Amendment proposals for rescheduling or rebalancing unreleased milestones
+ * - General proposals that can carry a whitelisted escrow action (refunds, payout address, pauses)
+ * - Token-weighted voting based on EquityToken holdings at the proposal snapshot
+ * - For, against or abstain votes, which can be changed until voting ends
+ * - Voting power delegated between holders is cast by the delegate
+ * - Gasless voting with EIP-712 signed ballots submitted (and batched) by a relayer
+ * - Milestone approval at a reduced share of the tranche, weighted by supporting votes
+ * - Per-campaign quorum and approval threshold for each proposal type
+ * - Automatic callback to MilestoneEscrow on milestone and amendment proposal execution
  */
-contract GovernanceV2 is ReentrancyGuard {
+contract GovernanceV2 is ReentrancyGuard, EIP712, Nonces {
     // ============ Enums ============
 
     /// @notice Type of proposal
     enum ProposalType {
         General,        // Regular governance proposal
-        Milestone       // Milestone approval proposal
+        Milestone,      // Milestone approval proposal
+        Amendment       // Milestone deadline/percentage amendment proposal
+    }
+
+    /// @notice Choice of a vote
+    enum VoteType {
+        Against,        // Vote against
+        For,            // Vote in favor
+        Abstain         // Counts toward quorum only
+    }
+
+    /// @notice Whitelisted MilestoneEscrow action a general proposal runs when it passes
+    enum ActionType {
+        None,                       // Signaling proposal without an on-chain effect
+        EmergencyRefund,            // Open emergency refunds to every holder
+        ReplacePayoutAddress,       // Send the creator's future payouts to a new address
+        PauseMilestoneSubmissions,  // Stop the creator submitting milestones
+        ResumeMilestoneSubmissions  // Allow milestone submissions again
     }
 
     // ============ Structs ============
@@ -37,12 +65,34 @@ contract GovernanceV2 is ReentrancyGuard {
         string description;         // Proposal description
         uint256 forVotes;           // Total votes in favor
         uint256 againstVotes;       // Total votes against
+        uint256 abstainVotes;       // Total abstentions (count toward quorum only)
         uint256 startTime;          // When voting starts
         uint256 endTime;            // When voting ends
         bool executed;              // Whether proposal has been executed
         bool canceled;              // Whether proposal was canceled
         ProposalType proposalType;  // Type of proposal
         uint256 milestoneIndex;     // Milestone index (only for milestone proposals)
+        uint256 snapshotTime;       // Timestamp at which vote weights are measured
+    }
+
+    /// @notice Vote signed off-chain by the voter (EIP-712) and submitted by anyone
+    struct Ballot {
+        uint256 proposalId;         // Proposal to vote on
+        VoteType support;           // Against, For or Abstain
+        uint256 releaseBps;         // Share of a milestone tranche approved (10000 = full)
+        address voter;              // Signer whose voting power is cast
+        uint256 nonce;              // Voter's current ballot nonce
+        uint256 deadline;           // Signature expiry (Unix timestamp)
+    }
+
+    struct MilestoneAmendment {
+        uint256[] deadlines;        // New deadline for every milestone (Unix timestamps)
+        uint256[] percentages;      // New percentage for every milestone (basis points)
+    }
+
+    struct ProposalAction {
+        ActionType actionType;      // Action run on MilestoneEscrow if the proposal passes
+        address payoutAddress;      // New payout address (ReplacePayoutAddress only)
     }
 
     // ============ State Variables ============
@@ -50,15 +100,20 @@ contract GovernanceV2 is ReentrancyGuard {
     /// @notice Total number of proposals created
     uint256 public proposalCount;
 
-    /// @notice Default voting period in seconds (3 days)
-    uint256 public constant VOTING_PERIOD = 3 days;
+    /// @notice Voting period for campaigns that did not choose one (3 days)
+    uint256 public constant DEFAULT_VOTING_PERIOD = 3 days;
 
-    /// @notice Minimum token holding percentage to create proposal (1% = 100 BPS)
-    uint256 public constant MIN_PROPOSER_HOLDING_BPS = 100;
+    /// @notice Proposal threshold for campaigns that did not choose one (1% = 100 BPS)
+    uint256 public constant DEFAULT_PROPOSAL_THRESHOLD_BPS = 100;
 
     /// @notice Basis points denominator
     uint256 public constant BPS_DENOMINATOR = 10000;
 
+    /// @notice EIP-712 type hash of a signed ballot
+    bytes32 public constant BALLOT_TYPEHASH = keccak256(
+        "Ballot(uint256 proposalId,uint8 support,uint256 releaseBps,address voter,uint256 nonce,uint256 deadline)"
+    );
+
     /// @notice Reference to the MilestoneEscrow contract
     MilestoneEscrow public immutable escrow;
 
@@ -71,12 +126,27 @@ contract GovernanceV2 is ReentrancyGuard {
     /// @notice Proposal ID => Voter => Vote weight used
     mapping(uint256 => mapping(address => uint256)) public voteWeight;
 
+    /// @notice Proposal ID => Voter => Current choice (valid once hasVoted)
+    mapping(uint256 => mapping(address => VoteType)) public voteChoice;
+
+    /// @notice Proposal ID => Voter => Release share of a vote in favor (0 for other choices)
+    mapping(uint256 => mapping(address => uint256)) public voteReleaseBps;
+
     /// @notice Campaign ID => Proposal IDs
     mapping(uint256 => uint256[]) public campaignProposals;
 
     /// @notice Campaign ID => Milestone Index => Proposal ID
     mapping(uint256 => mapping(uint256 => uint256)) public milestoneProposalId;
 
+    /// @notice Proposal ID => For votes weighted by each voter's approved release share
+    mapping(uint256 => uint256) public releaseVotes;
+
+    /// @notice Proposal ID => Proposed milestone schedule (amendment proposals only)
+    mapping(uint256 => MilestoneAmendment) internal amendments;
+
+    /// @notice Proposal ID => Escrow action to run on success (general proposals only)
+    mapping(uint256 => ProposalAction) internal proposalActions;
+
     // ============ Events ============
 
     event ProposalCreated(
@@ -93,10 +163,16 @@ contract GovernanceV2 is ReentrancyGuard {
     event Voted(
         uint256 indexed proposalId,
         address indexed voter,
-        bool support,
+        VoteType support,
         uint256 weight
     );
 
+    event ReleaseShareVoted(
+        uint256 indexed proposalId,
+        address indexed voter,
+        uint256 releaseBps
+    );
+
     event ProposalExecuted(
         uint256 indexed proposalId,
         bool passed
@@ -113,6 +189,19 @@ contract GovernanceV2 is ReentrancyGuard {
         bool approved
     );
 
+    event AmendmentProposalExecuted(
+        uint256 indexed proposalId,
+        uint256 indexed campaignId,
+        bool applied
+    );
+
+    event ProposalActionExecuted(
+        uint256 indexed proposalId,
+        uint256 indexed campaignId,
+        ActionType actionType,
+        bool applied
+    );
+
     // ============ Errors ============
 
     error InvalidCampaign();
@@ -132,6 +221,13 @@ contract GovernanceV2 is ReentrancyGuard {
     error NotMilestoneProposal();
     error OnlyCreatorCanSubmitMilestone();
     error MilestoneNotInVotingStatus();
+    error OnlyCreatorCanAmend();
+    error InvalidReleaseShare();
+    error InvalidSignature();
+    error SignatureExpired();
+    error ArrayLengthMismatch();
+    error InvalidProposalAction();
+    error InsufficientExecutionGas();
 
     // ============ Constructor ============
 
@@ -139,7 +235,7 @@ contract GovernanceV2 is ReentrancyGuard {
      * @notice Initialize the governance contract
      * @param _escrow Address of the MilestoneEscrow contract
      */
-    constructor(address _escrow) {
+    constructor(address _escrow) EIP712("GovernanceV2", "1") {
         escrow = MilestoneEscrow(payable(_escrow));
     }
 
@@ -147,7 +243,7 @@ contract GovernanceV2 is ReentrancyGuard {
 
     /**
      * @notice Create a new general proposal for a campaign
-     * @dev Only token holders with >= 1% of supply can create proposals
+     * @dev Only holders whose voting power meets the campaign's proposal threshold can create proposals
      *      Campaign must be successfully funded
      * @param _campaignId ID of the campaign
      * @param _title Proposal title
@@ -159,24 +255,32 @@ contract GovernanceV2 is ReentrancyGuard {
         string calldata _title,
         string calldata _description
     ) external returns (uint256 proposalId) {
-        // Get campaign data
-        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_campaignId);
-
-        // Validate campaign
-        if (campaign.creator == address(0)) revert InvalidCampaign();
-        if (!escrow.isCampaignSuccessful(_campaignId)) revert CampaignNotSuccessful();
+        proposalId = _createGeneralProposal(_campaignId, _title, _description, ActionType.None);
+    }
 
-        // Check proposer has minimum required tokens
-        _validateProposerTokens(campaign.equityToken);
+    /**
+     * @notice Create a general proposal that runs a whitelisted escrow action if it passes
+     * @dev Same proposer requirements as createProposal. Refunds and submission pauses
+     *      only apply to milestone campaigns; a payout address is required exactly when
+     *      the action replaces it.
+     * @param _campaignId ID of the campaign
+     * @param _title Proposal title
+     * @param _description Proposal description
+     * @param _action Action to run on MilestoneEscrow when the proposal executes
+     * @return proposalId The ID of the newly created proposal
+     */
+    function createActionProposal(
+        uint256 _campaignId,
+        string calldata _title,
+        string calldata _description,
+        ProposalAction calldata _action
+    ) external returns (uint256 proposalId) {
+        bool replacesPayout = _action.actionType == ActionType.ReplacePayoutAddress;
+        if (_action.actionType == ActionType.None) revert InvalidProposalAction();
+        if (replacesPayout != (_action.payoutAddress != address(0))) revert InvalidProposalAction();
 
-        // Create proposal
-        proposalId = _createProposal(
-            _campaignId,
-            _title,
-            _description,
-            ProposalType.General,
-            0
-        );
+        proposalId = _createGeneralProposal(_campaignId, _title, _description, _action.actionType);
+        proposalActions[proposalId] = _action;
     }
 
     /**
@@ -206,7 +310,7 @@ contract GovernanceV2 is ReentrancyGuard {
             if (!existing.canceled && !existing.executed) {
                 revert MilestoneAlreadyHasProposal();
             }
-            if (existing.executed && existing.forVotes > existing.againstVotes) {
+            if (existing.executed && _proposalPassed(existing)) {
                 revert MilestoneAlreadyHasProposal();
             }
         }
@@ -225,44 +329,110 @@ contract GovernanceV2 is ReentrancyGuard {
     }
 
     /**
-     * @notice Vote on a proposal
-     * @dev Voting weight is based on current token balance
+     * @notice Propose new deadlines and percentages for a campaign's milestones
+     * @dev Only the campaign creator can propose. The schedule is checked by
+     *      MilestoneEscrow now and applied by it if the vote passes.
+     * @param _campaignId ID of the campaign
+     * @param _title Proposal title
+     * @param _description Reason for the amendment
+     * @param _deadlines New deadline for every milestone (Unix timestamps)
+     * @param _percentages New percentage for every milestone (basis points)
+     * @return proposalId The ID of the newly created proposal
+     */
+    function createAmendmentProposal(
+        uint256 _campaignId,
+        string calldata _title,
+        string calldata _description,
+        uint256[] calldata _deadlines,
+        uint256[] calldata _percentages
+    ) external returns (uint256 proposalId) {
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_campaignId);
+
+        // Validate campaign and proposer
+        if (campaign.creator == address(0)) revert InvalidCampaign();
+        if (msg.sender != campaign.creator) revert OnlyCreatorCanAmend();
+        if (!escrow.isCampaignSuccessful(_campaignId)) revert CampaignNotSuccessful();
+
+        // Reverts with the escrow's error if the schedule is invalid
+        escrow.validateMilestoneAmendment(_campaignId, _deadlines, _percentages);
+
+        proposalId = _createProposal(
+            _campaignId,
+            _title,
+            _description,
+            ProposalType.Amendment,
+            0
+        );
+
+        amendments[proposalId] = MilestoneAmendment({
+            deadlines: _deadlines,
+            percentages: _percentages
+        });
+    }
+
+    /**
+     * @notice Vote for or against a proposal
+     * @dev Voting weight is the voting power at the proposal snapshot, so tokens
+     *      transferred or delegated after the proposal was created cannot be voted again
      * @param _proposalId ID of the proposal
      * @param _support True for yes, false for no
      */
     function vote(uint256 _proposalId, bool _support) external nonReentrant {
-        Proposal storage proposal = proposals[_proposalId];
+        _castVote(_proposalId, msg.sender, _support ? VoteType.For : VoteType.Against, BPS_DENOMINATOR);
+    }
 
-        // Validations
-        if (proposal.proposer == address(0)) revert ProposalNotFound();
-        if (proposal.canceled) revert ProposalAlreadyCanceled();
-        if (block.timestamp < proposal.startTime) revert VotingNotActive();
-        if (block.timestamp >= proposal.endTime) revert VotingEnded();
-        if (hasVoted[_proposalId][msg.sender]) revert AlreadyVoted();
+    /**
+     * @notice Vote for, against or abstain on a proposal
+     * @dev Calling again before voting ends replaces the previous choice
+     * @param _proposalId ID of the proposal
+     * @param _support Against, For or Abstain
+     */
+    function castVote(uint256 _proposalId, VoteType _support) external nonReentrant {
+        _castVote(_proposalId, msg.sender, _support, BPS_DENOMINATOR);
+    }
 
-        // Get voter's token balance
-        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(proposal.campaignId);
-        EquityToken token = EquityToken(campaign.equityToken);
-        uint256 weight = token.balanceOf(msg.sender);
+    /**
+     * @notice Vote for a milestone proposal while approving only part of its tranche
+     * @dev The released share is the average of the supporting votes' shares, weighted
+     *      by voting power. A plain vote in favor counts as the full tranche.
+     * @param _proposalId ID of the milestone proposal
+     * @param _releaseBps Share of the tranche to release (10000 = full)
+     */
+    function voteWithReleaseShare(uint256 _proposalId, uint256 _releaseBps) external nonReentrant {
+        _validateReleaseShare(_proposalId, _releaseBps);
 
-        if (weight == 0) revert NoVotingPower();
+        _castVote(_proposalId, msg.sender, VoteType.For, _releaseBps);
 
-        // Record vote
-        hasVoted[_proposalId][msg.sender] = true;
-        voteWeight[_proposalId][msg.sender] = weight;
+        emit ReleaseShareVoted(_proposalId, msg.sender, _releaseBps);
+    }
 
-        if (_support) {
-            proposal.forVotes += weight;
-        } else {
-            proposal.againstVotes += weight;
-        }
+    /**
+     * @notice Cast a vote signed off-chain, so the voter pays no gas
+     * @dev Anyone can submit the ballot; the signer's voting power is used and their nonce consumed
+     * @param _ballot Ballot signed by its voter (releaseBps below 10000 only on a vote for a milestone)
+     * @param _signature EIP-712 signature of the ballot by the voter's EOA
+     */
+    function castVoteBySig(Ballot calldata _ballot, bytes calldata _signature) external nonReentrant {
+        _castVoteBySig(_ballot, _signature);
+    }
 
-        emit Voted(_proposalId, msg.sender, _support, weight);
+    /**
+     * @notice Cast several signed ballots in one transaction (used by the vote relayer)
+     * @dev Reverts if any ballot is invalid, so relayers should check each one first
+     * @param _ballots Ballots signed by their voters
+     * @param _signatures Signature for each ballot
+     */
+    function castVotesBySig(Ballot[] calldata _ballots, bytes[] calldata _signatures) external nonReentrant {
+        if (_ballots.length != _signatures.length) revert ArrayLengthMismatch();
+
+        for (uint256 i = 0; i < _ballots.length; i++) {
+            _castVoteBySig(_ballots[i], _signatures[i]);
+        }
     }
 
     /**
      * @notice Execute a proposal after voting ends
-     * @dev For milestone proposals, calls back to MilestoneEscrow
+     * @dev For milestone, passed amendment and passed action proposals, calls back to MilestoneEscrow
      * @param _proposalId ID of the proposal
      */
     function executeProposal(uint256 _proposalId) external nonReentrant {
@@ -277,15 +447,16 @@ contract GovernanceV2 is ReentrancyGuard {
         // Mark as executed
         proposal.executed = true;
 
-        // Determine if passed (more for votes than against)
-        bool passed = proposal.forVotes > proposal.againstVotes;
+        // Determine if passed (quorum reached and approval threshold met)
+        bool passed = _proposalPassed(proposal);
 
         // If milestone proposal, update MilestoneEscrow
         if (proposal.proposalType == ProposalType.Milestone) {
             escrow.updateMilestoneStatus(
                 proposal.campaignId,
                 proposal.milestoneIndex,
-                passed
+                passed,
+                _approvedReleaseBps(_proposalId)
             );
 
             emit MilestoneProposalExecuted(
@@ -294,6 +465,19 @@ contract GovernanceV2 is ReentrancyGuard {
                 proposal.milestoneIndex,
                 passed
             );
+        } else if (proposal.proposalType == ProposalType.Amendment) {
+            bool applied = passed && _applyAmendment(_proposalId, proposal.campaignId);
+
+            emit AmendmentProposalExecuted(_proposalId, proposal.campaignId, applied);
+        } else if (proposalActions[_proposalId].actionType != ActionType.None) {
+            bool applied = passed && _applyAction(_proposalId, proposal.campaignId);
+
+            emit ProposalActionExecuted(
+                _proposalId,
+                proposal.campaignId,
+                proposalActions[_proposalId].actionType,
+                applied
+            );
         }
 
         emit ProposalExecuted(_proposalId, passed);
@@ -301,7 +485,9 @@ contract GovernanceV2 is ReentrancyGuard {
 
     /**
      * @notice Cancel a proposal
-     * @dev Only the proposer can cancel, and only before voting ends
+     * @dev Only the proposer can cancel. Milestone proposals are proposed by the escrow,
+     *      so the campaign creator cancels them instead, and only while voting is open.
+     *      The milestone returns to Pending and can be resubmitted.
      * @param _proposalId ID of the proposal
      */
     function cancelProposal(uint256 _proposalId) external {
@@ -309,7 +495,12 @@ contract GovernanceV2 is ReentrancyGuard {
 
         // Validations
         if (proposal.proposer == address(0)) revert ProposalNotFound();
-        if (msg.sender != proposal.proposer) revert NotProposer();
+        if (proposal.proposalType == ProposalType.Milestone) {
+            MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(proposal.campaignId);
+            if (msg.sender != campaign.creator) revert NotProposer();
+        } else if (msg.sender != proposal.proposer) {
+            revert NotProposer();
+        }
         if (proposal.executed) revert AlreadyExecuted();
         if (proposal.canceled) revert ProposalAlreadyCanceled();
 
@@ -317,8 +508,11 @@ contract GovernanceV2 is ReentrancyGuard {
 
         // If milestone proposal, revert milestone status to Pending
         if (proposal.proposalType == ProposalType.Milestone) {
-            // Note: MilestoneEscrow handles status reversion internally
-            // The milestone can be resubmitted after cancellation
+            // A finished vote must be executed so rejections cannot be dodged
+            if (block.timestamp >= proposal.endTime) revert VotingEnded();
+
+            delete milestoneProposalId[proposal.campaignId][proposal.milestoneIndex];
+            escrow.resetMilestoneStatus(proposal.campaignId, proposal.milestoneIndex);
         }
 
         emit ProposalCanceled(_proposalId);
@@ -328,16 +522,290 @@ contract GovernanceV2 is ReentrancyGuard {
 
     /**
      * @notice Validate proposer has minimum required tokens
+     * @dev Counts voting power, so delegates can propose with tokens delegated to them
+     * @param _campaignId ID of the campaign
      * @param _equityToken Address of the equity token
      */
-    function _validateProposerTokens(address _equityToken) internal view {
+    function _validateProposerTokens(uint256 _campaignId, address _equityToken) internal view {
         EquityToken token = EquityToken(_equityToken);
         uint256 totalSupply = token.totalSupply();
-        uint256 proposerBalance = token.balanceOf(msg.sender);
+        uint256 proposerVotes = token.getVotes(msg.sender);
+
+        // Check proposer meets the campaign's proposal threshold
+        (, uint256 proposalThresholdBps) = getGovernanceParams(_campaignId);
+        uint256 minRequired = (totalSupply * proposalThresholdBps) / BPS_DENOMINATOR;
+        if (proposerVotes < minRequired) revert InsufficientTokens();
+    }
+
+    /**
+     * @notice Validate a partial release share for a vote in favor of a milestone
+     * @param _proposalId ID of the proposal
+     * @param _releaseBps Share of the tranche to release (10000 = full)
+     */
+    function _validateReleaseShare(uint256 _proposalId, uint256 _releaseBps) internal view {
+        if (proposals[_proposalId].proposalType != ProposalType.Milestone) revert NotMilestoneProposal();
+        if (_releaseBps == 0 || _releaseBps > BPS_DENOMINATOR) revert InvalidReleaseShare();
+    }
+
+    /**
+     * @notice Verify a signed ballot, consume its nonce and record the vote
+     * @param _ballot Ballot signed by its voter
+     * @param _signature EIP-712 signature of the ballot
+     */
+    function _castVoteBySig(Ballot calldata _ballot, bytes calldata _signature) internal {
+        if (block.timestamp > _ballot.deadline) revert SignatureExpired();
+
+        bytes32 digest = _hashTypedDataV4(keccak256(abi.encode(
+            BALLOT_TYPEHASH,
+            _ballot.proposalId,
+            _ballot.support,
+            _ballot.releaseBps,
+            _ballot.voter,
+            _ballot.nonce,
+            _ballot.deadline
+        )));
+        (address signer, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(digest, _signature);
+        if (recoverError != ECDSA.RecoverError.NoError || signer != _ballot.voter) revert InvalidSignature();
+
+        _useCheckedNonce(_ballot.voter, _ballot.nonce);
+
+        bool partialShare = _ballot.releaseBps != BPS_DENOMINATOR;
+        if (partialShare) {
+            if (_ballot.support != VoteType.For) revert InvalidReleaseShare();
+            _validateReleaseShare(_ballot.proposalId, _ballot.releaseBps);
+        }
+
+        _castVote(_ballot.proposalId, _ballot.voter, _ballot.support, _ballot.releaseBps);
+
+        if (partialShare) {
+            emit ReleaseShareVoted(_ballot.proposalId, _ballot.voter, _ballot.releaseBps);
+        }
+    }
+
+    /**
+     * @notice Record a vote, replacing the voter's previous choice if they already voted
+     * @dev Voting weight is the voting power at the proposal snapshot
+     * @param _proposalId ID of the proposal
+     * @param _voter Address whose voting power is cast
+     * @param _support Against, For or Abstain
+     * @param _releaseBps Share of a milestone tranche a vote in favor approves (10000 = full)
+     */
+    function _castVote(uint256 _proposalId, address _voter, VoteType _support, uint256 _releaseBps) internal {
+        Proposal storage proposal = proposals[_proposalId];
+
+        // Validations
+        if (proposal.proposer == address(0)) revert ProposalNotFound();
+        if (proposal.canceled) revert ProposalAlreadyCanceled();
+        if (block.timestamp < proposal.startTime) revert VotingNotActive();
+        if (block.timestamp >= proposal.endTime) revert VotingEnded();
+
+        uint256 weight;
+        if (hasVoted[_proposalId][_voter]) {
+            VoteType previous = voteChoice[_proposalId][_voter];
+            if (
+                previous == _support &&
+                (_support != VoteType.For || voteReleaseBps[_proposalId][_voter] == _releaseBps)
+            ) revert AlreadyVoted();
+
+            // Take the previous choice out of the tally; the snapshot weight stays the same
+            weight = voteWeight[_proposalId][_voter];
+            if (previous == VoteType.For) {
+                proposal.forVotes -= weight;
+                releaseVotes[_proposalId] -= (weight * voteReleaseBps[_proposalId][_voter]) / BPS_DENOMINATOR;
+            } else if (previous == VoteType.Against) {
+                proposal.againstVotes -= weight;
+            } else {
+                proposal.abstainVotes -= weight;
+            }
+        } else {
+            // Get voter's own and delegated tokens at the snapshot
+            weight = _getVotingPower(proposal, _voter);
+
+            if (weight == 0) revert NoVotingPower();
+
+            hasVoted[_proposalId][_voter] = true;
+            voteWeight[_proposalId][_voter] = weight;
+        }
+
+        // Record vote
+        voteChoice[_proposalId][_voter] = _support;
+
+        if (_support == VoteType.For) {
+            proposal.forVotes += weight;
+            releaseVotes[_proposalId] += (weight * _releaseBps) / BPS_DENOMINATOR;
+            voteReleaseBps[_proposalId][_voter] = _releaseBps;
+        } else {
+            if (_support == VoteType.Against) {
+                proposal.againstVotes += weight;
+            } else {
+                proposal.abstainVotes += weight;
+            }
+            voteReleaseBps[_proposalId][_voter] = 0;
+        }
 
-        // Check proposer has minimum required tokens (1% of total supply)
-        uint256 minRequired = (totalSupply * MIN_PROPOSER_HOLDING_BPS) / BPS_DENOMINATOR;
-        if (proposerBalance < minRequired) revert InsufficientTokens();
+        emit Voted(_proposalId, _voter, _support, weight);
+    }
+
+    /**
+     * @notice Get the voting power of an address for a proposal
+     * @param _proposal Proposal storage pointer
+     * @param _voter Address to check
+     * @return Own undelegated balance plus balances delegated to the voter at the snapshot
+     */
+    function _getVotingPower(
+        Proposal storage _proposal,
+        address _voter
+    ) internal view returns (uint256) {
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_proposal.campaignId);
+        return EquityToken(campaign.equityToken).getPastVotes(_voter, _proposal.snapshotTime);
+    }
+
+    /**
+     * @notice Get the quorum and approval threshold that apply to a proposal
+     * @dev Quorum is measured against the token supply at the proposal snapshot
+     * @param _proposal Proposal storage pointer
+     * @return quorumVotes Minimum total votes required
+     * @return approvalBps Minimum share of votes in favor (basis points)
+     */
+    function _getVotingRequirements(
+        Proposal storage _proposal
+    ) internal view returns (uint256 quorumVotes, uint256 approvalBps) {
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_proposal.campaignId);
+        MilestoneEscrow.VotingRules memory rules = escrow.getVotingRules(
+            _proposal.campaignId,
+            uint256(_proposal.proposalType)
+        );
+
+        uint256 supply = EquityToken(campaign.equityToken).getPastTotalSupply(_proposal.snapshotTime);
+        quorumVotes = Math.ceilDiv(supply * rules.quorumBps, BPS_DENOMINATOR);
+        approvalBps = rules.approvalBps;
+    }
+
+    /**
+     * @notice Check whether a proposal's votes satisfy quorum and approval threshold
+     * @param _proposal Proposal storage pointer
+     * @return True if the proposal passes
+     */
+    function _proposalPassed(Proposal storage _proposal) internal view returns (bool) {
+        (uint256 quorumVotes, uint256 approvalBps) = _getVotingRequirements(_proposal);
+        uint256 decidedVotes = _proposal.forVotes + _proposal.againstVotes;
+
+        if (decidedVotes + _proposal.abstainVotes < quorumVotes) return false;
+        if (_proposal.forVotes <= _proposal.againstVotes) return false;
+        return _proposal.forVotes * BPS_DENOMINATOR >= decidedVotes * approvalBps;
+    }
+
+    /**
+     * @notice Get the share of a milestone tranche approved by the supporting votes
+     * @param _proposalId ID of the proposal
+     * @return Weighted average release share of the for votes (10000 if there are none)
+     */
+    function _approvedReleaseBps(uint256 _proposalId) internal view returns (uint256) {
+        uint256 forVotes = proposals[_proposalId].forVotes;
+        if (forVotes == 0) return BPS_DENOMINATOR;
+        return (releaseVotes[_proposalId] * BPS_DENOMINATOR) / forVotes;
+    }
+
+    /**
+     * @notice Apply a passed amendment to MilestoneEscrow
+     * @dev Milestones may have moved on during the vote (e.g. been submitted), so a
+     *      schedule that is no longer valid is skipped instead of blocking execution.
+     *      A call starved of gas reverts instead, so the amendment stays executable.
+     * @param _proposalId ID of the amendment proposal
+     * @param _campaignId ID of the campaign
+     * @return True if the amendment was applied
+     */
+    function _applyAmendment(uint256 _proposalId, uint256 _campaignId) internal returns (bool) {
+        MilestoneAmendment storage amendment = amendments[_proposalId];
+
+        uint256 gasBefore = gasleft();
+        try escrow.amendMilestones(_campaignId, amendment.deadlines, amendment.percentages) {
+            return true;
+        } catch {
+            _revertIfOutOfGas(gasBefore);
+            return false;
+        }
+    }
+
+    /**
+     * @notice Run a passed proposal's action on MilestoneEscrow
+     * @dev An action the escrow rejects is skipped instead of blocking execution, but one
+     *      starved of gas reverts so the caller cannot discard a passed action
+     * @param _proposalId ID of the action proposal
+     * @param _campaignId ID of the campaign
+     * @return True if the action was applied
+     */
+    function _applyAction(uint256 _proposalId, uint256 _campaignId) internal returns (bool) {
+        ProposalAction storage action = proposalActions[_proposalId];
+
+        bytes memory data;
+        if (action.actionType == ActionType.EmergencyRefund) {
+            data = abi.encodeCall(escrow.enableEmergencyRefund, (_campaignId));
+        } else if (action.actionType == ActionType.ReplacePayoutAddress) {
+            data = abi.encodeCall(escrow.setPayoutAddress, (_campaignId, action.payoutAddress));
+        } else {
+            bool paused = action.actionType == ActionType.PauseMilestoneSubmissions;
+            data = abi.encodeCall(escrow.setSubmissionsPaused, (_campaignId, paused));
+        }
+
+        uint256 gasBefore = gasleft();
+        (bool success, ) = address(escrow).call(data);
+        if (!success) _revertIfOutOfGas(gasBefore);
+        return success;
+    }
+
+    /**
+     * @notice Revert when an escrow call failed for lack of gas rather than being rejected
+     * @dev A call gets at most 63/64 of the remaining gas (EIP-150). If no more than about the
+     *      withheld 1/64 is left after it failed, the call ran out of gas; reverting keeps the
+     *      proposal unexecuted so it can be executed again with enough gas.
+     * @param _gasBefore gasleft() just before the call
+     */
+    function _revertIfOutOfGas(uint256 _gasBefore) internal view {
+        if (gasleft() <= _gasBefore / 63) revert InsufficientExecutionGas();
+    }
+
+    /**
+     * @notice Validate the campaign and proposer, then create a general proposal
+     * @param _campaignId ID of the campaign
+     * @param _title Proposal title
+     * @param _description Proposal description
+     * @param _actionType Escrow action the proposal carries (None for signaling proposals)
+     * @return proposalId The ID of the newly created proposal
+     */
+    function _createGeneralProposal(
+        uint256 _campaignId,
+        string calldata _title,
+        string calldata _description,
+        ActionType _actionType
+    ) internal returns (uint256 proposalId) {
+        // Get campaign data
+        MilestoneEscrow.Campaign memory campaign = escrow.getCampaign(_campaignId);
+
+        // Validate campaign
+        if (campaign.creator == address(0)) revert InvalidCampaign();
+        if (!escrow.isCampaignSuccessful(_campaignId)) revert CampaignNotSuccessful();
+
+        // Only payouts can be redirected on campaigns without milestones
+        if (
+            !campaign.hasMilestones &&
+            _actionType != ActionType.None &&
+            _actionType != ActionType.ReplacePayoutAddress
+        ) {
+            revert InvalidProposalAction();
+        }
+
+        // Check proposer has minimum required tokens
+        _validateProposerTokens(_campaignId, campaign.equityToken);
+
+        // Create proposal
+        proposalId = _createProposal(
+            _campaignId,
+            _title,
+            _description,
+            ProposalType.General,
+            0
+        );
     }
 
     /**
@@ -360,7 +828,11 @@ contract GovernanceV2 is ReentrancyGuard {
         proposalCount++;
 
         uint256 startTime = block.timestamp;
-        uint256 endTime = startTime + VOTING_PERIOD;
+        (uint256 votingPeriod, ) = getGovernanceParams(_campaignId);
+        uint256 endTime = startTime + votingPeriod;
+
+        // Snapshot the previous second so balances are final and voting can start immediately
+        uint256 snapshotTime = block.timestamp - 1;
 
         // For milestone proposals, the proposer is stored as the escrow contract
         // but we track the original creator in the event
@@ -373,12 +845,14 @@ contract GovernanceV2 is ReentrancyGuard {
             description: _description,
             forVotes: 0,
             againstVotes: 0,
+            abstainVotes: 0,
             startTime: startTime,
             endTime: endTime,
             executed: false,
             canceled: false,
             proposalType: _proposalType,
-            milestoneIndex: _milestoneIndex
+            milestoneIndex: _milestoneIndex,
+            snapshotTime: snapshotTime
         });
 
         // Track proposal for campaign
@@ -407,6 +881,38 @@ contract GovernanceV2 is ReentrancyGuard {
         return proposals[_proposalId];
     }
 
+    /**
+     * @notice Get the share of a milestone tranche the current votes would release
+     * @param _proposalId ID of the proposal
+     * @return Release share in basis points (10000 = full tranche)
+     */
+    function getApprovedReleaseBps(uint256 _proposalId) external view returns (uint256) {
+        return _approvedReleaseBps(_proposalId);
+    }
+
+    /**
+     * @notice Get the milestone schedule proposed by an amendment proposal
+     * @param _proposalId ID of the proposal
+     * @return deadlines New deadline for every milestone (empty for other proposal types)
+     * @return percentages New percentage for every milestone (empty for other proposal types)
+     */
+    function getAmendment(uint256 _proposalId) external view returns (
+        uint256[] memory deadlines,
+        uint256[] memory percentages
+    ) {
+        MilestoneAmendment storage amendment = amendments[_proposalId];
+        return (amendment.deadlines, amendment.percentages);
+    }
+
+    /**
+     * @notice Get the escrow action a general proposal runs if it passes
+     * @param _proposalId ID of the proposal
+     * @return ProposalAction struct data (ActionType.None for proposals without an action)
+     */
+    function getProposalAction(uint256 _proposalId) external view returns (ProposalAction memory) {
+        return proposalActions[_proposalId];
+    }
+
     /**
      * @notice Get all proposals for a campaign
      * @param _campaignId ID of the campaign
@@ -439,22 +945,30 @@ contract GovernanceV2 is ReentrancyGuard {
         Proposal storage proposal = proposals[_proposalId];
         if (block.timestamp < proposal.endTime) return false;
         if (proposal.canceled) return false;
-        return proposal.forVotes > proposal.againstVotes;
+        return _proposalPassed(proposal);
     }
 
     /**
      * @notice Get voting status of a proposal
      * @param _proposalId ID of the proposal
      * @return status 0=pending, 1=active, 2=ended, 3=executed, 4=canceled
+     * @return quorumReached Whether enough votes have been cast to meet quorum
      */
-    function getProposalStatus(uint256 _proposalId) external view returns (uint8 status) {
+    function getProposalStatus(uint256 _proposalId) external view returns (
+        uint8 status,
+        bool quorumReached
+    ) {
         Proposal storage proposal = proposals[_proposalId];
+        if (proposal.proposer == address(0)) return (0, false);
 
-        if (proposal.canceled) return 4;
-        if (proposal.executed) return 3;
-        if (block.timestamp < proposal.startTime) return 0;
-        if (block.timestamp < proposal.endTime) return 1;
-        return 2;
+        (uint256 quorumVotes, ) = _getVotingRequirements(proposal);
+        quorumReached = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes >= quorumVotes;
+
+        if (proposal.canceled) return (4, quorumReached);
+        if (proposal.executed) return (3, quorumReached);
+        if (block.timestamp < proposal.startTime) return (0, quorumReached);
+        if (block.timestamp < proposal.endTime) return (1, quorumReached);
+        return (2, quorumReached);
     }
 
     /**
@@ -462,22 +976,33 @@ contract GovernanceV2 is ReentrancyGuard {
      * @param _proposalId ID of the proposal
      * @return forPercent Percentage of votes in favor (0-100)
      * @return againstPercent Percentage of votes against (0-100)
-     * @return totalVotes Total votes cast
+     * @return abstainPercent Percentage of abstentions (0-100)
+     * @return totalVotes Total votes cast, including abstentions
+     * @return quorumVotes Total votes required to reach quorum
+     * @return quorumReached Whether quorum has been reached
      */
     function getVotingResults(uint256 _proposalId) external view returns (
         uint256 forPercent,
         uint256 againstPercent,
-        uint256 totalVotes
+        uint256 abstainPercent,
+        uint256 totalVotes,
+        uint256 quorumVotes,
+        bool quorumReached
     ) {
         Proposal storage proposal = proposals[_proposalId];
-        totalVotes = proposal.forVotes + proposal.againstVotes;
+        if (proposal.proposer == address(0)) return (0, 0, 0, 0, 0, false);
+
+        totalVotes = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
+        (quorumVotes, ) = _getVotingRequirements(proposal);
+        quorumReached = totalVotes >= quorumVotes;
 
         if (totalVotes == 0) {
-            return (0, 0, 0);
+            return (0, 0, 0, 0, quorumVotes, quorumReached);
         }
 
         forPercent = (proposal.forVotes * 100) / totalVotes;
         againstPercent = (proposal.againstVotes * 100) / totalVotes;
+        abstainPercent = (proposal.abstainVotes * 100) / totalVotes;
     }
 
     /**
@@ -490,16 +1015,69 @@ contract GovernanceV2 is ReentrancyGuard {
         return hasVoted[_proposalId][_voter];
     }
 
+    /**
+     * @notice Get the voting period and proposal threshold that apply to a campaign
+     * @dev Falls back to the defaults for campaigns created without governance params
+     * @param _campaignId ID of the campaign
+     * @return votingPeriod How long each proposal stays open for voting (seconds)
+     * @return proposalThresholdBps Voting power needed to propose, as share of token supply
+     */
+    function getGovernanceParams(uint256 _campaignId) public view returns (
+        uint256 votingPeriod,
+        uint256 proposalThresholdBps
+    ) {
+        MilestoneEscrow.GovernanceParams memory params = escrow.getGovernanceParams(_campaignId);
+        votingPeriod = params.votingPeriod == 0 ? DEFAULT_VOTING_PERIOD : params.votingPeriod;
+        proposalThresholdBps = params.proposalThresholdBps == 0
+            ? DEFAULT_PROPOSAL_THRESHOLD_BPS
+            : params.proposalThresholdBps;
+    }
+
+    /**
+     * @notice Get an address's current vote on a proposal
+     * @param _proposalId ID of the proposal
+     * @param _voter Address to check
+     * @return voted Whether the address has voted
+     * @return support Current choice (Against if not voted)
+     * @return weight Vote weight (token amount at the proposal snapshot)
+     * @return releaseBps Release share of a vote in favor (0 for other choices)
+     */
+    function getVote(uint256 _proposalId, address _voter) external view returns (
+        bool voted,
+        VoteType support,
+        uint256 weight,
+        uint256 releaseBps
+    ) {
+        return (
+            hasVoted[_proposalId][_voter],
+            voteChoice[_proposalId][_voter],
+            voteWeight[_proposalId][_voter],
+            voteReleaseBps[_proposalId][_voter]
+        );
+    }
+
     /**
      * @notice Get the vote weight an address used
      * @param _proposalId ID of the proposal
      * @param _voter Address to check
-     * @return Vote weight (token amount at time of voting)
+     * @return Vote weight (token amount at the proposal snapshot)
      */
     function getVoteWeight(uint256 _proposalId, address _voter) external view returns (uint256) {
         return voteWeight[_proposalId][_voter];
     }
 
+    /**
+     * @notice Get the voting power an address can use on a proposal
+     * @param _proposalId ID of the proposal
+     * @param _voter Address to check
+     * @return Own undelegated balance plus balances delegated to the voter at the snapshot
+     */
+    function getVotingPower(uint256 _proposalId, address _voter) external view returns (uint256) {
+        Proposal storage proposal = proposals[_proposalId];
+        if (proposal.proposer == address(0)) revert ProposalNotFound();
+        return _getVotingPower(proposal, _voter);
+    }
+
     /**
      * @notice Get time remaining until voting ends
      * @param _proposalId ID of the proposal
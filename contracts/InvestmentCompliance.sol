@@ -0,0 +1,268 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/utils/math/SafeCast.sol";
+import "./interfaces/IInvestmentCompliance.sol";
+import "./interfaces/IInvestorRegistry.sol";
+
+/**
+ * @title InvestmentCompliance
+ * @notice Per-investor annual investment caps for CrowdMantle, enforced on every pledge
+ * @dev Consulted by MilestoneEscrow, so the caps cannot be bypassed by calling pledge() directly
+ *
+ * Key Features:
+ * - Rolling 12-month total per investor across all campaigns
+ * - Per-tier caps (retail investors capped, professional investors uncapped by default)
+ * - Tiers read from the InvestorRegistry attestations
+ * - Unpledged and refunded amounts are released from the total
+ *
+ * Amounts from every payment token are normalized to 18 decimals and counted 1:1
+ * (1 MNT = 1 USDC for cap purposes, matching the platform's demo limits).
+ *
+ * Network: Mantle Sepolia Testnet (Chain ID: 5003)
+ */
+contract InvestmentCompliance is IInvestmentCompliance, Ownable {
+    // ============ Structs ============
+
+    /// @dev Pledges made on the same day are merged into one entry
+    struct Entry {
+        uint64 day;         // Unix day (timestamp / 1 days)
+        uint192 amount;     // Normalized to 18 decimals
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Length of the rolling window in days
+    uint256 public constant WINDOW_DAYS = 365;
+
+    /// @notice Cap value meaning "no limit"
+    uint256 public constant UNLIMITED = type(uint256).max;
+
+    /// @notice Decimals all amounts are normalized to
+    uint8 public constant NORMALIZED_DECIMALS = 18;
+
+    /// @notice Escrow contract allowed to record and release investments
+    address public immutable escrowContract;
+
+    /// @notice Registry the investor tiers are read from (address(0) treats everyone as Retail)
+    IInvestorRegistry public investorRegistry;
+
+    /// @notice Tier => Annual cap (normalized to 18 decimals)
+    mapping(InvestorTier => uint256) public tierCaps;
+
+    /// @notice Investor => Pledge entries in ascending day order
+    mapping(address => Entry[]) private _entries;
+
+    /// @notice Investor => Index of the oldest entry that may still be inside the window
+    mapping(address => uint256) private _firstEntry;
+
+    // ============ Events ============
+
+    event InvestmentRecorded(address indexed investor, uint256 amount, uint256 windowTotal);
+
+    event InvestmentReleased(address indexed investor, uint256 amount, uint256 windowTotal);
+
+    event InvestorRegistryUpdated(address indexed oldRegistry, address indexed newRegistry);
+
+    event TierCapSet(InvestorTier indexed tier, uint256 cap);
+
+    // ============ Errors ============
+
+    error OnlyEscrowContract();
+    error InvalidEscrowContract();
+    error AnnualLimitExceeded(uint256 requested, uint256 remaining);
+
+    // ============ Modifiers ============
+
+    modifier onlyEscrow() {
+        if (msg.sender != escrowContract) revert OnlyEscrowContract();
+        _;
+    }
+
+    // ============ Constructor ============
+
+    /**
+     * @notice Initialize the compliance module
+     * @param _escrowContract Address of the MilestoneEscrow contract
+     * @param _investorRegistry InvestorRegistry to read tiers from, or address(0) for none
+     * @param _retailCap Annual cap for retail investors (normalized to 18 decimals)
+     */
+    constructor(address _escrowContract, address _investorRegistry, uint256 _retailCap) Ownable(msg.sender) {
+        if (_escrowContract == address(0)) revert InvalidEscrowContract();
+        escrowContract = _escrowContract;
+        investorRegistry = IInvestorRegistry(_investorRegistry);
+
+        tierCaps[InvestorTier.Retail] = _retailCap;
+        tierCaps[InvestorTier.Professional] = UNLIMITED;
+
+        emit TierCapSet(InvestorTier.Retail, _retailCap);
+        emit TierCapSet(InvestorTier.Professional, UNLIMITED);
+    }
+
+    // ============ Escrow Functions ============
+
+    /// @inheritdoc IInvestmentCompliance
+    function recordInvestment(address investor, address paymentToken, uint256 amount) external onlyEscrow {
+        uint256 normalized = _normalize(paymentToken, amount);
+
+        _dropExpiredEntries(investor);
+        uint256 windowTotal = getWindowTotal(investor);
+
+        uint256 cap = getInvestorCap(investor);
+        if (cap != UNLIMITED) {
+            uint256 remaining = cap > windowTotal ? cap - windowTotal : 0;
+            if (normalized > remaining) revert AnnualLimitExceeded(normalized, remaining);
+        }
+
+        uint64 today = SafeCast.toUint64(block.timestamp / 1 days);
+        Entry[] storage entries = _entries[investor];
+        uint256 length = entries.length;
+        if (length > _firstEntry[investor] && entries[length - 1].day == today) {
+            entries[length - 1].amount += SafeCast.toUint192(normalized);
+        } else {
+            entries.push(Entry({day: today, amount: SafeCast.toUint192(normalized)}));
+        }
+
+        emit InvestmentRecorded(investor, normalized, windowTotal + normalized);
+    }
+
+    /**
+     * @inheritdoc IInvestmentCompliance
+     * @dev Released from the most recent entries first; entries that already left
+     *      the window are not touched
+     */
+    function releaseInvestment(address investor, address paymentToken, uint256 amount) external onlyEscrow {
+        uint256 remaining = _normalize(paymentToken, amount);
+        uint256 released = 0;
+
+        Entry[] storage entries = _entries[investor];
+        uint256 first = _firstEntry[investor];
+        uint256 today = block.timestamp / 1 days;
+
+        while (remaining > 0 && entries.length > first) {
+            Entry storage latest = entries[entries.length - 1];
+            if (latest.day + WINDOW_DAYS <= today) break;
+
+            if (latest.amount > remaining) {
+                latest.amount -= uint192(remaining);
+                released += remaining;
+                remaining = 0;
+            } else {
+                released += latest.amount;
+                remaining -= latest.amount;
+                entries.pop();
+            }
+        }
+
+        emit InvestmentReleased(investor, released, getWindowTotal(investor));
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Get the investor's total pledged within the rolling window
+     * @return total Total normalized to 18 decimals
+     */
+    function getWindowTotal(address investor) public view returns (uint256 total) {
+        Entry[] storage entries = _entries[investor];
+        uint256 today = block.timestamp / 1 days;
+
+        for (uint256 i = _firstEntry[investor]; i < entries.length; i++) {
+            if (entries[i].day + WINDOW_DAYS > today) total += entries[i].amount;
+        }
+    }
+
+    /**
+     * @notice Get the tier an investor's cap is based on
+     * @dev Investors without a valid registry attestation are Retail
+     */
+    function getInvestorTier(address investor) public view returns (InvestorTier) {
+        if (address(investorRegistry) == address(0)) return InvestorTier.Retail;
+        return investorRegistry.getInvestorTier(investor);
+    }
+
+    /**
+     * @notice Get the annual cap that applies to an investor
+     * @return Cap normalized to 18 decimals (UNLIMITED if uncapped)
+     */
+    function getInvestorCap(address investor) public view returns (uint256) {
+        return tierCaps[getInvestorTier(investor)];
+    }
+
+    /// @inheritdoc IInvestmentCompliance
+    function getRemainingAllowance(address investor) public view returns (uint256) {
+        uint256 cap = getInvestorCap(investor);
+        if (cap == UNLIMITED) return UNLIMITED;
+
+        uint256 windowTotal = getWindowTotal(investor);
+        return cap > windowTotal ? cap - windowTotal : 0;
+    }
+
+    /**
+     * @notice Get an investor's tier, cap, usage and remaining allowance in one call
+     * @return tier Investor tier
+     * @return cap Annual cap (UNLIMITED if uncapped)
+     * @return used Total pledged within the rolling window
+     * @return remaining Remaining allowance (UNLIMITED if uncapped)
+     */
+    function getAllowance(address investor)
+        external
+        view
+        returns (InvestorTier tier, uint256 cap, uint256 used, uint256 remaining)
+    {
+        return (
+            getInvestorTier(investor),
+            getInvestorCap(investor),
+            getWindowTotal(investor),
+            getRemainingAllowance(investor)
+        );
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Set the registry investor tiers are read from
+     * @dev Pass address(0) to treat every investor as Retail
+     */
+    function setInvestorRegistry(address _investorRegistry) external onlyOwner {
+        address oldRegistry = address(investorRegistry);
+        investorRegistry = IInvestorRegistry(_investorRegistry);
+        emit InvestorRegistryUpdated(oldRegistry, _investorRegistry);
+    }
+
+    /**
+     * @notice Update the annual cap of a tier
+     * @param _cap Cap normalized to 18 decimals, or UNLIMITED
+     */
+    function setTierCap(InvestorTier _tier, uint256 _cap) external onlyOwner {
+        tierCaps[_tier] = _cap;
+        emit TierCapSet(_tier, _cap);
+    }
+
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Scale a payment token amount to 18 decimals
+     */
+    function _normalize(address _paymentToken, uint256 _amount) internal view returns (uint256) {
+        if (_paymentToken == address(0)) return _amount;
+        return _amount * 10 ** (NORMALIZED_DECIMALS - IERC20Metadata(_paymentToken).decimals());
+    }
+
+    /**
+     * @dev Advance past entries that have left the window so totals stay cheap to compute
+     */
+    function _dropExpiredEntries(address _investor) internal {
+        Entry[] storage entries = _entries[_investor];
+        uint256 first = _firstEntry[_investor];
+        uint256 today = block.timestamp / 1 days;
+
+        while (first < entries.length && entries[first].day + WINDOW_DAYS <= today) {
+            delete entries[first];
+            first++;
+        }
+        _firstEntry[_investor] = first;
+    }
+}
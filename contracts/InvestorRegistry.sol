@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IInvestorRegistry.sol";
+
+/**
+ * @title InvestorRegistry
+ * @notice KYC and accreditation attestations for CrowdMantle investors
+ * @dev Platform-approved verifiers attest that a wallet passed KYC and whether it
+ *      qualifies as a professional investor. MilestoneEscrow only accepts pledges from
+ *      verified wallets, and InvestmentCompliance reads the attested tier for its caps.
+ *
+ * Key Features:
+ * - Owner-managed set of approved verifiers
+ * - One attestation per investor with tier, expiry and issuing verifier
+ * - Revocation by any approved verifier or the owner
+ *
+ * Network: Mantle Sepolia Testnet (Chain ID: 5003)
+ */
+contract InvestorRegistry is IInvestorRegistry, Ownable {
+    // ============ Structs ============
+
+    struct Attestation {
+        InvestorTier tier;
+        address verifier;       // Verifier that issued the attestation
+        uint64 issuedAt;        // Unix timestamp
+        uint64 expiresAt;       // Unix timestamp, exclusive
+        bool revoked;
+    }
+
+    // ============ State Variables ============
+
+    /// @notice Address => Whether it may issue and revoke attestations
+    mapping(address => bool) public verifiers;
+
+    /// @notice Investor => Latest attestation (zero struct if never attested)
+    mapping(address => Attestation) private _attestations;
+
+    // ============ Events ============
+
+    event VerifierSet(address indexed verifier, bool allowed);
+
+    event AttestationIssued(
+        address indexed investor,
+        address indexed verifier,
+        InvestorTier tier,
+        uint256 expiresAt
+    );
+
+    event AttestationRevoked(address indexed investor, address indexed revokedBy);
+
+    // ============ Errors ============
+
+    error NotVerifier();
+    error InvalidInvestor();
+    error InvalidExpiry();
+    error NoAttestation();
+
+    // ============ Modifiers ============
+
+    modifier onlyVerifier() {
+        if (!verifiers[msg.sender]) revert NotVerifier();
+        _;
+    }
+
+    // ============ Constructor ============
+
+    constructor() Ownable(msg.sender) {}
+
+    // ============ Verifier Functions ============
+
+    /**
+     * @notice Attest that an investor passed KYC, replacing any earlier attestation
+     * @param _investor Address of the investor
+     * @param _tier Retail or Professional
+     * @param _expiresAt Unix timestamp after which the attestation is no longer valid
+     */
+    function issueAttestation(address _investor, InvestorTier _tier, uint64 _expiresAt) external onlyVerifier {
+        if (_investor == address(0)) revert InvalidInvestor();
+        if (_expiresAt <= block.timestamp) revert InvalidExpiry();
+
+        _attestations[_investor] = Attestation({
+            tier: _tier,
+            verifier: msg.sender,
+            issuedAt: uint64(block.timestamp),
+            expiresAt: _expiresAt,
+            revoked: false
+        });
+
+        emit AttestationIssued(_investor, msg.sender, _tier, _expiresAt);
+    }
+
+    /**
+     * @notice Revoke an investor's attestation
+     * @dev Callable by any approved verifier or the owner
+     */
+    function revokeAttestation(address _investor) external {
+        if (!verifiers[msg.sender] && msg.sender != owner()) revert NotVerifier();
+
+        Attestation storage attestation = _attestations[_investor];
+        if (attestation.verifier == address(0) || attestation.revoked) revert NoAttestation();
+
+        attestation.revoked = true;
+
+        emit AttestationRevoked(_investor, msg.sender);
+    }
+
+    // ============ View Functions ============
+
+    /// @inheritdoc IInvestorRegistry
+    function isVerified(address investor) public view returns (bool) {
+        Attestation storage attestation = _attestations[investor];
+        return
+            attestation.verifier != address(0) &&
+            !attestation.revoked &&
+            block.timestamp < attestation.expiresAt;
+    }
+
+    /// @inheritdoc IInvestorRegistry
+    function getInvestorTier(address investor) external view returns (InvestorTier) {
+        return isVerified(investor) ? _attestations[investor].tier : InvestorTier.Retail;
+    }
+
+    /**
+     * @notice Get the raw attestation for an investor, including expired and revoked ones
+     */
+    function getAttestation(address investor) external view returns (Attestation memory) {
+        return _attestations[investor];
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Approve or remove a verifier
+     * @dev Attestations issued by a removed verifier stay valid until revoked or expired
+     */
+    function setVerifier(address _verifier, bool _allowed) external onlyOwner {
+        verifiers[_verifier] = _allowed;
+        emit VerifierSet(_verifier, _allowed);
+    }
+}
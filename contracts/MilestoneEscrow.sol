@@ -3,7 +3,13 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
-import "./EquityToken.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IEquityToken.sol";
+import "./interfaces/IEquityTokenFactory.sol";
+import "./interfaces/IInvestmentCompliance.sol";
+import "./interfaces/IInvestorRegistry.sol";
 
 /**
  * @title MilestoneEscrow
@@ -11,14 +17,23 @@ import "./EquityToken.sol";
  * @dev Extends crowdfunding with phased fund release tied to governance votes
  *
  * Key Features:
- * - Milestone-gated fund release (up to 3 milestones)
+ * - Milestone-gated fund release (up to 10 milestones)
  * - Governance vote required for each milestone approval
+ * - Per-campaign quorum and approval threshold for each proposal type
+ * - Governance-approved amendments to unreleased milestone deadlines and percentages
+ * - Partial approval of a milestone tranche, with optional release on approval
+ * - Release timelock after approval, during which a guardian or a holder minority can veto
  * - Emergency refund mechanism for failed milestones
+ * - Pledges in native MNT or an allow-listed ERC-20 stablecoin
+ * - Pledges restricted to KYC-verified investors in the InvestorRegistry
+ * - Per-investor annual caps enforced by a pluggable compliance module
  * - 2% platform fee applied per milestone release
  *
  * Network: Mantle Sepolia Testnet (Chain ID: 5003)
  */
 contract MilestoneEscrow is ReentrancyGuard, Ownable {
+    using SafeERC20 for IERC20;
+
     // ============ Enums ============
 
     enum MilestoneStatus {
@@ -26,7 +41,8 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         Voting,     // Governance proposal created, voting in progress
         Approved,   // Vote passed, funds can be released
         Rejected,   // Vote failed
-        Released    // Funds released to creator
+        Released,   // Funds released to creator
+        Expired     // Deadline passed without submission
     }
 
     // ============ Structs ============
@@ -38,6 +54,7 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         uint256 deadline;        // Unix timestamp
         MilestoneStatus status;
         uint256 proposalId;      // Linked governance proposal ID (0 if none)
+        bytes32 evidenceHash;    // Content hash of the latest evidence bundle (0 until submitted)
     }
 
     struct Campaign {
@@ -56,6 +73,24 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         uint256 milestoneCount;
         uint256 releasedAmount;
         bool hasMilestones;
+        address paymentToken;      // address(0) for native MNT
+        bytes32 metadataHash;      // SHA-256 of the off-chain metadata document (0 if none)
+    }
+
+    struct ReleaseWindow {
+        uint256 approvedAt;        // When governance approved the milestone
+        uint256 unlockAt;          // When the approved funds can be released
+        uint256 vetoVotes;         // Token weight of holders vetoing the release
+    }
+
+    struct VotingRules {
+        uint256 quorumBps;         // Minimum participation as share of token supply
+        uint256 approvalBps;       // Minimum share of cast votes in favor (5000 = simple majority)
+    }
+
+    struct GovernanceParams {
+        uint256 votingPeriod;          // How long each proposal stays open for voting (seconds)
+        uint256 proposalThresholdBps;  // Voting power needed to propose, as share of token supply
     }
 
     // ============ State Variables ============
@@ -75,21 +110,51 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     /// @notice Maximum campaign duration in days
     uint256 public constant MAX_DURATION_DAYS = 60;
 
-    /// @notice Minimum funding goal in MNT (0.1 MNT)
+    /// @notice Minimum funding goal (0.1 MNT, or 0.1 unit of an ERC-20 payment token)
     uint256 public constant MIN_GOAL = 0.1 ether;
 
     /// @notice Maximum founder share in basis points (3000 = 30%)
     uint256 public constant MAX_FOUNDER_SHARE_BPS = 3000;
 
     /// @notice Maximum milestones per campaign
-    uint256 public constant MAX_MILESTONES = 3;
+    uint256 public constant MAX_MILESTONES = 10;
+
+    /// @notice Number of GovernanceV2 proposal types that carry voting rules
+    uint256 public constant PROPOSAL_TYPE_COUNT = 3;
+
+    /// @notice Minimum approval threshold in basis points (5000 = simple majority)
+    uint256 public constant MIN_APPROVAL_BPS = 5000;
+
+    /// @notice Shortest voting period a campaign can choose
+    uint256 public constant MIN_VOTING_PERIOD = 1 days;
+
+    /// @notice Longest voting period a campaign can choose
+    uint256 public constant MAX_VOTING_PERIOD = 14 days;
+
+    /// @notice Highest proposal threshold a campaign can choose (1000 = 10% of supply)
+    uint256 public constant MAX_PROPOSAL_THRESHOLD_BPS = 1000;
+
+    /// @notice Maximum delay between milestone approval and fund release
+    uint256 public constant MAX_RELEASE_TIMELOCK = 14 days;
+
+    /// @notice Share of token supply whose holders can veto a release together (2000 = 20%)
+    uint256 public constant HOLDER_VETO_BPS = 2000;
 
     /// @notice Platform wallet address for fee collection
     address public platformWallet;
 
+    /// @notice Factory that deploys each campaign's EquityToken
+    address public immutable tokenFactory;
+
     /// @notice Governance contract address for milestone approvals
     address public governanceContract;
 
+    /// @notice Compliance module enforcing per-investor annual caps (address(0) disables the checks)
+    address public complianceModule;
+
+    /// @notice Registry of KYC-verified investors allowed to pledge (address(0) disables the check)
+    address public investorRegistry;
+
     /// @notice Campaign ID => Campaign data
     mapping(uint256 => Campaign) public campaigns;
 
@@ -102,6 +167,46 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     /// @notice Campaign ID => Investor => Whether tokens have been claimed
     mapping(uint256 => mapping(address => bool)) public tokensClaimed;
 
+    /// @notice Campaign ID => Investor => When the investor's tokens were minted (0 if not claimed)
+    mapping(uint256 => mapping(address => uint256)) public tokensClaimedAt;
+
+    /// @notice Campaign ID => When the founder tokens were minted (0 if not claimed)
+    mapping(uint256 => uint256) public founderTokensClaimedAt;
+
+    /// @notice Campaign ID => Proposal type => Voting rules
+    mapping(uint256 => mapping(uint256 => VotingRules)) public votingRules;
+
+    /// @notice Campaign ID => Voting period and proposal threshold
+    mapping(uint256 => GovernanceParams) public governanceParams;
+
+    /// @notice ERC-20 token => Whether campaigns may use it as payment token
+    mapping(address => bool) public allowedPaymentTokens;
+
+    /// @notice Campaign ID => Whether approved milestones are released when the proposal executes
+    mapping(uint256 => bool) public autoRelease;
+
+    /// @notice Delay between milestone approval and fund release (0 releases immediately)
+    uint256 public releaseTimelock;
+
+    /// @notice Platform guardian that can veto a release during the timelock (address(0) for none)
+    address public guardian;
+
+    /// @notice Campaign ID => Milestone Index => Timelock of the latest approval
+    mapping(uint256 => mapping(uint256 => ReleaseWindow)) public releaseWindows;
+
+    /// @notice Proposal ID => Holder => Whether the holder vetoed the release it approved
+    mapping(uint256 => mapping(address => bool)) public hasVetoedRelease;
+
+    /// @notice Campaign ID => Whether emergency refunds are open to every holder and releases stop
+    ///         (set by a governance vote or by the first emergency refund paid)
+    mapping(uint256 => bool) public refundsEnabled;
+
+    /// @notice Campaign ID => Whether a governance vote paused milestone submissions
+    mapping(uint256 => bool) public submissionsPaused;
+
+    /// @notice Campaign ID => Address receiving the creator's payouts (address(0) pays the creator)
+    mapping(uint256 => address) public payoutAddresses;
+
     // ============ Events ============
 
     event CampaignCreated(
@@ -117,6 +222,19 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         uint256 milestoneCount
     );
 
+    event VotingRulesSet(
+        uint256 indexed campaignId,
+        uint256 indexed proposalType,
+        uint256 quorumBps,
+        uint256 approvalBps
+    );
+
+    event GovernanceParamsSet(
+        uint256 indexed campaignId,
+        uint256 votingPeriod,
+        uint256 proposalThresholdBps
+    );
+
     event MilestoneCreated(
         uint256 indexed campaignId,
         uint256 indexed milestoneIndex,
@@ -142,7 +260,8 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     event MilestoneSubmitted(
         uint256 indexed campaignId,
         uint256 indexed milestoneIndex,
-        uint256 proposalId
+        uint256 proposalId,
+        bytes32 evidenceHash
     );
 
     event MilestoneStatusChanged(
@@ -151,6 +270,43 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         MilestoneStatus newStatus
     );
 
+    event MilestoneAmended(
+        uint256 indexed campaignId,
+        uint256 indexed milestoneIndex,
+        uint256 percentage,
+        uint256 deadline
+    );
+
+    event MilestoneReleaseReduced(
+        uint256 indexed campaignId,
+        uint256 indexed milestoneIndex,
+        uint256 approvedPercentage,
+        uint256 withheldPercentage
+    );
+
+    event AutoReleaseUpdated(uint256 indexed campaignId, bool enabled);
+
+    event SubmissionsPausedUpdated(uint256 indexed campaignId, bool paused);
+
+    event PayoutAddressUpdated(
+        uint256 indexed campaignId,
+        address indexed oldPayoutAddress,
+        address indexed newPayoutAddress
+    );
+
+    event ReleaseVetoSignaled(
+        uint256 indexed campaignId,
+        uint256 indexed milestoneIndex,
+        address indexed holder,
+        uint256 weight
+    );
+
+    event MilestoneReleaseVetoed(
+        uint256 indexed campaignId,
+        uint256 indexed milestoneIndex,
+        address vetoedBy
+    );
+
     event MilestoneFundsReleased(
         uint256 indexed campaignId,
         uint256 indexed milestoneIndex,
@@ -176,6 +332,12 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         uint256 amount
     );
 
+    event TokensBurned(
+        uint256 indexed campaignId,
+        address indexed investor,
+        uint256 amount
+    );
+
     event FounderTokensClaimed(
         uint256 indexed campaignId,
         address indexed founder,
@@ -192,6 +354,19 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         address indexed newWallet
     );
 
+    event GuardianUpdated(address indexed oldGuardian, address indexed newGuardian);
+
+    event ReleaseTimelockUpdated(uint256 oldTimelock, uint256 newTimelock);
+
+    event ComplianceModuleUpdated(address indexed oldModule, address indexed newModule);
+
+    event InvestorRegistryUpdated(address indexed oldRegistry, address indexed newRegistry);
+
+    event PaymentTokenAllowed(
+        address indexed token,
+        bool allowed
+    );
+
     // ============ Errors ============
 
     error InvalidGoal();
@@ -213,6 +388,7 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     error TransferFailed();
     error ZeroAmount();
     error InvalidPlatformWallet();
+    error InvalidTokenFactory();
     error InvalidFounderShare();
     error FounderTokensAlreadyClaimed();
     error MilestoneNotFound();
@@ -227,6 +403,27 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     error NotMilestoneCampaign();
     error IsMilestoneCampaign();
     error NoMilestonesRejected();
+    error MilestoneNotExpired();
+    error MilestoneNotVoting();
+    error EvidenceRequired();
+    error MilestoneNotAmendable();
+    error DeadlineNotInFuture();
+    error EmptyAmendment();
+    error InvalidReleaseShare();
+    error InvalidTimelock();
+    error ReleaseTimelocked();
+    error VetoWindowClosed();
+    error NotGuardian();
+    error AlreadyVetoed();
+    error NoVetoPower();
+    error InvalidVotingRules();
+    error InvalidGovernanceParams();
+    error MilestoneSubmissionsPaused();
+    error InvalidPayoutAddress();
+    error EmergencyRefundActive();
+    error PaymentTokenNotAllowed();
+    error WrongPaymentMethod();
+    error InvestorNotVerified();
 
     // ============ Modifiers ============
 
@@ -240,10 +437,13 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     /**
      * @notice Initialize the milestone escrow contract
      * @param _platformWallet Address to receive platform fees
+     * @param _tokenFactory EquityTokenFactory used to deploy campaign tokens
      */
-    constructor(address _platformWallet) Ownable(msg.sender) {
+    constructor(address _platformWallet, address _tokenFactory) Ownable(msg.sender) {
         if (_platformWallet == address(0)) revert InvalidPlatformWallet();
+        if (_tokenFactory == address(0)) revert InvalidTokenFactory();
         platformWallet = _platformWallet;
+        tokenFactory = _tokenFactory;
     }
 
     // ============ External Functions ============
@@ -261,7 +461,7 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
     /**
      * @notice Create a campaign with milestone-based fund release
-     * @param _goal Funding goal in MNT (wei)
+     * @param _goal Funding goal in payment token base units (wei for MNT)
      * @param _durationDays Campaign duration in days
      * @param _name Campaign name
      * @param _tokenName Equity token name
@@ -271,6 +471,10 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
      * @param _milestoneDescriptions Array of milestone descriptions
      * @param _milestonePercentages Array of percentages in basis points (must sum to 10000)
      * @param _milestoneDaysAfterEnd Array of days after campaign end for each deadline
+     * @param _votingRules Quorum and approval threshold per GovernanceV2 proposal type
+     * @param _governanceParams Voting period and proposal threshold for GovernanceV2 proposals
+     * @param _paymentToken Allow-listed ERC-20 payment token, or address(0) for native MNT
+     * @param _metadataHash SHA-256 of the off-chain metadata document, or bytes32(0) for none
      * @return campaignId The ID of the newly created campaign
      */
     function createCampaignWithMilestones(
@@ -283,10 +487,14 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         string[] calldata _milestoneTitles,
         string[] calldata _milestoneDescriptions,
         uint256[] calldata _milestonePercentages,
-        uint256[] calldata _milestoneDaysAfterEnd
+        uint256[] calldata _milestoneDaysAfterEnd,
+        VotingRules[] calldata _votingRules,
+        GovernanceParams calldata _governanceParams,
+        address _paymentToken,
+        bytes32 _metadataHash
     ) external returns (uint256 campaignId) {
         // Validate basic inputs
-        if (_goal < MIN_GOAL) revert InvalidGoal();
+        uint8 tokenDecimals = _validatePaymentToken(_paymentToken, _goal);
         if (_durationDays < MIN_DURATION_DAYS || _durationDays > MAX_DURATION_DAYS) {
             revert InvalidDuration();
         }
@@ -323,16 +531,22 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         campaignId = campaignCount;
         campaignCount++;
 
+        // Store governance voting rules and parameters
+        _setVotingRules(campaignId, _votingRules);
+        _setGovernanceParams(campaignId, _governanceParams);
+
         // Calculate timestamps
         uint256 startAt = block.timestamp;
         uint256 endAt = startAt + (_durationDays * 1 days);
 
         // Deploy EquityToken for this campaign
-        EquityToken equityToken = new EquityToken(
+        address equityToken = IEquityTokenFactory(tokenFactory).createEquityToken(
             _tokenName,
             _tokenSymbol,
-            address(this),
-            campaignId
+            campaignId,
+            tokenDecimals,
+            msg.sender,
+            endAt
         );
 
         // Store campaign data
@@ -343,14 +557,16 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
             startAt: startAt,
             endAt: endAt,
             claimed: false,
-            equityToken: address(equityToken),
+            equityToken: equityToken,
             name: _name,
             tokenSymbol: _tokenSymbol,
             founderShareBps: _founderShareBps,
             founderTokensClaimed: false,
             milestoneCount: milestoneCount,
             releasedAmount: 0,
-            hasMilestones: true
+            hasMilestones: true,
+            paymentToken: _paymentToken,
+            metadataHash: _metadataHash
         });
 
         // Store milestones
@@ -362,7 +578,8 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
                 percentage: _milestonePercentages[i],
                 deadline: deadline,
                 status: MilestoneStatus.Pending,
-                proposalId: 0
+                proposalId: 0,
+                evidenceHash: bytes32(0)
             });
 
             emit MilestoneCreated(
@@ -380,7 +597,7 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
             _goal,
             startAt,
             endAt,
-            address(equityToken),
+            equityToken,
             _name,
             _tokenSymbol,
             true,
@@ -391,6 +608,8 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     /**
      * @notice Create a standard campaign without milestones (immediate release)
      * @dev Same as original CrowdfundingEscrow createCampaign
+     * @param _paymentToken Allow-listed ERC-20 payment token, or address(0) for native MNT
+     * @param _metadataHash SHA-256 of the off-chain metadata document, or bytes32(0) for none
      */
     function createCampaign(
         uint256 _goal,
@@ -398,10 +617,12 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         string calldata _name,
         string calldata _tokenName,
         string calldata _tokenSymbol,
-        uint256 _founderShareBps
+        uint256 _founderShareBps,
+        address _paymentToken,
+        bytes32 _metadataHash
     ) external returns (uint256 campaignId) {
         // Validate inputs
-        if (_goal < MIN_GOAL) revert InvalidGoal();
+        uint8 tokenDecimals = _validatePaymentToken(_paymentToken, _goal);
         if (_durationDays < MIN_DURATION_DAYS || _durationDays > MAX_DURATION_DAYS) {
             revert InvalidDuration();
         }
@@ -416,11 +637,13 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         uint256 endAt = startAt + (_durationDays * 1 days);
 
         // Deploy EquityToken for this campaign
-        EquityToken equityToken = new EquityToken(
+        address equityToken = IEquityTokenFactory(tokenFactory).createEquityToken(
             _tokenName,
             _tokenSymbol,
-            address(this),
-            campaignId
+            campaignId,
+            tokenDecimals,
+            msg.sender,
+            endAt
         );
 
         // Store campaign data (no milestones)
@@ -431,14 +654,16 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
             startAt: startAt,
             endAt: endAt,
             claimed: false,
-            equityToken: address(equityToken),
+            equityToken: equityToken,
             name: _name,
             tokenSymbol: _tokenSymbol,
             founderShareBps: _founderShareBps,
             founderTokensClaimed: false,
             milestoneCount: 0,
             releasedAmount: 0,
-            hasMilestones: false
+            hasMilestones: false,
+            paymentToken: _paymentToken,
+            metadataHash: _metadataHash
         });
 
         emit CampaignCreated(
@@ -447,7 +672,7 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
             _goal,
             startAt,
             endAt,
-            address(equityToken),
+            equityToken,
             _name,
             _tokenSymbol,
             false,
@@ -456,27 +681,29 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     }
 
     /**
-     * @notice Pledge MNT to a campaign
+     * @notice Pledge MNT to a native MNT campaign
      * @param _campaignId ID of the campaign to pledge to
      */
     function pledge(uint256 _campaignId) external payable nonReentrant {
-        if (msg.value == 0) revert ZeroAmount();
-
-        Campaign storage campaign = campaigns[_campaignId];
-        if (campaign.creator == address(0)) revert CampaignNotFound();
-        if (block.timestamp >= campaign.endAt) revert CampaignEnded();
+        _recordPledge(_campaignId, msg.value, true);
+    }
 
-        // Update pledge tracking
-        pledges[_campaignId][msg.sender] += msg.value;
-        campaign.pledged += msg.value;
+    /**
+     * @notice Pledge ERC-20 payment tokens to a stablecoin campaign
+     * @dev Requires prior approval of at least `_amount` for this contract
+     * @param _campaignId ID of the campaign to pledge to
+     * @param _amount Amount to pledge (in payment token base units)
+     */
+    function pledgeToken(uint256 _campaignId, uint256 _amount) external nonReentrant {
+        Campaign storage campaign = _recordPledge(_campaignId, _amount, false);
 
-        emit Pledged(_campaignId, msg.sender, msg.value, campaign.pledged);
+        IERC20(campaign.paymentToken).safeTransferFrom(msg.sender, address(this), _amount);
     }
 
     /**
      * @notice Withdraw pledge before campaign ends
      * @param _campaignId ID of the campaign
-     * @param _amount Amount to withdraw (in wei)
+     * @param _amount Amount to withdraw (in payment token base units)
      */
     function unpledge(uint256 _campaignId, uint256 _amount) external nonReentrant {
         if (_amount == 0) revert ZeroAmount();
@@ -491,10 +718,10 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         // Update pledge tracking
         pledges[_campaignId][msg.sender] -= _amount;
         campaign.pledged -= _amount;
+        _releaseInvestment(campaign.paymentToken, msg.sender, _amount);
 
-        // Transfer MNT back to investor
-        (bool success, ) = msg.sender.call{value: _amount}("");
-        if (!success) revert TransferFailed();
+        // Transfer funds back to investor
+        _transferOut(campaign.paymentToken, msg.sender, _amount);
 
         emit Unpledged(_campaignId, msg.sender, _amount, campaign.pledged);
     }
@@ -502,13 +729,16 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
     /**
      * @notice Submit a milestone for governance approval
      * @dev Only creator can call. Requires governance contract to be set.
+     *      Resubmitting a rejected or canceled milestone replaces its evidence.
      * @param _campaignId ID of the campaign
      * @param _milestoneIndex Index of the milestone to submit
+     * @param _evidenceHash Content hash of the evidence bundle (report, links, file hashes)
      * @return proposalId The governance proposal ID created
      */
     function submitMilestoneForApproval(
         uint256 _campaignId,
-        uint256 _milestoneIndex
+        uint256 _milestoneIndex,
+        bytes32 _evidenceHash
     ) external nonReentrant returns (uint256 proposalId) {
         Campaign storage campaign = campaigns[_campaignId];
 
@@ -520,10 +750,14 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         if (campaign.pledged < campaign.goal) revert GoalNotReached();
         if (_milestoneIndex >= campaign.milestoneCount) revert MilestoneNotFound();
         if (governanceContract == address(0)) revert GovernanceContractNotSet();
+        if (_evidenceHash == bytes32(0)) revert EvidenceRequired();
+        if (submissionsPaused[_campaignId]) revert MilestoneSubmissionsPaused();
+        if (refundsEnabled[_campaignId]) revert EmergencyRefundActive();
 
         Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
 
         // Check milestone status
+        if (milestone.status == MilestoneStatus.Expired) revert MilestoneDeadlinePassed();
         if (milestone.status != MilestoneStatus.Pending && milestone.status != MilestoneStatus.Rejected) {
             revert MilestoneAlreadySubmitted();
         }
@@ -551,37 +785,188 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         // Update milestone
         milestone.status = MilestoneStatus.Voting;
         milestone.proposalId = proposalId;
+        milestone.evidenceHash = _evidenceHash;
 
-        emit MilestoneSubmitted(_campaignId, _milestoneIndex, proposalId);
+        emit MilestoneSubmitted(_campaignId, _milestoneIndex, proposalId, _evidenceHash);
         emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Voting);
     }
 
     /**
      * @notice Update milestone status after governance vote
-     * @dev Only governance contract can call this
+     * @dev Only governance contract can call this. Approving less than the full tranche
+     *      lowers the milestone's percentage; the withheld share stays unreleased for
+     *      refunds or for later milestones via an amendment. Approved funds stay locked
+     *      for releaseTimelock, during which the release can be vetoed. Without a timelock,
+     *      a creator who enabled auto-release is paid out in the same transaction.
      * @param _campaignId Campaign ID
      * @param _milestoneIndex Milestone index
      * @param _approved Whether the milestone was approved
+     * @param _releaseBps Share of the milestone's tranche approved for release (10000 = full)
      */
     function updateMilestoneStatus(
         uint256 _campaignId,
         uint256 _milestoneIndex,
-        bool _approved
+        bool _approved,
+        uint256 _releaseBps
+    ) external onlyGovernance nonReentrant {
+        Campaign storage campaign = campaigns[_campaignId];
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (_milestoneIndex >= campaign.milestoneCount) revert MilestoneNotFound();
+
+        Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
+
+        if (!_approved) {
+            milestone.status = MilestoneStatus.Rejected;
+            emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Rejected);
+            return;
+        }
+
+        if (_releaseBps == 0 || _releaseBps > BPS_DENOMINATOR) revert InvalidReleaseShare();
+        if (_releaseBps < BPS_DENOMINATOR) {
+            uint256 approvedPercentage = (milestone.percentage * _releaseBps) / BPS_DENOMINATOR;
+            uint256 withheldPercentage = milestone.percentage - approvedPercentage;
+            milestone.percentage = approvedPercentage;
+
+            emit MilestoneReleaseReduced(_campaignId, _milestoneIndex, approvedPercentage, withheldPercentage);
+        }
+
+        milestone.status = MilestoneStatus.Approved;
+        releaseWindows[_campaignId][_milestoneIndex] = ReleaseWindow({
+            approvedAt: block.timestamp,
+            unlockAt: block.timestamp + releaseTimelock,
+            vetoVotes: 0
+        });
+        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Approved);
+
+        if (autoRelease[_campaignId] && releaseTimelock == 0 && !refundsEnabled[_campaignId]) {
+            _releaseMilestone(_campaignId, _milestoneIndex);
+        }
+    }
+
+    /**
+     * @notice Choose whether approved milestones are released when their proposal executes
+     * @dev Only the campaign creator can call. A payout that reverts would block execution,
+     *      so a creator whose wallet cannot receive funds should leave this off. While a
+     *      release timelock applies, anyone may release the funds once it expires instead.
+     * @param _campaignId Campaign ID
+     * @param _enabled True to release funds on approval
+     */
+    function setAutoRelease(uint256 _campaignId, bool _enabled) external {
+        Campaign storage campaign = campaigns[_campaignId];
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (!campaign.hasMilestones) revert NotMilestoneCampaign();
+        if (msg.sender != campaign.creator) revert NotCampaignCreator();
+
+        autoRelease[_campaignId] = _enabled;
+
+        emit AutoReleaseUpdated(_campaignId, _enabled);
+    }
+
+    /**
+     * @notice Return a milestone to Pending after its proposal is canceled
+     * @dev Only governance contract can call this
+     * @param _campaignId Campaign ID
+     * @param _milestoneIndex Milestone index
+     */
+    function resetMilestoneStatus(
+        uint256 _campaignId,
+        uint256 _milestoneIndex
     ) external onlyGovernance {
         Campaign storage campaign = campaigns[_campaignId];
         if (campaign.creator == address(0)) revert CampaignNotFound();
         if (_milestoneIndex >= campaign.milestoneCount) revert MilestoneNotFound();
 
         Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
+        if (milestone.status != MilestoneStatus.Voting) revert MilestoneNotVoting();
+
+        milestone.status = MilestoneStatus.Pending;
+        milestone.proposalId = 0;
+
+        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Pending);
+    }
+
+    /**
+     * @notice Apply a milestone amendment approved by governance
+     * @dev Only governance contract can call this. An expired milestone given a new
+     *      deadline returns to Pending so it can be submitted again.
+     * @param _campaignId Campaign ID
+     * @param _deadlines New deadline for every milestone (Unix timestamps)
+     * @param _percentages New percentage for every milestone (basis points)
+     */
+    function amendMilestones(
+        uint256 _campaignId,
+        uint256[] calldata _deadlines,
+        uint256[] calldata _percentages
+    ) external onlyGovernance {
+        validateMilestoneAmendment(_campaignId, _deadlines, _percentages);
+
+        for (uint256 i = 0; i < _deadlines.length; i++) {
+            Milestone storage milestone = milestones[_campaignId][i];
+            bool deadlineChanged = _deadlines[i] != milestone.deadline;
+            if (!deadlineChanged && _percentages[i] == milestone.percentage) continue;
 
-        MilestoneStatus newStatus = _approved ? MilestoneStatus.Approved : MilestoneStatus.Rejected;
-        milestone.status = newStatus;
+            milestone.deadline = _deadlines[i];
+            milestone.percentage = _percentages[i];
 
-        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, newStatus);
+            emit MilestoneAmended(_campaignId, i, _percentages[i], _deadlines[i]);
+
+            if (deadlineChanged && milestone.status == MilestoneStatus.Expired) {
+                milestone.status = MilestoneStatus.Pending;
+                emit MilestoneStatusChanged(_campaignId, i, MilestoneStatus.Pending);
+            }
+        }
+    }
+
+    /**
+     * @notice Open emergency refunds to every holder after a governance vote
+     * @dev Only governance contract can call this. Milestone submissions are paused and
+     *      approved tranches stay locked, so no further funds leave the escrow for the creator.
+     * @param _campaignId Campaign ID
+     */
+    function enableEmergencyRefund(uint256 _campaignId) external onlyGovernance {
+        Campaign storage campaign = campaigns[_campaignId];
+        if (!campaign.hasMilestones) revert NotMilestoneCampaign();
+
+        refundsEnabled[_campaignId] = true;
+        if (!submissionsPaused[_campaignId]) {
+            submissionsPaused[_campaignId] = true;
+            emit SubmissionsPausedUpdated(_campaignId, true);
+        }
+
+        emit EmergencyRefundEnabled(_campaignId, campaign.pledged - campaign.releasedAmount);
+    }
+
+    /**
+     * @notice Pause or resume milestone submissions after a governance vote
+     * @dev Only governance contract can call this. Milestones already in voting are unaffected.
+     * @param _campaignId Campaign ID
+     * @param _paused Whether the creator may no longer submit milestones
+     */
+    function setSubmissionsPaused(uint256 _campaignId, bool _paused) external onlyGovernance {
+        if (!campaigns[_campaignId].hasMilestones) revert NotMilestoneCampaign();
+
+        submissionsPaused[_campaignId] = _paused;
+        emit SubmissionsPausedUpdated(_campaignId, _paused);
+    }
+
+    /**
+     * @notice Send the creator's future payouts to a new address after a governance vote
+     * @dev Only governance contract can call this. The creator keeps every other right.
+     * @param _campaignId Campaign ID
+     * @param _payoutAddress Address receiving released funds
+     */
+    function setPayoutAddress(uint256 _campaignId, address _payoutAddress) external onlyGovernance {
+        if (campaigns[_campaignId].creator == address(0)) revert CampaignNotFound();
+        if (_payoutAddress == address(0)) revert InvalidPayoutAddress();
+
+        emit PayoutAddressUpdated(_campaignId, getPayoutAddress(_campaignId), _payoutAddress);
+        payoutAddresses[_campaignId] = _payoutAddress;
     }
 
     /**
-     * @notice Release funds for an approved milestone
+     * @notice Release funds for an approved milestone once its timelock has passed
+     * @dev Only the creator can call, unless the creator enabled auto-release. Nothing is
+     *      released once holders voted for emergency refunds.
      * @param _campaignId Campaign ID
      * @param _milestoneIndex Milestone index
      */
@@ -594,32 +979,64 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         // Validations
         if (campaign.creator == address(0)) revert CampaignNotFound();
         if (!campaign.hasMilestones) revert NotMilestoneCampaign();
-        if (msg.sender != campaign.creator) revert NotCampaignCreator();
+        if (msg.sender != campaign.creator && !autoRelease[_campaignId]) revert NotCampaignCreator();
         if (_milestoneIndex >= campaign.milestoneCount) revert MilestoneNotFound();
 
-        Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
+        if (milestones[_campaignId][_milestoneIndex].status != MilestoneStatus.Approved) {
+            revert MilestoneNotApproved();
+        }
+        if (block.timestamp < releaseWindows[_campaignId][_milestoneIndex].unlockAt) {
+            revert ReleaseTimelocked();
+        }
+        if (refundsEnabled[_campaignId]) revert EmergencyRefundActive();
 
-        if (milestone.status != MilestoneStatus.Approved) revert MilestoneNotApproved();
+        _releaseMilestone(_campaignId, _milestoneIndex);
+    }
 
-        // Calculate release amount
-        uint256 grossAmount = (campaign.pledged * milestone.percentage) / BPS_DENOMINATOR;
-        uint256 platformFee = (grossAmount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
-        uint256 netAmount = grossAmount - platformFee;
+    /**
+     * @notice Veto the release of an approved milestone on evidence of fraud
+     * @dev Only the guardian can call, and only before the release timelock expires.
+     *      The milestone is rejected, which enables emergency refunds.
+     * @param _campaignId Campaign ID
+     * @param _milestoneIndex Milestone index
+     */
+    function vetoMilestoneRelease(uint256 _campaignId, uint256 _milestoneIndex) external {
+        if (msg.sender != guardian) revert NotGuardian();
+        _requireVetoWindowOpen(_campaignId, _milestoneIndex);
 
-        // Update state before transfers
-        milestone.status = MilestoneStatus.Released;
-        campaign.releasedAmount += grossAmount;
+        _vetoRelease(_campaignId, _milestoneIndex);
+    }
+
+    /**
+     * @notice Join a holder veto of an approved milestone's release
+     * @dev Weight is the voting power (own plus delegated tokens) when the milestone was
+     *      approved, so tokens moved during the timelock cannot veto twice. The release is vetoed once holders of
+     *      HOLDER_VETO_BPS of the supply at approval have joined.
+     * @param _campaignId Campaign ID
+     * @param _milestoneIndex Milestone index
+     */
+    function signalReleaseVeto(uint256 _campaignId, uint256 _milestoneIndex) external nonReentrant {
+        _requireVetoWindowOpen(_campaignId, _milestoneIndex);
 
-        // Transfer platform fee
-        (bool feeSuccess, ) = platformWallet.call{value: platformFee}("");
-        if (!feeSuccess) revert TransferFailed();
+        uint256 proposalId = milestones[_campaignId][_milestoneIndex].proposalId;
+        if (hasVetoedRelease[proposalId][msg.sender]) revert AlreadyVetoed();
 
-        // Transfer net amount to creator
-        (bool success, ) = campaign.creator.call{value: netAmount}("");
-        if (!success) revert TransferFailed();
+        ReleaseWindow storage window = releaseWindows[_campaignId][_milestoneIndex];
+        IEquityToken token = IEquityToken(campaigns[_campaignId].equityToken);
+        uint256 snapshotTime = window.approvedAt - 1;
 
-        emit MilestoneFundsReleased(_campaignId, _milestoneIndex, grossAmount, platformFee, netAmount);
-        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Released);
+        uint256 weight = token.getPastVotes(msg.sender, snapshotTime);
+        if (weight == 0) revert NoVetoPower();
+
+        hasVetoedRelease[proposalId][msg.sender] = true;
+        window.vetoVotes += weight;
+
+        emit ReleaseVetoSignaled(_campaignId, _milestoneIndex, msg.sender, weight);
+
+        uint256 supply = token.getPastTotalSupply(snapshotTime);
+        if (window.vetoVotes * BPS_DENOMINATOR >= supply * HOLDER_VETO_BPS) {
+            _vetoRelease(_campaignId, _milestoneIndex);
+        }
     }
 
     /**
@@ -647,19 +1064,16 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
         campaign.releasedAmount = grossAmount;
 
-        // Transfer platform fee
-        (bool feeSuccess, ) = platformWallet.call{value: platformFee}("");
-        if (!feeSuccess) revert TransferFailed();
-
-        // Transfer net amount to creator
-        (bool success, ) = campaign.creator.call{value: netAmount}("");
-        if (!success) revert TransferFailed();
+        // Transfer platform fee and net amount to the payout address
+        _transferOut(campaign.paymentToken, platformWallet, platformFee);
+        _transferOut(campaign.paymentToken, getPayoutAddress(_campaignId), netAmount);
 
         emit MilestoneFundsReleased(_campaignId, 0, grossAmount, platformFee, netAmount);
     }
 
     /**
      * @notice Refund pledge after failed campaign
+     * @dev Burns any equity tokens claimed for the pledge
      * @param _campaignId ID of the campaign
      */
     function refund(uint256 _campaignId) external nonReentrant {
@@ -675,17 +1089,42 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
         // Clear pledge (before transfer to prevent reentrancy)
         pledges[_campaignId][msg.sender] = 0;
+        _burnClaimedTokens(_campaignId, msg.sender, pledged);
+        _releaseInvestment(campaign.paymentToken, msg.sender, pledged);
 
         // Transfer full refund
-        (bool success, ) = msg.sender.call{value: pledged}("");
-        if (!success) revert TransferFailed();
+        _transferOut(campaign.paymentToken, msg.sender, pledged);
 
         emit Refunded(_campaignId, msg.sender, pledged);
     }
 
     /**
-     * @notice Emergency refund for milestone campaigns when a milestone is rejected
-     * @dev Only available if any milestone is rejected and there are unreleased funds
+     * @notice Mark a milestone as expired once its deadline lapses without submission
+     * @dev Anyone can call. Expiry enables emergency refunds for the campaign; once one is
+     *      paid, refunds stay open and the milestone can no longer be revived by an amendment.
+     * @param _campaignId Campaign ID
+     * @param _milestoneIndex Milestone index
+     */
+    function markMilestoneExpired(uint256 _campaignId, uint256 _milestoneIndex) external {
+        Campaign storage campaign = campaigns[_campaignId];
+
+        // Validations
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (!campaign.hasMilestones) revert NotMilestoneCampaign();
+        if (campaign.pledged < campaign.goal) revert GoalNotReached();
+        if (_milestoneIndex >= campaign.milestoneCount) revert MilestoneNotFound();
+
+        if (!_expireMilestone(_campaignId, _milestoneIndex)) revert MilestoneNotExpired();
+    }
+
+    /**
+     * @notice Emergency refund for milestone campaigns when a milestone is rejected or expired
+     * @dev Only available if any milestone is rejected or has lapsed past its deadline without
+     *      submission, and there are unreleased funds. Lapsed milestones are expired in place.
+     *      Also available once every milestone is released if partial approvals withheld funds,
+     *      or once holders voted to enable refunds. The first refund freezes the schedule:
+     *      no further submissions, amendments or releases.
+     *      Claimed equity tokens for the pledge are burned, so the investor must still hold them.
      * @param _campaignId ID of the campaign
      */
     function emergencyRefund(uint256 _campaignId) external nonReentrant {
@@ -697,15 +1136,29 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         if (block.timestamp < campaign.endAt) revert CampaignNotEnded();
         if (campaign.pledged < campaign.goal) revert GoalNotReached();
 
-        // Check if any milestone is rejected
-        bool hasRejectedMilestone = false;
+        // Check if any milestone is rejected or expired, or if every milestone has been
+        // released and partial approvals left funds behind
+        bool hasFailedMilestone = false;
+        uint256 releasedCount = 0;
         for (uint256 i = 0; i < campaign.milestoneCount; i++) {
-            if (milestones[_campaignId][i].status == MilestoneStatus.Rejected) {
-                hasRejectedMilestone = true;
+            MilestoneStatus status = milestones[_campaignId][i].status;
+            if (
+                status == MilestoneStatus.Rejected ||
+                status == MilestoneStatus.Expired ||
+                _expireMilestone(_campaignId, i)
+            ) {
+                hasFailedMilestone = true;
                 break;
             }
+            if (status == MilestoneStatus.Released) releasedCount++;
+        }
+        if (!hasFailedMilestone && releasedCount < campaign.milestoneCount && !refundsEnabled[_campaignId]) {
+            revert NoMilestonesRejected();
         }
-        if (!hasRejectedMilestone) revert NoMilestonesRejected();
+
+        // Refunds are paid out of the unreleased funds without lowering campaign.pledged,
+        // so the remaining schedule can no longer be funded: freeze it
+        refundsEnabled[_campaignId] = true;
 
         uint256 pledged = pledges[_campaignId][msg.sender];
         if (pledged == 0) revert NoPledge();
@@ -716,12 +1169,12 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
         if (refundAmount == 0) revert ZeroAmount();
 
-        // Clear pledge
+        // Clear pledge and give up equity (and voting weight) for the refunded stake
         pledges[_campaignId][msg.sender] = 0;
+        _burnClaimedTokens(_campaignId, msg.sender, pledged);
 
         // Transfer refund
-        (bool success, ) = msg.sender.call{value: refundAmount}("");
-        if (!success) revert TransferFailed();
+        _transferOut(campaign.paymentToken, msg.sender, refundAmount);
 
         emit Refunded(_campaignId, msg.sender, refundAmount);
     }
@@ -750,9 +1203,10 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
         // Mark tokens as claimed
         tokensClaimed[_campaignId][msg.sender] = true;
+        tokensClaimedAt[_campaignId][msg.sender] = block.timestamp;
 
         // Mint equity tokens to investor
-        EquityToken(campaign.equityToken).mint(msg.sender, pledged);
+        IEquityToken(campaign.equityToken).mint(msg.sender, pledged);
 
         emit TokensClaimed(_campaignId, msg.sender, pledged);
     }
@@ -779,17 +1233,205 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
 
         // Mark founder tokens as claimed
         campaign.founderTokensClaimed = true;
+        founderTokensClaimedAt[_campaignId] = block.timestamp;
 
         // Calculate founder token amount
         uint256 founderTokens = (campaign.pledged * campaign.founderShareBps) /
                                 (BPS_DENOMINATOR - campaign.founderShareBps);
 
         // Mint founder tokens
-        EquityToken(campaign.equityToken).mint(campaign.creator, founderTokens);
+        IEquityToken(campaign.equityToken).mint(campaign.creator, founderTokens);
 
         emit FounderTokensClaimed(_campaignId, campaign.creator, founderTokens);
     }
 
+    // ============ Internal Functions ============
+
+    /**
+     * @dev Validate the payment token and funding goal for a new campaign
+     * @return tokenDecimals Decimals of the payment token (18 for native MNT)
+     */
+    function _validatePaymentToken(address _paymentToken, uint256 _goal) internal view returns (uint8 tokenDecimals) {
+        tokenDecimals = 18;
+        if (_paymentToken != address(0)) {
+            if (!allowedPaymentTokens[_paymentToken]) revert PaymentTokenNotAllowed();
+            tokenDecimals = IERC20Metadata(_paymentToken).decimals();
+        }
+
+        // MIN_GOAL is 0.1 unit, scaled to the payment token's decimals
+        if (_goal * 10 ** (18 - tokenDecimals) < MIN_GOAL) revert InvalidGoal();
+    }
+
+    /**
+     * @dev Add a pledge to an active campaign paid in the expected currency
+     * @param _native True if the pledge is paid in native MNT
+     * @return campaign The campaign pledged to
+     */
+    function _recordPledge(
+        uint256 _campaignId,
+        uint256 _amount,
+        bool _native
+    ) internal returns (Campaign storage campaign) {
+        if (_amount == 0) revert ZeroAmount();
+
+        campaign = campaigns[_campaignId];
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (block.timestamp >= campaign.endAt) revert CampaignEnded();
+        if ((campaign.paymentToken == address(0)) != _native) revert WrongPaymentMethod();
+        if (investorRegistry != address(0) && !IInvestorRegistry(investorRegistry).isVerified(msg.sender)) {
+            revert InvestorNotVerified();
+        }
+
+        // Reverts if the pledge exceeds the investor's annual cap
+        if (complianceModule != address(0)) {
+            IInvestmentCompliance(complianceModule).recordInvestment(msg.sender, campaign.paymentToken, _amount);
+        }
+
+        // Update pledge tracking
+        pledges[_campaignId][msg.sender] += _amount;
+        campaign.pledged += _amount;
+
+        emit Pledged(_campaignId, msg.sender, _amount, campaign.pledged);
+    }
+
+    /**
+     * @dev Give a returned pledge back to the investor's annual allowance
+     */
+    function _releaseInvestment(address _paymentToken, address _investor, uint256 _amount) internal {
+        if (complianceModule != address(0)) {
+            IInvestmentCompliance(complianceModule).releaseInvestment(_investor, _paymentToken, _amount);
+        }
+    }
+
+    /**
+     * @dev Send campaign funds in native MNT or the campaign's ERC-20 payment token
+     */
+    function _transferOut(address _paymentToken, address _to, uint256 _amount) internal {
+        if (_paymentToken == address(0)) {
+            (bool success, ) = _to.call{value: _amount}("");
+            if (!success) revert TransferFailed();
+        } else {
+            IERC20(_paymentToken).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @notice Validate and store voting rules for a campaign
+     * @param _campaignId Campaign ID
+     * @param _votingRules Rules indexed by GovernanceV2 proposal type
+     */
+    function _setVotingRules(uint256 _campaignId, VotingRules[] calldata _votingRules) internal {
+        if (_votingRules.length != PROPOSAL_TYPE_COUNT) revert InvalidVotingRules();
+
+        for (uint256 i = 0; i < PROPOSAL_TYPE_COUNT; i++) {
+            VotingRules calldata rules = _votingRules[i];
+            if (rules.quorumBps > BPS_DENOMINATOR) revert InvalidVotingRules();
+            if (rules.approvalBps < MIN_APPROVAL_BPS || rules.approvalBps > BPS_DENOMINATOR) {
+                revert InvalidVotingRules();
+            }
+
+            votingRules[_campaignId][i] = rules;
+
+            emit VotingRulesSet(_campaignId, i, rules.quorumBps, rules.approvalBps);
+        }
+    }
+
+    /**
+     * @notice Validate and store the voting period and proposal threshold for a campaign
+     * @param _campaignId Campaign ID
+     * @param _params Governance parameters chosen by the creator
+     */
+    function _setGovernanceParams(uint256 _campaignId, GovernanceParams calldata _params) internal {
+        if (_params.votingPeriod < MIN_VOTING_PERIOD || _params.votingPeriod > MAX_VOTING_PERIOD) {
+            revert InvalidGovernanceParams();
+        }
+        if (_params.proposalThresholdBps == 0 || _params.proposalThresholdBps > MAX_PROPOSAL_THRESHOLD_BPS) {
+            revert InvalidGovernanceParams();
+        }
+
+        governanceParams[_campaignId] = _params;
+
+        emit GovernanceParamsSet(_campaignId, _params.votingPeriod, _params.proposalThresholdBps);
+    }
+
+    /**
+     * @dev Pay out an approved milestone's tranche, less the platform fee, to the payout address
+     */
+    function _releaseMilestone(uint256 _campaignId, uint256 _milestoneIndex) internal {
+        Campaign storage campaign = campaigns[_campaignId];
+        Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
+
+        // Calculate release amount
+        uint256 grossAmount = (campaign.pledged * milestone.percentage) / BPS_DENOMINATOR;
+        uint256 platformFee = (grossAmount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
+        uint256 netAmount = grossAmount - platformFee;
+
+        // Update state before transfers
+        milestone.status = MilestoneStatus.Released;
+        campaign.releasedAmount += grossAmount;
+
+        // Transfer platform fee and net amount to the payout address
+        _transferOut(campaign.paymentToken, platformWallet, platformFee);
+        _transferOut(campaign.paymentToken, getPayoutAddress(_campaignId), netAmount);
+
+        emit MilestoneFundsReleased(_campaignId, _milestoneIndex, grossAmount, platformFee, netAmount);
+        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Released);
+    }
+
+    /**
+     * @dev Revert unless the milestone is approved and its release timelock is running
+     */
+    function _requireVetoWindowOpen(uint256 _campaignId, uint256 _milestoneIndex) internal view {
+        if (campaigns[_campaignId].creator == address(0)) revert CampaignNotFound();
+        if (_milestoneIndex >= campaigns[_campaignId].milestoneCount) revert MilestoneNotFound();
+        if (milestones[_campaignId][_milestoneIndex].status != MilestoneStatus.Approved) {
+            revert MilestoneNotApproved();
+        }
+        if (block.timestamp >= releaseWindows[_campaignId][_milestoneIndex].unlockAt) {
+            revert VetoWindowClosed();
+        }
+    }
+
+    /**
+     * @dev Reject an approved milestone whose release was vetoed
+     */
+    function _vetoRelease(uint256 _campaignId, uint256 _milestoneIndex) internal {
+        milestones[_campaignId][_milestoneIndex].status = MilestoneStatus.Rejected;
+
+        emit MilestoneReleaseVetoed(_campaignId, _milestoneIndex, msg.sender);
+        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Rejected);
+    }
+
+    /**
+     * @dev Burn the equity tokens minted for a refunded pledge, if they were claimed.
+     *      Reverts if the investor no longer holds them.
+     */
+    function _burnClaimedTokens(uint256 _campaignId, address _investor, uint256 _amount) internal {
+        if (!tokensClaimed[_campaignId][_investor]) return;
+
+        IEquityToken(campaigns[_campaignId].equityToken).burnFrom(_investor, _amount);
+
+        emit TokensBurned(_campaignId, _investor, _amount);
+    }
+
+    /**
+     * @dev Move a pending milestone past its deadline to Expired
+     * @return expired True if the milestone was expired by this call
+     */
+    function _expireMilestone(uint256 _campaignId, uint256 _milestoneIndex) internal returns (bool expired) {
+        Milestone storage milestone = milestones[_campaignId][_milestoneIndex];
+        if (milestone.status != MilestoneStatus.Pending || block.timestamp <= milestone.deadline) {
+            return false;
+        }
+
+        milestone.status = MilestoneStatus.Expired;
+
+        Campaign storage campaign = campaigns[_campaignId];
+        emit MilestoneStatusChanged(_campaignId, _milestoneIndex, MilestoneStatus.Expired);
+        emit EmergencyRefundEnabled(_campaignId, campaign.pledged - campaign.releasedAmount);
+        return true;
+    }
+
     // ============ View Functions ============
 
     /**
@@ -825,6 +1467,91 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         return result;
     }
 
+    /**
+     * @notice Get the release timelock and veto tally of a milestone's latest approval
+     */
+    function getReleaseWindow(
+        uint256 _campaignId,
+        uint256 _milestoneIndex
+    ) external view returns (ReleaseWindow memory) {
+        return releaseWindows[_campaignId][_milestoneIndex];
+    }
+
+    /**
+     * @notice Get voting rules for a proposal type
+     * @dev Campaigns without milestones have zero rules (no quorum, simple majority)
+     */
+    function getVotingRules(
+        uint256 _campaignId,
+        uint256 _proposalType
+    ) external view returns (VotingRules memory) {
+        return votingRules[_campaignId][_proposalType];
+    }
+
+    /**
+     * @notice Get the voting period and proposal threshold chosen at creation
+     * @dev Campaigns without milestones have zero params (GovernanceV2 applies its defaults)
+     */
+    function getGovernanceParams(uint256 _campaignId) external view returns (GovernanceParams memory) {
+        return governanceParams[_campaignId];
+    }
+
+    /**
+     * @notice Get the address that receives the campaign's payouts
+     * @dev The creator, unless governance voted to replace the payout address
+     */
+    function getPayoutAddress(uint256 _campaignId) public view returns (address) {
+        address payoutAddress = payoutAddresses[_campaignId];
+        return payoutAddress == address(0) ? campaigns[_campaignId].creator : payoutAddress;
+    }
+
+    /**
+     * @notice Check a milestone amendment before it is proposed or applied
+     * @dev Reverts if invalid. Only Pending, Rejected or Expired milestones may change;
+     *      percentages must still sum to 100%, deadlines must stay ascending and a
+     *      changed deadline must be in the future. Nothing changes once emergency refunds are open.
+     * @param _campaignId Campaign ID
+     * @param _deadlines New deadline for every milestone (Unix timestamps)
+     * @param _percentages New percentage for every milestone (basis points)
+     */
+    function validateMilestoneAmendment(
+        uint256 _campaignId,
+        uint256[] calldata _deadlines,
+        uint256[] calldata _percentages
+    ) public view {
+        Campaign storage campaign = campaigns[_campaignId];
+        if (campaign.creator == address(0)) revert CampaignNotFound();
+        if (!campaign.hasMilestones) revert NotMilestoneCampaign();
+        if (refundsEnabled[_campaignId]) revert EmergencyRefundActive();
+        if (_deadlines.length != campaign.milestoneCount || _percentages.length != campaign.milestoneCount) {
+            revert InvalidMilestoneCount();
+        }
+
+        uint256 totalPercentage = 0;
+        bool changed = false;
+        for (uint256 i = 0; i < _deadlines.length; i++) {
+            totalPercentage += _percentages[i];
+            if (i > 0 && _deadlines[i] <= _deadlines[i - 1]) revert DeadlinesNotAscending();
+
+            Milestone storage milestone = milestones[_campaignId][i];
+            bool deadlineChanged = _deadlines[i] != milestone.deadline;
+            if (!deadlineChanged && _percentages[i] == milestone.percentage) continue;
+
+            // Milestones in a vote, approved or released keep their terms
+            if (
+                milestone.status != MilestoneStatus.Pending &&
+                milestone.status != MilestoneStatus.Rejected &&
+                milestone.status != MilestoneStatus.Expired
+            ) {
+                revert MilestoneNotAmendable();
+            }
+            if (deadlineChanged && _deadlines[i] <= block.timestamp) revert DeadlineNotInFuture();
+            changed = true;
+        }
+        if (totalPercentage != BPS_DENOMINATOR) revert PercentagesMustSumTo100();
+        if (!changed) revert EmptyAmendment();
+    }
+
     /**
      * @notice Get unreleased funds for a milestone campaign
      */
@@ -886,6 +1613,57 @@ contract MilestoneEscrow is ReentrancyGuard, Ownable {
         emit PlatformWalletUpdated(oldWallet, _newWallet);
     }
 
+    /**
+     * @notice Set the guardian that can veto milestone releases during the timelock
+     * @dev Pass address(0) to leave vetoes to token holders alone
+     */
+    function setGuardian(address _guardian) external onlyOwner {
+        address oldGuardian = guardian;
+        guardian = _guardian;
+        emit GuardianUpdated(oldGuardian, _guardian);
+    }
+
+    /**
+     * @notice Set the delay between milestone approval and fund release
+     * @dev Applies to milestones approved after the change
+     */
+    function setReleaseTimelock(uint256 _timelock) external onlyOwner {
+        if (_timelock > MAX_RELEASE_TIMELOCK) revert InvalidTimelock();
+        uint256 oldTimelock = releaseTimelock;
+        releaseTimelock = _timelock;
+        emit ReleaseTimelockUpdated(oldTimelock, _timelock);
+    }
+
+    /**
+     * @notice Allow or disallow an ERC-20 token as campaign payment token
+     * @dev Existing campaigns keep their payment token either way
+     */
+    function setPaymentTokenAllowed(address _token, bool _allowed) external onlyOwner {
+        if (_token == address(0)) revert PaymentTokenNotAllowed();
+        allowedPaymentTokens[_token] = _allowed;
+        emit PaymentTokenAllowed(_token, _allowed);
+    }
+
+    /**
+     * @notice Set the compliance module consulted on every pledge
+     * @dev Pass address(0) to disable annual cap checks
+     */
+    function setComplianceModule(address _complianceModule) external onlyOwner {
+        address oldModule = complianceModule;
+        complianceModule = _complianceModule;
+        emit ComplianceModuleUpdated(oldModule, _complianceModule);
+    }
+
+    /**
+     * @notice Set the registry of verified investors allowed to pledge
+     * @dev Pass address(0) to accept pledges from any wallet
+     */
+    function setInvestorRegistry(address _investorRegistry) external onlyOwner {
+        address oldRegistry = investorRegistry;
+        investorRegistry = _investorRegistry;
+        emit InvestorRegistryUpdated(oldRegistry, _investorRegistry);
+    }
+
     // ============ Receive Function ============
 
     /// @notice Reject direct MNT transfers
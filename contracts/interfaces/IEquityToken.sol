@@ -15,6 +15,14 @@ interface IEquityToken {
      */
     function mint(address to, uint256 amount) external;
 
+    /**
+     * @notice Burn tokens from an investor when their pledge is refunded
+     * @dev Can only be called by the escrow contract
+     * @param from Address whose tokens are burned
+     * @param amount Amount of tokens to burn (in wei)
+     */
+    function burnFrom(address from, uint256 amount) external;
+
     /**
      * @notice Get the escrow contract address
      * @return Address of the escrow contract that can mint tokens
@@ -26,4 +34,19 @@ interface IEquityToken {
      * @return Campaign ID in the escrow contract
      */
     function campaignId() external view returns (uint256);
+
+    /**
+     * @notice Get the voting power of an account at a past timestamp
+     * @param account Address to look up
+     * @param timepoint Timestamp to look up (must be in the past)
+     * @return Own undelegated balance plus balances delegated to the account
+     */
+    function getPastVotes(address account, uint256 timepoint) external view returns (uint256);
+
+    /**
+     * @notice Get the total supply at a past timestamp
+     * @param timepoint Timestamp to look up (must be in the past)
+     * @return Total supply at the end of that timestamp
+     */
+    function getPastTotalSupply(uint256 timepoint) external view returns (uint256);
 }
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IEquityTokenFactory
+ * @notice Interface for the factory MilestoneEscrow deploys campaign EquityTokens through
+ * @dev Keeps the EquityToken creation code out of the escrow's bytecode
+ */
+interface IEquityTokenFactory {
+    /**
+     * @notice Deploy an EquityToken whose escrow contract is the caller
+     * @param name Token name
+     * @param symbol Token symbol
+     * @param campaignId ID of the campaign in the escrow contract
+     * @param tokenDecimals Decimals of the campaign's payment token
+     * @param issuer Campaign creator allowed to set the transfer rules
+     * @param campaignEnd Campaign end timestamp
+     * @return Address of the new token
+     */
+    function createEquityToken(
+        string calldata name,
+        string calldata symbol,
+        uint256 campaignId,
+        uint8 tokenDecimals,
+        address issuer,
+        uint256 campaignEnd
+    ) external returns (address);
+}
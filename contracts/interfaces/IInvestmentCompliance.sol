@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IInvestmentCompliance
+ * @notice Interface for the compliance module consulted by MilestoneEscrow on every pledge
+ * @dev Amounts are passed in payment token base units together with the payment token,
+ *      so the module can normalize them before applying its caps
+ */
+interface IInvestmentCompliance {
+    /**
+     * @notice Count a pledge towards the investor's rolling annual total
+     * @dev Can only be called by the escrow contract. Reverts if the pledge exceeds the cap.
+     * @param investor Address of the investor
+     * @param paymentToken Campaign payment token, or address(0) for native MNT
+     * @param amount Pledged amount (in payment token base units)
+     */
+    function recordInvestment(address investor, address paymentToken, uint256 amount) external;
+
+    /**
+     * @notice Release a returned pledge from the investor's rolling annual total
+     * @dev Can only be called by the escrow contract
+     * @param investor Address of the investor
+     * @param paymentToken Campaign payment token, or address(0) for native MNT
+     * @param amount Returned amount (in payment token base units)
+     */
+    function releaseInvestment(address investor, address paymentToken, uint256 amount) external;
+
+    /**
+     * @notice Get how much more the investor may pledge in the current window
+     * @return Remaining allowance, normalized to 18 decimals (type(uint256).max if uncapped)
+     */
+    function getRemainingAllowance(address investor) external view returns (uint256);
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/// @notice Investor classification used for annual caps
+enum InvestorTier {
+    Retail,         // Capped at the retail annual limit
+    Professional    // Accredited investors with a higher (default: no) cap
+}
+
+/**
+ * @title IInvestorRegistry
+ * @notice Interface for the KYC / accreditation registry consulted by MilestoneEscrow
+ *         and InvestmentCompliance
+ */
+interface IInvestorRegistry {
+    /**
+     * @notice Check whether an investor holds a valid (unexpired, unrevoked) attestation
+     * @param investor Address of the investor
+     * @return True if the investor passed KYC with an approved verifier
+     */
+    function isVerified(address investor) external view returns (bool);
+
+    /**
+     * @notice Get the tier an investor is attested for
+     * @dev Investors without a valid attestation are Retail
+     * @param investor Address of the investor
+     * @return Investor tier
+     */
+    function getInvestorTier(address investor) external view returns (InvestorTier);
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockStablecoin
+ * @notice Test stablecoin (e.g. USDC/USDT) for ERC-20 campaigns on testnet
+ * @dev Anyone can mint. Never deploy to mainnet.
+ */
+contract MockStablecoin is ERC20 {
+    /// @notice Token decimals (6 for USDC/USDT)
+    uint8 private immutable _decimals;
+
+    /**
+     * @param _name Token name (e.g., "Mock USD Coin")
+     * @param _symbol Token symbol (e.g., "USDC")
+     * @param _tokenDecimals Token decimals
+     */
+    constructor(
+        string memory _name,
+        string memory _symbol,
+        uint8 _tokenDecimals
+    ) ERC20(_name, _symbol) {
+        _decimals = _tokenDecimals;
+    }
+
+    /**
+     * @notice Mint test tokens (faucet)
+     * @param to Address to receive the tokens
+     * @param amount Amount of tokens to mint (in base units)
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    /**
+     * @notice Returns the number of decimals
+     * @return Number of decimals
+     */
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+}
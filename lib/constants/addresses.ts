@@ -9,10 +9,41 @@ export const CONTRACTS = {
   // Deployed after MilestoneEscrow (requires escrow address)
   GOVERNANCE_V2: "0xe43E47b6F542541b86F5CA27dcf4DFBbE84BDDB8",
 
+  // InvestmentCompliance contract address (per-investor annual caps checked on every pledge)
+  // Deployed alongside MilestoneEscrow via: npm run deploy:milestone-sepolia
+  INVESTMENT_COMPLIANCE: "0x0000000000000000000000000000000000000000",
+
+  // InvestorRegistry contract address (KYC attestations consulted by the escrow and compliance caps)
+  // Deployed alongside MilestoneEscrow via: npm run deploy:milestone-sepolia
+  INVESTOR_REGISTRY: "0x0000000000000000000000000000000000000000",
+
+  // DividendDistributor contract address (revenue distribution to equity token holders)
+  // Deployed alongside MilestoneEscrow via: npm run deploy:milestone-sepolia
+  DIVIDEND_DISTRIBUTOR: "0x0000000000000000000000000000000000000000",
+
   // Platform wallet (receives 2% platform fees)
   PLATFORM_WALLET: "0xBf30B87972F7A1e1fA018615d636b2C3c7bcA8Ef",
+
+  // Mock USDC stablecoin (6 decimals), allow-listed as a campaign payment token
+  // Deployed alongside MilestoneEscrow via: npm run deploy:milestone-sepolia
+  MOCK_USDC: "0x0000000000000000000000000000000000000000",
 } as const;
 
+// Contracts deployed to a local hardhat node (npx hardhat node, then npm run deploy:milestone-local)
+// The deploy script prints the values to put in .env.local
+export const LOCAL_CONTRACTS = {
+  INVESTOR_REGISTRY: process.env.NEXT_PUBLIC_LOCAL_INVESTOR_REGISTRY ?? "",
+} as const;
+
+// Native MNT is represented as the zero address in MilestoneEscrow
+export const NATIVE_TOKEN = "0x0000000000000000000000000000000000000000";
+
+// Payment tokens a campaign can be created with
+export const PAYMENT_TOKENS = [
+  { symbol: "MNT", address: NATIVE_TOKEN, decimals: 18 },
+  { symbol: "USDC", address: CONTRACTS.MOCK_USDC, decimals: 6 },
+] as const;
+
 // EquityToken contracts are deployed automatically by MilestoneEscrow
 // when createCampaignWithMilestones() is called. No need to pre-define addresses here.
 
@@ -0,0 +1,56 @@
+// Milestone templates offered by the campaign creation wizard
+// Each template satisfies MilestoneEscrow's rules: percentages sum to 100, deadlines ascend
+
+import type { MilestoneInput } from "@/lib/contracts/types";
+
+export interface MilestoneTemplate {
+  id: string;
+  label: string;
+  icon: string;
+  description: string;
+  milestones: MilestoneInput[];
+}
+
+export const MILESTONE_TEMPLATES: MilestoneTemplate[] = [
+  {
+    id: "software",
+    label: "Software",
+    icon: "💻",
+    description: "MVP, beta and full launch",
+    milestones: [
+      { title: "MVP Launch", description: "Complete MVP with core features", percentage: 30, deadlineDays: 30 },
+      { title: "Beta Release", description: "Beta version with user feedback integration", percentage: 40, deadlineDays: 60 },
+      { title: "Full Launch", description: "Production release with all planned features", percentage: 30, deadlineDays: 90 },
+    ],
+  },
+  {
+    id: "hardware",
+    label: "Hardware",
+    icon: "🔧",
+    description: "Prototype through mass production and delivery",
+    milestones: [
+      { title: "Working Prototype", description: "Functional prototype demonstrating the core design", percentage: 15, deadlineDays: 45 },
+      { title: "Design for Manufacturing", description: "Final design, bill of materials and supplier selection", percentage: 15, deadlineDays: 90 },
+      { title: "Certification", description: "Required safety and regulatory certifications obtained", percentage: 15, deadlineDays: 150 },
+      { title: "Pilot Production", description: "First production run with quality assurance", percentage: 20, deadlineDays: 210 },
+      { title: "Mass Production", description: "Full production run completed", percentage: 20, deadlineDays: 270 },
+      { title: "Delivery", description: "Units shipped to customers and backers", percentage: 15, deadlineDays: 330 },
+    ],
+  },
+  {
+    id: "real-estate",
+    label: "Real Estate",
+    icon: "🏢",
+    description: "Acquisition, construction and leasing",
+    milestones: [
+      { title: "Property Acquisition", description: "Purchase agreement signed and title transferred", percentage: 30, deadlineDays: 30 },
+      { title: "Permits Approved", description: "Building and renovation permits granted", percentage: 10, deadlineDays: 90 },
+      { title: "Construction Start", description: "Contractor engaged and site work begun", percentage: 15, deadlineDays: 120 },
+      { title: "Structural Completion", description: "Structure and exterior completed and inspected", percentage: 15, deadlineDays: 240 },
+      { title: "Interior Fit-out", description: "Interiors finished and certificate of occupancy issued", percentage: 15, deadlineDays: 330 },
+      { title: "Leasing", description: "Units leased and rental income started", percentage: 15, deadlineDays: 390 },
+    ],
+  },
+];
+
+export const DEFAULT_MILESTONE_TEMPLATE = MILESTONE_TEMPLATES[0];
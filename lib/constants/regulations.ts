@@ -36,14 +36,23 @@ export interface InvestmentLimitCheckResult {
 /**
  * Check if investment amount is within individual limit
  * @param amount - Investment amount in USDC
- * @param previousInvestments - Total previous investments in USDC (current year)
+ * @param previousInvestments - Total previous investments in USDC (rolling 12 months)
+ * @param limit - Annual limit for the investor's tier (Infinity for uncapped investors)
  * @returns Limit check result
  */
 export function checkInvestmentLimit(
   amount: number,
-  previousInvestments: number = 0
+  previousInvestments: number = 0,
+  limit: number = KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC
 ): InvestmentLimitCheckResult {
-  const limit = KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC;
+  if (!Number.isFinite(limit)) {
+    return {
+      isAllowed: true,
+      remainingLimit: limit,
+      message: "Investment allowed. No annual limit applies to your investor tier",
+    };
+  }
+
   const totalAfterInvestment = previousInvestments + amount;
 
   if (totalAfterInvestment > limit) {
@@ -21,6 +21,9 @@ export const ROUTES = {
   // User
   PROFILE: '/profile',
 
+  // Admin
+  ADMIN_INVESTORS: '/admin/investors',
+
   // External - Mantle Explorer
   EXPLORER_TX: (hash: string) => `https://sepolia.mantlescan.xyz/tx/${hash}` as const,
   EXPLORER_ADDRESS: (address: string) => `https://sepolia.mantlescan.xyz/address/${address}` as const,
@@ -20,7 +20,7 @@ export const EQUITY_TOKEN_ABI = [
   {
     name: "decimals",
     type: "function",
-    stateMutability: "pure",
+    stateMutability: "view",
     inputs: [],
     outputs: [{ name: "", type: "uint8" }],
   },
@@ -105,6 +105,191 @@ export const EQUITY_TOKEN_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: "burnFrom",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "from", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+
+  // Checkpoint Functions
+  {
+    name: "clock",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint48" }],
+  },
+  {
+    name: "getPastBalance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "timepoint", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getPastTotalSupply",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "timepoint", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+
+  // Transfer Rules
+  {
+    name: "issuer",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "campaignEnd",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "transferRules",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "lockupPeriod", type: "uint64" },
+      { name: "registeredOnly", type: "bool" },
+      { name: "maxHolders", type: "uint32" },
+    ],
+  },
+  {
+    name: "holderCount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "lockupEndsAt",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "setTransferRules",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_lockupPeriod", type: "uint64" },
+      { name: "_registeredOnly", type: "bool" },
+      { name: "_maxHolders", type: "uint32" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "TransferRulesSet",
+    type: "event",
+    inputs: [
+      { name: "lockupPeriod", type: "uint64", indexed: false },
+      { name: "registeredOnly", type: "bool", indexed: false },
+      { name: "maxHolders", type: "uint32", indexed: false },
+    ],
+  },
+
+  // Delegation
+  {
+    name: "delegate",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "delegatee", type: "address" }],
+    outputs: [],
+  },
+  {
+    name: "delegates",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getVotes",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getPastVotes",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "timepoint", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getPastDelegate",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "timepoint", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "DelegateChanged",
+    type: "event",
+    inputs: [
+      { name: "delegator", type: "address", indexed: true },
+      { name: "fromDelegate", type: "address", indexed: true },
+      { name: "toDelegate", type: "address", indexed: true },
+    ],
+  },
+  {
+    name: "DelegateVotesChanged",
+    type: "event",
+    inputs: [
+      { name: "delegate", type: "address", indexed: true },
+      { name: "previousVotes", type: "uint256", indexed: false },
+      { name: "newVotes", type: "uint256", indexed: false },
+    ],
+  },
+
+  // Transfer Rule Errors (decoded into readable messages by lib/contracts/equity-token.ts)
+  {
+    name: "OnlyIssuer",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "TransferRulesFrozen",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "TransferLocked",
+    type: "error",
+    inputs: [{ name: "unlocksAt", type: "uint256" }],
+  },
+  {
+    name: "InvestorNotRegistered",
+    type: "error",
+    inputs: [{ name: "account", type: "address" }],
+  },
+  {
+    name: "MaxHoldersExceeded",
+    type: "error",
+    inputs: [{ name: "maxHolders", type: "uint256" }],
+  },
 
   // ERC20 Events
   {
@@ -144,6 +329,13 @@ export const MILESTONE_ESCROW_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "address" }],
   },
+  {
+    name: "tokenFactory",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
   {
     name: "governanceContract",
     type: "function",
@@ -151,6 +343,20 @@ export const MILESTONE_ESCROW_ABI = [
     inputs: [],
     outputs: [{ name: "", type: "address" }],
   },
+  {
+    name: "complianceModule",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "investorRegistry",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
   {
     name: "PLATFORM_FEE_BPS",
     type: "function",
@@ -190,6 +396,8 @@ export const MILESTONE_ESCROW_ABI = [
           { name: "milestoneCount", type: "uint256" },
           { name: "releasedAmount", type: "uint256" },
           { name: "hasMilestones", type: "bool" },
+          { name: "paymentToken", type: "address" },
+          { name: "metadataHash", type: "bytes32" },
         ],
       },
     ],
@@ -223,6 +431,7 @@ export const MILESTONE_ESCROW_ABI = [
           { name: "deadline", type: "uint256" },
           { name: "status", type: "uint8" },
           { name: "proposalId", type: "uint256" },
+          { name: "evidenceHash", type: "bytes32" },
         ],
       },
     ],
@@ -243,10 +452,129 @@ export const MILESTONE_ESCROW_ABI = [
           { name: "deadline", type: "uint256" },
           { name: "status", type: "uint8" },
           { name: "proposalId", type: "uint256" },
+          { name: "evidenceHash", type: "bytes32" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getVotingRules",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_proposalType", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "quorumBps", type: "uint256" },
+          { name: "approvalBps", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getGovernanceParams",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_campaignId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "votingPeriod", type: "uint256" },
+          { name: "proposalThresholdBps", type: "uint256" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "autoRelease",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "refundsEnabled",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "submissionsPaused",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "uint256" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "getPayoutAddress",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_campaignId", type: "uint256" }],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "releaseTimelock",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "guardian",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getReleaseWindow",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_milestoneIndex", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "approvedAt", type: "uint256" },
+          { name: "unlockAt", type: "uint256" },
+          { name: "vetoVotes", type: "uint256" },
         ],
       },
     ],
   },
+  {
+    name: "hasVetoedRelease",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "uint256" },
+      { name: "", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "validateMilestoneAmendment",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_deadlines", type: "uint256[]" },
+      { name: "_percentages", type: "uint256[]" },
+    ],
+    outputs: [],
+  },
   {
     name: "getUnreleasedFunds",
     type: "function",
@@ -285,6 +613,13 @@ export const MILESTONE_ESCROW_ABI = [
     ],
     outputs: [{ name: "", type: "bool" }],
   },
+  {
+    name: "allowedPaymentTokens",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
 
   // Write Functions
   {
@@ -298,6 +633,8 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "_tokenName", type: "string" },
       { name: "_tokenSymbol", type: "string" },
       { name: "_founderShareBps", type: "uint256" },
+      { name: "_paymentToken", type: "address" },
+      { name: "_metadataHash", type: "bytes32" },
     ],
     outputs: [{ name: "campaignId", type: "uint256" }],
   },
@@ -316,6 +653,24 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "_milestoneDescriptions", type: "string[]" },
       { name: "_milestonePercentages", type: "uint256[]" },
       { name: "_milestoneDaysAfterEnd", type: "uint256[]" },
+      {
+        name: "_votingRules",
+        type: "tuple[]",
+        components: [
+          { name: "quorumBps", type: "uint256" },
+          { name: "approvalBps", type: "uint256" },
+        ],
+      },
+      {
+        name: "_governanceParams",
+        type: "tuple",
+        components: [
+          { name: "votingPeriod", type: "uint256" },
+          { name: "proposalThresholdBps", type: "uint256" },
+        ],
+      },
+      { name: "_paymentToken", type: "address" },
+      { name: "_metadataHash", type: "bytes32" },
     ],
     outputs: [{ name: "campaignId", type: "uint256" }],
   },
@@ -327,7 +682,7 @@ export const MILESTONE_ESCROW_ABI = [
     outputs: [],
   },
   {
-    name: "unpledge",
+    name: "pledgeToken",
     type: "function",
     stateMutability: "nonpayable",
     inputs: [
@@ -337,7 +692,17 @@ export const MILESTONE_ESCROW_ABI = [
     outputs: [],
   },
   {
-    name: "claimTokens",
+    name: "unpledge",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_amount", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "claimTokens",
     type: "function",
     stateMutability: "nonpayable",
     inputs: [{ name: "_campaignId", type: "uint256" }],
@@ -371,6 +736,7 @@ export const MILESTONE_ESCROW_ABI = [
     inputs: [
       { name: "_campaignId", type: "uint256" },
       { name: "_milestoneIndex", type: "uint256" },
+      { name: "_evidenceHash", type: "bytes32" },
     ],
     outputs: [],
   },
@@ -384,6 +750,16 @@ export const MILESTONE_ESCROW_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: "markMilestoneExpired",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_milestoneIndex", type: "uint256" },
+    ],
+    outputs: [],
+  },
   {
     name: "emergencyRefund",
     type: "function",
@@ -406,6 +782,85 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "_campaignId", type: "uint256" },
       { name: "_milestoneIndex", type: "uint256" },
       { name: "_approved", type: "bool" },
+      { name: "_releaseBps", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "setAutoRelease",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_enabled", type: "bool" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "vetoMilestoneRelease",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_milestoneIndex", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "signalReleaseVeto",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_milestoneIndex", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "resetMilestoneStatus",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_milestoneIndex", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "amendMilestones",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_deadlines", type: "uint256[]" },
+      { name: "_percentages", type: "uint256[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "enableEmergencyRefund",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_campaignId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "setSubmissionsPaused",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_paused", type: "bool" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "setPayoutAddress",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_payoutAddress", type: "address" },
     ],
     outputs: [],
   },
@@ -424,6 +879,37 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "name", type: "string", indexed: false },
       { name: "tokenSymbol", type: "string", indexed: false },
       { name: "hasMilestones", type: "bool", indexed: false },
+      { name: "milestoneCount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "VotingRulesSet",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "proposalType", type: "uint256", indexed: true },
+      { name: "quorumBps", type: "uint256", indexed: false },
+      { name: "approvalBps", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "GovernanceParamsSet",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "votingPeriod", type: "uint256", indexed: false },
+      { name: "proposalThresholdBps", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "MilestoneCreated",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
+      { name: "title", type: "string", indexed: false },
+      { name: "percentage", type: "uint256", indexed: false },
+      { name: "deadline", type: "uint256", indexed: false },
     ],
   },
   {
@@ -453,15 +939,80 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "campaignId", type: "uint256", indexed: true },
       { name: "milestoneIndex", type: "uint256", indexed: true },
       { name: "proposalId", type: "uint256", indexed: false },
+      { name: "evidenceHash", type: "bytes32", indexed: false },
+    ],
+  },
+  {
+    name: "MilestoneStatusChanged",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
+      { name: "newStatus", type: "uint8", indexed: false },
+    ],
+  },
+  {
+    name: "MilestoneAmended",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
+      { name: "percentage", type: "uint256", indexed: false },
+      { name: "deadline", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "MilestoneReleaseReduced",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
+      { name: "approvedPercentage", type: "uint256", indexed: false },
+      { name: "withheldPercentage", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "AutoReleaseUpdated",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "enabled", type: "bool", indexed: false },
+    ],
+  },
+  {
+    name: "SubmissionsPausedUpdated",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "paused", type: "bool", indexed: false },
+    ],
+  },
+  {
+    name: "PayoutAddressUpdated",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "oldPayoutAddress", type: "address", indexed: true },
+      { name: "newPayoutAddress", type: "address", indexed: true },
+    ],
+  },
+  {
+    name: "ReleaseVetoSignaled",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
+      { name: "holder", type: "address", indexed: true },
+      { name: "weight", type: "uint256", indexed: false },
     ],
   },
   {
-    name: "MilestoneStatusUpdated",
+    name: "MilestoneReleaseVetoed",
     type: "event",
     inputs: [
       { name: "campaignId", type: "uint256", indexed: true },
       { name: "milestoneIndex", type: "uint256", indexed: true },
-      { name: "status", type: "uint8", indexed: false },
+      { name: "vetoedBy", type: "address", indexed: false },
     ],
   },
   {
@@ -470,12 +1021,21 @@ export const MILESTONE_ESCROW_ABI = [
     inputs: [
       { name: "campaignId", type: "uint256", indexed: true },
       { name: "milestoneIndex", type: "uint256", indexed: true },
-      { name: "amount", type: "uint256", indexed: false },
+      { name: "grossAmount", type: "uint256", indexed: false },
       { name: "platformFee", type: "uint256", indexed: false },
+      { name: "netAmount", type: "uint256", indexed: false },
     ],
   },
   {
-    name: "EmergencyRefund",
+    name: "EmergencyRefundEnabled",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "refundableAmount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "TokensClaimed",
     type: "event",
     inputs: [
       { name: "campaignId", type: "uint256", indexed: true },
@@ -484,7 +1044,7 @@ export const MILESTONE_ESCROW_ABI = [
     ],
   },
   {
-    name: "TokensClaimed",
+    name: "TokensBurned",
     type: "event",
     inputs: [
       { name: "campaignId", type: "uint256", indexed: true },
@@ -501,6 +1061,39 @@ export const MILESTONE_ESCROW_ABI = [
       { name: "amount", type: "uint256", indexed: false },
     ],
   },
+  {
+    name: "FounderTokensClaimed",
+    type: "event",
+    inputs: [
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "founder", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "PaymentTokenAllowed",
+    type: "event",
+    inputs: [
+      { name: "token", type: "address", indexed: true },
+      { name: "allowed", type: "bool", indexed: false },
+    ],
+  },
+  {
+    name: "ComplianceModuleUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldModule", type: "address", indexed: true },
+      { name: "newModule", type: "address", indexed: true },
+    ],
+  },
+  {
+    name: "InvestorRegistryUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldRegistry", type: "address", indexed: true },
+      { name: "newRegistry", type: "address", indexed: true },
+    ],
+  },
 ] as const;
 
 // GovernanceV2 ABI - Extended governance with milestone proposal support
@@ -514,19 +1107,29 @@ export const GOVERNANCE_V2_ABI = [
     outputs: [{ name: "", type: "uint256" }],
   },
   {
-    name: "VOTING_PERIOD",
+    name: "DEFAULT_VOTING_PERIOD",
     type: "function",
     stateMutability: "view",
     inputs: [],
     outputs: [{ name: "", type: "uint256" }],
   },
   {
-    name: "MIN_PROPOSER_HOLDING_BPS",
+    name: "DEFAULT_PROPOSAL_THRESHOLD_BPS",
     type: "function",
     stateMutability: "view",
     inputs: [],
     outputs: [{ name: "", type: "uint256" }],
   },
+  {
+    name: "getGovernanceParams",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_campaignId", type: "uint256" }],
+    outputs: [
+      { name: "votingPeriod", type: "uint256" },
+      { name: "proposalThresholdBps", type: "uint256" },
+    ],
+  },
   {
     name: "escrow",
     type: "function",
@@ -550,12 +1153,14 @@ export const GOVERNANCE_V2_ABI = [
           { name: "description", type: "string" },
           { name: "forVotes", type: "uint256" },
           { name: "againstVotes", type: "uint256" },
+          { name: "abstainVotes", type: "uint256" },
           { name: "startTime", type: "uint256" },
           { name: "endTime", type: "uint256" },
           { name: "executed", type: "bool" },
           { name: "canceled", type: "bool" },
           { name: "proposalType", type: "uint8" },
           { name: "milestoneIndex", type: "uint256" },
+          { name: "snapshotTime", type: "uint256" },
         ],
       },
     ],
@@ -593,7 +1198,10 @@ export const GOVERNANCE_V2_ABI = [
     type: "function",
     stateMutability: "view",
     inputs: [{ name: "_proposalId", type: "uint256" }],
-    outputs: [{ name: "status", type: "uint8" }],
+    outputs: [
+      { name: "status", type: "uint8" },
+      { name: "quorumReached", type: "bool" },
+    ],
   },
   {
     name: "getVotingResults",
@@ -603,7 +1211,10 @@ export const GOVERNANCE_V2_ABI = [
     outputs: [
       { name: "forPercent", type: "uint256" },
       { name: "againstPercent", type: "uint256" },
+      { name: "abstainPercent", type: "uint256" },
       { name: "totalVotes", type: "uint256" },
+      { name: "quorumVotes", type: "uint256" },
+      { name: "quorumReached", type: "bool" },
     ],
   },
   {
@@ -616,6 +1227,21 @@ export const GOVERNANCE_V2_ABI = [
     ],
     outputs: [{ name: "", type: "bool" }],
   },
+  {
+    name: "getVote",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_proposalId", type: "uint256" },
+      { name: "_voter", type: "address" },
+    ],
+    outputs: [
+      { name: "voted", type: "bool" },
+      { name: "support", type: "uint8" },
+      { name: "weight", type: "uint256" },
+      { name: "releaseBps", type: "uint256" },
+    ],
+  },
   {
     name: "getVoteWeight",
     type: "function",
@@ -626,6 +1252,16 @@ export const GOVERNANCE_V2_ABI = [
     ],
     outputs: [{ name: "", type: "uint256" }],
   },
+  {
+    name: "getVotingPower",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_proposalId", type: "uint256" },
+      { name: "_voter", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
   {
     name: "getTimeRemaining",
     type: "function",
@@ -650,6 +1286,47 @@ export const GOVERNANCE_V2_ABI = [
     ],
     outputs: [{ name: "", type: "uint256" }],
   },
+  {
+    name: "getApprovedReleaseBps",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_proposalId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getAmendment",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_proposalId", type: "uint256" }],
+    outputs: [
+      { name: "deadlines", type: "uint256[]" },
+      { name: "percentages", type: "uint256[]" },
+    ],
+  },
+  {
+    name: "getProposalAction",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_proposalId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "actionType", type: "uint8" },
+          { name: "payoutAddress", type: "address" },
+        ],
+      },
+    ],
+  },
+
+  {
+    name: "nonces",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "owner", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
 
   // Write Functions
   {
@@ -676,17 +1353,111 @@ export const GOVERNANCE_V2_ABI = [
     outputs: [{ name: "proposalId", type: "uint256" }],
   },
   {
-    name: "vote",
+    name: "createActionProposal",
     type: "function",
     stateMutability: "nonpayable",
     inputs: [
-      { name: "_proposalId", type: "uint256" },
-      { name: "_support", type: "bool" },
+      { name: "_campaignId", type: "uint256" },
+      { name: "_title", type: "string" },
+      { name: "_description", type: "string" },
+      {
+        name: "_action",
+        type: "tuple",
+        components: [
+          { name: "actionType", type: "uint8" },
+          { name: "payoutAddress", type: "address" },
+        ],
+      },
     ],
-    outputs: [],
+    outputs: [{ name: "proposalId", type: "uint256" }],
   },
   {
-    name: "executeProposal",
+    name: "createAmendmentProposal",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_title", type: "string" },
+      { name: "_description", type: "string" },
+      { name: "_deadlines", type: "uint256[]" },
+      { name: "_percentages", type: "uint256[]" },
+    ],
+    outputs: [{ name: "proposalId", type: "uint256" }],
+  },
+  {
+    name: "vote",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_proposalId", type: "uint256" },
+      { name: "_support", type: "bool" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "castVote",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_proposalId", type: "uint256" },
+      { name: "_support", type: "uint8" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "voteWithReleaseShare",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_proposalId", type: "uint256" },
+      { name: "_releaseBps", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "castVoteBySig",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "_ballot",
+        type: "tuple",
+        components: [
+          { name: "proposalId", type: "uint256" },
+          { name: "support", type: "uint8" },
+          { name: "releaseBps", type: "uint256" },
+          { name: "voter", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { name: "_signature", type: "bytes" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "castVotesBySig",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      {
+        name: "_ballots",
+        type: "tuple[]",
+        components: [
+          { name: "proposalId", type: "uint256" },
+          { name: "support", type: "uint8" },
+          { name: "releaseBps", type: "uint256" },
+          { name: "voter", type: "address" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { name: "_signatures", type: "bytes[]" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "executeProposal",
     type: "function",
     stateMutability: "nonpayable",
     inputs: [{ name: "_proposalId", type: "uint256" }],
@@ -709,9 +1480,10 @@ export const GOVERNANCE_V2_ABI = [
       { name: "campaignId", type: "uint256", indexed: true },
       { name: "proposer", type: "address", indexed: true },
       { name: "title", type: "string", indexed: false },
-      { name: "proposalType", type: "uint8", indexed: false },
       { name: "startTime", type: "uint256", indexed: false },
       { name: "endTime", type: "uint256", indexed: false },
+      { name: "proposalType", type: "uint8", indexed: false },
+      { name: "milestoneIndex", type: "uint256", indexed: false },
     ],
   },
   {
@@ -720,10 +1492,19 @@ export const GOVERNANCE_V2_ABI = [
     inputs: [
       { name: "proposalId", type: "uint256", indexed: true },
       { name: "voter", type: "address", indexed: true },
-      { name: "support", type: "bool", indexed: false },
+      { name: "support", type: "uint8", indexed: false },
       { name: "weight", type: "uint256", indexed: false },
     ],
   },
+  {
+    name: "ReleaseShareVoted",
+    type: "event",
+    inputs: [
+      { name: "proposalId", type: "uint256", indexed: true },
+      { name: "voter", type: "address", indexed: true },
+      { name: "releaseBps", type: "uint256", indexed: false },
+    ],
+  },
   {
     name: "ProposalExecuted",
     type: "event",
@@ -738,10 +1519,29 @@ export const GOVERNANCE_V2_ABI = [
     inputs: [
       { name: "proposalId", type: "uint256", indexed: true },
       { name: "campaignId", type: "uint256", indexed: true },
-      { name: "milestoneIndex", type: "uint256", indexed: false },
+      { name: "milestoneIndex", type: "uint256", indexed: true },
       { name: "approved", type: "bool", indexed: false },
     ],
   },
+  {
+    name: "AmendmentProposalExecuted",
+    type: "event",
+    inputs: [
+      { name: "proposalId", type: "uint256", indexed: true },
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "applied", type: "bool", indexed: false },
+    ],
+  },
+  {
+    name: "ProposalActionExecuted",
+    type: "event",
+    inputs: [
+      { name: "proposalId", type: "uint256", indexed: true },
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "actionType", type: "uint8", indexed: false },
+      { name: "applied", type: "bool", indexed: false },
+    ],
+  },
   {
     name: "ProposalCanceled",
     type: "event",
@@ -749,4 +1549,437 @@ export const GOVERNANCE_V2_ABI = [
       { name: "proposalId", type: "uint256", indexed: true },
     ],
   },
+
+  // Vote Errors (decoded by the vote relayer)
+  {
+    name: "VotingNotActive",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "VotingEnded",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "AlreadyVoted",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "NoVotingPower",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "InvalidReleaseShare",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "InvalidSignature",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "SignatureExpired",
+    type: "error",
+    inputs: [],
+  },
+  {
+    name: "InvalidAccountNonce",
+    type: "error",
+    inputs: [
+      { name: "account", type: "address" },
+      { name: "currentNonce", type: "uint256" },
+    ],
+  },
+] as const;
+
+// InvestmentCompliance ABI - Per-investor rolling annual caps consulted on every pledge
+export const INVESTMENT_COMPLIANCE_ABI = [
+  // Read Functions
+  {
+    name: "escrowContract",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "WINDOW_DAYS",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "tierCaps",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "tier", type: "uint8" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "investorRegistry",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "getInvestorTier",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "getWindowTotal",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [{ name: "total", type: "uint256" }],
+  },
+  {
+    name: "getRemainingAllowance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getAllowance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [
+      { name: "tier", type: "uint8" },
+      { name: "cap", type: "uint256" },
+      { name: "used", type: "uint256" },
+      { name: "remaining", type: "uint256" },
+    ],
+  },
+  // Write Functions (owner only)
+  {
+    name: "setInvestorRegistry",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_investorRegistry", type: "address" }],
+    outputs: [],
+  },
+  {
+    name: "setTierCap",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_tier", type: "uint8" },
+      { name: "_cap", type: "uint256" },
+    ],
+    outputs: [],
+  },
+  // Events
+  {
+    name: "InvestmentRecorded",
+    type: "event",
+    inputs: [
+      { name: "investor", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "windowTotal", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "InvestmentReleased",
+    type: "event",
+    inputs: [
+      { name: "investor", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "windowTotal", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "InvestorRegistryUpdated",
+    type: "event",
+    inputs: [
+      { name: "oldRegistry", type: "address", indexed: true },
+      { name: "newRegistry", type: "address", indexed: true },
+    ],
+  },
+] as const;
+
+// InvestorRegistry ABI - KYC / accreditation attestations issued by approved verifiers
+export const INVESTOR_REGISTRY_ABI = [
+  // Read Functions
+  {
+    name: "verifiers",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "owner",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    name: "isVerified",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "getInvestorTier",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "getAttestation",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "investor", type: "address" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "tier", type: "uint8" },
+          { name: "verifier", type: "address" },
+          { name: "issuedAt", type: "uint64" },
+          { name: "expiresAt", type: "uint64" },
+          { name: "revoked", type: "bool" },
+        ],
+      },
+    ],
+  },
+  // Write Functions (verifiers)
+  {
+    name: "issueAttestation",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_investor", type: "address" },
+      { name: "_tier", type: "uint8" },
+      { name: "_expiresAt", type: "uint64" },
+    ],
+    outputs: [],
+  },
+  {
+    name: "revokeAttestation",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_investor", type: "address" }],
+    outputs: [],
+  },
+  // Write Functions (owner only)
+  {
+    name: "setVerifier",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "_verifier", type: "address" },
+      { name: "_allowed", type: "bool" },
+    ],
+    outputs: [],
+  },
+  // Events
+  {
+    name: "VerifierSet",
+    type: "event",
+    inputs: [
+      { name: "verifier", type: "address", indexed: true },
+      { name: "allowed", type: "bool", indexed: false },
+    ],
+  },
+  {
+    name: "AttestationIssued",
+    type: "event",
+    inputs: [
+      { name: "investor", type: "address", indexed: true },
+      { name: "verifier", type: "address", indexed: true },
+      { name: "tier", type: "uint8", indexed: false },
+      { name: "expiresAt", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "AttestationRevoked",
+    type: "event",
+    inputs: [
+      { name: "investor", type: "address", indexed: true },
+      { name: "revokedBy", type: "address", indexed: true },
+    ],
+  },
+] as const;
+
+// DividendDistributor ABI - Pro-rata revenue distribution to EquityToken holders
+export const DIVIDEND_DISTRIBUTOR_ABI = [
+  // Read Functions
+  {
+    name: "CLAIM_PERIOD",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "distributionCount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "hasClaimed",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "", type: "uint256" },
+      { name: "", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    name: "getDistribution",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_distributionId", type: "uint256" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "campaignId", type: "uint256" },
+          { name: "paymentToken", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "claimedAmount", type: "uint256" },
+          { name: "snapshotTime", type: "uint256" },
+          { name: "createdAt", type: "uint256" },
+          { name: "reclaimed", type: "bool" },
+        ],
+      },
+    ],
+  },
+  {
+    name: "getCampaignDistributions",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_campaignId", type: "uint256" }],
+    outputs: [{ name: "", type: "uint256[]" }],
+  },
+  {
+    name: "getClaimableAmount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_distributionId", type: "uint256" },
+      { name: "_holder", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  // Write Functions
+  {
+    name: "createDistribution",
+    type: "function",
+    stateMutability: "payable",
+    inputs: [
+      { name: "_campaignId", type: "uint256" },
+      { name: "_paymentToken", type: "address" },
+      { name: "_amount", type: "uint256" },
+    ],
+    outputs: [{ name: "distributionId", type: "uint256" }],
+  },
+  {
+    name: "claim",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_distributionId", type: "uint256" }],
+    outputs: [],
+  },
+  {
+    name: "reclaimUnclaimed",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [{ name: "_distributionId", type: "uint256" }],
+    outputs: [],
+  },
+  // Events
+  {
+    name: "DistributionCreated",
+    type: "event",
+    inputs: [
+      { name: "distributionId", type: "uint256", indexed: true },
+      { name: "campaignId", type: "uint256", indexed: true },
+      { name: "paymentToken", type: "address", indexed: false },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "snapshotTime", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "DividendClaimed",
+    type: "event",
+    inputs: [
+      { name: "distributionId", type: "uint256", indexed: true },
+      { name: "holder", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    name: "UnclaimedReclaimed",
+    type: "event",
+    inputs: [
+      { name: "distributionId", type: "uint256", indexed: true },
+      { name: "creator", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+// ERC20 ABI - Payment tokens (stablecoins) accepted by MilestoneEscrow
+export const ERC20_ABI = [
+  {
+    name: "symbol",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "string" }],
+  },
+  {
+    name: "decimals",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    name: "balanceOf",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "allowance",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "approve",
+    type: "function",
+    stateMutability: "nonpayable",
+    inputs: [
+      { name: "spender", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
 ] as const;
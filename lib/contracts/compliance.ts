@@ -0,0 +1,92 @@
+// InvestmentCompliance contract utilities
+// Per-investor rolling 12-month caps, enforced by MilestoneEscrow on every pledge
+
+import { getContract, readContract } from "thirdweb";
+import { mantleSepolia } from "@/lib/thirdweb/chains";
+import { client } from "@/lib/thirdweb/client";
+import { CONTRACTS } from "@/lib/constants/addresses";
+import { INVESTMENT_COMPLIANCE_ABI } from "./abis";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Cap value the contract uses for "no limit" (type(uint256).max)
+export const UNLIMITED_ALLOWANCE = BigInt(2) ** BigInt(256) - BigInt(1);
+
+// Decimals all compliance amounts are normalized to, whatever the payment token
+export const COMPLIANCE_DECIMALS = 18;
+
+export enum InvestorTier {
+  Retail = 0,
+  Professional = 1,
+}
+
+export interface InvestorAllowance {
+  tier: InvestorTier;
+  cap: bigint;
+  used: bigint;
+  remaining: bigint;
+  unlimited: boolean;
+}
+
+// Contract instance (null until the compliance module is deployed)
+export function getComplianceContract() {
+  const address = (CONTRACTS as Record<string, string>).INVESTMENT_COMPLIANCE;
+  if (!address || address === ZERO_ADDRESS) {
+    return null;
+  }
+
+  return getContract({
+    client,
+    chain: mantleSepolia,
+    address,
+    abi: INVESTMENT_COMPLIANCE_ABI,
+  });
+}
+
+export function getInvestorTierLabel(tier: InvestorTier): string {
+  switch (tier) {
+    case InvestorTier.Retail:
+      return "Retail";
+    case InvestorTier.Professional:
+      return "Professional";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Get an investor's tier, cap, usage and remaining allowance in the rolling window
+ * Amounts are normalized to 18 decimals. Returns null if no compliance module is deployed.
+ */
+export async function getInvestorAllowance(investor: string): Promise<InvestorAllowance | null> {
+  const contract = getComplianceContract();
+  if (!contract) return null;
+
+  try {
+    const [tier, cap, used, remaining] = await readContract({
+      contract,
+      method: "getAllowance",
+      params: [investor],
+    });
+
+    return {
+      tier: Number(tier) as InvestorTier,
+      cap,
+      used,
+      remaining,
+      unlimited: cap === UNLIMITED_ALLOWANCE,
+    };
+  } catch (error) {
+    console.error("Error reading investor allowance:", error);
+    return null;
+  }
+}
+
+/**
+ * Convert a normalized (18-decimal) compliance amount to payment token base units,
+ * rounding down so the converted allowance never overstates what the contract accepts
+ */
+export function complianceToTokenUnits(amount: bigint, tokenDecimals: number): bigint {
+  if (amount === UNLIMITED_ALLOWANCE) return amount;
+  return amount / BigInt(10) ** BigInt(COMPLIANCE_DECIMALS - tokenDecimals);
+}
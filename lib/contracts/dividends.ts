@@ -0,0 +1,190 @@
+// DividendDistributor contract utilities
+// Creators deposit revenue for a campaign; EquityToken holders claim pro-rata by snapshot
+
+import { getContract, prepareContractCall, readContract } from "thirdweb";
+import { mantleSepolia } from "@/lib/thirdweb/chains";
+import { client } from "@/lib/thirdweb/client";
+import { CONTRACTS, NATIVE_TOKEN } from "@/lib/constants/addresses";
+import { DIVIDEND_DISTRIBUTOR_ABI, ERC20_ABI } from "./abis";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Matches DividendDistributor.CLAIM_PERIOD
+export const DIVIDEND_CLAIM_PERIOD_SECONDS = 365 * 24 * 60 * 60;
+
+export interface DistributionData {
+  id: number;
+  campaignId: number;
+  paymentToken: string; // NATIVE_TOKEN for MNT
+  amount: bigint;
+  claimedAmount: bigint;
+  snapshotTime: number;
+  createdAt: number;
+  reclaimed: boolean;
+}
+
+export interface DistributionWithClaim extends DistributionData {
+  claimable: bigint;
+  claimed: boolean;
+}
+
+// Contract instance (null until the distributor is deployed)
+export function getDividendDistributorContract() {
+  const address = (CONTRACTS as Record<string, string>).DIVIDEND_DISTRIBUTOR;
+  if (!address || address === ZERO_ADDRESS) {
+    return null;
+  }
+
+  return getContract({
+    client,
+    chain: mantleSepolia,
+    address,
+    abi: DIVIDEND_DISTRIBUTOR_ABI,
+  });
+}
+
+function requireDistributorContract() {
+  const contract = getDividendDistributorContract();
+  if (!contract) throw new Error("DividendDistributor not configured");
+  return contract;
+}
+
+/**
+ * Get a distribution, with the holder's claim status if a holder is given
+ */
+export async function getDistribution(
+  distributionId: number,
+  holder?: string
+): Promise<DistributionWithClaim | null> {
+  const contract = getDividendDistributorContract();
+  if (!contract) return null;
+
+  try {
+    const [distribution, claimable, claimed] = await Promise.all([
+      readContract({ contract, method: "getDistribution", params: [BigInt(distributionId)] }),
+      holder
+        ? readContract({ contract, method: "getClaimableAmount", params: [BigInt(distributionId), holder] })
+        : Promise.resolve(BigInt(0)),
+      holder
+        ? readContract({ contract, method: "hasClaimed", params: [BigInt(distributionId), holder] })
+        : Promise.resolve(false),
+    ]);
+
+    return {
+      id: distributionId,
+      campaignId: Number(distribution.campaignId),
+      paymentToken: distribution.paymentToken,
+      amount: distribution.amount,
+      claimedAmount: distribution.claimedAmount,
+      snapshotTime: Number(distribution.snapshotTime),
+      createdAt: Number(distribution.createdAt),
+      reclaimed: distribution.reclaimed,
+      claimable,
+      claimed,
+    };
+  } catch (error) {
+    console.error("Error fetching distribution:", error);
+    return null;
+  }
+}
+
+/**
+ * Get all distributions of a campaign, newest first
+ */
+export async function getCampaignDistributions(
+  campaignId: number,
+  holder?: string
+): Promise<DistributionWithClaim[]> {
+  const contract = getDividendDistributorContract();
+  if (!contract) return [];
+
+  try {
+    const ids = await readContract({
+      contract,
+      method: "getCampaignDistributions",
+      params: [BigInt(campaignId)],
+    });
+
+    const distributions = await Promise.all(ids.map((id) => getDistribution(Number(id), holder)));
+    return distributions
+      .filter((d): d is DistributionWithClaim => d !== null)
+      .sort((a, b) => b.id - a.id);
+  } catch (error) {
+    console.error("Error fetching campaign distributions:", error);
+    return [];
+  }
+}
+
+/**
+ * Get the distributions a holder can still claim across the given campaigns
+ */
+export async function getClaimableDividends(
+  holder: string,
+  campaignIds: number[]
+): Promise<DistributionWithClaim[]> {
+  const perCampaign = await Promise.all(campaignIds.map((id) => getCampaignDistributions(id, holder)));
+  return perCampaign.flat().filter((d) => d.claimable > BigInt(0));
+}
+
+/**
+ * Whether the creator may reclaim the unclaimed remainder of a distribution
+ */
+export function canReclaimDistribution(distribution: DistributionData, now = Math.floor(Date.now() / 1000)): boolean {
+  return (
+    !distribution.reclaimed &&
+    distribution.claimedAmount < distribution.amount &&
+    now >= distribution.createdAt + DIVIDEND_CLAIM_PERIOD_SECONDS
+  );
+}
+
+// ============ Write Function Preparations ============
+
+/**
+ * Prepare ERC-20 approval for a stablecoin distribution
+ */
+export function prepareApproveDistributionToken(paymentToken: string, amount: bigint) {
+  const distributor = requireDistributorContract();
+
+  return prepareContractCall({
+    contract: getContract({ client, chain: mantleSepolia, address: paymentToken, abi: ERC20_ABI }),
+    method: "approve",
+    params: [distributor.address, amount],
+  });
+}
+
+/**
+ * Prepare createDistribution transaction (campaign creator only)
+ * MNT is sent as value; ERC-20 tokens need prior approval
+ */
+export function prepareCreateDistribution(campaignId: number, paymentToken: string, amount: bigint) {
+  const isNative = paymentToken.toLowerCase() === NATIVE_TOKEN;
+
+  return prepareContractCall({
+    contract: requireDistributorContract(),
+    method: "createDistribution",
+    params: [BigInt(campaignId), paymentToken, isNative ? BigInt(0) : amount],
+    value: isNative ? amount : BigInt(0),
+  });
+}
+
+/**
+ * Prepare claim transaction for a holder's share
+ */
+export function prepareClaimDividend(distributionId: number) {
+  return prepareContractCall({
+    contract: requireDistributorContract(),
+    method: "claim",
+    params: [BigInt(distributionId)],
+  });
+}
+
+/**
+ * Prepare reclaimUnclaimed transaction (campaign creator only, after the claim period)
+ */
+export function prepareReclaimUnclaimed(distributionId: number) {
+  return prepareContractCall({
+    contract: requireDistributorContract(),
+    method: "reclaimUnclaimed",
+    params: [BigInt(distributionId)],
+  });
+}
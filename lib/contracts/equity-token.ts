@@ -0,0 +1,211 @@
+// EquityToken contract utilities
+// Transfer rules (lock-up, registered investors only, max holders) set by the campaign issuer
+// and delegation of each holder's governance voting power
+
+import { getContract, prepareContractCall, readContract } from "thirdweb";
+import { mantleSepolia } from "@/lib/thirdweb/chains";
+import { client } from "@/lib/thirdweb/client";
+import { EQUITY_TOKEN_ABI } from "./abis";
+import { isVerifiedInvestor } from "./registry";
+
+export interface TransferRules {
+  lockupPeriod: number; // Seconds after campaign end
+  registeredOnly: boolean;
+  maxHolders: number; // 0 = no limit
+  lockupEndsAt: number; // Unix timestamp
+  holderCount: number;
+  issuer: string;
+  campaignEnd: number; // Unix timestamp; rules can no longer change from here
+}
+
+// Readable messages for the EquityToken custom errors
+export const TRANSFER_ERROR_MESSAGES = {
+  OnlyIssuer: "Only the campaign creator can change the transfer rules",
+  TransferRulesFrozen: "Transfer rules can no longer change after the campaign ends",
+  TransferLocked: "Tokens are still in their lock-up period",
+  InvestorNotRegistered: "Both sender and recipient must be verified investors",
+  MaxHoldersExceeded: "This token has reached its maximum number of holders",
+} as const;
+
+export type TransferErrorName = keyof typeof TRANSFER_ERROR_MESSAGES;
+
+export interface DelegateInfo {
+  delegate: string;
+  votes: bigint;
+  delegators: number; // Holders currently delegating to this address
+}
+
+export interface DelegationRecord {
+  delegator: string;
+  fromDelegate: string;
+  toDelegate: string;
+  blockNumber: number;
+}
+
+export function getEquityTokenContract(tokenAddress: string) {
+  return getContract({
+    client,
+    chain: mantleSepolia,
+    address: tokenAddress,
+    abi: EQUITY_TOKEN_ABI,
+  });
+}
+
+/**
+ * Get a campaign token's transfer rules and current holder count
+ */
+export async function getTransferRules(tokenAddress: string): Promise<TransferRules | null> {
+  const contract = getEquityTokenContract(tokenAddress);
+
+  try {
+    const [[lockupPeriod, registeredOnly, maxHolders], lockupEndsAt, holderCount, issuer, campaignEnd] =
+      await Promise.all([
+        readContract({ contract, method: "transferRules", params: [] }),
+        readContract({ contract, method: "lockupEndsAt", params: [] }),
+        readContract({ contract, method: "holderCount", params: [] }),
+        readContract({ contract, method: "issuer", params: [] }),
+        readContract({ contract, method: "campaignEnd", params: [] }),
+      ]);
+
+    return {
+      lockupPeriod: Number(lockupPeriod),
+      registeredOnly,
+      maxHolders: Number(maxHolders),
+      lockupEndsAt: Number(lockupEndsAt),
+      holderCount: Number(holderCount),
+      issuer,
+      campaignEnd: Number(campaignEnd),
+    };
+  } catch (error) {
+    console.error("Error reading transfer rules:", error);
+    return null;
+  }
+}
+
+/**
+ * Check a holder-to-holder transfer against the token's rules before sending it
+ * Returns the error the contract would revert with, or null if the transfer is allowed
+ */
+export async function getTransferRestriction(
+  tokenAddress: string,
+  from: string,
+  to: string
+): Promise<TransferErrorName | null> {
+  const rules = await getTransferRules(tokenAddress);
+  if (!rules) return null;
+
+  if (Date.now() / 1000 < rules.lockupEndsAt) return "TransferLocked";
+
+  if (rules.registeredOnly) {
+    const [fromVerified, toVerified] = await Promise.all([isVerifiedInvestor(from), isVerifiedInvestor(to)]);
+    if (!fromVerified || !toVerified) return "InvestorNotRegistered";
+  }
+
+  if (rules.maxHolders > 0 && rules.holderCount >= rules.maxHolders) {
+    const contract = getEquityTokenContract(tokenAddress);
+    const recipientBalance = await readContract({ contract, method: "balanceOf", params: [to] });
+    if (recipientBalance === BigInt(0)) return "MaxHoldersExceeded";
+  }
+
+  return null;
+}
+
+/**
+ * Map a failed EquityToken transaction to a readable message
+ */
+export function getTransferErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  for (const [name, readable] of Object.entries(TRANSFER_ERROR_MESSAGES)) {
+    if (message.includes(name)) return readable;
+  }
+  return message || "Token transfer failed";
+}
+
+/**
+ * Get an account's delegation state: who votes with its tokens and its own voting power
+ * (the delegate is the account itself until it delegates)
+ */
+export async function getDelegation(
+  tokenAddress: string,
+  account: string
+): Promise<{ delegate: string; votes: bigint } | null> {
+  const contract = getEquityTokenContract(tokenAddress);
+
+  try {
+    const [delegate, votes] = await Promise.all([
+      readContract({ contract, method: "delegates", params: [account] }),
+      readContract({ contract, method: "getVotes", params: [account] }),
+    ]);
+    return { delegate, votes };
+  } catch (error) {
+    console.error("Error reading delegation:", error);
+    return null;
+  }
+}
+
+/**
+ * Query the indexer for a campaign's top delegates (see app/api/campaigns/[id]/delegates),
+ * plus the delegator's history when given. Returns null when the indexer is unavailable.
+ */
+export async function fetchCampaignDelegates(
+  campaignId: number,
+  delegator?: string
+): Promise<{ delegates: DelegateInfo[]; history: DelegationRecord[] } | null> {
+  try {
+    const query = delegator ? `?delegator=${delegator}` : "";
+    const response = await fetch(`/api/campaigns/${campaignId}/delegates${query}`);
+    if (!response.ok) return null;
+
+    const body = (await response.json()) as {
+      delegates: (Omit<DelegateInfo, "votes"> & { votes: string })[];
+      history: DelegationRecord[];
+    };
+    return {
+      delegates: body.delegates.map((d) => ({ ...d, votes: BigInt(d.votes) })),
+      history: body.history,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ============ Write Function Preparations ============
+
+/**
+ * Prepare setTransferRules transaction (issuer only, before the campaign ends)
+ */
+export function prepareSetTransferRules(
+  tokenAddress: string,
+  lockupPeriod: number,
+  registeredOnly: boolean,
+  maxHolders: number
+) {
+  return prepareContractCall({
+    contract: getEquityTokenContract(tokenAddress),
+    method: "setTransferRules",
+    params: [BigInt(lockupPeriod), registeredOnly, maxHolders],
+  });
+}
+
+/**
+ * Prepare an equity token transfer
+ */
+export function prepareTransferEquity(tokenAddress: string, to: string, amount: bigint) {
+  return prepareContractCall({
+    contract: getEquityTokenContract(tokenAddress),
+    method: "transfer",
+    params: [to, amount],
+  });
+}
+
+/**
+ * Prepare a delegate transaction; delegating to yourself takes your voting power back
+ */
+export function prepareDelegate(tokenAddress: string, delegatee: string) {
+  return prepareContractCall({
+    contract: getEquityTokenContract(tokenAddress),
+    method: "delegate",
+    params: [delegatee],
+  });
+}
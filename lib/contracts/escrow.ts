@@ -4,8 +4,10 @@
 import { getContract, prepareContractCall, readContract } from "thirdweb";
 import { mantleSepolia } from "@/lib/thirdweb/chains";
 import { client } from "@/lib/thirdweb/client";
-import { CONTRACTS } from "@/lib/constants/addresses";
-import { MILESTONE_ESCROW_ABI } from "./abis";
+import { CONTRACTS, NATIVE_TOKEN } from "@/lib/constants/addresses";
+import { MILESTONE_ESCROW_ABI, ERC20_ABI } from "./abis";
+import { EMPTY_METADATA_HASH } from "@/lib/metadata/schema";
+import type { GovernanceParams, VotingRules } from "./types";
 
 // Check if escrow contract is configured
 const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
@@ -43,6 +45,115 @@ export interface CampaignData {
   milestoneCount: bigint;
   releasedAmount: bigint;
   hasMilestones: boolean;
+  paymentToken: string; // NATIVE_TOKEN for MNT campaigns
+  metadataHash: `0x${string}`; // EMPTY_METADATA_HASH when no metadata was published
+}
+
+export interface PaymentTokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+// ============ Indexer API ============
+
+type CampaignWithId = CampaignData & { id: number };
+
+type InvestorCampaignWithId = CampaignWithId & { pledgeAmount: bigint };
+
+function requireIndexedString(value: unknown, field: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`Invalid indexed campaign: ${field} must be a string`);
+  }
+  return value;
+}
+
+function requireIndexedBoolean(value: unknown, field: string): boolean {
+  if (typeof value !== "boolean") {
+    throw new Error(`Invalid indexed campaign: ${field} must be a boolean`);
+  }
+  return value;
+}
+
+// The indexer API serializes bigints as decimal strings
+function requireIndexedBigInt(value: unknown, field: string): bigint {
+  if (typeof value !== "string" || !/^\d+$/.test(value)) {
+    throw new Error(`Invalid indexed campaign: ${field} must be an unsigned integer string`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Validate a campaign returned by the indexer API
+ */
+function parseIndexedCampaign(value: unknown): CampaignWithId {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid indexed campaign: expected an object");
+  }
+  const campaign = value as Record<string, unknown>;
+
+  if (typeof campaign.id !== "number" || !Number.isInteger(campaign.id) || campaign.id < 0) {
+    throw new Error("Invalid indexed campaign: id must be a non-negative integer");
+  }
+  const metadataHash = requireIndexedString(campaign.metadataHash, "metadataHash");
+  if (!/^0x[0-9a-fA-F]{64}$/.test(metadataHash)) {
+    throw new Error("Invalid indexed campaign: metadataHash must be a 32-byte hex string");
+  }
+
+  return {
+    id: campaign.id,
+    creator: requireIndexedString(campaign.creator, "creator"),
+    goal: requireIndexedBigInt(campaign.goal, "goal"),
+    pledged: requireIndexedBigInt(campaign.pledged, "pledged"),
+    startAt: requireIndexedBigInt(campaign.startAt, "startAt"),
+    endAt: requireIndexedBigInt(campaign.endAt, "endAt"),
+    claimed: requireIndexedBoolean(campaign.claimed, "claimed"),
+    equityToken: requireIndexedString(campaign.equityToken, "equityToken"),
+    name: requireIndexedString(campaign.name, "name"),
+    tokenSymbol: requireIndexedString(campaign.tokenSymbol, "tokenSymbol"),
+    founderShareBps: requireIndexedBigInt(campaign.founderShareBps, "founderShareBps"),
+    founderTokensClaimed: requireIndexedBoolean(campaign.founderTokensClaimed, "founderTokensClaimed"),
+    milestoneCount: requireIndexedBigInt(campaign.milestoneCount, "milestoneCount"),
+    releasedAmount: requireIndexedBigInt(campaign.releasedAmount, "releasedAmount"),
+    hasMilestones: requireIndexedBoolean(campaign.hasMilestones, "hasMilestones"),
+    paymentToken: requireIndexedString(campaign.paymentToken, "paymentToken"),
+    metadataHash: metadataHash as `0x${string}`,
+  };
+}
+
+/**
+ * Validate an investor's campaign returned by the indexer API (includes the pledge)
+ */
+function parseIndexedInvestorCampaign(value: unknown): InvestorCampaignWithId {
+  const pledgeAmount = (value as Record<string, unknown> | null)?.pledgeAmount;
+  return {
+    ...parseIndexedCampaign(value),
+    pledgeAmount: requireIndexedBigInt(pledgeAmount, "pledgeAmount"),
+  };
+}
+
+/**
+ * Query the event indexer API (see app/api/campaigns).
+ * Returns null when it is unavailable or its response is malformed, so callers can
+ * fall back to RPC reads.
+ */
+async function fetchIndexedCampaigns<T extends CampaignWithId>(
+  query: string,
+  parse: (value: unknown) => T
+): Promise<T[] | null> {
+  if (typeof window === "undefined") return null;
+
+  try {
+    const response = await fetch(`/api/campaigns${query}`);
+    if (!response.ok) return null;
+
+    const body = (await response.json()) as { campaigns?: unknown };
+    if (!Array.isArray(body.campaigns)) return null;
+    return body.campaigns.map(parse);
+  } catch (error) {
+    console.error("Error reading indexed campaigns:", error);
+    return null;
+  }
 }
 
 // ============ Read Functions ============
@@ -88,9 +199,12 @@ export async function getCampaignCount(): Promise<number> {
 }
 
 /**
- * Get all campaigns
+ * Get all campaigns (served by the event indexer when it is running)
  */
 export async function getAllCampaigns(): Promise<(CampaignData & { id: number })[]> {
+  const indexed = await fetchIndexedCampaigns("", parseIndexedCampaign);
+  if (indexed) return indexed;
+
   const count = await getCampaignCount();
   if (count === 0) return [];
 
@@ -110,6 +224,9 @@ export async function getAllCampaigns(): Promise<(CampaignData & { id: number })
  * Get campaigns created by a specific address
  */
 export async function getCampaignsByCreator(creatorAddress: string): Promise<(CampaignData & { id: number })[]> {
+  const indexed = await fetchIndexedCampaigns(`?creator=${creatorAddress}`, parseIndexedCampaign);
+  if (indexed) return indexed;
+
   const allCampaigns = await getAllCampaigns();
   return allCampaigns.filter(
     campaign => campaign.creator.toLowerCase() === creatorAddress.toLowerCase()
@@ -120,6 +237,9 @@ export async function getCampaignsByCreator(creatorAddress: string): Promise<(Ca
  * Get campaigns that a user has pledged to
  */
 export async function getCampaignsByInvestor(investorAddress: string): Promise<(CampaignData & { id: number; pledgeAmount: bigint })[]> {
+  const indexed = await fetchIndexedCampaigns(`?investor=${investorAddress}`, parseIndexedInvestorCampaign);
+  if (indexed) return indexed;
+
   const allCampaigns = await getAllCampaigns();
   const investedCampaigns: (CampaignData & { id: number; pledgeAmount: bigint })[] = [];
 
@@ -213,6 +333,60 @@ export async function getUnreleasedFunds(campaignId: number): Promise<bigint> {
   }
 }
 
+// ============ Payment Token Functions ============
+
+/**
+ * Check if a payment token address represents native MNT
+ */
+export function isNativePaymentToken(paymentToken: string): boolean {
+  return paymentToken.toLowerCase() === NATIVE_TOKEN;
+}
+
+// ERC20 contract instance for a campaign payment token
+function getPaymentTokenContract(paymentToken: string) {
+  return getContract({
+    client,
+    chain: mantleSepolia,
+    address: paymentToken,
+    abi: ERC20_ABI,
+  });
+}
+
+/**
+ * Get symbol and decimals of a campaign payment token
+ */
+export async function getPaymentTokenInfo(paymentToken: string): Promise<PaymentTokenInfo> {
+  if (isNativePaymentToken(paymentToken)) {
+    return { address: NATIVE_TOKEN, symbol: "MNT", decimals: 18 };
+  }
+
+  const contract = getPaymentTokenContract(paymentToken);
+  const [symbol, decimals] = await Promise.all([
+    readContract({ contract, method: "symbol", params: [] }),
+    readContract({ contract, method: "decimals", params: [] }),
+  ]);
+  return { address: paymentToken, symbol, decimals: Number(decimals) };
+}
+
+/**
+ * Get how much of a payment token the escrow may pull from an investor
+ */
+export async function getPaymentTokenAllowance(paymentToken: string, owner: string): Promise<bigint> {
+  const escrow = getEscrowContract();
+  if (!escrow) return BigInt(0);
+
+  try {
+    return await readContract({
+      contract: getPaymentTokenContract(paymentToken),
+      method: "allowance",
+      params: [owner, escrow.address],
+    });
+  } catch (error) {
+    console.error("Error reading payment token allowance:", error);
+    return BigInt(0);
+  }
+}
+
 // ============ Write Function Preparations ============
 
 /**
@@ -224,7 +398,9 @@ export function prepareCreateCampaign(
   name: string,
   tokenName: string,
   tokenSymbol: string,
-  founderShareBps: number
+  founderShareBps: number,
+  paymentToken: string = NATIVE_TOKEN,
+  metadataHash: `0x${string}` = EMPTY_METADATA_HASH
 ) {
   const contract = getEscrowContract();
   if (!contract) throw new Error("Contract not configured");
@@ -232,7 +408,16 @@ export function prepareCreateCampaign(
   return prepareContractCall({
     contract,
     method: "createCampaign",
-    params: [goal, BigInt(durationDays), name, tokenName, tokenSymbol, BigInt(founderShareBps)],
+    params: [
+      goal,
+      BigInt(durationDays),
+      name,
+      tokenName,
+      tokenSymbol,
+      BigInt(founderShareBps),
+      paymentToken,
+      metadataHash,
+    ],
   });
 }
 
@@ -249,7 +434,11 @@ export function prepareCreateCampaignWithMilestones(
   milestoneTitles: string[],
   milestoneDescriptions: string[],
   milestonePercentages: bigint[],
-  milestoneDaysAfterEnd: bigint[]
+  milestoneDaysAfterEnd: bigint[],
+  votingRules: VotingRules[],
+  governanceParams: GovernanceParams,
+  paymentToken: string = NATIVE_TOKEN,
+  metadataHash: `0x${string}` = EMPTY_METADATA_HASH
 ) {
   const contract = getEscrowContract();
   if (!contract) throw new Error("Contract not configured");
@@ -268,12 +457,16 @@ export function prepareCreateCampaignWithMilestones(
       milestoneDescriptions,
       milestonePercentages,
       milestoneDaysAfterEnd,
+      votingRules,
+      governanceParams,
+      paymentToken,
+      metadataHash,
     ],
   });
 }
 
 /**
- * Prepare pledge transaction
+ * Prepare pledge transaction (native MNT campaigns)
  */
 export function preparePledge(campaignId: number, amount: bigint) {
   const contract = getEscrowContract();
@@ -287,6 +480,34 @@ export function preparePledge(campaignId: number, amount: bigint) {
   });
 }
 
+/**
+ * Prepare approve transaction letting the escrow pull ERC20 payment tokens
+ */
+export function prepareApprovePaymentToken(paymentToken: string, amount: bigint) {
+  const escrow = getEscrowContract();
+  if (!escrow) throw new Error("Contract not configured");
+
+  return prepareContractCall({
+    contract: getPaymentTokenContract(paymentToken),
+    method: "approve",
+    params: [escrow.address, amount],
+  });
+}
+
+/**
+ * Prepare pledge transaction (ERC20 payment token campaigns, requires prior approval)
+ */
+export function preparePledgeToken(campaignId: number, amount: bigint) {
+  const contract = getEscrowContract();
+  if (!contract) throw new Error("Contract not configured");
+
+  return prepareContractCall({
+    contract,
+    method: "pledgeToken",
+    params: [BigInt(campaignId), amount],
+  });
+}
+
 /**
  * Prepare unpledge transaction
  */
@@ -358,7 +579,7 @@ export function prepareRefund(campaignId: number) {
 }
 
 /**
- * Prepare emergency refund transaction (for milestone campaigns with rejected milestones)
+ * Prepare emergency refund transaction (for milestone campaigns with rejected or expired milestones)
  */
 export function prepareEmergencyRefund(campaignId: number) {
   const contract = getEscrowContract();
@@ -373,15 +594,20 @@ export function prepareEmergencyRefund(campaignId: number) {
 
 /**
  * Prepare submitMilestoneForApproval transaction
+ * evidenceHash is the content hash returned by uploadMilestoneEvidence
  */
-export function prepareSubmitMilestoneForApproval(campaignId: number, milestoneIndex: number) {
+export function prepareSubmitMilestoneForApproval(
+  campaignId: number,
+  milestoneIndex: number,
+  evidenceHash: `0x${string}`
+) {
   const contract = getEscrowContract();
   if (!contract) throw new Error("Contract not configured");
 
   return prepareContractCall({
     contract,
     method: "submitMilestoneForApproval",
-    params: [BigInt(campaignId), BigInt(milestoneIndex)],
+    params: [BigInt(campaignId), BigInt(milestoneIndex), evidenceHash],
   });
 }
 
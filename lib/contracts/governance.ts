@@ -6,6 +6,14 @@ import { mantleSepolia } from "@/lib/thirdweb/chains";
 import { client } from "@/lib/thirdweb/client";
 import { CONTRACTS } from "@/lib/constants/addresses";
 import { GOVERNANCE_V2_ABI } from "./abis";
+import type {
+  GovernanceParams,
+  MilestoneAmendment,
+  ProposalAction,
+  ProposalActionType,
+  VoteRecord,
+  VoteType,
+} from "./types";
 
 // Contract instance (GovernanceV2)
 export function getGovernanceContract() {
@@ -25,12 +33,50 @@ export interface ProposalData {
   description: string;
   forVotes: bigint;
   againstVotes: bigint;
+  abstainVotes: bigint;
   startTime: bigint;
   endTime: bigint;
   executed: boolean;
   canceled: boolean;
+  proposalType: number; // ProposalType
+  milestoneIndex: bigint;
+  snapshotTime: bigint;
 }
 
+// Proposal data with on-chain tally (quorum and pass state)
+export interface ProposalWithResults extends ProposalData {
+  id: number;
+  quorumVotes: bigint;
+  quorumReached: boolean;
+  passed: boolean;
+}
+
+// Vote signed off-chain and cast by the relayer (GovernanceV2.Ballot)
+export interface BallotData {
+  proposalId: bigint;
+  support: VoteType;
+  releaseBps: bigint; // 10000 = full tranche
+  voter: `0x${string}`;
+  nonce: bigint;
+  deadline: bigint; // Unix timestamp
+}
+
+// How long a signed ballot stays valid for the relayer
+const BALLOT_VALIDITY_SECONDS = 60 * 60;
+
+// Readable messages for ballots the relayer refuses
+export const BALLOT_ERROR_MESSAGES: Record<string, string> = {
+  BallotPending: "Your previous signed vote is still being submitted",
+  AlreadyVoted: "You have already cast this vote",
+  NoVotingPower: "You had no voting power when this proposal was created",
+  VotingEnded: "Voting has ended",
+  VotingNotActive: "Voting has not started",
+  InvalidSignature: "The vote signature could not be verified",
+  SignatureExpired: "The signed vote expired before it was submitted",
+  InvalidAccountNonce: "The signed vote is out of date, please sign again",
+  InvalidReleaseShare: "Invalid release share",
+};
+
 // Proposal status enum
 export enum ProposalStatus {
   Pending = 0,
@@ -117,24 +163,72 @@ export async function getCampaignProposals(campaignId: number): Promise<number[]
 }
 
 /**
- * Get all proposals for a campaign with full details
+ * Get all proposals for a campaign with full details and tally results
  */
 export async function getCampaignProposalsWithDetails(
   campaignId: number
-): Promise<(ProposalData & { id: number })[]> {
+): Promise<ProposalWithResults[]> {
   const proposalIds = await getCampaignProposals(campaignId);
-  const proposals: (ProposalData & { id: number })[] = [];
+  const proposals: ProposalWithResults[] = [];
 
   for (const id of proposalIds) {
-    const proposal = await getProposal(id);
+    const [proposal, results, passed] = await Promise.all([
+      getProposal(id),
+      getVotingResults(id),
+      proposalPassed(id),
+    ]);
     if (proposal) {
-      proposals.push({ ...proposal, id });
+      proposals.push({
+        ...proposal,
+        id,
+        quorumVotes: results.quorumVotes,
+        quorumReached: results.quorumReached,
+        passed,
+      });
     }
   }
 
   return proposals;
 }
 
+/**
+ * Get the milestone schedule proposed by an amendment proposal
+ */
+export async function getAmendment(proposalId: number): Promise<MilestoneAmendment | null> {
+  const contract = getGovernanceContract();
+
+  try {
+    const [deadlines, percentages] = await readContract({
+      contract,
+      method: "getAmendment",
+      params: [BigInt(proposalId)],
+    });
+    return { deadlines: [...deadlines], percentages: [...percentages] };
+  } catch (error) {
+    console.error("Error reading amendment:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the escrow action a general proposal runs if it passes
+ */
+export async function getProposalAction(proposalId: number): Promise<ProposalAction | null> {
+  const contract = getGovernanceContract();
+
+  try {
+    const action = await readContract({
+      contract,
+      method: "getProposalAction",
+      params: [BigInt(proposalId)],
+    });
+    return { actionType: action.actionType as ProposalActionType, payoutAddress: action.payoutAddress };
+  } catch (error) {
+    console.error("Error reading proposal action:", error);
+    return null;
+  }
+}
+
 /**
  * Get proposal status
  * Returns: 0=pending, 1=active, 2=ended, 3=executed, 4=canceled
@@ -143,12 +237,12 @@ export async function getProposalStatus(proposalId: number): Promise<ProposalSta
   const contract = getGovernanceContract();
 
   try {
-    const result = await readContract({
+    const [status] = await readContract({
       contract,
       method: "getProposalStatus",
       params: [BigInt(proposalId)],
     });
-    return Number(result) as ProposalStatus;
+    return Number(status) as ProposalStatus;
   } catch (error) {
     console.error("Error reading proposal status:", error);
     return ProposalStatus.Pending;
@@ -158,9 +252,14 @@ export async function getProposalStatus(proposalId: number): Promise<ProposalSta
 /**
  * Get voting results
  */
-export async function getVotingResults(
-  proposalId: number
-): Promise<{ forPercent: number; againstPercent: number; totalVotes: bigint }> {
+export async function getVotingResults(proposalId: number): Promise<{
+  forPercent: number;
+  againstPercent: number;
+  abstainPercent: number;
+  totalVotes: bigint;
+  quorumVotes: bigint;
+  quorumReached: boolean;
+}> {
   const contract = getGovernanceContract();
 
   try {
@@ -169,15 +268,26 @@ export async function getVotingResults(
       method: "getVotingResults",
       params: [BigInt(proposalId)],
     });
-    const [forPercent, againstPercent, totalVotes] = result as [bigint, bigint, bigint];
+    const [forPercent, againstPercent, abstainPercent, totalVotes, quorumVotes, quorumReached] =
+      result as [bigint, bigint, bigint, bigint, bigint, boolean];
     return {
       forPercent: Number(forPercent),
       againstPercent: Number(againstPercent),
+      abstainPercent: Number(abstainPercent),
       totalVotes,
+      quorumVotes,
+      quorumReached,
     };
   } catch (error) {
     console.error("Error reading voting results:", error);
-    return { forPercent: 0, againstPercent: 0, totalVotes: BigInt(0) };
+    return {
+      forPercent: 0,
+      againstPercent: 0,
+      abstainPercent: 0,
+      totalVotes: BigInt(0),
+      quorumVotes: BigInt(0),
+      quorumReached: false,
+    };
   }
 }
 
@@ -219,6 +329,25 @@ export async function hasAddressVoted(proposalId: number, voter: string): Promis
   }
 }
 
+/**
+ * Get an address's current vote on a proposal (null if it could not be read)
+ */
+export async function getVote(proposalId: number, voter: string): Promise<VoteRecord | null> {
+  const contract = getGovernanceContract();
+
+  try {
+    const [voted, support, weight, releaseBps] = await readContract({
+      contract,
+      method: "getVote",
+      params: [BigInt(proposalId), voter],
+    });
+    return { voted, support: support as VoteType, weight, releaseBps };
+  } catch (error) {
+    console.error("Error reading vote:", error);
+    return null;
+  }
+}
+
 /**
  * Get vote weight used by an address
  */
@@ -238,6 +367,44 @@ export async function getVoteWeight(proposalId: number, voter: string): Promise<
   }
 }
 
+/**
+ * Get the share of a milestone tranche (in basis points) the for votes approve for release
+ */
+export async function getApprovedReleaseBps(proposalId: number): Promise<bigint> {
+  const contract = getGovernanceContract();
+
+  try {
+    const result = await readContract({
+      contract,
+      method: "getApprovedReleaseBps",
+      params: [BigInt(proposalId)],
+    });
+    return result as bigint;
+  } catch (error) {
+    console.error("Error reading approved release share:", error);
+    return BigInt(10000);
+  }
+}
+
+/**
+ * Get voting power of an address for a proposal (own and delegated tokens at the proposal snapshot)
+ */
+export async function getVotingPower(proposalId: number, voter: string): Promise<bigint> {
+  const contract = getGovernanceContract();
+
+  try {
+    const result = await readContract({
+      contract,
+      method: "getVotingPower",
+      params: [BigInt(proposalId), voter],
+    });
+    return result as bigint;
+  } catch (error) {
+    console.error("Error reading voting power:", error);
+    return BigInt(0);
+  }
+}
+
 /**
  * Get time remaining for voting
  */
@@ -257,6 +424,108 @@ export async function getTimeRemaining(proposalId: number): Promise<number> {
   }
 }
 
+/**
+ * Get a campaign's voting period and proposal threshold (defaults applied for campaigns without them)
+ */
+export async function getGovernanceParams(campaignId: number): Promise<GovernanceParams | null> {
+  const contract = getGovernanceContract();
+
+  try {
+    const [votingPeriod, proposalThresholdBps] = await readContract({
+      contract,
+      method: "getGovernanceParams",
+      params: [BigInt(campaignId)],
+    });
+    return { votingPeriod, proposalThresholdBps };
+  } catch (error) {
+    console.error("Error reading governance params:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the nonce the voter's next signed ballot must use
+ */
+export async function getBallotNonce(voter: string): Promise<bigint> {
+  const contract = getGovernanceContract();
+  return readContract({ contract, method: "nonces", params: [voter] });
+}
+
+// ============ Signed Ballots ============
+
+/**
+ * Build a ballot for the voter to sign, valid for an hour
+ */
+export async function createBallot(
+  proposalId: number,
+  support: VoteType,
+  voter: string,
+  releaseBps: bigint = BigInt(10000)
+): Promise<BallotData> {
+  return {
+    proposalId: BigInt(proposalId),
+    support,
+    releaseBps,
+    voter: voter as `0x${string}`,
+    nonce: await getBallotNonce(voter),
+    deadline: BigInt(Math.floor(Date.now() / 1000) + BALLOT_VALIDITY_SECONDS),
+  };
+}
+
+/**
+ * EIP-712 typed data of a ballot, for the wallet to sign
+ */
+export function getBallotTypedData(ballot: BallotData) {
+  return {
+    domain: {
+      name: "GovernanceV2",
+      version: "1",
+      chainId: mantleSepolia.id,
+      verifyingContract: CONTRACTS.GOVERNANCE_V2 as `0x${string}`,
+    },
+    types: {
+      Ballot: [
+        { name: "proposalId", type: "uint256" },
+        { name: "support", type: "uint8" },
+        { name: "releaseBps", type: "uint256" },
+        { name: "voter", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Ballot",
+    message: ballot,
+  } as const;
+}
+
+/**
+ * Send a signed ballot to the relayer (see app/api/relay/votes)
+ * @returns Hash of the transaction that cast the vote
+ */
+export async function relayVote(ballot: BallotData, signature: string): Promise<string> {
+  const response = await fetch("/api/relay/votes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      ballot: {
+        ...ballot,
+        proposalId: ballot.proposalId.toString(),
+        releaseBps: ballot.releaseBps.toString(),
+        nonce: ballot.nonce.toString(),
+        deadline: ballot.deadline.toString(),
+      },
+      signature,
+    }),
+  });
+
+  const body = (await response.json().catch(() => ({}))) as { txHash?: string; error?: string };
+  if (!response.ok || !body.txHash) {
+    const reason = body.error ?? "Failed to submit vote";
+    throw new Error(BALLOT_ERROR_MESSAGES[reason] ?? reason);
+  }
+  return body.txHash;
+}
+
 // ============ Write Function Preparations ============
 
 /**
@@ -272,6 +541,47 @@ export function prepareCreateProposal(campaignId: number, title: string, descrip
   });
 }
 
+/**
+ * Prepare createActionProposal transaction (general proposal with an escrow action)
+ */
+export function prepareCreateActionProposal(
+  campaignId: number,
+  title: string,
+  description: string,
+  action: ProposalAction
+) {
+  const contract = getGovernanceContract();
+
+  return prepareContractCall({
+    contract,
+    method: "createActionProposal",
+    params: [
+      BigInt(campaignId),
+      title,
+      description,
+      { actionType: action.actionType, payoutAddress: action.payoutAddress },
+    ],
+  });
+}
+
+/**
+ * Prepare createAmendmentProposal transaction (campaign creator only)
+ */
+export function prepareCreateAmendmentProposal(
+  campaignId: number,
+  title: string,
+  description: string,
+  amendment: MilestoneAmendment
+) {
+  const contract = getGovernanceContract();
+
+  return prepareContractCall({
+    contract,
+    method: "createAmendmentProposal",
+    params: [BigInt(campaignId), title, description, amendment.deadlines, amendment.percentages],
+  });
+}
+
 /**
  * Prepare vote transaction
  */
@@ -285,6 +595,32 @@ export function prepareVote(proposalId: number, support: boolean) {
   });
 }
 
+/**
+ * Prepare castVote transaction (for, against or abstain; replaces an earlier vote while voting is open)
+ */
+export function prepareCastVote(proposalId: number, support: VoteType) {
+  const contract = getGovernanceContract();
+
+  return prepareContractCall({
+    contract,
+    method: "castVote",
+    params: [BigInt(proposalId), support],
+  });
+}
+
+/**
+ * Prepare a for vote on a milestone proposal that approves only part of the tranche
+ */
+export function prepareVoteWithReleaseShare(proposalId: number, releaseBps: bigint) {
+  const contract = getGovernanceContract();
+
+  return prepareContractCall({
+    contract,
+    method: "voteWithReleaseShare",
+    params: [BigInt(proposalId), releaseBps],
+  });
+}
+
 /**
  * Prepare executeProposal transaction
  */
@@ -335,29 +671,35 @@ export function formatTimeRemaining(seconds: number): string {
 /**
  * Format proposal for display
  */
-export function formatProposalForDisplay(proposal: ProposalData & { id: number }) {
+export function formatProposalForDisplay(proposal: ProposalWithResults) {
   const now = Date.now() / 1000;
   const endTime = Number(proposal.endTime);
   const startTime = Number(proposal.startTime);
   const isActive = now >= startTime && now < endTime && !proposal.canceled && !proposal.executed;
   const isEnded = now >= endTime;
-  const totalVotes = proposal.forVotes + proposal.againstVotes;
+  const totalVotes = proposal.forVotes + proposal.againstVotes + proposal.abstainVotes;
   const forPercent = totalVotes > 0 ? Number((proposal.forVotes * BigInt(100)) / totalVotes) : 0;
   const againstPercent = totalVotes > 0 ? Number((proposal.againstVotes * BigInt(100)) / totalVotes) : 0;
-  const passed = proposal.forVotes > proposal.againstVotes;
+  const abstainPercent = totalVotes > 0 ? Number((proposal.abstainVotes * BigInt(100)) / totalVotes) : 0;
+  const quorumPercent = proposal.quorumVotes > 0
+    ? Math.min(100, Number((totalVotes * BigInt(100)) / proposal.quorumVotes))
+    : 100;
 
   return {
     ...proposal,
     forVotes: proposal.forVotes.toString(),
     againstVotes: proposal.againstVotes.toString(),
+    abstainVotes: proposal.abstainVotes.toString(),
     totalVotes: totalVotes.toString(),
+    quorumVotes: proposal.quorumVotes.toString(),
     startTime: new Date(startTime * 1000),
     endTime: new Date(endTime * 1000),
     isActive,
     isEnded,
     forPercent,
     againstPercent,
-    passed,
+    abstainPercent,
+    quorumPercent,
     timeRemaining: isEnded ? 0 : Math.floor(endTime - now),
   };
 }
@@ -10,6 +10,18 @@ export * from "./types";
 // Governance (no conflicts)
 export * from "./governance";
 
+// Investment compliance (per-investor annual caps)
+export * from "./compliance";
+
+// Investor registry (KYC / accreditation attestations)
+export * from "./registry";
+
+// Equity token transfer rules
+export * from "./equity-token";
+
+// Dividend distributions to equity token holders
+export * from "./dividends";
+
 // Unified Escrow (primary source for all campaign operations)
 // MilestoneEscrow handles both regular and milestone campaigns
 export {
@@ -26,6 +38,11 @@ export {
   prepareCreateCampaign,
   prepareCreateCampaignWithMilestones,
   preparePledge,
+  preparePledgeToken,
+  prepareApprovePaymentToken,
+  getPaymentTokenInfo,
+  getPaymentTokenAllowance,
+  isNativePaymentToken,
   prepareUnpledge,
   prepareClaim,
   prepareClaimTokens,
@@ -36,6 +53,7 @@ export {
   prepareReleaseMilestoneFunds,
   formatCampaignForDisplay,
   type CampaignData,
+  type PaymentTokenInfo,
 } from "./escrow";
 
 // Milestone-specific utilities (unique to milestones.ts)
@@ -54,13 +72,23 @@ export {
   getProposalV2,
   getProposalV2Status,
   getVotingResultsV2,
+  getVotingRules,
   isMilestoneProposal,
   getMilestoneProposals,
   prepareMilestonePledge,
   prepareMilestoneClaimTokens,
   prepareVoteV2,
   prepareExecuteProposalV2,
+  prepareCancelProposalV2,
   prepareCreateProposalV2,
+  prepareMarkMilestoneExpired,
+  getAutoRelease,
+  prepareSetAutoRelease,
+  getReleaseWindow,
+  getReleaseGuardian,
+  hasVetoedRelease,
+  prepareVetoMilestoneRelease,
+  prepareSignalReleaseVeto,
   getMilestoneProgress,
   canRequestEmergencyRefund,
 } from "./milestones";
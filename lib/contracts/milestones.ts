@@ -4,20 +4,37 @@
 import { getContract, prepareContractCall, readContract } from "thirdweb";
 import { mantleSepolia } from "@/lib/thirdweb/chains";
 import { client } from "@/lib/thirdweb/client";
-import { CONTRACTS } from "@/lib/constants/addresses";
+import { CONTRACTS, NATIVE_TOKEN } from "@/lib/constants/addresses";
+import { EMPTY_METADATA_HASH } from "@/lib/metadata/schema";
 import { MILESTONE_ESCROW_ABI, GOVERNANCE_V2_ABI } from "./abis";
 import {
   MilestoneData,
   MilestoneCampaignData,
   MilestoneStatus,
+  ReleaseWindow,
   ProposalV2Data,
   ProposalStatus,
+  ProposalType,
+  VotingResultsV2,
+  VotingRules,
+  VotingRulesInput,
+  GovernanceParamsInput,
+  GovernanceControls,
+  VoteType,
   percentageToBps,
+  isMilestoneFailed,
 } from "./types";
 import { getUnreleasedFunds } from "./escrow";
 
 // Re-export types for external use
-export type { MilestoneData, MilestoneCampaignData, ProposalV2Data };
+export type {
+  MilestoneData,
+  MilestoneCampaignData,
+  ReleaseWindow,
+  ProposalV2Data,
+  VotingRules,
+  VotingResultsV2,
+};
 export { MilestoneStatus, ProposalStatus };
 
 // ============================================
@@ -200,6 +217,112 @@ export async function getCampaignMilestones(
   }
 }
 
+/**
+ * Check whether approved milestones release automatically when their proposal executes
+ */
+export async function getAutoRelease(campaignId: number): Promise<boolean> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return false;
+
+  try {
+    const result = await readContract({
+      contract,
+      method: "autoRelease",
+      params: [BigInt(campaignId)],
+    });
+    return result as boolean;
+  } catch (error) {
+    console.error("Error reading auto-release setting:", error);
+    return false;
+  }
+}
+
+/**
+ * Get the refund, submission and payout settings set by governance action proposals
+ */
+export async function getGovernanceControls(campaignId: number): Promise<GovernanceControls | null> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return null;
+
+  try {
+    const [refundsEnabled, submissionsPaused, payoutAddress] = await Promise.all([
+      readContract({ contract, method: "refundsEnabled", params: [BigInt(campaignId)] }),
+      readContract({ contract, method: "submissionsPaused", params: [BigInt(campaignId)] }),
+      readContract({ contract, method: "getPayoutAddress", params: [BigInt(campaignId)] }),
+    ]);
+    return { refundsEnabled, submissionsPaused, payoutAddress };
+  } catch (error) {
+    console.error("Error reading governance controls:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the release timelock and veto tally of a milestone's latest approval
+ */
+export async function getReleaseWindow(
+  campaignId: number,
+  milestoneIndex: number
+): Promise<ReleaseWindow | null> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return null;
+
+  try {
+    const window = await readContract({
+      contract,
+      method: "getReleaseWindow",
+      params: [BigInt(campaignId), BigInt(milestoneIndex)],
+    });
+    return window as unknown as ReleaseWindow;
+  } catch (error) {
+    console.error("Error fetching release window:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the platform guardian that can veto milestone releases
+ */
+export async function getReleaseGuardian(): Promise<string | null> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return null;
+
+  try {
+    const guardian = await readContract({
+      contract,
+      method: "guardian",
+      params: [],
+    });
+    return guardian === "0x0000000000000000000000000000000000000000" ? null : (guardian as string);
+  } catch (error) {
+    console.error("Error fetching guardian:", error);
+    return null;
+  }
+}
+
+/**
+ * Check whether a holder has joined the veto of the release a proposal approved
+ */
+export async function hasVetoedRelease(
+  proposalId: number,
+  holder: string
+): Promise<boolean> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return false;
+
+  try {
+    const result = await readContract({
+      contract,
+      method: "hasVetoedRelease",
+      params: [BigInt(proposalId), holder],
+    });
+    return result as boolean;
+  } catch (error) {
+    console.error("Error checking release veto:", error);
+    return false;
+  }
+}
+
 // Note: getUnreleasedFunds is now in escrow.ts (unified contract)
 
 /**
@@ -247,6 +370,29 @@ export async function getMilestonePledge(
   }
 }
 
+/**
+ * Get quorum and approval threshold for a proposal type on a campaign
+ */
+export async function getVotingRules(
+  campaignId: number,
+  proposalType: ProposalType
+): Promise<VotingRules | null> {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) return null;
+
+  try {
+    const rules = await readContract({
+      contract,
+      method: "getVotingRules",
+      params: [BigInt(campaignId), BigInt(proposalType)],
+    });
+    return rules as VotingRules;
+  } catch (error) {
+    console.error("Error fetching voting rules:", error);
+    return null;
+  }
+}
+
 // ============================================
 // Read Functions - GovernanceV2
 // ============================================
@@ -283,7 +429,7 @@ export async function getProposalV2Status(
   if (!contract) return ProposalStatus.Pending;
 
   try {
-    const status = await readContract({
+    const [status] = await readContract({
       contract,
       method: "getProposalStatus",
       params: [BigInt(proposalId)],
@@ -298,15 +444,18 @@ export async function getProposalV2Status(
 /**
  * Get voting results for a proposal
  */
-export async function getVotingResultsV2(proposalId: number): Promise<{
-  forPercent: bigint;
-  againstPercent: bigint;
-  totalVotes: bigint;
-}> {
+export async function getVotingResultsV2(proposalId: number): Promise<VotingResultsV2> {
+  const empty: VotingResultsV2 = {
+    forPercent: BigInt(0),
+    againstPercent: BigInt(0),
+    abstainPercent: BigInt(0),
+    totalVotes: BigInt(0),
+    quorumVotes: BigInt(0),
+    quorumReached: false,
+  };
+
   const contract = getGovernanceV2Contract();
-  if (!contract) {
-    return { forPercent: BigInt(0), againstPercent: BigInt(0), totalVotes: BigInt(0) };
-  }
+  if (!contract) return empty;
 
   try {
     const result = await readContract({
@@ -314,15 +463,12 @@ export async function getVotingResultsV2(proposalId: number): Promise<{
       method: "getVotingResults",
       params: [BigInt(proposalId)],
     });
-    const [forPercent, againstPercent, totalVotes] = result as [
-      bigint,
-      bigint,
-      bigint
-    ];
-    return { forPercent, againstPercent, totalVotes };
+    const [forPercent, againstPercent, abstainPercent, totalVotes, quorumVotes, quorumReached] =
+      result as [bigint, bigint, bigint, bigint, bigint, boolean];
+    return { forPercent, againstPercent, abstainPercent, totalVotes, quorumVotes, quorumReached };
   } catch (error) {
     console.error("Error fetching voting results:", error);
-    return { forPercent: BigInt(0), againstPercent: BigInt(0), totalVotes: BigInt(0) };
+    return empty;
   }
 }
 
@@ -385,7 +531,11 @@ export function prepareCreateCampaignWithMilestones(
   milestoneTitles: string[],
   milestoneDescriptions: string[],
   milestonePercentages: number[], // 0-100
-  milestoneDaysAfterEnd: number[]
+  milestoneDaysAfterEnd: number[],
+  votingRules: VotingRulesInput[], // indexed by ProposalType
+  governanceParams: GovernanceParamsInput,
+  paymentToken: string = NATIVE_TOKEN,
+  metadataHash: `0x${string}` = EMPTY_METADATA_HASH
 ) {
   const contract = getMilestoneEscrowContract();
   if (!contract) {
@@ -406,6 +556,16 @@ export function prepareCreateCampaignWithMilestones(
       milestoneDescriptions,
       milestonePercentages.map((p) => percentageToBps(p)),
       milestoneDaysAfterEnd.map((d) => BigInt(d)),
+      votingRules.map((r) => ({
+        quorumBps: percentageToBps(r.quorumPercent),
+        approvalBps: percentageToBps(r.approvalPercent),
+      })),
+      {
+        votingPeriod: BigInt(governanceParams.votingPeriodDays * 86400),
+        proposalThresholdBps: percentageToBps(governanceParams.proposalThresholdPercent),
+      },
+      paymentToken,
+      metadataHash,
     ],
   });
 }
@@ -429,10 +589,12 @@ export function prepareMilestonePledge(campaignId: number, value: bigint) {
 
 /**
  * Prepare submit milestone for approval transaction
+ * evidenceHash is the content hash returned by uploadMilestoneEvidence
  */
 export function prepareSubmitMilestoneForApproval(
   campaignId: number,
-  milestoneIndex: number
+  milestoneIndex: number,
+  evidenceHash: `0x${string}`
 ) {
   const contract = getMilestoneEscrowContract();
   if (!contract) {
@@ -442,7 +604,7 @@ export function prepareSubmitMilestoneForApproval(
   return prepareContractCall({
     contract,
     method: "submitMilestoneForApproval",
-    params: [BigInt(campaignId), BigInt(milestoneIndex)],
+    params: [BigInt(campaignId), BigInt(milestoneIndex), evidenceHash],
   });
 }
 
@@ -465,6 +627,79 @@ export function prepareReleaseMilestoneFunds(
   });
 }
 
+/**
+ * Prepare guardian veto of an approved milestone's release
+ */
+export function prepareVetoMilestoneRelease(
+  campaignId: number,
+  milestoneIndex: number
+) {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) {
+    throw new Error("MilestoneEscrow contract not configured");
+  }
+
+  return prepareContractCall({
+    contract,
+    method: "vetoMilestoneRelease",
+    params: [BigInt(campaignId), BigInt(milestoneIndex)],
+  });
+}
+
+/**
+ * Prepare transaction for a token holder to join the veto of a milestone's release
+ */
+export function prepareSignalReleaseVeto(
+  campaignId: number,
+  milestoneIndex: number
+) {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) {
+    throw new Error("MilestoneEscrow contract not configured");
+  }
+
+  return prepareContractCall({
+    contract,
+    method: "signalReleaseVeto",
+    params: [BigInt(campaignId), BigInt(milestoneIndex)],
+  });
+}
+
+/**
+ * Prepare transaction to toggle releasing funds when a milestone proposal executes
+ */
+export function prepareSetAutoRelease(campaignId: number, enabled: boolean) {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) {
+    throw new Error("MilestoneEscrow contract not configured");
+  }
+
+  return prepareContractCall({
+    contract,
+    method: "setAutoRelease",
+    params: [BigInt(campaignId), enabled],
+  });
+}
+
+/**
+ * Prepare transaction to mark a lapsed milestone as expired
+ */
+export function prepareMarkMilestoneExpired(
+  campaignId: number,
+  milestoneIndex: number
+) {
+  const contract = getMilestoneEscrowContract();
+  if (!contract) {
+    throw new Error("MilestoneEscrow contract not configured");
+  }
+
+  return prepareContractCall({
+    contract,
+    method: "markMilestoneExpired",
+    params: [BigInt(campaignId), BigInt(milestoneIndex)],
+  });
+}
+
 /**
  * Prepare emergency refund transaction
  */
@@ -502,9 +737,9 @@ export function prepareMilestoneClaimTokens(campaignId: number) {
 // ============================================
 
 /**
- * Prepare vote transaction
+ * Prepare vote transaction (for, against or abstain; replaces an earlier vote while voting is open)
  */
-export function prepareVoteV2(proposalId: number, support: boolean) {
+export function prepareVoteV2(proposalId: number, support: VoteType) {
   const contract = getGovernanceV2Contract();
   if (!contract) {
     throw new Error("GovernanceV2 contract not configured");
@@ -512,7 +747,7 @@ export function prepareVoteV2(proposalId: number, support: boolean) {
 
   return prepareContractCall({
     contract,
-    method: "vote",
+    method: "castVote",
     params: [BigInt(proposalId), support],
   });
 }
@@ -533,6 +768,23 @@ export function prepareExecuteProposalV2(proposalId: number) {
   });
 }
 
+/**
+ * Prepare cancel proposal transaction
+ * (the campaign creator may cancel an open milestone proposal to resubmit it)
+ */
+export function prepareCancelProposalV2(proposalId: number) {
+  const contract = getGovernanceV2Contract();
+  if (!contract) {
+    throw new Error("GovernanceV2 contract not configured");
+  }
+
+  return prepareContractCall({
+    contract,
+    method: "cancelProposal",
+    params: [BigInt(proposalId)],
+  });
+}
+
 /**
  * Prepare create general proposal transaction
  */
@@ -607,8 +859,21 @@ export async function getMilestoneProgress(campaignId: number): Promise<{
 export async function canRequestEmergencyRefund(
   campaignId: number
 ): Promise<boolean> {
-  const milestones = await getCampaignMilestones(campaignId);
-
-  // Emergency refund allowed if any milestone is rejected
-  return milestones.some((m) => m.status === MilestoneStatus.Rejected);
+  const [milestones, controls] = await Promise.all([
+    getCampaignMilestones(campaignId),
+    getGovernanceControls(campaignId),
+  ]);
+
+  // Emergency refund allowed if any milestone is rejected or expired.
+  // A pending milestone past its deadline is expired by emergencyRefund itself.
+  if (milestones.some(isMilestoneFailed)) return true;
+
+  // Holders can vote to open refunds, and shares withheld by partial approvals
+  // are refundable once every milestone is released
+  const allReleased =
+    milestones.length > 0 && milestones.every((m) => m.status === MilestoneStatus.Released);
+  return (
+    (!!controls?.refundsEnabled || allReleased) &&
+    (await getUnreleasedFunds(campaignId)) > BigInt(0)
+  );
 }
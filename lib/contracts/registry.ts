@@ -0,0 +1,160 @@
+// InvestorRegistry contract utilities
+// KYC / accreditation attestations consulted by MilestoneEscrow and InvestmentCompliance
+
+import { getContract, readContract, prepareContractCall } from "thirdweb";
+import { hardhatLocal, mantleSepolia } from "@/lib/thirdweb/chains";
+import { client } from "@/lib/thirdweb/client";
+import { CONTRACTS, LOCAL_CONTRACTS } from "@/lib/constants/addresses";
+import { INVESTOR_REGISTRY_ABI } from "./abis";
+import { InvestorTier } from "./compliance";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Mantle Sepolia, or a local hardhat node for admin tooling
+export type RegistryNetwork = "sepolia" | "local";
+
+export interface InvestorAttestation {
+  tier: InvestorTier;
+  verifier: string;
+  issuedAt: number; // Unix timestamp
+  expiresAt: number; // Unix timestamp
+  revoked: boolean;
+}
+
+export type AttestationStatus = "none" | "active" | "expired" | "revoked";
+
+function getRegistryAddress(network: RegistryNetwork): string {
+  return network === "local" ? LOCAL_CONTRACTS.INVESTOR_REGISTRY : CONTRACTS.INVESTOR_REGISTRY;
+}
+
+// Contract instance (null until the registry is deployed on the network)
+export function getInvestorRegistryContract(network: RegistryNetwork = "sepolia") {
+  const address = getRegistryAddress(network);
+  if (!address || address === ZERO_ADDRESS) {
+    return null;
+  }
+
+  return getContract({
+    client,
+    chain: network === "local" ? hardhatLocal : mantleSepolia,
+    address,
+    abi: INVESTOR_REGISTRY_ABI,
+  });
+}
+
+function requireRegistryContract(network: RegistryNetwork) {
+  const contract = getInvestorRegistryContract(network);
+  if (!contract) {
+    throw new Error(`InvestorRegistry is not deployed on ${network}`);
+  }
+  return contract;
+}
+
+export async function isVerifiedInvestor(
+  investor: string,
+  network: RegistryNetwork = "sepolia"
+): Promise<boolean> {
+  const contract = getInvestorRegistryContract(network);
+  if (!contract) return false;
+
+  try {
+    return await readContract({ contract, method: "isVerified", params: [investor] });
+  } catch (error) {
+    console.error("Error reading investor verification:", error);
+    return false;
+  }
+}
+
+export async function isVerifier(account: string, network: RegistryNetwork = "sepolia"): Promise<boolean> {
+  const contract = getInvestorRegistryContract(network);
+  if (!contract) return false;
+
+  try {
+    return await readContract({ contract, method: "verifiers", params: [account] });
+  } catch (error) {
+    console.error("Error reading verifier status:", error);
+    return false;
+  }
+}
+
+export async function getRegistryOwner(network: RegistryNetwork = "sepolia"): Promise<string | null> {
+  const contract = getInvestorRegistryContract(network);
+  if (!contract) return null;
+
+  try {
+    return await readContract({ contract, method: "owner", params: [] });
+  } catch (error) {
+    console.error("Error reading registry owner:", error);
+    return null;
+  }
+}
+
+/**
+ * Get the latest attestation for an investor, including expired and revoked ones
+ * Returns null if the investor was never attested or the registry is not deployed
+ */
+export async function getAttestation(
+  investor: string,
+  network: RegistryNetwork = "sepolia"
+): Promise<InvestorAttestation | null> {
+  const contract = getInvestorRegistryContract(network);
+  if (!contract) return null;
+
+  try {
+    const attestation = await readContract({ contract, method: "getAttestation", params: [investor] });
+    if (attestation.verifier === ZERO_ADDRESS) return null;
+
+    return {
+      tier: Number(attestation.tier) as InvestorTier,
+      verifier: attestation.verifier,
+      issuedAt: Number(attestation.issuedAt),
+      expiresAt: Number(attestation.expiresAt),
+      revoked: attestation.revoked,
+    };
+  } catch (error) {
+    console.error("Error reading attestation:", error);
+    return null;
+  }
+}
+
+export function getAttestationStatus(
+  attestation: InvestorAttestation | null,
+  now: number = Math.floor(Date.now() / 1000)
+): AttestationStatus {
+  if (!attestation) return "none";
+  if (attestation.revoked) return "revoked";
+  if (attestation.expiresAt <= now) return "expired";
+  return "active";
+}
+
+// Verifier only
+export function prepareIssueAttestation(
+  investor: string,
+  tier: InvestorTier,
+  expiresAt: number,
+  network: RegistryNetwork = "sepolia"
+) {
+  return prepareContractCall({
+    contract: requireRegistryContract(network),
+    method: "issueAttestation",
+    params: [investor, tier, BigInt(expiresAt)],
+  });
+}
+
+// Verifier or owner
+export function prepareRevokeAttestation(investor: string, network: RegistryNetwork = "sepolia") {
+  return prepareContractCall({
+    contract: requireRegistryContract(network),
+    method: "revokeAttestation",
+    params: [investor],
+  });
+}
+
+// Owner only
+export function prepareSetVerifier(verifier: string, allowed: boolean, network: RegistryNetwork = "sepolia") {
+  return prepareContractCall({
+    contract: requireRegistryContract(network),
+    method: "setVerifier",
+    params: [verifier, allowed],
+  });
+}
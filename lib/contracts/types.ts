@@ -11,6 +11,7 @@ export enum MilestoneStatus {
   Approved = 2,
   Rejected = 3,
   Released = 4,
+  Expired = 5,
 }
 
 /**
@@ -19,6 +20,27 @@ export enum MilestoneStatus {
 export enum ProposalType {
   General = 0,
   Milestone = 1,
+  Amendment = 2,
+}
+
+/**
+ * Vote choice enum for GovernanceV2
+ */
+export enum VoteType {
+  Against = 0,
+  For = 1,
+  Abstain = 2,
+}
+
+/**
+ * Escrow action a GovernanceV2 general proposal runs when it passes
+ */
+export enum ProposalActionType {
+  None = 0,
+  EmergencyRefund = 1,
+  ReplacePayoutAddress = 2,
+  PauseMilestoneSubmissions = 3,
+  ResumeMilestoneSubmissions = 4,
 }
 
 /**
@@ -31,8 +53,54 @@ export interface MilestoneData {
   deadline: bigint;
   status: MilestoneStatus;
   proposalId: bigint;
+  evidenceHash: `0x${string}`; // EMPTY_METADATA_HASH until first submitted
+}
+
+/**
+ * Milestone schedule proposed by a GovernanceV2 amendment proposal
+ */
+export interface MilestoneAmendment {
+  deadlines: bigint[]; // Unix timestamps, one per milestone
+  percentages: bigint[]; // Basis points, one per milestone
+}
+
+/**
+ * Action attached to a GovernanceV2 general proposal
+ */
+export interface ProposalAction {
+  actionType: ProposalActionType;
+  payoutAddress: string; // Zero address unless replacing the payout address
 }
 
+/**
+ * Escrow settings holders can change through GovernanceV2 action proposals
+ */
+export interface GovernanceControls {
+  refundsEnabled: boolean;
+  submissionsPaused: boolean;
+  payoutAddress: string; // The creator unless a vote replaced it
+}
+
+/**
+ * Timelock between a milestone's approval and its fund release
+ */
+export interface ReleaseWindow {
+  approvedAt: bigint;
+  unlockAt: bigint; // Funds can be released from this Unix timestamp
+  vetoVotes: bigint; // Token weight of holders vetoing the release
+}
+
+/**
+ * Share of token supply whose holders can veto a release together,
+ * matching MilestoneEscrow.HOLDER_VETO_BPS
+ */
+export const HOLDER_VETO_BPS = 2000;
+
+/**
+ * Maximum milestones per campaign, matching MilestoneEscrow.MAX_MILESTONES
+ */
+export const MAX_MILESTONES = 10;
+
 /**
  * Milestone input for campaign creation
  */
@@ -43,6 +111,49 @@ export interface MilestoneInput {
   deadlineDays: number; // days after campaign end
 }
 
+/**
+ * Quorum and approval threshold for one proposal type (basis points)
+ */
+export interface VotingRules {
+  quorumBps: bigint;
+  approvalBps: bigint;
+}
+
+/**
+ * Voting rules input for campaign creation
+ */
+export interface VotingRulesInput {
+  quorumPercent: number; // 0-100, share of token supply that must vote
+  approvalPercent: number; // 50-100, share of votes that must be in favor
+}
+
+/**
+ * Campaign-level voting period and proposal threshold
+ */
+export interface GovernanceParams {
+  votingPeriod: bigint; // seconds
+  proposalThresholdBps: bigint; // voting power needed to propose, as share of token supply
+}
+
+/**
+ * Governance params input for campaign creation
+ */
+export interface GovernanceParamsInput {
+  votingPeriodDays: number; // 1-14
+  proposalThresholdPercent: number; // 0.01-10, share of token supply needed to propose
+}
+
+/**
+ * Voting period range MilestoneEscrow accepts (days)
+ */
+export const MIN_VOTING_PERIOD_DAYS = 1;
+export const MAX_VOTING_PERIOD_DAYS = 14;
+
+/**
+ * Highest proposal threshold MilestoneEscrow accepts (% of token supply)
+ */
+export const MAX_PROPOSAL_THRESHOLD_PERCENT = 10;
+
 /**
  * Extended campaign data with milestones
  */
@@ -62,6 +173,8 @@ export interface MilestoneCampaignData {
   milestoneCount: bigint;
   releasedAmount: bigint;
   hasMilestones: boolean;
+  paymentToken: string; // Zero address for native MNT
+  metadataHash: `0x${string}`; // SHA-256 of the off-chain metadata document
 }
 
 /**
@@ -74,12 +187,36 @@ export interface ProposalV2Data {
   description: string;
   forVotes: bigint;
   againstVotes: bigint;
+  abstainVotes: bigint; // Count toward quorum only
   startTime: bigint;
   endTime: bigint;
   executed: boolean;
   canceled: boolean;
   proposalType: ProposalType;
   milestoneIndex: bigint;
+  snapshotTime: bigint;
+}
+
+/**
+ * Voting results for a GovernanceV2 proposal
+ */
+export interface VotingResultsV2 {
+  forPercent: bigint;
+  againstPercent: bigint;
+  abstainPercent: bigint;
+  totalVotes: bigint; // Including abstentions
+  quorumVotes: bigint;
+  quorumReached: boolean;
+}
+
+/**
+ * An address's current vote on a GovernanceV2 proposal
+ */
+export interface VoteRecord {
+  voted: boolean;
+  support: VoteType;
+  weight: bigint;
+  releaseBps: bigint; // 0 unless voting for
 }
 
 /**
@@ -97,6 +234,8 @@ export function getMilestoneStatusLabel(status: MilestoneStatus): string {
       return "Rejected";
     case MilestoneStatus.Released:
       return "Released";
+    case MilestoneStatus.Expired:
+      return "Expired";
     default:
       return "Unknown";
   }
@@ -111,11 +250,71 @@ export function getProposalTypeLabel(type: ProposalType): string {
       return "General";
     case ProposalType.Milestone:
       return "Milestone";
+    case ProposalType.Amendment:
+      return "Amendment";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Helper to get vote choice label
+ */
+export function getVoteTypeLabel(support: VoteType): string {
+  switch (support) {
+    case VoteType.Against:
+      return "Against";
+    case VoteType.For:
+      return "For";
+    case VoteType.Abstain:
+      return "Abstain";
+    default:
+      return "Unknown";
+  }
+}
+
+/**
+ * Helper to get proposal action label
+ */
+export function getProposalActionLabel(actionType: ProposalActionType): string {
+  switch (actionType) {
+    case ProposalActionType.None:
+      return "No on-chain action";
+    case ProposalActionType.EmergencyRefund:
+      return "Enable emergency refunds";
+    case ProposalActionType.ReplacePayoutAddress:
+      return "Replace payout address";
+    case ProposalActionType.PauseMilestoneSubmissions:
+      return "Pause milestone submissions";
+    case ProposalActionType.ResumeMilestoneSubmissions:
+      return "Resume milestone submissions";
     default:
       return "Unknown";
   }
 }
 
+/**
+ * Check governance params against the ranges createCampaignWithMilestones enforces
+ */
+export function areGovernanceParamsValid(params: GovernanceParamsInput): boolean {
+  return (
+    Number.isInteger(params.votingPeriodDays) &&
+    params.votingPeriodDays >= MIN_VOTING_PERIOD_DAYS &&
+    params.votingPeriodDays <= MAX_VOTING_PERIOD_DAYS &&
+    percentageToBps(params.proposalThresholdPercent) > BigInt(0) &&
+    params.proposalThresholdPercent <= MAX_PROPOSAL_THRESHOLD_PERCENT
+  );
+}
+
+/**
+ * Format a voting period for display (e.g. "24 hours", "7 days")
+ */
+export function formatVotingPeriod(seconds: bigint): string {
+  const hours = Number(seconds) / 3600;
+  if (hours < 48) return `${hours} hours`;
+  return `${hours / 24} days`;
+}
+
 /**
  * Calculate milestone amount from pledged amount and percentage
  * @param pledged Total pledged amount in wei
@@ -166,6 +365,19 @@ export function isMilestoneDeadlinePassed(deadline: bigint): boolean {
   return BigInt(Math.floor(Date.now() / 1000)) > deadline;
 }
 
+/**
+ * Check if a milestone has failed and unlocks emergency refunds
+ * (rejected, expired, or still pending after its deadline)
+ */
+export function isMilestoneFailed(milestone: MilestoneData): boolean {
+  return (
+    milestone.status === MilestoneStatus.Rejected ||
+    milestone.status === MilestoneStatus.Expired ||
+    (milestone.status === MilestoneStatus.Pending &&
+      isMilestoneDeadlinePassed(milestone.deadline))
+  );
+}
+
 /**
  * Get days remaining until milestone deadline
  */
@@ -175,3 +387,114 @@ export function getMilestoneDaysRemaining(deadline: bigint): number {
   if (remaining <= 0) return 0;
   return Math.ceil(remaining / 86400); // 86400 = seconds per day
 }
+
+/**
+ * Get seconds until an approved milestone's funds can be released (0 once unlocked)
+ */
+export function getReleaseSecondsRemaining(window: ReleaseWindow): number {
+  const now = Math.floor(Date.now() / 1000);
+  return Math.max(0, Number(window.unlockAt) - now);
+}
+
+/**
+ * Readable messages for milestone schedule problems, keyed by the
+ * MilestoneEscrow custom error the contract would revert with
+ */
+export const MILESTONE_SCHEDULE_ERROR_MESSAGES = {
+  InvalidMilestoneCount: `Add between 1 and ${MAX_MILESTONES} milestones`,
+  PercentagesMustSumTo100: "Fund percentages must sum to 100%",
+  DeadlinesNotAscending: "Each deadline must be later than the previous milestone's",
+  IncompleteMilestone: "Every milestone needs a title, description, percentage and deadline",
+} as const;
+
+export type MilestoneScheduleError = keyof typeof MILESTONE_SCHEDULE_ERROR_MESSAGES;
+
+/**
+ * Check a milestone schedule against the rules createCampaignWithMilestones enforces
+ * @returns The problems found, empty if the schedule is valid
+ */
+export function validateMilestoneSchedule(milestones: MilestoneInput[]): MilestoneScheduleError[] {
+  const errors: MilestoneScheduleError[] = [];
+
+  if (milestones.length === 0 || milestones.length > MAX_MILESTONES) {
+    errors.push("InvalidMilestoneCount");
+  }
+  if (milestones.reduce((sum, m) => sum + m.percentage, 0) !== 100) {
+    errors.push("PercentagesMustSumTo100");
+  }
+  if (milestones.some((m, i) => i > 0 && m.deadlineDays <= milestones[i - 1].deadlineDays)) {
+    errors.push("DeadlinesNotAscending");
+  }
+  if (milestones.some((m) => !m.title || !m.description || m.percentage <= 0 || m.deadlineDays <= 0)) {
+    errors.push("IncompleteMilestone");
+  }
+
+  return errors;
+}
+
+/**
+ * Check if a milestone's deadline and percentage can still be amended
+ * (milestones in a vote, approved or released keep their terms)
+ */
+export function isMilestoneAmendable(status: MilestoneStatus): boolean {
+  return (
+    status === MilestoneStatus.Pending ||
+    status === MilestoneStatus.Rejected ||
+    status === MilestoneStatus.Expired
+  );
+}
+
+/**
+ * Readable messages for amendment problems, keyed by the
+ * MilestoneEscrow custom error the contract would revert with
+ */
+export const MILESTONE_AMENDMENT_ERROR_MESSAGES = {
+  PercentagesMustSumTo100: "Fund percentages must still sum to 100%",
+  DeadlinesNotAscending: "Each deadline must be later than the previous milestone's",
+  MilestoneNotAmendable: "Milestones in a vote, approved or released cannot be changed",
+  DeadlineNotInFuture: "Changed deadlines must be in the future",
+  EmptyAmendment: "Change at least one deadline or percentage",
+} as const;
+
+export type MilestoneAmendmentError = keyof typeof MILESTONE_AMENDMENT_ERROR_MESSAGES;
+
+/**
+ * Check an amendment against the rules MilestoneEscrow.validateMilestoneAmendment enforces
+ * @returns The problems found, empty if the amendment is valid
+ */
+export function validateMilestoneAmendment(
+  milestones: MilestoneData[],
+  amendment: MilestoneAmendment,
+  now: bigint = BigInt(Math.floor(Date.now() / 1000))
+): MilestoneAmendmentError[] {
+  const errors = new Set<MilestoneAmendmentError>();
+  const { deadlines, percentages } = amendment;
+  let changed = false;
+
+  if (percentages.reduce((sum, p) => sum + p, BigInt(0)) !== BigInt(10000)) {
+    errors.add("PercentagesMustSumTo100");
+  }
+
+  milestones.forEach((milestone, i) => {
+    if (i > 0 && deadlines[i] <= deadlines[i - 1]) {
+      errors.add("DeadlinesNotAscending");
+    }
+
+    const deadlineChanged = deadlines[i] !== milestone.deadline;
+    if (!deadlineChanged && percentages[i] === milestone.percentage) return;
+
+    changed = true;
+    if (!isMilestoneAmendable(milestone.status)) {
+      errors.add("MilestoneNotAmendable");
+    }
+    if (deadlineChanged && deadlines[i] <= now) {
+      errors.add("DeadlineNotInFuture");
+    }
+  });
+
+  if (!changed) {
+    errors.add("EmptyAmendment");
+  }
+
+  return Array.from(errors);
+}
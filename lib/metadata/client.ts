@@ -0,0 +1,121 @@
+// Campaign metadata API client
+// Uploads documents through /api/metadata and verifies fetched content against the on-chain hash
+
+import {
+  EMPTY_METADATA_HASH,
+  hashMetadataContent,
+  parseCampaignMetadata,
+  serializeCampaignMetadata,
+  type CampaignMetadata,
+} from "./schema";
+import {
+  parseMilestoneEvidence,
+  serializeMilestoneEvidence,
+  type MilestoneEvidence,
+} from "./evidence";
+
+export type CampaignMetadataResult =
+  | { status: "none" }
+  | { status: "verified"; metadata: CampaignMetadata }
+  | { status: "mismatch" }
+  | { status: "unavailable" };
+
+export type MilestoneEvidenceResult =
+  | { status: "none" }
+  | { status: "verified"; evidence: MilestoneEvidence }
+  | { status: "mismatch" }
+  | { status: "unavailable" };
+
+/**
+ * Store a metadata document and return the hash to record on-chain
+ */
+export async function uploadCampaignMetadata(metadata: CampaignMetadata): Promise<`0x${string}`> {
+  const expectedHash = await hashMetadataContent(serializeCampaignMetadata(metadata));
+
+  const response = await fetch("/api/metadata", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(metadata),
+  });
+  const body = (await response.json()) as { hash?: string; error?: string };
+
+  if (!response.ok || !body.hash) {
+    throw new Error(body.error || "Failed to store campaign metadata");
+  }
+  if (body.hash.toLowerCase() !== expectedHash) {
+    throw new Error("Metadata store returned an unexpected content hash");
+  }
+
+  return expectedHash;
+}
+
+/**
+ * Fetch the metadata document for an on-chain hash and verify its integrity
+ */
+export async function fetchCampaignMetadata(metadataHash: string): Promise<CampaignMetadataResult> {
+  if (!metadataHash || metadataHash.toLowerCase() === EMPTY_METADATA_HASH) {
+    return { status: "none" };
+  }
+
+  try {
+    const response = await fetch(`/api/metadata/${metadataHash}`);
+    if (!response.ok) return { status: "unavailable" };
+
+    const content = await response.text();
+    if ((await hashMetadataContent(content)) !== metadataHash.toLowerCase()) {
+      return { status: "mismatch" };
+    }
+
+    return { status: "verified", metadata: parseCampaignMetadata(JSON.parse(content)) };
+  } catch (error) {
+    console.error("Error fetching campaign metadata:", error);
+    return { status: "unavailable" };
+  }
+}
+
+/**
+ * Store a milestone evidence bundle and return the hash to submit on-chain
+ */
+export async function uploadMilestoneEvidence(evidence: MilestoneEvidence): Promise<`0x${string}`> {
+  const expectedHash = await hashMetadataContent(serializeMilestoneEvidence(evidence));
+
+  const response = await fetch("/api/evidence", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(evidence),
+  });
+  const body = (await response.json()) as { hash?: string; error?: string };
+
+  if (!response.ok || !body.hash) {
+    throw new Error(body.error || "Failed to store milestone evidence");
+  }
+  if (body.hash.toLowerCase() !== expectedHash) {
+    throw new Error("Evidence store returned an unexpected content hash");
+  }
+
+  return expectedHash;
+}
+
+/**
+ * Fetch the evidence bundle for a milestone's on-chain hash and verify its integrity
+ */
+export async function fetchMilestoneEvidence(evidenceHash: string): Promise<MilestoneEvidenceResult> {
+  if (!evidenceHash || evidenceHash.toLowerCase() === EMPTY_METADATA_HASH) {
+    return { status: "none" };
+  }
+
+  try {
+    const response = await fetch(`/api/metadata/${evidenceHash}`);
+    if (!response.ok) return { status: "unavailable" };
+
+    const content = await response.text();
+    if ((await hashMetadataContent(content)) !== evidenceHash.toLowerCase()) {
+      return { status: "mismatch" };
+    }
+
+    return { status: "verified", evidence: parseMilestoneEvidence(JSON.parse(content)) };
+  } catch (error) {
+    console.error("Error fetching milestone evidence:", error);
+    return { status: "unavailable" };
+  }
+}
@@ -0,0 +1,125 @@
+// Milestone evidence bundle
+// Stored off-chain by the content store; its SHA-256 hash is recorded on the MilestoneEscrow Milestone struct
+
+import { isMetadataHash } from "./schema";
+
+export const MILESTONE_EVIDENCE_VERSION = 1;
+
+export const MAX_EVIDENCE_LINKS = 20;
+export const MAX_EVIDENCE_FILES = 20;
+
+export interface EvidenceLink {
+  label: string;
+  url: string;
+}
+
+/**
+ * A deliverable file identified by its SHA-256, so investors can check a copy shared elsewhere
+ */
+export interface EvidenceFile {
+  name: string;
+  sha256: `0x${string}`;
+  size: number; // bytes
+}
+
+export interface MilestoneEvidence {
+  version: typeof MILESTONE_EVIDENCE_VERSION;
+  campaignId: number;
+  milestoneIndex: number;
+  report: string;
+  links: EvidenceLink[];
+  files: EvidenceFile[];
+}
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== "string") {
+    throw new Error(`Invalid evidence: ${field} must be a string`);
+  }
+  return value.trim();
+}
+
+function requireCount(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid evidence: ${field} must be a non-negative integer`);
+  }
+  return value;
+}
+
+function requireArray(value: unknown, field: string, max: number): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new Error(`Invalid evidence: ${field} must be an array`);
+  }
+  if (value.length > max) {
+    throw new Error(`Invalid evidence: at most ${max} ${field} allowed`);
+  }
+  return value;
+}
+
+function parseLink(value: unknown, i: number): EvidenceLink {
+  const link = (value ?? {}) as Record<string, unknown>;
+  const url = requireString(link.url, `links[${i}].url`);
+  if (!/^https?:\/\//i.test(url)) {
+    throw new Error(`Invalid evidence: links[${i}].url must be an http(s) URL`);
+  }
+  return { label: requireString(link.label, `links[${i}].label`), url };
+}
+
+function parseFile(value: unknown, i: number): EvidenceFile {
+  const file = (value ?? {}) as Record<string, unknown>;
+  const sha256 = requireString(file.sha256, `files[${i}].sha256`).toLowerCase();
+  if (!isMetadataHash(sha256)) {
+    throw new Error(`Invalid evidence: files[${i}].sha256 must be a 32-byte hex hash`);
+  }
+  return {
+    name: requireString(file.name, `files[${i}].name`),
+    sha256,
+    size: requireCount(file.size, `files[${i}].size`),
+  };
+}
+
+/**
+ * Validate an untrusted evidence bundle
+ * Returns a copy with a fixed key order so serialization is deterministic
+ */
+export function parseMilestoneEvidence(value: unknown): MilestoneEvidence {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid evidence: expected an object");
+  }
+  const doc = value as Record<string, unknown>;
+
+  if (doc.version !== MILESTONE_EVIDENCE_VERSION) {
+    throw new Error(`Invalid evidence: unsupported version ${String(doc.version)}`);
+  }
+
+  const report = requireString(doc.report, "report");
+  const links = requireArray(doc.links, "links", MAX_EVIDENCE_LINKS).map(parseLink);
+  const files = requireArray(doc.files, "files", MAX_EVIDENCE_FILES).map(parseFile);
+  if (!report && links.length === 0 && files.length === 0) {
+    throw new Error("Invalid evidence: add a report, a link or a file");
+  }
+
+  return {
+    version: MILESTONE_EVIDENCE_VERSION,
+    campaignId: requireCount(doc.campaignId, "campaignId"),
+    milestoneIndex: requireCount(doc.milestoneIndex, "milestoneIndex"),
+    report,
+    links,
+    files,
+  };
+}
+
+/**
+ * Serialize a validated bundle to the exact bytes that are stored and hashed
+ */
+export function serializeMilestoneEvidence(evidence: MilestoneEvidence): string {
+  return JSON.stringify(parseMilestoneEvidence(evidence));
+}
+
+/**
+ * SHA-256 of a deliverable file, in the same format as the on-chain hashes
+ */
+export async function hashEvidenceFile(file: Blob): Promise<`0x${string}`> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `0x${hex}`;
+}
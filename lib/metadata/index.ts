@@ -0,0 +1,5 @@
+// Campaign metadata utilities
+
+export * from "./schema";
+export * from "./evidence";
+export * from "./client";
@@ -0,0 +1,112 @@
+// Campaign metadata document
+// Stored off-chain by a content store; its SHA-256 hash is recorded in the MilestoneEscrow Campaign struct
+
+import type { CompanyInfo, ProjectCategory, ProjectProps } from "@/src/domain/entities";
+
+export const CAMPAIGN_METADATA_VERSION = 1;
+
+// Keeps documents within a single IPFS block so the CID is derivable from the hash
+export const MAX_METADATA_BYTES = 64 * 1024;
+
+export const EMPTY_METADATA_HASH =
+  "0x0000000000000000000000000000000000000000000000000000000000000000" as const;
+
+const PROJECT_CATEGORIES: ProjectCategory[] = [
+  "tech",
+  "fintech",
+  "healthcare",
+  "ecommerce",
+  "entertainment",
+  "real-estate",
+  "energy",
+];
+
+/**
+ * Off-chain project details, field-compatible with ProjectProps
+ */
+export interface CampaignMetadata
+  extends Pick<ProjectProps, "name" | "description" | "longDescription" | "category" | "image"> {
+  version: typeof CAMPAIGN_METADATA_VERSION;
+  companyName: string;
+  companyInfo: CompanyInfo;
+}
+
+function requireString(value: unknown, field: string, optional = false): string {
+  if (value === undefined && optional) return "";
+  if (typeof value !== "string") {
+    throw new Error(`Invalid metadata: ${field} must be a string`);
+  }
+  return value.trim();
+}
+
+function requireCount(value: unknown, field: string): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid metadata: ${field} must be a non-negative integer`);
+  }
+  return value;
+}
+
+/**
+ * Validate an untrusted metadata document
+ * Returns a copy with a fixed key order so serialization is deterministic
+ */
+export function parseCampaignMetadata(value: unknown): CampaignMetadata {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("Invalid metadata: expected an object");
+  }
+  const doc = value as Record<string, unknown>;
+
+  if (doc.version !== CAMPAIGN_METADATA_VERSION) {
+    throw new Error(`Invalid metadata: unsupported version ${String(doc.version)}`);
+  }
+
+  const name = requireString(doc.name, "name");
+  if (!name) throw new Error("Invalid metadata: name is required");
+
+  const category = doc.category as ProjectCategory;
+  if (!PROJECT_CATEGORIES.includes(category)) {
+    throw new Error(`Invalid metadata: unknown category ${String(doc.category)}`);
+  }
+
+  if (typeof doc.companyInfo !== "object" || doc.companyInfo === null) {
+    throw new Error("Invalid metadata: companyInfo is required");
+  }
+  const companyInfo = doc.companyInfo as Record<string, unknown>;
+  const website = requireString(companyInfo.website, "companyInfo.website", true);
+
+  return {
+    version: CAMPAIGN_METADATA_VERSION,
+    name,
+    description: requireString(doc.description, "description"),
+    longDescription: requireString(doc.longDescription, "longDescription"),
+    category,
+    image: requireString(doc.image, "image", true),
+    companyName: requireString(doc.companyName, "companyName"),
+    companyInfo: {
+      foundedYear: requireCount(companyInfo.foundedYear, "companyInfo.foundedYear"),
+      employees: requireCount(companyInfo.employees, "companyInfo.employees"),
+      location: requireString(companyInfo.location, "companyInfo.location"),
+      ...(website ? { website } : {}),
+    },
+  };
+}
+
+/**
+ * Serialize a validated document to the exact bytes that are stored and hashed
+ */
+export function serializeCampaignMetadata(metadata: CampaignMetadata): string {
+  return JSON.stringify(parseCampaignMetadata(metadata));
+}
+
+/**
+ * SHA-256 of the stored content, formatted as the on-chain bytes32
+ */
+export async function hashMetadataContent(content: string): Promise<`0x${string}`> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  const hex = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `0x${hex}`;
+}
+
+export function isMetadataHash(value: string): value is `0x${string}` {
+  return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
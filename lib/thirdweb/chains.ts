@@ -34,3 +34,15 @@ export const mantleMainnet = defineChain({
     },
   ],
 });
+
+// Local hardhat node (for admin tooling and development)
+export const hardhatLocal = defineChain({
+  id: 31337,
+  name: "Hardhat Local",
+  rpc: "http://127.0.0.1:8545",
+  nativeCurrency: {
+    name: "ETH",
+    symbol: "ETH",
+    decimals: 18,
+  },
+});
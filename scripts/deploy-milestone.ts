@@ -23,10 +23,20 @@ async function main() {
   const platformWallet = process.env.PLATFORM_WALLET || deployer.address;
   console.log("🏦 Platform wallet:", platformWallet);
 
+  // Deploy EquityTokenFactory (deploys each campaign's EquityToken for the escrow)
+  console.log("\n📦 Deploying EquityTokenFactory...");
+  const EquityTokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+  const tokenFactory = await EquityTokenFactory.deploy();
+
+  await tokenFactory.waitForDeployment();
+  const tokenFactoryAddress = await tokenFactory.getAddress();
+
+  console.log("✅ EquityTokenFactory deployed to:", tokenFactoryAddress);
+
   // Deploy MilestoneEscrow
   console.log("\n📦 Deploying MilestoneEscrow...");
   const MilestoneEscrow = await ethers.getContractFactory("MilestoneEscrow");
-  const escrow = await MilestoneEscrow.deploy(platformWallet);
+  const escrow = await MilestoneEscrow.deploy(platformWallet, tokenFactoryAddress);
 
   await escrow.waitForDeployment();
   const escrowAddress = await escrow.getAddress();
@@ -69,6 +79,75 @@ async function main() {
   await setGovTx.wait();
   console.log("✅ GovernanceV2 linked to MilestoneEscrow");
 
+  // Hold approved milestone funds so the guardian or a holder minority can veto a release
+  const releaseTimelockDays = Number(process.env.RELEASE_TIMELOCK_DAYS || "2");
+  const guardianAddress = process.env.GUARDIAN_ADDRESS || platformWallet;
+
+  const setTimelockTx = await escrow.setReleaseTimelock(releaseTimelockDays * 24 * 60 * 60);
+  await setTimelockTx.wait();
+  const setGuardianTx = await escrow.setGuardian(guardianAddress);
+  await setGuardianTx.wait();
+  console.log("✅ Release timelock set to", releaseTimelockDays, "days with guardian", guardianAddress);
+
+  // Deploy InvestorRegistry; the deployer is the first approved verifier
+  console.log("\n📦 Deploying InvestorRegistry...");
+  const InvestorRegistry = await ethers.getContractFactory("InvestorRegistry");
+  const registry = await InvestorRegistry.deploy();
+
+  await registry.waitForDeployment();
+  const registryAddress = await registry.getAddress();
+
+  console.log("✅ InvestorRegistry deployed to:", registryAddress);
+
+  const setVerifierTx = await registry.setVerifier(deployer.address, true);
+  await setVerifierTx.wait();
+  console.log("✅ Deployer approved as verifier");
+
+  // Only KYC-verified investors may pledge
+  const setRegistryTx = await escrow.setInvestorRegistry(registryAddress);
+  await setRegistryTx.wait();
+  console.log("✅ InvestorRegistry linked to MilestoneEscrow");
+
+  // Deploy InvestmentCompliance and have the escrow consult it on every pledge
+  // Retail cap matches KR_CROWDFUNDING_RULES.INDIVIDUAL_ANNUAL_LIMIT_USDC (normalized to 18 decimals)
+  console.log("\n📦 Deploying InvestmentCompliance...");
+  const retailCap = ethers.parseEther(process.env.RETAIL_ANNUAL_CAP || "500");
+  const InvestmentCompliance = await ethers.getContractFactory("InvestmentCompliance");
+  const compliance = await InvestmentCompliance.deploy(escrowAddress, registryAddress, retailCap);
+
+  await compliance.waitForDeployment();
+  const complianceAddress = await compliance.getAddress();
+
+  console.log("✅ InvestmentCompliance deployed to:", complianceAddress);
+
+  const setComplianceTx = await escrow.setComplianceModule(complianceAddress);
+  await setComplianceTx.wait();
+  console.log("✅ InvestmentCompliance linked to MilestoneEscrow");
+
+  // Deploy the mock stablecoin and allow it as a campaign payment token
+  console.log("\n📦 Deploying MockStablecoin (USDC)...");
+  const MockStablecoin = await ethers.getContractFactory("MockStablecoin");
+  const usdc = await MockStablecoin.deploy("Mock USD Coin", "USDC", 6);
+
+  await usdc.waitForDeployment();
+  const usdcAddress = await usdc.getAddress();
+
+  console.log("✅ MockStablecoin deployed to:", usdcAddress);
+
+  const allowTokenTx = await escrow.setPaymentTokenAllowed(usdcAddress, true);
+  await allowTokenTx.wait();
+  console.log("✅ USDC allowed as a payment token");
+
+  // Deploy DividendDistributor for campaign revenue distributions
+  console.log("\n📦 Deploying DividendDistributor...");
+  const DividendDistributor = await ethers.getContractFactory("DividendDistributor");
+  const distributor = await DividendDistributor.deploy(escrowAddress);
+
+  await distributor.waitForDeployment();
+  const distributorAddress = await distributor.getAddress();
+
+  console.log("✅ DividendDistributor deployed to:", distributorAddress);
+
   // Log contract info
   console.log("\n========================================");
   console.log("📄 DEPLOYMENT SUMMARY");
@@ -76,18 +155,33 @@ async function main() {
   console.log("Network:", (await ethers.provider.getNetwork()).name);
   console.log("Chain ID:", (await ethers.provider.getNetwork()).chainId);
   console.log("");
+  console.log("EquityTokenFactory:", tokenFactoryAddress);
   console.log("MilestoneEscrow:", escrowAddress);
   console.log("GovernanceV2:", governanceAddress);
+  console.log("InvestmentCompliance:", complianceAddress);
+  console.log("InvestorRegistry:", registryAddress);
+  console.log("DividendDistributor:", distributorAddress);
+  console.log("Mock USDC:", usdcAddress);
   console.log("Platform Wallet:", platformWallet);
   console.log("Platform Fee: 2% (200 bps)");
   console.log("Max Founder Share: 30% (3000 bps)");
-  console.log("Max Milestones: 3");
+  console.log("Max Milestones: 10");
+  console.log("Retail Annual Cap:", ethers.formatEther(retailCap), "(rolling 12 months)");
   console.log("Voting Period: 3 days");
+  console.log("Release Timelock:", releaseTimelockDays, "days");
+  console.log("Guardian:", guardianAddress);
   console.log("========================================\n");
 
+  // Local deployments are configured through .env.local instead of addresses.ts
+  const isLocal = (await ethers.provider.getNetwork()).chainId === BigInt(31337);
+  if (isLocal) {
+    console.log("Add to .env.local for the admin pages:");
+    console.log(`NEXT_PUBLIC_LOCAL_INVESTOR_REGISTRY=${registryAddress}\n`);
+  }
+
   // Update addresses.ts file
   const addressesPath = path.join(__dirname, "../lib/constants/addresses.ts");
-  if (fs.existsSync(addressesPath)) {
+  if (!isLocal && fs.existsSync(addressesPath)) {
     let content = fs.readFileSync(addressesPath, "utf8");
 
     // Check if MILESTONE_ESCROW exists, if not add it
@@ -115,6 +209,26 @@ async function main() {
       );
     }
 
+    content = content.replace(
+      /INVESTMENT_COMPLIANCE: "0x[a-fA-F0-9]{40}"/,
+      `INVESTMENT_COMPLIANCE: "${complianceAddress}"`
+    );
+
+    content = content.replace(
+      /INVESTOR_REGISTRY: "0x[a-fA-F0-9]{40}"/,
+      `INVESTOR_REGISTRY: "${registryAddress}"`
+    );
+
+    content = content.replace(
+      /DIVIDEND_DISTRIBUTOR: "0x[a-fA-F0-9]{40}"/,
+      `DIVIDEND_DISTRIBUTOR: "${distributorAddress}"`
+    );
+
+    content = content.replace(
+      /MOCK_USDC: "0x[a-fA-F0-9]{40}"/,
+      `MOCK_USDC: "${usdcAddress}"`
+    );
+
     // Update PLATFORM_WALLET if needed
     content = content.replace(
       /PLATFORM_WALLET: "0x[a-fA-F0-9]{40}"/,
@@ -132,14 +246,26 @@ async function main() {
     timestamp: new Date().toISOString(),
     deployer: deployer.address,
     contracts: {
+      EquityTokenFactory: tokenFactoryAddress,
       MilestoneEscrow: escrowAddress,
       GovernanceV2: governanceAddress,
+      InvestmentCompliance: complianceAddress,
+      InvestorRegistry: registryAddress,
+      DividendDistributor: distributorAddress,
+      MockStablecoin: usdcAddress,
     },
     platformWallet,
     transactionHash: {
+      tokenFactory: tokenFactory.deploymentTransaction()?.hash,
       escrow: deployTx?.hash,
       governance: govDeployTx?.hash,
       linking: setGovTx.hash,
+      compliance: compliance.deploymentTransaction()?.hash,
+      linkCompliance: setComplianceTx.hash,
+      registry: registry.deploymentTransaction()?.hash,
+      linkRegistry: setRegistryTx.hash,
+      allowPaymentToken: allowTokenTx.hash,
+      distributor: distributor.deploymentTransaction()?.hash,
     },
   };
 
@@ -158,12 +284,20 @@ async function main() {
   console.log("🔍 VERIFICATION");
   console.log("========================================");
   console.log("To verify the contracts on Mantlescan, run:");
-  console.log(`npx hardhat verify --network mantleSepolia ${escrowAddress} "${platformWallet}"`);
+  console.log(`npx hardhat verify --network mantleSepolia ${tokenFactoryAddress}`);
+  console.log(`npx hardhat verify --network mantleSepolia ${escrowAddress} "${platformWallet}" "${tokenFactoryAddress}"`);
   console.log(`npx hardhat verify --network mantleSepolia ${governanceAddress} "${escrowAddress}"`);
+  console.log(`npx hardhat verify --network mantleSepolia ${complianceAddress} "${escrowAddress}" "${registryAddress}" "${retailCap}"`);
+  console.log(`npx hardhat verify --network mantleSepolia ${registryAddress}`);
+  console.log(`npx hardhat verify --network mantleSepolia ${distributorAddress} "${escrowAddress}"`);
+  console.log(`npx hardhat verify --network mantleSepolia ${usdcAddress} "Mock USD Coin" "USDC" 6`);
   console.log("");
   console.log("View on Explorer:");
   console.log(`MilestoneEscrow: https://sepolia.mantlescan.xyz/address/${escrowAddress}`);
   console.log(`GovernanceV2: https://sepolia.mantlescan.xyz/address/${governanceAddress}`);
+  console.log(`InvestmentCompliance: https://sepolia.mantlescan.xyz/address/${complianceAddress}`);
+  console.log(`InvestorRegistry: https://sepolia.mantlescan.xyz/address/${registryAddress}`);
+  console.log(`DividendDistributor: https://sepolia.mantlescan.xyz/address/${distributorAddress}`);
   console.log("========================================\n");
 }
 
@@ -0,0 +1,60 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { CONTRACTS } from "../lib/constants/addresses";
+import {
+  EventIndexer,
+  IndexerStore,
+  DEFAULT_INDEXER_DB_PATH,
+} from "../src/infrastructure/indexer";
+
+/**
+ * Long-running event indexer for MilestoneEscrow and GovernanceV2.
+ * Against a local node: npm run indexer:local (set INDEXER_ESCROW_ADDRESS / INDEXER_GOVERNANCE_ADDRESS)
+ */
+async function main() {
+  const escrowAddress = process.env.INDEXER_ESCROW_ADDRESS || CONTRACTS.MILESTONE_ESCROW;
+  const governanceAddress = process.env.INDEXER_GOVERNANCE_ADDRESS || CONTRACTS.GOVERNANCE_V2;
+  const dbPath = process.env.INDEXER_DB_PATH || DEFAULT_INDEXER_DB_PATH;
+  const startBlock = Number(process.env.INDEXER_START_BLOCK || 0);
+  const pollInterval = Number(process.env.INDEXER_POLL_INTERVAL_MS || 5000);
+  const confirmations = Number(process.env.INDEXER_CONFIRMATIONS || 0);
+
+  fs.mkdirSync(path.dirname(path.resolve(dbPath)), { recursive: true });
+
+  const network = await ethers.provider.getNetwork();
+  console.log("🔎 Starting event indexer...");
+  console.log("Network:", network.name, `(chain ${network.chainId})`);
+  console.log("MilestoneEscrow:", escrowAddress);
+  console.log("GovernanceV2:", governanceAddress);
+  console.log("Database:", dbPath, "\n");
+
+  const store = new IndexerStore(dbPath);
+  const indexer = new EventIndexer({
+    provider: ethers.provider,
+    store,
+    escrowAddress,
+    governanceAddress,
+    startBlock,
+    confirmations,
+  });
+
+  const lastBlock = await indexer.sync();
+  console.log("✅ Caught up to block", lastBlock);
+
+  indexer.start(pollInterval, (error) => console.error("❌ Sync failed:", error));
+
+  const shutdown = () => {
+    indexer.stop();
+    store.close();
+    console.log("\n👋 Indexer stopped");
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed:", error);
+  process.exit(1);
+});
@@ -6,6 +6,7 @@
 export interface UserDTO {
   address: string;
   displayAddress: string;
+  investorTier: 'retail' | 'professional';
   totalInvested: number;
   investmentCount: number;
   tokenHoldingsCount: number;
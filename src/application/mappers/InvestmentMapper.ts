@@ -4,7 +4,7 @@
  */
 
 import { Investment, InvestmentProps } from '@/src/domain/entities';
-import { Money, Address } from '@/src/domain/value-objects';
+import { Money, Address, type Currency } from '@/src/domain/value-objects';
 import { InvestmentDTO, InvestmentSummaryDTO } from '@/src/application/dto';
 
 const MANTLE_EXPLORER_URL = 'https://sepolia.mantlescan.xyz';
@@ -56,13 +56,16 @@ export class InvestmentMapper {
 
   /**
    * Map raw data to Investment entity
+   * Amounts are in base units of the campaign's payment token
    */
   static toEntity(data: {
     id: string;
     projectId: string;
     investor: string;
-    amount: number;
-    platformFee: number;
+    currency: Currency;
+    decimals: number;
+    amount: bigint;
+    platformFee: bigint;
     tokenAmount: number;
     tokenSymbol: string;
     transactionHash: string;
@@ -75,8 +78,8 @@ export class InvestmentMapper {
       id: data.id,
       projectId: data.projectId,
       investor: Address.create(data.investor),
-      amount: Money.fromUSDC(data.amount),
-      platformFee: Money.fromUSDC(data.platformFee),
+      amount: Money.fromUnits(data.amount, data.currency, data.decimals),
+      platformFee: Money.fromUnits(data.platformFee, data.currency, data.decimals),
       tokenAmount: data.tokenAmount,
       tokenSymbol: data.tokenSymbol,
       transactionHash: data.transactionHash,
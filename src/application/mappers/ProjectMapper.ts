@@ -4,7 +4,7 @@
  */
 
 import { Project, ProjectProps } from '@/src/domain/entities';
-import { Money, Address } from '@/src/domain/value-objects';
+import { Money, Address, type Currency } from '@/src/domain/value-objects';
 import { ProjectDTO, ProjectSummaryDTO } from '@/src/application/dto';
 
 export class ProjectMapper {
@@ -58,20 +58,23 @@ export class ProjectMapper {
 
   /**
    * Map raw data to Project entity
+   * Amounts are in base units of the campaign's payment token
    */
   static toEntity(data: {
     id: string;
     name: string;
     description: string;
     longDescription: string;
-    goal: number;
-    fundRaised: number;
+    currency: Currency;
+    decimals: number;
+    goal: bigint;
+    fundRaised: bigint;
     deadline: number; // Unix timestamp
     expectedReturn: number;
     category: string;
     status: string;
     investorCount: number;
-    minInvestment: number;
+    minInvestment: bigint;
     tokenSymbol: string;
     contractAddress: string;
     companyInfo: {
@@ -87,14 +90,14 @@ export class ProjectMapper {
       name: data.name,
       description: data.description,
       longDescription: data.longDescription,
-      goal: Money.fromUSDC(data.goal),
-      fundRaised: Money.fromUSDC(data.fundRaised),
+      goal: Money.fromUnits(data.goal, data.currency, data.decimals),
+      fundRaised: Money.fromUnits(data.fundRaised, data.currency, data.decimals),
       deadline: new Date(data.deadline * 1000),
       expectedReturn: data.expectedReturn,
       category: data.category as ProjectProps['category'],
       status: data.status as ProjectProps['status'],
       investorCount: data.investorCount,
-      minInvestment: Money.fromUSDC(data.minInvestment),
+      minInvestment: Money.fromUnits(data.minInvestment, data.currency, data.decimals),
       tokenSymbol: data.tokenSymbol,
       contractAddress: Address.create(data.contractAddress),
       companyInfo: data.companyInfo,
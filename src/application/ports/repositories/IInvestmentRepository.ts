@@ -4,7 +4,7 @@
  */
 
 import { Investment, InvestmentStatus } from '@/src/domain/entities';
-import { Address } from '@/src/domain/value-objects';
+import { Address, Money } from '@/src/domain/value-objects';
 
 export interface InvestmentFilters {
   projectId?: string;
@@ -64,9 +64,9 @@ export interface IInvestmentRepository {
   findByTransactionHash(hash: string): Promise<Investment | null>;
 
   /**
-   * Get total invested amount by an investor (annual)
+   * Get total USDC amount invested by an investor (annual)
    */
-  getAnnualTotalByInvestor(address: Address, year?: number): Promise<number>;
+  getAnnualTotalByInvestor(address: Address, year?: number): Promise<Money>;
 
   /**
    * Get total invested amount in a project
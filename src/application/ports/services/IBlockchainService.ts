@@ -3,6 +3,8 @@
  * Port for blockchain interactions (Dependency Inversion)
  */
 
+import type { InvestorTier } from '@/src/domain/entities';
+
 export interface TransactionResult {
   success: boolean;
   transactionHash: string;
@@ -34,16 +36,47 @@ export interface IBlockchainService {
   getTokenBalance(address: string, tokenAddress: string): Promise<bigint>;
 
   // Crowdfunding operations
+  // projectAddress is the project's equity token; amounts are in payment token base units
   invest(projectAddress: string, amount: bigint): Promise<TransactionResult>;
   refund(projectAddress: string): Promise<TransactionResult>;
   claimTokens(projectAddress: string): Promise<TransactionResult>;
+  withdrawFunds(projectAddress: string): Promise<TransactionResult>;
+  claimFounderTokens(projectAddress: string): Promise<TransactionResult>;
   getProjectFundRaised(projectAddress: string): Promise<bigint>;
   getProjectInvestorCount(projectAddress: string): Promise<number>;
   getInvestorContribution(projectAddress: string, investor: string): Promise<bigint>;
 
+  // Milestone operations (milestone campaigns; milestones are indexed from 0)
+  // evidenceHash is the content hash of the evidence bundle stored for the submission
+  submitMilestone(projectAddress: string, milestoneIndex: number, evidenceHash: string): Promise<TransactionResult>;
+  releaseMilestoneFunds(projectAddress: string, milestoneIndex: number): Promise<TransactionResult>;
+  setAutoRelease(projectAddress: string, enabled: boolean): Promise<TransactionResult>;
+  // The platform guardian vetoes a release outright; token holders signal towards a holder veto
+  vetoMilestoneRelease(projectAddress: string, milestoneIndex: number): Promise<TransactionResult>;
+  signalReleaseVeto(projectAddress: string, milestoneIndex: number): Promise<TransactionResult>;
+
+  // Governance operations (GovernanceV2 proposals)
+  // support is 0 against, 1 for, 2 abstain; a for vote with releaseBps below 10000 approves part of a tranche
+  castVote(proposalId: number, support: number, releaseBps?: bigint): Promise<TransactionResult>;
+  executeProposal(proposalId: number): Promise<TransactionResult>;
+  cancelProposal(proposalId: number): Promise<TransactionResult>;
+
+  // Dividend operations (DividendDistributor; distributions are indexed from 0)
+  // amount is in the campaign's payment token; holders claim pro-rata to their token entitlement
+  createDistribution(projectAddress: string, amount: bigint): Promise<TransactionResult>;
+  claimDividend(distributionId: number): Promise<TransactionResult>;
+  reclaimUnclaimedDividend(distributionId: number): Promise<TransactionResult>;
+
+  // Investor registry operations (InvestorRegistry KYC attestations; expiresAt is in Unix seconds)
+  issueAttestation(investor: string, tier: InvestorTier, expiresAt: number): Promise<TransactionResult>;
+  revokeAttestation(investor: string): Promise<TransactionResult>;
+  setVerifier(verifier: string, allowed: boolean): Promise<TransactionResult>;
+
   // Equity Token operations
   getEquityTokenBalance(tokenAddress: string, investor: string): Promise<bigint>;
   getEquityTokenInfo(tokenAddress: string): Promise<{ name: string; symbol: string; totalSupply: bigint }>;
+  // Hands the caller's voting power to delegatee; delegating to yourself takes it back
+  delegateVotes(tokenAddress: string, delegatee: string): Promise<TransactionResult>;
 
   // Transaction utilities
   waitForTransaction(hash: string): Promise<TransactionResult>;
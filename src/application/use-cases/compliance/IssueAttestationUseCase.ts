@@ -0,0 +1,50 @@
+/**
+ * Issue Attestation Use Case - Application Layer
+ * Records an investor's KYC attestation from the connected verifier wallet
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import type { InvestorTier } from '@/src/domain/entities';
+import { ValidationError } from '@/src/domain/errors';
+import { requireAddress, requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface IssueAttestationInput {
+  investor: string;
+  tier: InvestorTier;
+  /** Unix seconds; the attestation lapses at this time */
+  expiresAt: number;
+}
+
+export interface IssueAttestationOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class IssueAttestationUseCase {
+  constructor(
+    private readonly blockchainService: IBlockchainService,
+    /** Current time in Unix seconds */
+    private readonly now: () => number = () => Math.floor(Date.now() / 1000)
+  ) {}
+
+  async execute(input: IssueAttestationInput): Promise<IssueAttestationOutput> {
+    const { investor, tier, expiresAt } = input;
+    requireAddress(investor, 'investor');
+
+    if (tier !== 'retail' && tier !== 'professional') {
+      throw new ValidationError('tier', "must be 'retail' or 'professional'");
+    }
+    if (!Number.isInteger(expiresAt) || expiresAt <= this.now()) {
+      throw new ValidationError('expiresAt', 'must be in the future');
+    }
+
+    await requireConnectedAddress(this.blockchainService, 'issue an attestation');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.issueAttestation(investor, tier, expiresAt),
+      'issueAttestation'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Revoke Attestation Use Case - Application Layer
+ * Withdraws an investor's KYC attestation from a verifier or registry owner wallet
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireAddress, requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface RevokeAttestationInput {
+  investor: string;
+}
+
+export interface RevokeAttestationOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class RevokeAttestationUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: RevokeAttestationInput): Promise<RevokeAttestationOutput> {
+    requireAddress(input.investor, 'investor');
+
+    await requireConnectedAddress(this.blockchainService, 'revoke an attestation');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.revokeAttestation(input.investor),
+      'revokeAttestation'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Set Verifier Use Case - Application Layer
+ * Approves or removes an attestation verifier from the registry owner wallet
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireAddress, requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface SetVerifierInput {
+  verifier: string;
+  allowed: boolean;
+}
+
+export interface SetVerifierOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class SetVerifierUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: SetVerifierInput): Promise<SetVerifierOutput> {
+    requireAddress(input.verifier, 'verifier');
+
+    await requireConnectedAddress(this.blockchainService, 'set a verifier');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.setVerifier(input.verifier, input.allowed),
+      'setVerifier'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
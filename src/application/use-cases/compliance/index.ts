@@ -0,0 +1,12 @@
+/**
+ * Compliance Use Cases - Public API
+ */
+
+export { IssueAttestationUseCase } from './IssueAttestationUseCase';
+export type { IssueAttestationInput, IssueAttestationOutput } from './IssueAttestationUseCase';
+
+export { RevokeAttestationUseCase } from './RevokeAttestationUseCase';
+export type { RevokeAttestationInput, RevokeAttestationOutput } from './RevokeAttestationUseCase';
+
+export { SetVerifierUseCase } from './SetVerifierUseCase';
+export type { SetVerifierInput, SetVerifierOutput } from './SetVerifierUseCase';
@@ -0,0 +1,32 @@
+/**
+ * Claim Founder Tokens Use Case - Application Layer
+ * Mints the creator's founder share of equity tokens after a successful campaign
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface ClaimFounderTokensInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+}
+
+export interface ClaimFounderTokensOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class ClaimFounderTokensUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ClaimFounderTokensInput): Promise<ClaimFounderTokensOutput> {
+    await requireConnectedAddress(this.blockchainService, 'claim founder tokens');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.claimFounderTokens(input.projectAddress),
+      'claimFounderTokens'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Claim Tokens Use Case - Application Layer
+ * Mints the connected investor's equity tokens (1:1 with the pledge) after a successful campaign
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { ValidationError } from '@/src/domain/errors';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface ClaimTokensInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+}
+
+export interface ClaimTokensOutput {
+  success: boolean;
+  transactionHash: string;
+  /** Equity tokens minted, in token base units */
+  tokenAmount: bigint;
+}
+
+export class ClaimTokensUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ClaimTokensInput): Promise<ClaimTokensOutput> {
+    const investor = await requireConnectedAddress(this.blockchainService, 'claim tokens');
+
+    const tokenAmount = await this.blockchainService.getInvestorContribution(input.projectAddress, investor);
+    if (tokenAmount === BigInt(0)) {
+      throw new ValidationError('projectAddress', 'No pledge to claim tokens for');
+    }
+
+    const txResult = requireSuccess(await this.blockchainService.claimTokens(input.projectAddress), 'claimTokens');
+
+    return { success: true, transactionHash: txResult.transactionHash, tokenAmount };
+  }
+}
@@ -19,7 +19,8 @@ import {
 export interface InvestInProjectInput {
   projectId: string;
   investorAddress: string;
-  amount: number;
+  /** Decimal amount in the campaign's payment token */
+  amount: number | string;
 }
 
 export interface InvestInProjectOutput {
@@ -51,8 +52,8 @@ export class InvestInProjectUseCase {
       throw new ProjectNotInvestableError(projectId, 'Project is not accepting investments');
     }
 
-    // 3. Validate investment amount
-    const investmentAmount = Money.fromUSDC(amount);
+    // 3. Validate investment amount in the campaign's payment token
+    const investmentAmount = Money.fromDecimal(amount, project.goal.getCurrency(), project.goal.getDecimals());
 
     if (!project.canInvestAmount(investmentAmount)) {
       throw new ProjectNotInvestableError(
@@ -61,46 +62,47 @@ export class InvestInProjectUseCase {
       );
     }
 
-    // 4. Check annual investment limit
+    // 4. Check annual investment limit (set in USDC, so only stablecoin campaigns count towards it)
     const investorAddr = Address.create(investorAddress);
-    const annualTotal = await this.investmentRepository.getAnnualTotalByInvestor(investorAddr);
-    const previousTotal = Money.fromUSDC(annualTotal);
-
-    const eligibility = InvestmentRulesService.checkInvestmentEligibility(
-      investmentAmount,
-      previousTotal,
-      project.minInvestment
-    );
-
-    if (!eligibility.eligible) {
-      throw new InvestmentLimitExceededError(
-        eligibility.remainingLimit.toDisplay(),
-        investmentAmount.toDisplay()
+    let warnings: string[] = [];
+    if (investmentAmount.getCurrency() === 'USDC') {
+      const previousTotal = await this.investmentRepository.getAnnualTotalByInvestor(investorAddr);
+      const limitDecimals = previousTotal.getDecimals();
+
+      const eligibility = InvestmentRulesService.checkInvestmentEligibility(
+        investmentAmount.withDecimals(limitDecimals),
+        previousTotal,
+        project.minInvestment.withDecimals(limitDecimals)
       );
-    }
 
-    // 5. Calculate fee
-    const platformFee = InvestmentRulesService.calculatePlatformFee(investmentAmount);
-    const totalAmount = investmentAmount.add(platformFee);
+      if (!eligibility.eligible) {
+        throw new InvestmentLimitExceededError(
+          eligibility.remainingLimit.toDisplay(),
+          investmentAmount.toDisplay()
+        );
+      }
+      warnings = eligibility.warnings;
+    }
 
-    // 6. Execute blockchain transaction
+    // 5. Execute blockchain transaction
+    // MilestoneEscrow takes its platform fee from released funds, so the full amount is pledged
     const txResult = await this.blockchainService.invest(
       project.contractAddress.toString(),
-      totalAmount.toWei()
+      investmentAmount.toUnits()
     );
 
     if (!txResult.success) {
       throw new TransactionFailedError('invest', txResult.error);
     }
 
-    // 7. Create investment record
+    // 6. Create investment record
     const investment = Investment.create({
       id: `inv-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       projectId,
       investor: investorAddr,
       amount: investmentAmount,
-      platformFee,
-      tokenAmount: amount, // 1:1 for simplicity
+      platformFee: Money.zero(investmentAmount.getCurrency(), investmentAmount.getDecimals()),
+      tokenAmount: investmentAmount.toNumber(), // Equity tokens are minted 1:1 with the pledge
       tokenSymbol: project.tokenSymbol,
       transactionHash: txResult.transactionHash,
       status: 'pending',
@@ -113,7 +115,7 @@ export class InvestInProjectUseCase {
       success: true,
       investment: InvestmentMapper.toDTO(investment),
       transactionHash: txResult.transactionHash,
-      warnings: eligibility.warnings,
+      warnings,
     };
   }
 }
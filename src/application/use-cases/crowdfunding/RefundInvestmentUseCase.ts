@@ -0,0 +1,38 @@
+/**
+ * Refund Investment Use Case - Application Layer
+ * Returns the connected investor's pledge: in full when the campaign failed, or pro-rata
+ * to the unreleased funds once a milestone campaign has opened emergency refunds
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { ValidationError } from '@/src/domain/errors';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface RefundInvestmentInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+}
+
+export interface RefundInvestmentOutput {
+  success: boolean;
+  transactionHash: string;
+  /** Pledge the refund was paid against, in payment token base units */
+  pledgeAmount: bigint;
+}
+
+export class RefundInvestmentUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: RefundInvestmentInput): Promise<RefundInvestmentOutput> {
+    const investor = await requireConnectedAddress(this.blockchainService, 'request a refund');
+
+    const pledgeAmount = await this.blockchainService.getInvestorContribution(input.projectAddress, investor);
+    if (pledgeAmount === BigInt(0)) {
+      throw new ValidationError('projectAddress', 'No pledge to refund');
+    }
+
+    const txResult = requireSuccess(await this.blockchainService.refund(input.projectAddress), 'refund');
+
+    return { success: true, transactionHash: txResult.transactionHash, pledgeAmount };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Withdraw Funds Use Case - Application Layer
+ * Pays a successful campaign's funds, less the platform fee, to its creator
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface WithdrawFundsInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+}
+
+export interface WithdrawFundsOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class WithdrawFundsUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: WithdrawFundsInput): Promise<WithdrawFundsOutput> {
+    await requireConnectedAddress(this.blockchainService, 'withdraw funds');
+
+    const txResult = requireSuccess(await this.blockchainService.withdrawFunds(input.projectAddress), 'withdrawFunds');
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
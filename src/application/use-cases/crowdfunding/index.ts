@@ -1,8 +1,5 @@
 /**
  * Crowdfunding Use Cases - Public API
- *
- * Note: Legacy mock-based use cases have been removed.
- * Refund/Withdraw operations now use on-chain hooks from useRefundWithdraw.ts
  */
 
 export { GetProjectsUseCase } from './GetProjectsUseCase';
@@ -13,3 +10,15 @@ export type { GetProjectByIdInput, GetProjectByIdOutput } from './GetProjectById
 
 export { InvestInProjectUseCase } from './InvestInProjectUseCase';
 export type { InvestInProjectInput, InvestInProjectOutput } from './InvestInProjectUseCase';
+
+export { RefundInvestmentUseCase } from './RefundInvestmentUseCase';
+export type { RefundInvestmentInput, RefundInvestmentOutput } from './RefundInvestmentUseCase';
+
+export { ClaimTokensUseCase } from './ClaimTokensUseCase';
+export type { ClaimTokensInput, ClaimTokensOutput } from './ClaimTokensUseCase';
+
+export { WithdrawFundsUseCase } from './WithdrawFundsUseCase';
+export type { WithdrawFundsInput, WithdrawFundsOutput } from './WithdrawFundsUseCase';
+
+export { ClaimFounderTokensUseCase } from './ClaimFounderTokensUseCase';
+export type { ClaimFounderTokensInput, ClaimFounderTokensOutput } from './ClaimFounderTokensUseCase';
@@ -0,0 +1,33 @@
+/**
+ * Claim Dividend Use Case - Application Layer
+ * Claims the connected holder's share of a distribution
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface ClaimDividendInput {
+  distributionId: number;
+}
+
+export interface ClaimDividendOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class ClaimDividendUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ClaimDividendInput): Promise<ClaimDividendOutput> {
+    requireIndex(input.distributionId, 'distributionId');
+
+    await requireConnectedAddress(this.blockchainService, 'claim a dividend');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.claimDividend(input.distributionId),
+      'claimDividend'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
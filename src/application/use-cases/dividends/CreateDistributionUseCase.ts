@@ -0,0 +1,39 @@
+/**
+ * Create Distribution Use Case - Application Layer
+ * Deposits revenue for a project's token holders from the creator's wallet
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { ValidationError } from '@/src/domain/errors';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface CreateDistributionInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  /** Amount in the campaign's payment token base units */
+  amount: bigint;
+}
+
+export interface CreateDistributionOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class CreateDistributionUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: CreateDistributionInput): Promise<CreateDistributionOutput> {
+    if (input.amount <= BigInt(0)) {
+      throw new ValidationError('amount', 'must be greater than zero');
+    }
+
+    await requireConnectedAddress(this.blockchainService, 'create a distribution');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.createDistribution(input.projectAddress, input.amount),
+      'createDistribution'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Reclaim Unclaimed Dividend Use Case - Application Layer
+ * Returns what holders left unclaimed to the creator once the claim period is over
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface ReclaimUnclaimedDividendInput {
+  distributionId: number;
+}
+
+export interface ReclaimUnclaimedDividendOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class ReclaimUnclaimedDividendUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ReclaimUnclaimedDividendInput): Promise<ReclaimUnclaimedDividendOutput> {
+    requireIndex(input.distributionId, 'distributionId');
+
+    await requireConnectedAddress(this.blockchainService, 'reclaim unclaimed dividends');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.reclaimUnclaimedDividend(input.distributionId),
+      'reclaimUnclaimedDividend'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
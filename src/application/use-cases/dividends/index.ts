@@ -0,0 +1,15 @@
+/**
+ * Dividend Use Cases - Public API
+ */
+
+export { CreateDistributionUseCase } from './CreateDistributionUseCase';
+export type { CreateDistributionInput, CreateDistributionOutput } from './CreateDistributionUseCase';
+
+export { ClaimDividendUseCase } from './ClaimDividendUseCase';
+export type { ClaimDividendInput, ClaimDividendOutput } from './ClaimDividendUseCase';
+
+export { ReclaimUnclaimedDividendUseCase } from './ReclaimUnclaimedDividendUseCase';
+export type {
+  ReclaimUnclaimedDividendInput,
+  ReclaimUnclaimedDividendOutput,
+} from './ReclaimUnclaimedDividendUseCase';
@@ -0,0 +1,33 @@
+/**
+ * Cancel Proposal Use Case - Application Layer
+ * Withdraws a proposal; cancelling a milestone submission returns the milestone to pending
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface CancelProposalInput {
+  proposalId: number;
+}
+
+export interface CancelProposalOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class CancelProposalUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: CancelProposalInput): Promise<CancelProposalOutput> {
+    requireIndex(input.proposalId, 'proposalId');
+
+    await requireConnectedAddress(this.blockchainService, 'cancel a proposal');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.cancelProposal(input.proposalId),
+      'cancelProposal'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
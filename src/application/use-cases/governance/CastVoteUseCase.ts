@@ -0,0 +1,57 @@
+/**
+ * Cast Vote Use Case - Application Layer
+ * Votes on a governance proposal with the connected wallet's token balance
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { ValidationError } from '@/src/domain/errors';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export const VOTE_AGAINST = 0;
+export const VOTE_FOR = 1;
+export const VOTE_ABSTAIN = 2;
+
+const FULL_RELEASE_BPS = BigInt(10000);
+
+export interface CastVoteInput {
+  proposalId: number;
+  /** 0 against, 1 for, 2 abstain */
+  support: number;
+  /** Share of a milestone tranche a for vote approves, in basis points (defaults to all of it) */
+  releaseBps?: bigint;
+}
+
+export interface CastVoteOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class CastVoteUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: CastVoteInput): Promise<CastVoteOutput> {
+    const { proposalId, support, releaseBps } = input;
+    requireIndex(proposalId, 'proposalId');
+
+    if (support !== VOTE_AGAINST && support !== VOTE_FOR && support !== VOTE_ABSTAIN) {
+      throw new ValidationError('support', 'must be 0 (against), 1 (for) or 2 (abstain)');
+    }
+    if (releaseBps !== undefined) {
+      if (support !== VOTE_FOR) {
+        throw new ValidationError('releaseBps', 'only applies to a for vote');
+      }
+      if (releaseBps <= BigInt(0) || releaseBps > FULL_RELEASE_BPS) {
+        throw new ValidationError('releaseBps', 'must be between 1 and 10000');
+      }
+    }
+
+    await requireConnectedAddress(this.blockchainService, 'vote');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.castVote(proposalId, support, releaseBps),
+      'castVote'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
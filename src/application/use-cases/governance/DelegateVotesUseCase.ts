@@ -0,0 +1,36 @@
+/**
+ * Delegate Votes Use Case - Application Layer
+ * Hands the connected holder's voting power on a project to another address
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireAddress, requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface DelegateVotesInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  /** Address that votes with the holder's tokens; the holder's own address takes them back */
+  delegatee: string;
+}
+
+export interface DelegateVotesOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class DelegateVotesUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: DelegateVotesInput): Promise<DelegateVotesOutput> {
+    requireAddress(input.delegatee, 'delegatee');
+
+    await requireConnectedAddress(this.blockchainService, 'delegate votes');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.delegateVotes(input.projectAddress, input.delegatee),
+      'delegateVotes'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Execute Proposal Use Case - Application Layer
+ * Settles a proposal once voting has ended, applying its outcome on the escrow
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface ExecuteProposalInput {
+  proposalId: number;
+}
+
+export interface ExecuteProposalOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class ExecuteProposalUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ExecuteProposalInput): Promise<ExecuteProposalOutput> {
+    requireIndex(input.proposalId, 'proposalId');
+
+    await requireConnectedAddress(this.blockchainService, 'execute a proposal');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.executeProposal(input.proposalId),
+      'executeProposal'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
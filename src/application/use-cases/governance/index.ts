@@ -0,0 +1,15 @@
+/**
+ * Governance Use Cases - Public API
+ */
+
+export { CastVoteUseCase, VOTE_AGAINST, VOTE_FOR, VOTE_ABSTAIN } from './CastVoteUseCase';
+export type { CastVoteInput, CastVoteOutput } from './CastVoteUseCase';
+
+export { ExecuteProposalUseCase } from './ExecuteProposalUseCase';
+export type { ExecuteProposalInput, ExecuteProposalOutput } from './ExecuteProposalUseCase';
+
+export { CancelProposalUseCase } from './CancelProposalUseCase';
+export type { CancelProposalInput, CancelProposalOutput } from './CancelProposalUseCase';
+
+export { DelegateVotesUseCase } from './DelegateVotesUseCase';
+export type { DelegateVotesInput, DelegateVotesOutput } from './DelegateVotesUseCase';
@@ -0,0 +1,44 @@
+/**
+ * Use Case Helpers - Application Layer
+ * Shared checks for use cases that submit transactions from the connected wallet
+ */
+
+import { IBlockchainService, TransactionResult } from '@/src/application/ports/services';
+import { TransactionFailedError, UnauthorizedError, ValidationError } from '@/src/domain/errors';
+import { Address } from '@/src/domain/value-objects';
+
+/**
+ * Address of the wallet that will sign the transaction
+ */
+export async function requireConnectedAddress(blockchainService: IBlockchainService, action: string): Promise<string> {
+  const address = await blockchainService.getConnectedAddress();
+  if (!address) {
+    throw new UnauthorizedError(action, 'Wallet not connected');
+  }
+  return address;
+}
+
+/**
+ * Surface a reverted or rejected transaction as a TransactionFailedError
+ */
+export function requireSuccess(result: TransactionResult, transactionType: string): TransactionResult {
+  if (!result.success) {
+    throw new TransactionFailedError(transactionType, result.error);
+  }
+  return result;
+}
+
+export function requireAddress(value: string, field: string): void {
+  if (!Address.isValid(value)) {
+    throw new ValidationError(field, 'must be a valid address');
+  }
+  if (Address.create(value).isZero()) {
+    throw new ValidationError(field, 'must not be the zero address');
+  }
+}
+
+export function requireIndex(value: number, field: string): void {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new ValidationError(field, 'must be a non-negative integer');
+  }
+}
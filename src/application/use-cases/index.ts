@@ -3,3 +3,7 @@
  */
 
 export * from './crowdfunding';
+export * from './milestones';
+export * from './governance';
+export * from './dividends';
+export * from './compliance';
@@ -0,0 +1,35 @@
+/**
+ * Release Milestone Funds Use Case - Application Layer
+ * Pays an approved milestone's tranche, less the platform fee, to the creator
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface ReleaseMilestoneFundsInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  milestoneIndex: number;
+}
+
+export interface ReleaseMilestoneFundsOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class ReleaseMilestoneFundsUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: ReleaseMilestoneFundsInput): Promise<ReleaseMilestoneFundsOutput> {
+    requireIndex(input.milestoneIndex, 'milestoneIndex');
+
+    await requireConnectedAddress(this.blockchainService, 'release milestone funds');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.releaseMilestoneFunds(input.projectAddress, input.milestoneIndex),
+      'releaseMilestoneFunds'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Set Auto Release Use Case - Application Layer
+ * Lets the creator have approved tranches released as soon as their vote is executed
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireSuccess } from '../helpers';
+
+export interface SetAutoReleaseInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  enabled: boolean;
+}
+
+export interface SetAutoReleaseOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class SetAutoReleaseUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: SetAutoReleaseInput): Promise<SetAutoReleaseOutput> {
+    await requireConnectedAddress(this.blockchainService, 'change auto-release');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.setAutoRelease(input.projectAddress, input.enabled),
+      'setAutoRelease'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Submit Milestone Use Case - Application Layer
+ * Submits a milestone for investor approval, opening its governance vote
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { ValidationError } from '@/src/domain/errors';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface SubmitMilestoneInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  milestoneIndex: number;
+  /** Content hash of the stored evidence bundle */
+  evidenceHash: string;
+}
+
+export interface SubmitMilestoneOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class SubmitMilestoneUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: SubmitMilestoneInput): Promise<SubmitMilestoneOutput> {
+    requireIndex(input.milestoneIndex, 'milestoneIndex');
+    if (!/^0x[0-9a-fA-F]{64}$/.test(input.evidenceHash)) {
+      throw new ValidationError('evidenceHash', 'must be a 32-byte hex hash');
+    }
+
+    await requireConnectedAddress(this.blockchainService, 'submit a milestone');
+
+    const txResult = requireSuccess(
+      await this.blockchainService.submitMilestone(input.projectAddress, input.milestoneIndex, input.evidenceHash),
+      'submitMilestone'
+    );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
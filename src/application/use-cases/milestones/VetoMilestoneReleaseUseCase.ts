@@ -0,0 +1,44 @@
+/**
+ * Veto Milestone Release Use Case - Application Layer
+ * The platform guardian vetoes an approved release outright; a token holder signals
+ * towards the holder veto, which blocks the release once enough supply has signalled
+ */
+
+import { IBlockchainService } from '@/src/application/ports/services';
+import { requireConnectedAddress, requireIndex, requireSuccess } from '../helpers';
+
+export interface VetoMilestoneReleaseInput {
+  /** Equity token identifying the project */
+  projectAddress: string;
+  milestoneIndex: number;
+  /** Veto as the platform guardian rather than signal as a token holder */
+  asGuardian: boolean;
+}
+
+export interface VetoMilestoneReleaseOutput {
+  success: boolean;
+  transactionHash: string;
+}
+
+export class VetoMilestoneReleaseUseCase {
+  constructor(private readonly blockchainService: IBlockchainService) {}
+
+  async execute(input: VetoMilestoneReleaseInput): Promise<VetoMilestoneReleaseOutput> {
+    const { projectAddress, milestoneIndex, asGuardian } = input;
+    requireIndex(milestoneIndex, 'milestoneIndex');
+
+    await requireConnectedAddress(this.blockchainService, 'veto a milestone release');
+
+    const txResult = asGuardian
+      ? requireSuccess(
+          await this.blockchainService.vetoMilestoneRelease(projectAddress, milestoneIndex),
+          'vetoMilestoneRelease'
+        )
+      : requireSuccess(
+          await this.blockchainService.signalReleaseVeto(projectAddress, milestoneIndex),
+          'signalReleaseVeto'
+        );
+
+    return { success: true, transactionHash: txResult.transactionHash };
+  }
+}
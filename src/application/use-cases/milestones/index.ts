@@ -0,0 +1,15 @@
+/**
+ * Milestone Use Cases - Public API
+ */
+
+export { SubmitMilestoneUseCase } from './SubmitMilestoneUseCase';
+export type { SubmitMilestoneInput, SubmitMilestoneOutput } from './SubmitMilestoneUseCase';
+
+export { ReleaseMilestoneFundsUseCase } from './ReleaseMilestoneFundsUseCase';
+export type { ReleaseMilestoneFundsInput, ReleaseMilestoneFundsOutput } from './ReleaseMilestoneFundsUseCase';
+
+export { SetAutoReleaseUseCase } from './SetAutoReleaseUseCase';
+export type { SetAutoReleaseInput, SetAutoReleaseOutput } from './SetAutoReleaseUseCase';
+
+export { VetoMilestoneReleaseUseCase } from './VetoMilestoneReleaseUseCase';
+export type { VetoMilestoneReleaseInput, VetoMilestoneReleaseOutput } from './VetoMilestoneReleaseUseCase';
@@ -6,8 +6,12 @@
 import { Money } from '../value-objects/Money';
 import { Address } from '../value-objects/Address';
 
+/** Investor classification attested in the on-chain InvestorRegistry */
+export type InvestorTier = 'retail' | 'professional';
+
 export interface UserProps {
   address: Address;
+  investorTier: InvestorTier;
   totalInvested: Money;
   investmentCount: number;
   tokenHoldingsCount: number;
@@ -27,6 +31,7 @@ export class User {
     const now = new Date();
     return new User({
       address,
+      investorTier: 'retail',
       totalInvested: Money.zero('USDC'),
       investmentCount: 0,
       tokenHoldingsCount: 0,
@@ -41,6 +46,10 @@ export class User {
     return this.props.address;
   }
 
+  get investorTier(): InvestorTier {
+    return this.props.investorTier;
+  }
+
   get totalInvested(): Money {
     return this.props.totalInvested;
   }
@@ -66,6 +75,15 @@ export class User {
   }
 
   // Business logic
+  isProfessional(): boolean {
+    return this.props.investorTier === 'professional';
+  }
+
+  /** Professional investors have no annual limit (KR_CROWDFUNDING_RULES.PROFESSIONAL_LIMIT) */
+  hasAnnualLimit(): boolean {
+    return !this.isProfessional();
+  }
+
   getRemainingAnnualLimit(maxLimit: Money): Money {
     if (this.props.annualInvestmentTotal.gte(maxLimit)) {
       return Money.zero(maxLimit.getCurrency());
@@ -74,11 +92,13 @@ export class User {
   }
 
   canInvest(amount: Money, maxLimit: Money): boolean {
+    if (!this.hasAnnualLimit()) return true;
     const remaining = this.getRemainingAnnualLimit(maxLimit);
     return amount.lte(remaining);
   }
 
   getAnnualLimitUsagePercentage(maxLimit: Money): number {
+    if (!this.hasAnnualLimit()) return 0;
     const maxAmount = maxLimit.toNumber();
     if (maxAmount === 0) return 0;
     return Math.min(100, (this.props.annualInvestmentTotal.toNumber() / maxAmount) * 100);
@@ -14,4 +14,4 @@ export { Investment } from './Investment';
 export type { InvestmentProps, InvestmentStatus } from './Investment';
 
 export { User } from './User';
-export type { UserProps } from './User';
+export type { UserProps, InvestorTier } from './User';
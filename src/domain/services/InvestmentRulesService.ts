@@ -23,6 +23,10 @@ export class InvestmentRulesService {
   static readonly ANNUAL_LIMIT_USDC = 500; // ~50M KRW
   static readonly MIN_INVESTMENT_USDC = 10;
   static readonly PLATFORM_FEE_PERCENTAGE = 2;
+  static readonly PLATFORM_FEE_BPS = 200; // Matches MilestoneEscrow.PLATFORM_FEE_BPS
+  static readonly BPS_DENOMINATOR = 10000;
+  static readonly LIMIT_WARNING_THRESHOLD_USDC = 50;
+  static readonly LARGE_INVESTMENT_USDC = 100;
   static readonly FUNDING_PERIOD_MIN_DAYS = 7;
   static readonly FUNDING_PERIOD_MAX_DAYS = 60;
 
@@ -86,7 +90,7 @@ export class InvestmentRulesService {
       return {
         eligible: false,
         reason: `Minimum investment is ${minInvestment.toDisplay()}`,
-        remainingLimit: limits.annualLimit.subtract(previousAnnualTotal),
+        remainingLimit: limits.annualLimit.subtractOrZero(previousAnnualTotal),
         warnings: [],
       };
     }
@@ -94,7 +98,7 @@ export class InvestmentRulesService {
     // Check annual limit
     const newTotal = previousAnnualTotal.add(amount);
     if (newTotal.gt(limits.annualLimit)) {
-      const remaining = limits.annualLimit.subtract(previousAnnualTotal);
+      const remaining = limits.annualLimit.subtractOrZero(previousAnnualTotal);
       return {
         eligible: false,
         reason: `This investment would exceed your annual limit. Remaining: ${remaining.toDisplay()}`,
@@ -105,11 +109,11 @@ export class InvestmentRulesService {
 
     // Add warnings based on investment size
     const remainingAfter = limits.annualLimit.subtract(newTotal);
-    if (remainingAfter.toNumber() < 50) {
+    if (remainingAfter.lt(Money.fromUSDC(this.LIMIT_WARNING_THRESHOLD_USDC))) {
       warnings.push('You are approaching your annual investment limit.');
     }
 
-    if (amount.toNumber() >= 100) {
+    if (amount.gte(Money.fromUSDC(this.LARGE_INVESTMENT_USDC))) {
       warnings.push(this.RISK_WARNINGS.PRINCIPAL_LOSS);
     }
 
@@ -121,10 +125,10 @@ export class InvestmentRulesService {
   }
 
   /**
-   * Calculate platform fee for an investment
+   * Calculate platform fee for an investment (rounded down, as on-chain)
    */
   static calculatePlatformFee(amount: Money): Money {
-    return amount.percentage(this.PLATFORM_FEE_PERCENTAGE);
+    return amount.multiplyBps(this.PLATFORM_FEE_BPS);
   }
 
   /**
@@ -139,9 +143,9 @@ export class InvestmentRulesService {
    * Calculate net amount after fee deduction
    */
   static calculateNetAmount(totalAmount: Money): Money {
-    const feeRate = this.PLATFORM_FEE_PERCENTAGE / 100;
-    const netAmount = totalAmount.toNumber() / (1 + feeRate);
-    return Money.fromUSDC(netAmount);
+    // Split total into net : fee = 100% : fee%, so net + fee always equals total
+    const [netAmount] = totalAmount.allocate([this.BPS_DENOMINATOR, this.PLATFORM_FEE_BPS]);
+    return netAmount;
   }
 
   /**
@@ -176,10 +180,6 @@ export class InvestmentRulesService {
    * Calculate remaining annual limit
    */
   static calculateRemainingLimit(usedAmount: Money): Money {
-    const limit = Money.fromUSDC(this.ANNUAL_LIMIT_USDC);
-    if (usedAmount.gte(limit)) {
-      return Money.zero('USDC');
-    }
-    return limit.subtract(usedAmount);
+    return Money.fromUSDC(this.ANNUAL_LIMIT_USDC).subtractOrZero(usedAmount);
   }
 }
@@ -1,47 +1,75 @@
 /**
  * Money Value Object - Domain Layer
- * Immutable representation of monetary values with currency support
+ * Immutable representation of monetary values with currency support.
+ * Amounts are held as bigint base units (wei, USDC micro-units) so arithmetic is exact.
  */
 
 export type Currency = 'USDC' | 'ETH' | 'MNT';
 
+const DEFAULT_DECIMALS: Record<Currency, number> = {
+  USDC: 6,
+  ETH: 18,
+  MNT: 18,
+};
+
+const ZERO = BigInt(0);
+const TEN = BigInt(10);
+const BPS_DENOMINATOR = 10000;
+
 export class Money {
   private constructor(
-    private readonly amount: number,
-    private readonly currency: Currency = 'USDC',
-    private readonly decimals: number = 6
+    private readonly units: bigint,
+    private readonly currency: Currency,
+    private readonly decimals: number
   ) {
-    if (amount < 0) {
+    if (units < ZERO) {
       throw new Error('Money amount cannot be negative');
     }
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 36) {
+      throw new Error(`Invalid decimals: ${decimals}`);
+    }
   }
 
   // Factory methods
-  static fromUSDC(amount: number): Money {
-    return new Money(amount, 'USDC', 6);
+  static fromUnits(units: bigint, currency: Currency, decimals: number = DEFAULT_DECIMALS[currency]): Money {
+    return new Money(units, currency, decimals);
+  }
+
+  /**
+   * Parse a decimal amount (e.g. "12.5") exactly
+   * Throws if it has more fractional digits than the currency supports.
+   */
+  static fromDecimal(
+    amount: string | number,
+    currency: Currency,
+    decimals: number = DEFAULT_DECIMALS[currency]
+  ): Money {
+    return new Money(Money.parseUnits(amount, decimals), currency, decimals);
+  }
+
+  static fromUSDC(amount: string | number): Money {
+    return Money.fromDecimal(amount, 'USDC');
   }
 
-  static fromETH(amount: number): Money {
-    return new Money(amount, 'ETH', 18);
+  static fromETH(amount: string | number): Money {
+    return Money.fromDecimal(amount, 'ETH');
   }
 
-  static fromMNT(amount: number): Money {
-    return new Money(amount, 'MNT', 18);
+  static fromMNT(amount: string | number): Money {
+    return Money.fromDecimal(amount, 'MNT');
   }
 
-  static fromWei(wei: bigint, currency: Currency = 'ETH'): Money {
-    const decimals = currency === 'USDC' ? 6 : 18;
-    const amount = Number(wei) / Math.pow(10, decimals);
-    return new Money(amount, currency, decimals);
+  static fromWei(wei: bigint, currency: Currency = 'ETH', decimals: number = DEFAULT_DECIMALS[currency]): Money {
+    return new Money(wei, currency, decimals);
   }
 
-  static zero(currency: Currency = 'USDC'): Money {
-    return new Money(0, currency, currency === 'USDC' ? 6 : 18);
+  static zero(currency: Currency = 'USDC', decimals: number = DEFAULT_DECIMALS[currency]): Money {
+    return new Money(ZERO, currency, decimals);
   }
 
   // Getters
   getAmount(): number {
-    return this.amount;
+    return this.toNumber();
   }
 
   getCurrency(): Currency {
@@ -55,68 +83,150 @@ export class Money {
   // Arithmetic operations (immutable - returns new Money)
   add(other: Money): Money {
     this.assertSameCurrency(other);
-    return new Money(this.amount + other.amount, this.currency, this.decimals);
+    return this.withUnits(this.units + other.units);
   }
 
   subtract(other: Money): Money {
     this.assertSameCurrency(other);
-    const result = this.amount - other.amount;
-    if (result < 0) {
+    const result = this.units - other.units;
+    if (result < ZERO) {
       throw new Error('Subtraction would result in negative amount');
     }
-    return new Money(result, this.currency, this.decimals);
+    return this.withUnits(result);
   }
 
-  multiply(factor: number): Money {
-    if (factor < 0) {
-      throw new Error('Multiplication factor cannot be negative');
-    }
-    return new Money(this.amount * factor, this.currency, this.decimals);
+  /**
+   * Subtract, stopping at zero instead of throwing
+   */
+  subtractOrZero(other: Money): Money {
+    return this.gt(other) ? this.subtract(other) : this.withUnits(ZERO);
+  }
+
+  multiply(factor: number | bigint): Money {
+    const multiplier = Money.toBigIntFactor(factor, 'Multiplication factor');
+    return this.withUnits(this.units * multiplier);
   }
 
+  /**
+   * Multiply by basis points, rounding down like the contracts do
+   */
+  multiplyBps(bps: number | bigint): Money {
+    const multiplier = Money.toBigIntFactor(bps, 'Basis points');
+    return this.withUnits((this.units * multiplier) / BigInt(BPS_DENOMINATOR));
+  }
+
+  /**
+   * Percentage with up to two decimal places (2.5 = 250 bps)
+   */
   percentage(percent: number): Money {
-    return this.multiply(percent / 100);
+    const bps = Math.round(percent * 100);
+    if (Math.abs(bps - percent * 100) > 1e-9) {
+      throw new Error('Percentage supports at most two decimal places');
+    }
+    return this.multiplyBps(bps);
+  }
+
+  /**
+   * Split into parts proportional to the given ratios without losing any units.
+   * Rounding leftovers go one unit at a time to the earliest parts.
+   */
+  allocate(ratios: (number | bigint)[]): Money[] {
+    if (ratios.length === 0) {
+      throw new Error('At least one ratio is required');
+    }
+
+    const weights = ratios.map((ratio) => Money.toBigIntFactor(ratio, 'Ratio'));
+    const total = weights.reduce((sum, weight) => sum + weight, ZERO);
+    if (total === ZERO) {
+      throw new Error('Ratios must not all be zero');
+    }
+
+    const shares = weights.map((weight) => (this.units * weight) / total);
+    let remainder = this.units - shares.reduce((sum, share) => sum + share, ZERO);
+    for (let i = 0; remainder > ZERO; i++) {
+      // Only parts with a non-zero ratio receive leftovers
+      if (weights[i] > ZERO) {
+        shares[i] += BigInt(1);
+        remainder -= BigInt(1);
+      }
+    }
+
+    return shares.map((share) => this.withUnits(share));
+  }
+
+  /**
+   * Re-express in another number of decimals, rounding down when precision is dropped
+   * (e.g. an 18-decimal stablecoin amount compared against 6-decimal USDC limits)
+   */
+  withDecimals(decimals: number): Money {
+    if (decimals >= this.decimals) {
+      return new Money(this.units * TEN ** BigInt(decimals - this.decimals), this.currency, decimals);
+    }
+    return new Money(this.units / TEN ** BigInt(this.decimals - decimals), this.currency, decimals);
   }
 
   // Comparison operations
   equals(other: Money): boolean {
     return (
       this.currency === other.currency &&
-      Math.abs(this.amount - other.amount) < Number.EPSILON
+      this.decimals === other.decimals &&
+      this.units === other.units
     );
   }
 
   gt(other: Money): boolean {
     this.assertSameCurrency(other);
-    return this.amount > other.amount;
+    return this.units > other.units;
   }
 
   gte(other: Money): boolean {
     this.assertSameCurrency(other);
-    return this.amount >= other.amount;
+    return this.units >= other.units;
   }
 
   lt(other: Money): boolean {
     this.assertSameCurrency(other);
-    return this.amount < other.amount;
+    return this.units < other.units;
   }
 
   lte(other: Money): boolean {
     this.assertSameCurrency(other);
-    return this.amount <= other.amount;
+    return this.units <= other.units;
+  }
+
+  isZero(): boolean {
+    return this.units === ZERO;
   }
 
   // Conversion methods
+
+  /**
+   * Approximate decimal value, for display and ratios only
+   */
   toNumber(): number {
-    return this.amount;
+    return Number(this.toDecimalString());
+  }
+
+  toUnits(): bigint {
+    return this.units;
   }
 
   toWei(): bigint {
-    return BigInt(Math.floor(this.amount * Math.pow(10, this.decimals)));
+    return this.units;
+  }
+
+  /**
+   * Exact decimal representation without trailing zeros (e.g. "12.5")
+   */
+  toDecimalString(): string {
+    const base = TEN ** BigInt(this.decimals);
+    const whole = (this.units / base).toString();
+    const fraction = (this.units % base).toString().padStart(this.decimals, '0').replace(/0+$/, '');
+    return fraction ? `${whole}.${fraction}` : whole;
   }
 
   toDisplay(locale: string = 'en-US'): string {
-    return `${this.amount.toLocaleString(locale, {
+    return `${this.toNumber().toLocaleString(locale, {
       minimumFractionDigits: 0,
       maximumFractionDigits: 2,
     })} ${this.currency}`;
@@ -127,11 +237,71 @@ export class Money {
   }
 
   // Private helpers
+  private withUnits(units: bigint): Money {
+    return new Money(units, this.currency, this.decimals);
+  }
+
   private assertSameCurrency(other: Money): void {
     if (this.currency !== other.currency) {
       throw new Error(
         `Cannot operate on different currencies: ${this.currency} and ${other.currency}`
       );
     }
+    if (this.decimals !== other.decimals) {
+      throw new Error(
+        `Cannot operate on ${this.currency} amounts with different decimals: ${this.decimals} and ${other.decimals}`
+      );
+    }
+  }
+
+  private static toBigIntFactor(value: number | bigint, label: string): bigint {
+    if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+      throw new Error(`${label} must be an integer`);
+    }
+    const factor = BigInt(value);
+    if (factor < ZERO) {
+      throw new Error(`${label} cannot be negative`);
+    }
+    return factor;
+  }
+
+  /**
+   * Rewrite a number's exponent form (e.g. "1.5e-7") as the same digits in positional form
+   */
+  private static expandExponent(text: string): string {
+    const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/i.exec(text);
+    if (!match) return text;
+
+    const [, sign, whole, fraction = '', exponent] = match;
+    const digits = whole + fraction;
+    const point = whole.length + Number(exponent);
+
+    if (point <= 0) return `${sign}0.${'0'.repeat(-point)}${digits}`;
+    if (point >= digits.length) return `${sign}${digits}${'0'.repeat(point - digits.length)}`;
+    return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+
+  private static parseUnits(amount: string | number, decimals: number): bigint {
+    if (typeof amount === 'number' && !Number.isFinite(amount)) {
+      throw new Error(`Invalid money amount: ${amount}`);
+    }
+
+    // Numbers print in exponent form outside 1e-7..1e21; expand them digit for digit
+    const text = typeof amount === 'number' ? Money.expandExponent(String(amount)) : amount.trim();
+
+    const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (match[2] === '' && (match[3] ?? '') === '')) {
+      throw new Error(`Invalid money amount: ${amount}`);
+    }
+    if (match[1]) {
+      throw new Error('Money amount cannot be negative');
+    }
+
+    const fraction = (match[3] ?? '').replace(/0+$/, '');
+    if (fraction.length > decimals) {
+      throw new Error(`Money amount ${amount} has more than ${decimals} decimal places`);
+    }
+
+    return BigInt(match[2] || '0') * TEN ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
   }
 }
@@ -4,5 +4,5 @@
  */
 
 export { client } from '@/lib/thirdweb/client';
-export { mantleSepolia, mantleMainnet } from '@/lib/thirdweb/chains';
+export { mantleSepolia, mantleMainnet, hardhatLocal } from '@/lib/thirdweb/chains';
 export { wallets } from '@/lib/thirdweb/wallets';
@@ -97,6 +97,18 @@ export class EquityTokenContract {
     });
   }
 
+  /**
+   * Get the MilestoneEscrow campaign that deployed this token
+   */
+  async getCampaignId(): Promise<number> {
+    const campaignId = await readContract({
+      contract: this.contract,
+      method: 'function campaignId() view returns (uint256)',
+      params: [],
+    });
+    return Number(campaignId);
+  }
+
   /**
    * Get the active claim condition
    */
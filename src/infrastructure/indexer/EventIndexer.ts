@@ -0,0 +1,332 @@
+/**
+ * Event Indexer - Infrastructure Layer
+ * Consumes MilestoneEscrow and GovernanceV2 events into the IndexerStore so pages
+ * can list campaigns without one RPC read per campaign (and per investor).
+ * Delegation events are read from each campaign's EquityToken as well.
+ */
+
+import { Contract, Interface, ZeroAddress, ZeroHash, type Log, type LogDescription, type Provider } from 'ethers';
+import { EQUITY_TOKEN_ABI, MILESTONE_ESCROW_ABI, GOVERNANCE_V2_ABI } from '../../../lib/contracts/abis';
+import type { IndexerStore } from './IndexerStore';
+
+const escrowInterface = new Interface(MILESTONE_ESCROW_ABI);
+const governanceInterface = new Interface(GOVERNANCE_V2_ABI);
+const tokenInterface = new Interface(EQUITY_TOKEN_ABI);
+
+export interface EventIndexerConfig {
+  provider: Provider;
+  store: IndexerStore;
+  escrowAddress: string;
+  governanceAddress: string;
+  /** First block to scan when the store is empty (usually the escrow deployment block) */
+  startBlock?: number;
+  /** Maximum block range per eth_getLogs request */
+  batchSize?: number;
+  /** Blocks to stay behind the head to avoid indexing reorged logs */
+  confirmations?: number;
+}
+
+interface DecodedEvent {
+  source: 'escrow' | 'governance' | 'token';
+  event: LogDescription;
+  log: Log;
+  /** Campaign of the equity token that emitted a token event */
+  campaignId?: number;
+}
+
+/**
+ * Fields not carried by CampaignCreated, read once per new campaign
+ */
+interface CampaignExtras {
+  founderShareBps: bigint;
+  paymentToken: string;
+  metadataHash: string;
+}
+
+export class EventIndexer {
+  private config: Required<EventIndexerConfig>;
+  private escrow: Contract;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: EventIndexerConfig) {
+    this.config = {
+      startBlock: 0,
+      batchSize: 2000,
+      confirmations: 0,
+      ...config,
+    };
+    this.escrow = new Contract(config.escrowAddress, escrowInterface, config.provider);
+  }
+
+  /**
+   * Index all blocks up to the confirmed head
+   * @returns The last indexed block number
+   */
+  async sync(): Promise<number> {
+    const { provider, store, batchSize, confirmations, startBlock } = this.config;
+
+    const head = (await provider.getBlockNumber()) - confirmations;
+    const lastIndexed = store.getLastIndexedBlock();
+    let fromBlock = lastIndexed === null ? startBlock : lastIndexed + 1;
+
+    while (fromBlock <= head) {
+      const toBlock = Math.min(fromBlock + batchSize - 1, head);
+      const events = await this.fetchEvents(fromBlock, toBlock);
+      const extras = await this.fetchCampaignExtras(events);
+
+      // Apply the whole range and advance the cursor atomically
+      store.transaction(() => {
+        for (const decoded of events) {
+          this.apply(decoded, extras);
+        }
+        store.setLastIndexedBlock(toBlock);
+      });
+
+      fromBlock = toBlock + 1;
+    }
+
+    return store.getLastIndexedBlock() ?? startBlock - 1;
+  }
+
+  /**
+   * Poll for new blocks until stop() is called
+   */
+  start(pollIntervalMs = 5000, onError: (error: unknown) => void = console.error): void {
+    const poll = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError(error);
+      }
+      if (this.timer !== null) {
+        this.timer = setTimeout(poll, pollIntervalMs);
+      }
+    };
+
+    this.timer = setTimeout(poll, 0);
+  }
+
+  stop(): void {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // ============ Internal ============
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<DecodedEvent[]> {
+    const { provider, store, escrowAddress, governanceAddress } = this.config;
+
+    const logs = await provider.getLogs({
+      address: [escrowAddress, governanceAddress],
+      fromBlock,
+      toBlock,
+    });
+
+    const decoded: DecodedEvent[] = [];
+    for (const log of logs) {
+      const isEscrow = log.address.toLowerCase() === escrowAddress.toLowerCase();
+      const iface = isEscrow ? escrowInterface : governanceInterface;
+      const event = iface.parseLog({ topics: [...log.topics], data: log.data });
+      if (event) {
+        decoded.push({ source: isEscrow ? 'escrow' : 'governance', event, log });
+      }
+    }
+
+    // Include tokens deployed within this range so their first delegations are not missed
+    const tokens = store.getCampaignsByEquityToken();
+    for (const { source, event } of decoded) {
+      if (source === 'escrow' && event.name === 'CampaignCreated') {
+        tokens.set(String(event.args.equityToken).toLowerCase(), Number(event.args.campaignId));
+      }
+    }
+
+    if (tokens.size > 0) {
+      const tokenLogs = await provider.getLogs({ address: [...tokens.keys()], fromBlock, toBlock });
+      for (const log of tokenLogs) {
+        const event = tokenInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (event) {
+          decoded.push({ source: 'token', event, log, campaignId: tokens.get(log.address.toLowerCase()) });
+        }
+      }
+    }
+
+    return decoded.sort((a, b) => a.log.blockNumber - b.log.blockNumber || a.log.index - b.log.index);
+  }
+
+  private async fetchCampaignExtras(events: DecodedEvent[]): Promise<Map<number, CampaignExtras>> {
+    const extras = new Map<number, CampaignExtras>();
+
+    for (const { source, event } of events) {
+      if (source !== 'escrow' || event.name !== 'CampaignCreated') continue;
+
+      const campaignId = Number(event.args.campaignId);
+      const campaign = await this.escrow.getCampaign(campaignId);
+      extras.set(campaignId, {
+        founderShareBps: campaign.founderShareBps,
+        paymentToken: campaign.paymentToken,
+        metadataHash: campaign.metadataHash,
+      });
+    }
+
+    return extras;
+  }
+
+  private apply({ source, event, log, campaignId }: DecodedEvent, extras: Map<number, CampaignExtras>): void {
+    if (source === 'escrow') {
+      this.applyEscrowEvent(event, extras);
+    } else if (source === 'governance') {
+      this.applyGovernanceEvent(event, log);
+    } else if (campaignId !== undefined) {
+      this.applyTokenEvent(campaignId, event, log);
+    }
+  }
+
+  private applyEscrowEvent(event: LogDescription, extras: Map<number, CampaignExtras>): void {
+    const { store } = this.config;
+    const args = event.args;
+
+    switch (event.name) {
+      case 'CampaignCreated': {
+        const id = Number(args.campaignId);
+        const extra = extras.get(id);
+        store.insertCampaign({
+          id,
+          creator: args.creator,
+          goal: args.goal,
+          pledged: BigInt(0),
+          startAt: args.startAt,
+          endAt: args.endAt,
+          claimed: false,
+          equityToken: args.equityToken,
+          name: args.name,
+          tokenSymbol: args.tokenSymbol,
+          founderShareBps: extra?.founderShareBps ?? BigInt(0),
+          founderTokensClaimed: false,
+          milestoneCount: args.milestoneCount,
+          releasedAmount: BigInt(0),
+          hasMilestones: args.hasMilestones,
+          paymentToken: extra?.paymentToken ?? ZeroAddress,
+          metadataHash: extra?.metadataHash ?? ZeroHash,
+        });
+        break;
+      }
+      case 'MilestoneCreated':
+        store.insertMilestone({
+          campaignId: Number(args.campaignId),
+          index: Number(args.milestoneIndex),
+          title: args.title,
+          percentage: args.percentage,
+          deadline: args.deadline,
+          status: 0,
+          proposalId: BigInt(0),
+          evidenceHash: ZeroHash,
+        });
+        break;
+      case 'Pledged':
+        store.setCampaignPledged(Number(args.campaignId), args.totalPledged);
+        store.adjustPledge(Number(args.campaignId), args.investor, args.amount);
+        break;
+      case 'Unpledged':
+        store.setCampaignPledged(Number(args.campaignId), args.totalPledged);
+        store.adjustPledge(Number(args.campaignId), args.investor, -BigInt(args.amount));
+        break;
+      case 'Refunded':
+        // Both refund paths clear the whole pledge, even when the payout is pro-rata
+        store.clearPledge(Number(args.campaignId), args.investor);
+        break;
+      case 'TokensClaimed':
+        store.setTokensClaimed(Number(args.campaignId), args.investor);
+        break;
+      case 'FounderTokensClaimed':
+        store.setFounderTokensClaimed(Number(args.campaignId));
+        break;
+      case 'MilestoneSubmitted':
+        store.setMilestoneProposal(Number(args.campaignId), Number(args.milestoneIndex), args.proposalId);
+        store.setMilestoneEvidence(Number(args.campaignId), Number(args.milestoneIndex), args.evidenceHash);
+        break;
+      case 'MilestoneStatusChanged':
+        store.setMilestoneStatus(Number(args.campaignId), Number(args.milestoneIndex), Number(args.newStatus));
+        // A canceled submission returns the milestone to Pending without a proposal
+        if (Number(args.newStatus) === 0) {
+          store.setMilestoneProposal(Number(args.campaignId), Number(args.milestoneIndex), BigInt(0));
+        }
+        break;
+      case 'MilestoneAmended':
+        store.setMilestoneSchedule(
+          Number(args.campaignId),
+          Number(args.milestoneIndex),
+          args.percentage,
+          args.deadline
+        );
+        break;
+      case 'MilestoneReleaseReduced':
+        // A partial approval lowers the milestone to the share actually released
+        store.setMilestonePercentage(Number(args.campaignId), Number(args.milestoneIndex), args.approvedPercentage);
+        break;
+      case 'MilestoneFundsReleased':
+        store.addReleasedAmount(Number(args.campaignId), args.grossAmount);
+        break;
+    }
+  }
+
+  private applyGovernanceEvent(event: LogDescription, log: Log): void {
+    const { store } = this.config;
+    const args = event.args;
+
+    switch (event.name) {
+      case 'ProposalCreated':
+        store.insertProposal({
+          id: Number(args.proposalId),
+          campaignId: Number(args.campaignId),
+          proposer: args.proposer,
+          title: args.title,
+          proposalType: Number(args.proposalType),
+          milestoneIndex: Number(args.milestoneIndex),
+          startTime: args.startTime,
+          endTime: args.endTime,
+          executed: false,
+          passed: false,
+          canceled: false,
+        });
+        break;
+      case 'Voted':
+        store.insertVote({
+          proposalId: Number(args.proposalId),
+          voter: args.voter,
+          support: Number(args.support),
+          weight: args.weight,
+          blockNumber: log.blockNumber,
+        });
+        break;
+      case 'ProposalExecuted':
+        store.setProposalExecuted(Number(args.proposalId), args.passed);
+        break;
+      case 'ProposalCanceled':
+        store.setProposalCanceled(Number(args.proposalId));
+        break;
+    }
+  }
+
+  private applyTokenEvent(campaignId: number, event: LogDescription, log: Log): void {
+    const { store } = this.config;
+    const args = event.args;
+
+    switch (event.name) {
+      case 'DelegateChanged':
+        store.insertDelegation({
+          campaignId,
+          delegator: args.delegator,
+          fromDelegate: args.fromDelegate,
+          toDelegate: args.toDelegate,
+          blockNumber: log.blockNumber,
+          logIndex: log.index,
+        });
+        break;
+      case 'DelegateVotesChanged':
+        store.setDelegateVotes(campaignId, args.delegate, args.newVotes);
+        break;
+    }
+  }
+}
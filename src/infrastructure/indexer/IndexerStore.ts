@@ -0,0 +1,616 @@
+/**
+ * Indexer Store - Infrastructure Layer
+ * Embedded SQLite store for campaign, pledge, milestone, vote and delegation read models.
+ * Amounts are stored as decimal strings since they exceed SQLite's 64-bit integers;
+ * addresses keep their checksum casing and are matched case-insensitively.
+ * The store is a rebuildable read model: a database written by an older schema is
+ * dropped and re-indexed from the start block rather than migrated column by column.
+ */
+
+import Database from 'better-sqlite3';
+import type {
+  IndexedCampaign,
+  IndexedDelegate,
+  IndexedDelegation,
+  IndexedInvestorCampaign,
+  IndexedMilestone,
+  IndexedProposal,
+  IndexedVote,
+} from './types';
+
+/**
+ * Bump whenever SCHEMA changes; stored in SQLite's user_version pragma
+ */
+const SCHEMA_VERSION = 1;
+
+const TABLES = [
+  'meta',
+  'campaigns',
+  'pledges',
+  'milestones',
+  'proposals',
+  'votes',
+  'delegations',
+  'delegates',
+  'delegate_votes',
+];
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS campaigns (
+    id INTEGER PRIMARY KEY,
+    creator TEXT NOT NULL COLLATE NOCASE,
+    goal TEXT NOT NULL,
+    pledged TEXT NOT NULL DEFAULT '0',
+    start_at INTEGER NOT NULL,
+    end_at INTEGER NOT NULL,
+    claimed INTEGER NOT NULL DEFAULT 0,
+    equity_token TEXT NOT NULL,
+    name TEXT NOT NULL,
+    token_symbol TEXT NOT NULL,
+    founder_share_bps INTEGER NOT NULL,
+    founder_tokens_claimed INTEGER NOT NULL DEFAULT 0,
+    milestone_count INTEGER NOT NULL,
+    released_amount TEXT NOT NULL DEFAULT '0',
+    has_milestones INTEGER NOT NULL,
+    payment_token TEXT NOT NULL,
+    metadata_hash TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS campaigns_creator ON campaigns (creator);
+
+  CREATE TABLE IF NOT EXISTS pledges (
+    campaign_id INTEGER NOT NULL,
+    investor TEXT NOT NULL COLLATE NOCASE,
+    amount TEXT NOT NULL,
+    tokens_claimed INTEGER NOT NULL DEFAULT 0,
+    PRIMARY KEY (campaign_id, investor)
+  );
+  CREATE INDEX IF NOT EXISTS pledges_investor ON pledges (investor);
+
+  CREATE TABLE IF NOT EXISTS milestones (
+    campaign_id INTEGER NOT NULL,
+    milestone_index INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    percentage INTEGER NOT NULL,
+    deadline INTEGER NOT NULL,
+    status INTEGER NOT NULL DEFAULT 0,
+    proposal_id INTEGER NOT NULL DEFAULT 0,
+    evidence_hash TEXT NOT NULL,
+    PRIMARY KEY (campaign_id, milestone_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS proposals (
+    id INTEGER PRIMARY KEY,
+    campaign_id INTEGER NOT NULL,
+    proposer TEXT NOT NULL COLLATE NOCASE,
+    title TEXT NOT NULL,
+    proposal_type INTEGER NOT NULL,
+    milestone_index INTEGER NOT NULL,
+    start_time INTEGER NOT NULL,
+    end_time INTEGER NOT NULL,
+    executed INTEGER NOT NULL DEFAULT 0,
+    passed INTEGER NOT NULL DEFAULT 0,
+    canceled INTEGER NOT NULL DEFAULT 0
+  );
+  CREATE INDEX IF NOT EXISTS proposals_campaign ON proposals (campaign_id);
+
+  CREATE TABLE IF NOT EXISTS votes (
+    proposal_id INTEGER NOT NULL,
+    voter TEXT NOT NULL COLLATE NOCASE,
+    support INTEGER NOT NULL,
+    weight TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (proposal_id, voter)
+  );
+
+  CREATE TABLE IF NOT EXISTS delegations (
+    campaign_id INTEGER NOT NULL,
+    delegator TEXT NOT NULL COLLATE NOCASE,
+    from_delegate TEXT NOT NULL COLLATE NOCASE,
+    to_delegate TEXT NOT NULL COLLATE NOCASE,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    PRIMARY KEY (campaign_id, block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS delegations_delegator ON delegations (campaign_id, delegator);
+
+  CREATE TABLE IF NOT EXISTS delegates (
+    campaign_id INTEGER NOT NULL,
+    delegator TEXT NOT NULL COLLATE NOCASE,
+    delegate TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (campaign_id, delegator)
+  );
+
+  CREATE TABLE IF NOT EXISTS delegate_votes (
+    campaign_id INTEGER NOT NULL,
+    delegate TEXT NOT NULL COLLATE NOCASE,
+    votes TEXT NOT NULL,
+    PRIMARY KEY (campaign_id, delegate)
+  );
+`;
+
+const LAST_BLOCK_KEY = 'lastIndexedBlock';
+
+type Row = Record<string, string | number>;
+
+function toCampaign(row: Row): IndexedCampaign {
+  return {
+    id: Number(row.id),
+    creator: String(row.creator),
+    goal: BigInt(row.goal),
+    pledged: BigInt(row.pledged),
+    startAt: BigInt(row.start_at),
+    endAt: BigInt(row.end_at),
+    claimed: row.claimed === 1,
+    equityToken: String(row.equity_token),
+    name: String(row.name),
+    tokenSymbol: String(row.token_symbol),
+    founderShareBps: BigInt(row.founder_share_bps),
+    founderTokensClaimed: row.founder_tokens_claimed === 1,
+    milestoneCount: BigInt(row.milestone_count),
+    releasedAmount: BigInt(row.released_amount),
+    hasMilestones: row.has_milestones === 1,
+    paymentToken: String(row.payment_token),
+    metadataHash: String(row.metadata_hash),
+  };
+}
+
+function toMilestone(row: Row): IndexedMilestone {
+  return {
+    campaignId: Number(row.campaign_id),
+    index: Number(row.milestone_index),
+    title: String(row.title),
+    percentage: BigInt(row.percentage),
+    deadline: BigInt(row.deadline),
+    status: Number(row.status),
+    proposalId: BigInt(row.proposal_id),
+    evidenceHash: String(row.evidence_hash),
+  };
+}
+
+function toProposal(row: Row): IndexedProposal {
+  return {
+    id: Number(row.id),
+    campaignId: Number(row.campaign_id),
+    proposer: String(row.proposer),
+    title: String(row.title),
+    proposalType: Number(row.proposal_type),
+    milestoneIndex: Number(row.milestone_index),
+    startTime: BigInt(row.start_time),
+    endTime: BigInt(row.end_time),
+    executed: row.executed === 1,
+    passed: row.passed === 1,
+    canceled: row.canceled === 1,
+  };
+}
+
+function toVote(row: Row): IndexedVote {
+  return {
+    proposalId: Number(row.proposal_id),
+    voter: String(row.voter),
+    support: Number(row.support),
+    weight: BigInt(row.weight),
+    blockNumber: Number(row.block_number),
+  };
+}
+
+function toDelegation(row: Row): IndexedDelegation {
+  return {
+    campaignId: Number(row.campaign_id),
+    delegator: String(row.delegator),
+    fromDelegate: String(row.from_delegate),
+    toDelegate: String(row.to_delegate),
+    blockNumber: Number(row.block_number),
+    logIndex: Number(row.log_index),
+  };
+}
+
+export class IndexerStore {
+  private db: Database.Database;
+
+  /**
+   * @param filename SQLite file path, or ':memory:' for an ephemeral store
+   */
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    // WAL lets API routes read while the indexer process writes
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  /**
+   * Create the schema, dropping tables left by an older schema version. Dropping meta
+   * clears the stored cursor, so the indexer re-syncs every event into the new tables.
+   */
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version === SCHEMA_VERSION) return;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Indexer database schema v${version} is newer than supported v${SCHEMA_VERSION}`);
+    }
+
+    this.db.transaction(() => {
+      for (const table of TABLES) {
+        this.db.exec(`DROP TABLE IF EXISTS ${table}`);
+      }
+      this.db.exec(SCHEMA);
+      this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Run several writes atomically (used to apply one block range of events)
+   */
+  transaction(fn: () => void): void {
+    this.db.transaction(fn)();
+  }
+
+  // ============ Sync Cursor ============
+
+  getLastIndexedBlock(): number | null {
+    const row = this.db
+      .prepare('SELECT value FROM meta WHERE key = ?')
+      .get(LAST_BLOCK_KEY) as { value: string } | undefined;
+    return row ? Number(row.value) : null;
+  }
+
+  setLastIndexedBlock(blockNumber: number): void {
+    this.db
+      .prepare(
+        'INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'
+      )
+      .run(LAST_BLOCK_KEY, String(blockNumber));
+  }
+
+  // ============ Campaign Writes ============
+
+  insertCampaign(campaign: IndexedCampaign): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO campaigns (
+          id, creator, goal, pledged, start_at, end_at, claimed, equity_token, name, token_symbol,
+          founder_share_bps, founder_tokens_claimed, milestone_count, released_amount, has_milestones, payment_token,
+          metadata_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        campaign.id,
+        campaign.creator,
+        campaign.goal.toString(),
+        campaign.pledged.toString(),
+        Number(campaign.startAt),
+        Number(campaign.endAt),
+        campaign.claimed ? 1 : 0,
+        campaign.equityToken,
+        campaign.name,
+        campaign.tokenSymbol,
+        Number(campaign.founderShareBps),
+        campaign.founderTokensClaimed ? 1 : 0,
+        Number(campaign.milestoneCount),
+        campaign.releasedAmount.toString(),
+        campaign.hasMilestones ? 1 : 0,
+        campaign.paymentToken,
+        campaign.metadataHash
+      );
+  }
+
+  setCampaignPledged(campaignId: number, totalPledged: bigint): void {
+    this.db
+      .prepare('UPDATE campaigns SET pledged = ? WHERE id = ?')
+      .run(totalPledged.toString(), campaignId);
+  }
+
+  /**
+   * Record released funds; the non-milestone claim releases everything at once
+   */
+  addReleasedAmount(campaignId: number, grossAmount: bigint): void {
+    const row = this.db
+      .prepare('SELECT released_amount, has_milestones FROM campaigns WHERE id = ?')
+      .get(campaignId) as { released_amount: string; has_milestones: number } | undefined;
+    if (!row) return;
+
+    const released = BigInt(row.released_amount) + grossAmount;
+    this.db
+      .prepare('UPDATE campaigns SET released_amount = ?, claimed = ? WHERE id = ?')
+      .run(released.toString(), row.has_milestones === 1 ? 0 : 1, campaignId);
+  }
+
+  setFounderTokensClaimed(campaignId: number): void {
+    this.db
+      .prepare('UPDATE campaigns SET founder_tokens_claimed = 1 WHERE id = ?')
+      .run(campaignId);
+  }
+
+  // ============ Pledge Writes ============
+
+  /**
+   * Apply a signed change to an investor's pledge
+   */
+  adjustPledge(campaignId: number, investor: string, delta: bigint): void {
+    const current = this.getPledge(campaignId, investor);
+    this.db
+      .prepare(
+        `INSERT INTO pledges (campaign_id, investor, amount) VALUES (?, ?, ?)
+         ON CONFLICT (campaign_id, investor) DO UPDATE SET amount = excluded.amount`
+      )
+      .run(campaignId, investor, (current + delta).toString());
+  }
+
+  clearPledge(campaignId: number, investor: string): void {
+    this.db
+      .prepare('UPDATE pledges SET amount = ? WHERE campaign_id = ? AND investor = ?')
+      .run('0', campaignId, investor);
+  }
+
+  setTokensClaimed(campaignId: number, investor: string): void {
+    this.db
+      .prepare('UPDATE pledges SET tokens_claimed = 1 WHERE campaign_id = ? AND investor = ?')
+      .run(campaignId, investor);
+  }
+
+  // ============ Milestone Writes ============
+
+  insertMilestone(milestone: IndexedMilestone): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO milestones (
+          campaign_id, milestone_index, title, percentage, deadline, status, proposal_id, evidence_hash
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        milestone.campaignId,
+        milestone.index,
+        milestone.title,
+        Number(milestone.percentage),
+        Number(milestone.deadline),
+        milestone.status,
+        Number(milestone.proposalId),
+        milestone.evidenceHash
+      );
+  }
+
+  setMilestoneProposal(campaignId: number, milestoneIndex: number, proposalId: bigint): void {
+    this.db
+      .prepare('UPDATE milestones SET proposal_id = ? WHERE campaign_id = ? AND milestone_index = ?')
+      .run(Number(proposalId), campaignId, milestoneIndex);
+  }
+
+  setMilestoneEvidence(campaignId: number, milestoneIndex: number, evidenceHash: string): void {
+    this.db
+      .prepare('UPDATE milestones SET evidence_hash = ? WHERE campaign_id = ? AND milestone_index = ?')
+      .run(evidenceHash, campaignId, milestoneIndex);
+  }
+
+  setMilestoneSchedule(campaignId: number, milestoneIndex: number, percentage: bigint, deadline: bigint): void {
+    this.db
+      .prepare('UPDATE milestones SET percentage = ?, deadline = ? WHERE campaign_id = ? AND milestone_index = ?')
+      .run(Number(percentage), Number(deadline), campaignId, milestoneIndex);
+  }
+
+  setMilestonePercentage(campaignId: number, milestoneIndex: number, percentage: bigint): void {
+    this.db
+      .prepare('UPDATE milestones SET percentage = ? WHERE campaign_id = ? AND milestone_index = ?')
+      .run(Number(percentage), campaignId, milestoneIndex);
+  }
+
+  setMilestoneStatus(campaignId: number, milestoneIndex: number, status: number): void {
+    this.db
+      .prepare('UPDATE milestones SET status = ? WHERE campaign_id = ? AND milestone_index = ?')
+      .run(status, campaignId, milestoneIndex);
+  }
+
+  // ============ Governance Writes ============
+
+  insertProposal(proposal: IndexedProposal): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO proposals (
+          id, campaign_id, proposer, title, proposal_type, milestone_index, start_time, end_time,
+          executed, passed, canceled
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        proposal.id,
+        proposal.campaignId,
+        proposal.proposer,
+        proposal.title,
+        proposal.proposalType,
+        proposal.milestoneIndex,
+        Number(proposal.startTime),
+        Number(proposal.endTime),
+        proposal.executed ? 1 : 0,
+        proposal.passed ? 1 : 0,
+        proposal.canceled ? 1 : 0
+      );
+  }
+
+  setProposalExecuted(proposalId: number, passed: boolean): void {
+    this.db
+      .prepare('UPDATE proposals SET executed = 1, passed = ? WHERE id = ?')
+      .run(passed ? 1 : 0, proposalId);
+  }
+
+  setProposalCanceled(proposalId: number): void {
+    this.db.prepare('UPDATE proposals SET canceled = 1 WHERE id = ?').run(proposalId);
+  }
+
+  insertVote(vote: IndexedVote): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO votes (proposal_id, voter, support, weight, block_number)
+         VALUES (?, ?, ?, ?, ?)`
+      )
+      .run(
+        vote.proposalId,
+        vote.voter,
+        vote.support,
+        vote.weight.toString(),
+        vote.blockNumber
+      );
+  }
+
+  // ============ Delegation Writes ============
+
+  /**
+   * Record a delegate change and make it the delegator's current delegate
+   */
+  insertDelegation(delegation: IndexedDelegation): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO delegations (
+          campaign_id, delegator, from_delegate, to_delegate, block_number, log_index
+        ) VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        delegation.campaignId,
+        delegation.delegator,
+        delegation.fromDelegate,
+        delegation.toDelegate,
+        delegation.blockNumber,
+        delegation.logIndex
+      );
+    this.db
+      .prepare(
+        `INSERT INTO delegates (campaign_id, delegator, delegate) VALUES (?, ?, ?)
+         ON CONFLICT (campaign_id, delegator) DO UPDATE SET delegate = excluded.delegate`
+      )
+      .run(delegation.campaignId, delegation.delegator, delegation.toDelegate);
+  }
+
+  setDelegateVotes(campaignId: number, delegate: string, votes: bigint): void {
+    this.db
+      .prepare(
+        `INSERT INTO delegate_votes (campaign_id, delegate, votes) VALUES (?, ?, ?)
+         ON CONFLICT (campaign_id, delegate) DO UPDATE SET votes = excluded.votes`
+      )
+      .run(campaignId, delegate, votes.toString());
+  }
+
+  // ============ Queries ============
+
+  getCampaign(campaignId: number): IndexedCampaign | null {
+    const row = this.db.prepare('SELECT * FROM campaigns WHERE id = ?').get(campaignId) as
+      | Row
+      | undefined;
+    return row ? toCampaign(row) : null;
+  }
+
+  getAllCampaigns(): IndexedCampaign[] {
+    const rows = this.db.prepare('SELECT * FROM campaigns ORDER BY id').all() as Row[];
+    return rows.map(toCampaign);
+  }
+
+  getCampaignsByCreator(creator: string): IndexedCampaign[] {
+    const rows = this.db
+      .prepare('SELECT * FROM campaigns WHERE creator = ? ORDER BY id')
+      .all(creator) as Row[];
+    return rows.map(toCampaign);
+  }
+
+  /**
+   * Campaigns the investor currently has a non-zero pledge in
+   */
+  getCampaignsByInvestor(investor: string): IndexedInvestorCampaign[] {
+    const rows = this.db
+      .prepare(
+        `SELECT c.*, p.amount AS pledge_amount, p.tokens_claimed AS pledge_tokens_claimed
+         FROM pledges p JOIN campaigns c ON c.id = p.campaign_id
+         WHERE p.investor = ? AND p.amount != '0'
+         ORDER BY c.id`
+      )
+      .all(investor) as Row[];
+
+    return rows.map((row) => ({
+      ...toCampaign(row),
+      pledgeAmount: BigInt(row.pledge_amount),
+      tokensClaimed: row.pledge_tokens_claimed === 1,
+    }));
+  }
+
+  /**
+   * Campaign IDs by equity token address (lowercased), for routing token events
+   */
+  getCampaignsByEquityToken(): Map<string, number> {
+    const rows = this.db.prepare('SELECT id, equity_token FROM campaigns').all() as Row[];
+    return new Map(rows.map((row) => [String(row.equity_token).toLowerCase(), Number(row.id)]));
+  }
+
+  getPledge(campaignId: number, investor: string): bigint {
+    const row = this.db
+      .prepare('SELECT amount FROM pledges WHERE campaign_id = ? AND investor = ?')
+      .get(campaignId, investor) as { amount: string } | undefined;
+    return row ? BigInt(row.amount) : BigInt(0);
+  }
+
+  getMilestones(campaignId: number): IndexedMilestone[] {
+    const rows = this.db
+      .prepare('SELECT * FROM milestones WHERE campaign_id = ? ORDER BY milestone_index')
+      .all(campaignId) as Row[];
+    return rows.map(toMilestone);
+  }
+
+  getProposalsByCampaign(campaignId: number): IndexedProposal[] {
+    const rows = this.db
+      .prepare('SELECT * FROM proposals WHERE campaign_id = ? ORDER BY id')
+      .all(campaignId) as Row[];
+    return rows.map(toProposal);
+  }
+
+  getProposal(proposalId: number): IndexedProposal | null {
+    const row = this.db.prepare('SELECT * FROM proposals WHERE id = ?').get(proposalId) as
+      | Row
+      | undefined;
+    return row ? toProposal(row) : null;
+  }
+
+  getVotes(proposalId: number): IndexedVote[] {
+    const rows = this.db
+      .prepare('SELECT * FROM votes WHERE proposal_id = ? ORDER BY block_number, voter')
+      .all(proposalId) as Row[];
+    return rows.map(toVote);
+  }
+
+  /**
+   * Addresses holding delegated votes, by current voting power
+   */
+  getTopDelegates(campaignId: number, limit = 10): IndexedDelegate[] {
+    const rows = this.db
+      .prepare(
+        `SELECT v.delegate, v.votes, COUNT(d.delegator) AS delegators
+         FROM delegate_votes v JOIN delegates d
+           ON d.campaign_id = v.campaign_id AND d.delegate = v.delegate AND d.delegator != d.delegate
+         WHERE v.campaign_id = ? AND v.votes != '0'
+         GROUP BY v.delegate, v.votes`
+      )
+      .all(campaignId) as Row[];
+
+    // Votes are decimal strings, so sort numerically here rather than in SQL
+    return rows
+      .map((row) => ({
+        campaignId,
+        delegate: String(row.delegate),
+        votes: BigInt(row.votes),
+        delegators: Number(row.delegators),
+      }))
+      .sort((a, b) => (b.votes > a.votes ? 1 : b.votes < a.votes ? -1 : 0))
+      .slice(0, limit);
+  }
+
+  getDelegationHistory(campaignId: number, delegator: string): IndexedDelegation[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM delegations WHERE campaign_id = ? AND delegator = ?
+         ORDER BY block_number, log_index`
+      )
+      .all(campaignId, delegator) as Row[];
+    return rows.map(toDelegation);
+  }
+}
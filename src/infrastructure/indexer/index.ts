@@ -0,0 +1,27 @@
+/**
+ * Event Indexer - Public API
+ * Run via scripts/indexer.ts; API routes read the store through getIndexerStore()
+ */
+
+import { existsSync } from 'fs';
+import { IndexerStore } from './IndexerStore';
+
+export { IndexerStore } from './IndexerStore';
+export { EventIndexer, type EventIndexerConfig } from './EventIndexer';
+export * from './types';
+
+export const DEFAULT_INDEXER_DB_PATH = 'data/indexer.sqlite';
+
+let sharedStore: IndexerStore | null = null;
+
+/**
+ * Shared store for API routes; null until the indexer process has created the database
+ */
+export function getIndexerStore(): IndexerStore | null {
+  if (!sharedStore) {
+    const filename = process.env.INDEXER_DB_PATH || DEFAULT_INDEXER_DB_PATH;
+    if (!existsSync(filename)) return null;
+    sharedStore = new IndexerStore(filename);
+  }
+  return sharedStore;
+}
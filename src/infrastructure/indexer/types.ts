@@ -0,0 +1,96 @@
+/**
+ * Indexer Types - Infrastructure Layer
+ * Read models materialized from MilestoneEscrow, GovernanceV2 and EquityToken events
+ */
+
+export interface IndexedCampaign {
+  id: number;
+  creator: string;
+  goal: bigint;
+  pledged: bigint;
+  startAt: bigint;
+  endAt: bigint;
+  claimed: boolean;
+  equityToken: string;
+  name: string;
+  tokenSymbol: string;
+  founderShareBps: bigint;
+  founderTokensClaimed: boolean;
+  milestoneCount: bigint;
+  releasedAmount: bigint;
+  hasMilestones: boolean;
+  paymentToken: string;
+  metadataHash: string;
+}
+
+export interface IndexedInvestorCampaign extends IndexedCampaign {
+  pledgeAmount: bigint;
+  tokensClaimed: boolean;
+}
+
+export interface IndexedMilestone {
+  campaignId: number;
+  index: number;
+  title: string;
+  percentage: bigint;
+  deadline: bigint;
+  status: number;
+  proposalId: bigint;
+  evidenceHash: string;
+}
+
+export interface IndexedProposal {
+  id: number;
+  campaignId: number;
+  proposer: string;
+  title: string;
+  proposalType: number;
+  milestoneIndex: number;
+  startTime: bigint;
+  endTime: bigint;
+  executed: boolean;
+  passed: boolean;
+  canceled: boolean;
+}
+
+export interface IndexedVote {
+  proposalId: number;
+  voter: string;
+  /** 0 = against, 1 = for, 2 = abstain; a changed vote replaces the earlier one */
+  support: number;
+  weight: bigint;
+  blockNumber: number;
+}
+
+export interface IndexedDelegate {
+  campaignId: number;
+  delegate: string;
+  votes: bigint;
+  /** Holders currently delegating to this address (not counting itself) */
+  delegators: number;
+}
+
+export interface IndexedDelegation {
+  campaignId: number;
+  delegator: string;
+  fromDelegate: string;
+  toDelegate: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Converts bigint fields to decimal strings so read models can be sent as JSON
+ */
+export type Serialized<T> = {
+  [K in keyof T]: T[K] extends bigint ? string : T[K];
+};
+
+export function serialize<T extends object>(value: T): Serialized<T> {
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      typeof field === 'bigint' ? field.toString() : field,
+    ])
+  ) as Serialized<T>;
+}
@@ -0,0 +1,145 @@
+/**
+ * Vote Relayer - Infrastructure Layer
+ * Submits EIP-712 signed ballots to GovernanceV2 so investors can vote without paying gas.
+ * Ballots arriving within a short window are cast together in one castVotesBySig transaction.
+ */
+
+import { Contract, Interface, type Signer } from 'ethers';
+import { GOVERNANCE_V2_ABI } from '../../../lib/contracts/abis';
+
+const governanceInterface = new Interface(GOVERNANCE_V2_ABI);
+
+export interface SignedBallot {
+  proposalId: bigint;
+  /** 0 = against, 1 = for, 2 = abstain */
+  support: number;
+  releaseBps: bigint;
+  voter: string;
+  nonce: bigint;
+  deadline: bigint;
+  signature: string;
+}
+
+export interface VoteRelayerConfig {
+  /** Wallet that pays gas for the batches */
+  signer: Signer;
+  governanceAddress: string;
+  /** How long to collect ballots before submitting a batch */
+  batchWindowMs?: number;
+  /** Submit as soon as this many ballots are queued */
+  maxBatchSize?: number;
+}
+
+/**
+ * Thrown when a ballot would revert on-chain; reason is the GovernanceV2 error name when known
+ */
+export class BallotRejectedError extends Error {
+  constructor(public readonly reason: string) {
+    super(`Ballot rejected: ${reason}`);
+    this.name = 'BallotRejectedError';
+  }
+}
+
+interface QueuedBallot {
+  ballot: SignedBallot;
+  resolve: (txHash: string) => void;
+  reject: (error: unknown) => void;
+}
+
+function toBallotTuple({ proposalId, support, releaseBps, voter, nonce, deadline }: SignedBallot) {
+  return { proposalId, support, releaseBps, voter, nonce, deadline };
+}
+
+// Providers differ in how they surface reverts: decoded by ethers, or as raw revert data
+function getRevertReason(error: unknown): string {
+  const { revert, data } = error as { revert?: { name?: string }; data?: string };
+  if (revert?.name) return revert.name;
+  if (typeof data === 'string') {
+    const decoded = governanceInterface.parseError(data);
+    if (decoded) return decoded.name;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class VoteRelayer {
+  private config: Required<VoteRelayerConfig>;
+  private governance: Contract;
+  private queue: QueuedBallot[] = [];
+  /** Voters with a ballot being checked or waiting in the queue */
+  private pendingVoters = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: VoteRelayerConfig) {
+    this.config = {
+      batchWindowMs: 3000,
+      maxBatchSize: 50,
+      ...config,
+    };
+    this.governance = new Contract(config.governanceAddress, governanceInterface, config.signer);
+  }
+
+  /**
+   * Check a ballot against the current chain state and queue it for the next batch
+   * @returns Hash of the transaction that cast the ballot
+   */
+  async submit(ballot: SignedBallot): Promise<string> {
+    // One voter per batch: a second ballot would need the nonce the first one consumes
+    const voter = ballot.voter.toLowerCase();
+    if (this.pendingVoters.has(voter)) {
+      throw new BallotRejectedError('BallotPending');
+    }
+    this.pendingVoters.add(voter);
+
+    // Simulate first so one bad ballot cannot revert the whole batch
+    try {
+      await this.governance.castVoteBySig.staticCall(toBallotTuple(ballot), ballot.signature);
+    } catch (error) {
+      this.pendingVoters.delete(voter);
+      throw new BallotRejectedError(getRevertReason(error));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ ballot, resolve, reject });
+
+      if (this.queue.length >= this.config.maxBatchSize) {
+        this.flush();
+      } else if (this.timer === null) {
+        this.timer = setTimeout(() => this.flush(), this.config.batchWindowMs);
+      }
+    });
+  }
+
+  /**
+   * Cast every queued ballot in one transaction
+   */
+  async flush(): Promise<void> {
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const batch = this.queue.splice(0);
+    if (batch.length === 0) return;
+
+    try {
+      const tx = await this.governance.castVotesBySig(
+        batch.map(({ ballot }) => toBallotTuple(ballot)),
+        batch.map(({ ballot }) => ballot.signature)
+      );
+      const receipt = await tx.wait();
+      const txHash: string = receipt?.hash ?? tx.hash;
+      batch.forEach(({ resolve }) => resolve(txHash));
+    } catch (error) {
+      batch.forEach(({ reject }) => reject(error));
+    } finally {
+      batch.forEach(({ ballot }) => this.pendingVoters.delete(ballot.voter.toLowerCase()));
+    }
+  }
+
+  /**
+   * Number of ballots waiting for the next batch
+   */
+  get pendingCount(): number {
+    return this.queue.length;
+  }
+}
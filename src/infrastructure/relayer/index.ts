@@ -0,0 +1,37 @@
+/**
+ * Vote Relayer - Public API
+ * API routes submit signed ballots through getVoteRelayer(); set RELAYER_PRIVATE_KEY to enable it
+ */
+
+import { JsonRpcProvider, Wallet } from 'ethers';
+import { CONTRACTS } from '../../../lib/constants/addresses';
+import { VoteRelayer } from './VoteRelayer';
+
+export {
+  VoteRelayer,
+  BallotRejectedError,
+  type SignedBallot,
+  type VoteRelayerConfig,
+} from './VoteRelayer';
+
+export const DEFAULT_RELAYER_RPC_URL = 'https://rpc.sepolia.mantle.xyz';
+
+let sharedRelayer: VoteRelayer | null = null;
+
+/**
+ * Shared relayer for API routes; null when no relayer wallet is configured
+ */
+export function getVoteRelayer(): VoteRelayer | null {
+  if (!sharedRelayer) {
+    const privateKey = process.env.RELAYER_PRIVATE_KEY;
+    if (!privateKey) return null;
+
+    const provider = new JsonRpcProvider(process.env.RELAYER_RPC_URL || DEFAULT_RELAYER_RPC_URL);
+    sharedRelayer = new VoteRelayer({
+      signer: new Wallet(privateKey, provider),
+      governanceAddress: process.env.RELAYER_GOVERNANCE_ADDRESS || CONTRACTS.GOVERNANCE_V2,
+      batchWindowMs: Number(process.env.RELAYER_BATCH_WINDOW_MS || 3000),
+    });
+  }
+  return sharedRelayer;
+}
@@ -0,0 +1,182 @@
+/**
+ * Escrow Pledge History - Infrastructure Layer
+ * Incrementally reads MilestoneEscrow pledge events so repositories can derive
+ * investment records and investor counts without an off-chain database.
+ */
+
+import { getContractEvents, prepareEvent } from 'thirdweb';
+import { eth_blockNumber, eth_getBlockByNumber, getRpcClient } from 'thirdweb/rpc';
+import { client, mantleSepolia } from '../blockchain/client';
+import { getEscrowContract } from '@/lib/contracts/escrow';
+import type { Chain } from 'thirdweb/chains';
+
+const PLEDGE_EVENTS = [
+  prepareEvent({
+    signature: 'event Pledged(uint256 indexed campaignId, address indexed investor, uint256 amount, uint256 totalPledged)',
+  }),
+  prepareEvent({
+    signature: 'event Unpledged(uint256 indexed campaignId, address indexed investor, uint256 amount, uint256 totalPledged)',
+  }),
+  prepareEvent({
+    signature: 'event Refunded(uint256 indexed campaignId, address indexed investor, uint256 amount)',
+  }),
+  prepareEvent({
+    signature: 'event EmergencyRefundEnabled(uint256 indexed campaignId, uint256 refundableAmount)',
+  }),
+];
+
+export type PledgeEventKind = 'pledged' | 'unpledged' | 'refunded';
+
+export interface PledgeEvent {
+  kind: PledgeEventKind;
+  campaignId: number;
+  investor: string;
+  amount: bigint;
+  transactionHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+  /** Block timestamp (Unix seconds) */
+  timestamp: number;
+}
+
+export interface EscrowPledgeHistoryOptions {
+  chain?: Chain;
+  /** First block to scan (usually the escrow deployment block) */
+  fromBlock?: bigint;
+  /** Maximum block range per eth_getLogs request */
+  blockRange?: bigint;
+}
+
+export class EscrowPledgeHistory {
+  private chain: Chain;
+  private nextBlock: bigint;
+  private blockRange: bigint;
+  private events: PledgeEvent[] = [];
+  private emergencyRefundCampaigns = new Set<number>();
+  private blockTimestamps = new Map<bigint, number>();
+  private syncing: Promise<void> | null = null;
+
+  constructor(options: EscrowPledgeHistoryOptions = {}) {
+    this.chain = options.chain ?? mantleSepolia;
+    this.nextBlock = options.fromBlock ?? BigInt(0);
+    this.blockRange = options.blockRange ?? BigInt(2000);
+  }
+
+  /**
+   * Fetch events emitted since the last sync
+   * Concurrent callers share the same in-flight request.
+   */
+  sync(): Promise<void> {
+    if (!this.syncing) {
+      this.syncing = this.fetchNewEvents().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * All pledge events seen so far, in chain order
+   */
+  getEvents(): readonly PledgeEvent[] {
+    return this.events;
+  }
+
+  /**
+   * Whether a milestone failure has opened emergency refunds for a campaign
+   */
+  isEmergencyRefundEnabled(campaignId: number): boolean {
+    return this.emergencyRefundCampaigns.has(campaignId);
+  }
+
+  /**
+   * Number of investors with an outstanding pledge, per campaign
+   */
+  getInvestorCounts(): Map<number, number> {
+    const balances = new Map<string, bigint>();
+
+    for (const event of this.events) {
+      const key = `${event.campaignId}:${event.investor.toLowerCase()}`;
+      const balance = balances.get(key) ?? BigInt(0);
+
+      if (event.kind === 'pledged') {
+        balances.set(key, balance + event.amount);
+      } else if (event.kind === 'unpledged') {
+        balances.set(key, balance - event.amount);
+      } else {
+        // Refunds always clear the whole pledge
+        balances.set(key, BigInt(0));
+      }
+    }
+
+    const counts = new Map<number, number>();
+    for (const [key, balance] of balances) {
+      if (balance <= BigInt(0)) continue;
+      const campaignId = Number(key.split(':')[0]);
+      counts.set(campaignId, (counts.get(campaignId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  // ============ Internal ============
+
+  private async fetchNewEvents(): Promise<void> {
+    const contract = getEscrowContract();
+    if (!contract) return;
+
+    const rpc = getRpcClient({ client, chain: this.chain });
+    const head = await eth_blockNumber(rpc);
+
+    while (this.nextBlock <= head) {
+      const toBlock = this.nextBlock + this.blockRange - BigInt(1) < head
+        ? this.nextBlock + this.blockRange - BigInt(1)
+        : head;
+
+      const logs = await getContractEvents({
+        contract,
+        events: PLEDGE_EVENTS,
+        fromBlock: this.nextBlock,
+        toBlock,
+        useIndexer: false,
+      });
+
+      // Build the whole range before publishing it so readers never see a partial batch
+      const batch: PledgeEvent[] = [];
+      for (const log of logs) {
+        const campaignId = Number(log.args.campaignId);
+
+        if (log.eventName === 'EmergencyRefundEnabled') {
+          this.emergencyRefundCampaigns.add(campaignId);
+          continue;
+        }
+
+        batch.push({
+          kind: log.eventName === 'Pledged' ? 'pledged' : log.eventName === 'Unpledged' ? 'unpledged' : 'refunded',
+          campaignId,
+          investor: log.args.investor,
+          amount: log.args.amount,
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          timestamp: await this.getBlockTimestamp(rpc, log.blockNumber),
+        });
+      }
+
+      batch.sort((a, b) =>
+        a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1
+      );
+      this.events.push(...batch);
+      this.nextBlock = toBlock + BigInt(1);
+    }
+  }
+
+  private async getBlockTimestamp(rpc: ReturnType<typeof getRpcClient>, blockNumber: bigint): Promise<number> {
+    const cached = this.blockTimestamps.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await eth_getBlockByNumber(rpc, { blockNumber });
+    const timestamp = Number(block.timestamp);
+    this.blockTimestamps.set(blockNumber, timestamp);
+    return timestamp;
+  }
+}
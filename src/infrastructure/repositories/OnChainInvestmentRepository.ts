@@ -0,0 +1,276 @@
+/**
+ * On-Chain Investment Repository - Infrastructure Layer
+ * Derives Investment records from MilestoneEscrow Pledged, Unpledged and Refunded events.
+ * Each Pledged event is one investment; unpledges withdraw from the most recent
+ * pledges first and refunds close every open pledge of the investor.
+ */
+
+import { toTokens } from 'thirdweb/utils';
+import { getCampaign } from '@/lib/contracts/escrow';
+import type {
+  IInvestmentRepository,
+  InvestmentFilters,
+  InvestmentSortOptions,
+  PaginationOptions,
+  PaginatedResult,
+} from '@/src/application/ports/repositories';
+import { InvestmentMapper } from '@/src/application/mappers/InvestmentMapper';
+import { Investment, type InvestmentStatus } from '@/src/domain/entities';
+import { Money, type Address, type Currency } from '@/src/domain/value-objects';
+import { EscrowPledgeHistory } from './EscrowPledgeHistory';
+import { getPaymentCurrency, paginate } from './utils';
+
+export interface OnChainInvestmentRepositoryOptions {
+  /** Shared with OnChainProjectRepository to avoid reading the same logs twice */
+  history?: EscrowPledgeHistory;
+}
+
+interface CampaignContext {
+  tokenSymbol: string;
+  currency: Currency;
+  decimals: number;
+}
+
+interface PledgeRecord {
+  id: string;
+  campaignId: number;
+  investor: string;
+  pledged: bigint;
+  withdrawn: bigint;
+  transactionHash: string;
+  createdAt: number;
+  refundedAt?: number;
+}
+
+const DEFAULT_SORT: InvestmentSortOptions = { field: 'createdAt', order: 'desc' };
+
+export class OnChainInvestmentRepository implements IInvestmentRepository {
+  private history: EscrowPledgeHistory;
+  private campaigns = new Map<number, Promise<CampaignContext>>();
+  // Investments saved before their pledge transaction has been indexed
+  private pending = new Map<string, Investment>();
+
+  constructor(options: OnChainInvestmentRepositoryOptions = {}) {
+    this.history = options.history ?? new EscrowPledgeHistory();
+  }
+
+  async findAll(
+    filters: InvestmentFilters = {},
+    sort: InvestmentSortOptions = DEFAULT_SORT,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<Investment>> {
+    const investor = filters.investor?.toLowerCase();
+
+    const investments = (await this.loadAll()).filter((investment) => {
+      if (filters.projectId !== undefined && investment.projectId !== filters.projectId) return false;
+      if (investor && investment.investor.toString() !== investor) return false;
+      if (filters.status && investment.status !== filters.status) return false;
+      if (filters.minAmount !== undefined && investment.amount.toNumber() < filters.minAmount) return false;
+      if (filters.maxAmount !== undefined && investment.amount.toNumber() > filters.maxAmount) return false;
+      return true;
+    });
+
+    const direction = sort.order === 'asc' ? 1 : -1;
+    const value = (investment: Investment): number =>
+      sort.field === 'amount' ? investment.amount.toNumber() : investment.createdAt.getTime();
+
+    return paginate(
+      investments.sort((a, b) => (value(a) - value(b)) * direction),
+      pagination
+    );
+  }
+
+  async findById(id: string): Promise<Investment | null> {
+    const investments = await this.loadAll();
+    return investments.find((investment) => investment.id === id) ?? null;
+  }
+
+  async findByInvestor(address: Address): Promise<Investment[]> {
+    const investments = await this.loadAll();
+    return investments.filter((investment) => investment.isOwnedBy(address));
+  }
+
+  async findByProject(projectId: string): Promise<Investment[]> {
+    const investments = await this.loadAll();
+    return investments.filter((investment) => investment.projectId === projectId);
+  }
+
+  async findByTransactionHash(hash: string): Promise<Investment | null> {
+    const investments = await this.loadAll();
+    return (
+      investments.find((investment) => investment.transactionHash.toLowerCase() === hash.toLowerCase()) ?? null
+    );
+  }
+
+  /**
+   * Sum of confirmed stablecoin investments made in a calendar year (UTC), net of unpledges
+   * Native-token pledges are left out: the annual limit is set in USDC and there is no price feed.
+   */
+  async getAnnualTotalByInvestor(address: Address, year: number = new Date().getUTCFullYear()): Promise<Money> {
+    const investments = await this.findByInvestor(address);
+    const zero = Money.zero('USDC');
+    return investments
+      .filter(
+        (investment) =>
+          investment.isConfirmed &&
+          investment.amount.getCurrency() === 'USDC' &&
+          investment.createdAt.getUTCFullYear() === year
+      )
+      .reduce((total, investment) => total.add(investment.amount.withDecimals(zero.getDecimals())), zero);
+  }
+
+  async getTotalByProject(projectId: string): Promise<number> {
+    const investments = await this.findByProject(projectId);
+    return investments
+      .filter((investment) => investment.isConfirmed)
+      .reduce((total, investment) => total + investment.amount.toNumber(), 0);
+  }
+
+  async getInvestorCountByProject(projectId: string): Promise<number> {
+    await this.history.sync();
+    return this.history.getInvestorCounts().get(Number(projectId)) ?? 0;
+  }
+
+  async save(investment: Investment): Promise<void> {
+    this.pending.set(investment.id, investment);
+  }
+
+  async updateStatus(id: string, status: InvestmentStatus): Promise<void> {
+    const investment = this.pending.get(id);
+    if (!investment) {
+      throw new Error(`Investment ${id} is not pending; its status is derived from on-chain events`);
+    }
+
+    this.pending.set(
+      id,
+      Investment.create({
+        id: investment.id,
+        projectId: investment.projectId,
+        investor: investment.investor,
+        amount: investment.amount,
+        platformFee: investment.platformFee,
+        tokenAmount: investment.tokenAmount,
+        tokenSymbol: investment.tokenSymbol,
+        transactionHash: investment.transactionHash,
+        status,
+        createdAt: investment.createdAt,
+        confirmedAt: status === 'confirmed' ? new Date() : investment.confirmedAt,
+        refundedAt: status === 'refunded' ? new Date() : investment.refundedAt,
+      })
+    );
+  }
+
+  // ============ Internal ============
+
+  private async loadAll(): Promise<Investment[]> {
+    await this.history.sync();
+
+    const records = this.replayEvents();
+    const investments = await Promise.all(records.map((record) => this.toInvestment(record)));
+
+    // Drop pending entries once their transaction shows up on-chain
+    const indexedHashes = new Set(records.map((record) => record.transactionHash.toLowerCase()));
+    for (const [id, investment] of this.pending) {
+      if (indexedHashes.has(investment.transactionHash.toLowerCase())) {
+        this.pending.delete(id);
+      }
+    }
+
+    return [...investments, ...this.pending.values()];
+  }
+
+  private replayEvents(): PledgeRecord[] {
+    const records: PledgeRecord[] = [];
+    const open = new Map<string, PledgeRecord[]>();
+
+    for (const event of this.history.getEvents()) {
+      const key = `${event.campaignId}:${event.investor.toLowerCase()}`;
+      const openPledges = open.get(key) ?? [];
+      open.set(key, openPledges);
+
+      switch (event.kind) {
+        case 'pledged': {
+          const record: PledgeRecord = {
+            id: `${event.transactionHash}-${event.logIndex}`,
+            campaignId: event.campaignId,
+            investor: event.investor,
+            pledged: event.amount,
+            withdrawn: BigInt(0),
+            transactionHash: event.transactionHash,
+            createdAt: event.timestamp,
+          };
+          records.push(record);
+          openPledges.push(record);
+          break;
+        }
+        case 'unpledged': {
+          let remaining = event.amount;
+          while (remaining > BigInt(0) && openPledges.length > 0) {
+            const latest = openPledges[openPledges.length - 1];
+            const available = latest.pledged - latest.withdrawn;
+            const taken = available < remaining ? available : remaining;
+
+            latest.withdrawn += taken;
+            remaining -= taken;
+            if (latest.withdrawn === latest.pledged) {
+              latest.refundedAt = event.timestamp;
+              openPledges.pop();
+            }
+          }
+          break;
+        }
+        case 'refunded':
+          for (const record of openPledges) {
+            record.refundedAt = event.timestamp;
+          }
+          openPledges.length = 0;
+          break;
+      }
+    }
+
+    return records;
+  }
+
+  private async toInvestment(record: PledgeRecord): Promise<Investment> {
+    const { tokenSymbol, currency, decimals } = await this.getCampaignContext(record.campaignId);
+    const refunded = record.refundedAt !== undefined;
+    // Fully withdrawn pledges keep their original amount; open ones show what is still pledged
+    const amount = refunded ? record.pledged : record.pledged - record.withdrawn;
+
+    return InvestmentMapper.toEntity({
+      id: record.id,
+      projectId: String(record.campaignId),
+      investor: record.investor,
+      currency,
+      decimals,
+      amount,
+      // MilestoneEscrow takes its fee from released funds, not from investors
+      platformFee: BigInt(0),
+      // Equity tokens are minted 1:1 with the pledge on claim
+      tokenAmount: Number(toTokens(amount, decimals)),
+      tokenSymbol,
+      transactionHash: record.transactionHash,
+      status: refunded ? 'refunded' : 'confirmed',
+      createdAt: record.createdAt,
+      confirmedAt: record.createdAt,
+      refundedAt: record.refundedAt,
+    });
+  }
+
+  private getCampaignContext(campaignId: number): Promise<CampaignContext> {
+    let context = this.campaigns.get(campaignId);
+    if (!context) {
+      context = getCampaign(campaignId).then(async (campaign) => {
+        if (!campaign) throw new Error(`Campaign ${campaignId} could not be read`);
+        return {
+          tokenSymbol: campaign.tokenSymbol,
+          ...(await getPaymentCurrency(campaign.paymentToken)),
+        };
+      });
+      // Let a failed read be retried on the next call
+      context.catch(() => this.campaigns.delete(campaignId));
+      this.campaigns.set(campaignId, context);
+    }
+    return context;
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * On-Chain Project Repository - Infrastructure Layer
+ * Reads MilestoneEscrow campaigns and maps them to Project entities.
+ * Descriptive fields come from the hash-verified off-chain metadata document.
+ */
+
+import { getAllCampaigns, getCampaign, type CampaignData } from '@/lib/contracts/escrow';
+import { fetchCampaignMetadata, type CampaignMetadata } from '@/lib/metadata';
+import type {
+  IProjectRepository,
+  ProjectFilters,
+  ProjectSortOptions,
+  PaginationOptions,
+  PaginatedResult,
+} from '@/src/application/ports/repositories';
+import { ProjectMapper } from '@/src/application/mappers/ProjectMapper';
+import type { CompanyInfo, Project, ProjectCategory, ProjectStatus } from '@/src/domain/entities';
+import { EscrowPledgeHistory } from './EscrowPledgeHistory';
+import { getPaymentCurrency, paginate } from './utils';
+
+type CampaignWithId = CampaignData & { id: number };
+
+export type CampaignMetadataLoader = (metadataHash: string) => Promise<CampaignMetadata | null>;
+
+export interface OnChainProjectRepositoryOptions {
+  /** Shared with OnChainInvestmentRepository to avoid reading the same logs twice */
+  history?: EscrowPledgeHistory;
+  /** Defaults to the verified /api/metadata client */
+  loadMetadata?: CampaignMetadataLoader;
+}
+
+// Used when a campaign was created without a metadata document
+const DEFAULT_CATEGORY: ProjectCategory = 'tech';
+const EMPTY_COMPANY_INFO: CompanyInfo = { foundedYear: 0, employees: 0, location: '' };
+
+const DEFAULT_SORT: ProjectSortOptions = { field: 'createdAt', order: 'desc' };
+const DEFAULT_FEATURED_LIMIT = 3;
+
+async function loadVerifiedMetadata(metadataHash: string): Promise<CampaignMetadata | null> {
+  const result = await fetchCampaignMetadata(metadataHash);
+  return result.status === 'verified' ? result.metadata : null;
+}
+
+export class OnChainProjectRepository implements IProjectRepository {
+  private history: EscrowPledgeHistory;
+  private loadMetadata: CampaignMetadataLoader;
+  // Metadata is content-addressed, so a hash always resolves to the same document
+  private metadataCache = new Map<string, Promise<CampaignMetadata | null>>();
+
+  constructor(options: OnChainProjectRepositoryOptions = {}) {
+    this.history = options.history ?? new EscrowPledgeHistory();
+    this.loadMetadata = options.loadMetadata ?? loadVerifiedMetadata;
+  }
+
+  async findAll(
+    filters?: ProjectFilters,
+    sort: ProjectSortOptions = DEFAULT_SORT,
+    pagination?: PaginationOptions
+  ): Promise<PaginatedResult<Project>> {
+    const projects = this.applyFilters(await this.loadAll(), filters);
+    return paginate(this.applySort(projects, sort), pagination);
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    if (!/^\d+$/.test(id)) return null;
+
+    const campaignId = Number(id);
+    const [campaign] = await Promise.all([getCampaign(campaignId), this.history.sync()]);
+    // Unknown IDs read back as an empty struct
+    if (!campaign || /^0x0{40}$/i.test(campaign.creator)) return null;
+
+    const investorCounts = this.history.getInvestorCounts();
+    return this.toProject({ ...campaign, id: campaignId }, investorCounts.get(campaignId) ?? 0);
+  }
+
+  async findByCategory(category: ProjectCategory): Promise<Project[]> {
+    return this.applyFilters(await this.loadAll(), { category });
+  }
+
+  async findByStatus(status: ProjectStatus): Promise<Project[]> {
+    return this.applyFilters(await this.loadAll(), { status });
+  }
+
+  async findActive(): Promise<Project[]> {
+    const projects = await this.loadAll();
+    return projects.filter((project) => project.isInvestable());
+  }
+
+  async findFeatured(limit: number = DEFAULT_FEATURED_LIMIT): Promise<Project[]> {
+    const active = await this.findActive();
+    return active
+      .sort((a, b) => b.fundingProgress - a.fundingProgress)
+      .slice(0, limit);
+  }
+
+  async search(query: string): Promise<Project[]> {
+    return this.applyFilters(await this.loadAll(), { search: query });
+  }
+
+  async count(filters?: ProjectFilters): Promise<number> {
+    return this.applyFilters(await this.loadAll(), filters).length;
+  }
+
+  async save(): Promise<void> {
+    throw new Error('Projects are created on-chain; submit a createCampaign transaction instead');
+  }
+
+  async updateFundingStatus(): Promise<void> {
+    // Funding figures are read from the contract on every query, so there is nothing to update
+  }
+
+  // ============ Internal ============
+
+  private async loadAll(): Promise<Project[]> {
+    const [campaigns] = await Promise.all([getAllCampaigns(), this.history.sync()]);
+    const investorCounts = this.history.getInvestorCounts();
+
+    return Promise.all(
+      campaigns.map((campaign) => this.toProject(campaign, investorCounts.get(campaign.id) ?? 0))
+    );
+  }
+
+  private async toProject(campaign: CampaignWithId, investorCount: number): Promise<Project> {
+    const [{ currency, decimals }, metadata] = await Promise.all([
+      getPaymentCurrency(campaign.paymentToken),
+      this.getMetadata(campaign.metadataHash),
+    ]);
+
+    return ProjectMapper.toEntity({
+      id: String(campaign.id),
+      name: metadata?.name ?? campaign.name,
+      description: metadata?.description ?? '',
+      longDescription: metadata?.longDescription ?? '',
+      currency,
+      decimals,
+      goal: campaign.goal,
+      fundRaised: campaign.pledged,
+      deadline: Number(campaign.endAt),
+      expectedReturn: 0,
+      category: metadata?.category ?? DEFAULT_CATEGORY,
+      status: this.getStatus(campaign),
+      investorCount,
+      minInvestment: BigInt(0),
+      tokenSymbol: campaign.tokenSymbol,
+      // Each campaign deploys its own equity token, which identifies the project on-chain
+      contractAddress: campaign.equityToken,
+      companyInfo: metadata?.companyInfo ?? EMPTY_COMPANY_INFO,
+      image: metadata?.image ?? '',
+    });
+  }
+
+  private getStatus(campaign: CampaignWithId): ProjectStatus {
+    if (this.history.isEmergencyRefundEnabled(campaign.id)) return 'refunding';
+    if (Date.now() / 1000 < Number(campaign.endAt)) return 'active';
+    if (campaign.pledged >= campaign.goal) return 'funded';
+    return campaign.pledged > BigInt(0) ? 'refunding' : 'expired';
+  }
+
+  private getMetadata(metadataHash: string): Promise<CampaignMetadata | null> {
+    let metadata = this.metadataCache.get(metadataHash);
+    if (!metadata) {
+      metadata = this.loadMetadata(metadataHash).catch(() => null);
+      this.metadataCache.set(metadataHash, metadata);
+    }
+    return metadata;
+  }
+
+  private applyFilters(projects: Project[], filters: ProjectFilters = {}): Project[] {
+    const search = filters.search?.trim().toLowerCase();
+
+    return projects.filter((project) => {
+      if (filters.category && project.category !== filters.category) return false;
+      if (filters.status && project.status !== filters.status) return false;
+      if (filters.minGoal !== undefined && project.goal.toNumber() < filters.minGoal) return false;
+      if (filters.maxGoal !== undefined && project.goal.toNumber() > filters.maxGoal) return false;
+      if (
+        search &&
+        !project.name.toLowerCase().includes(search) &&
+        !project.description.toLowerCase().includes(search)
+      ) {
+        return false;
+      }
+      return true;
+    });
+  }
+
+  private applySort(projects: Project[], sort: ProjectSortOptions): Project[] {
+    const direction = sort.order === 'asc' ? 1 : -1;
+
+    const value = (project: Project): number => {
+      switch (sort.field) {
+        case 'deadline':
+          return project.deadline.getTime();
+        case 'fundRaised':
+          return project.fundRaised.toNumber();
+        case 'goal':
+          return project.goal.toNumber();
+        case 'investorCount':
+          return project.investorCount;
+        case 'createdAt':
+          // Campaign IDs are assigned sequentially at creation
+          return Number(project.id);
+      }
+    };
+
+    return [...projects].sort((a, b) => (value(a) - value(b)) * direction);
+  }
+}
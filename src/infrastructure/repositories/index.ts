@@ -1,8 +1,43 @@
 /**
  * Infrastructure Repositories - Public API
  *
- * Note: Mock repositories have been removed in favor of on-chain data
- * via CrowdfundingEscrow contract.
+ * Repositories read MilestoneEscrow state and events directly; there is no
+ * separate database behind them.
  */
 
-// Reserved for future repository implementations
+import { EscrowPledgeHistory } from './EscrowPledgeHistory';
+import { OnChainInvestmentRepository } from './OnChainInvestmentRepository';
+import { OnChainProjectRepository } from './OnChainProjectRepository';
+
+export { OnChainProjectRepository } from './OnChainProjectRepository';
+export type { OnChainProjectRepositoryOptions, CampaignMetadataLoader } from './OnChainProjectRepository';
+export { OnChainInvestmentRepository } from './OnChainInvestmentRepository';
+export type { OnChainInvestmentRepositoryOptions } from './OnChainInvestmentRepository';
+export { EscrowPledgeHistory } from './EscrowPledgeHistory';
+export type { EscrowPledgeHistoryOptions, PledgeEvent, PledgeEventKind } from './EscrowPledgeHistory';
+
+// Both repositories read the same pledge logs, so they share one history
+let pledgeHistory: EscrowPledgeHistory | null = null;
+let projectRepository: OnChainProjectRepository | null = null;
+let investmentRepository: OnChainInvestmentRepository | null = null;
+
+function getPledgeHistory(): EscrowPledgeHistory {
+  if (!pledgeHistory) {
+    pledgeHistory = new EscrowPledgeHistory();
+  }
+  return pledgeHistory;
+}
+
+export function getProjectRepository(): OnChainProjectRepository {
+  if (!projectRepository) {
+    projectRepository = new OnChainProjectRepository({ history: getPledgeHistory() });
+  }
+  return projectRepository;
+}
+
+export function getInvestmentRepository(): OnChainInvestmentRepository {
+  if (!investmentRepository) {
+    investmentRepository = new OnChainInvestmentRepository({ history: getPledgeHistory() });
+  }
+  return investmentRepository;
+}
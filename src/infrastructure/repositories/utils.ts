@@ -0,0 +1,55 @@
+/**
+ * Repository Helpers - Infrastructure Layer
+ */
+
+import { getPaymentTokenInfo, isNativePaymentToken } from '@/lib/contracts/escrow';
+import type { PaginatedResult, PaginationOptions } from '@/src/application/ports/repositories';
+import type { Currency } from '@/src/domain/value-objects';
+
+export const DEFAULT_PAGINATION: PaginationOptions = { page: 1, limit: 20 };
+
+/**
+ * Slice an already filtered and sorted list into a page
+ */
+export function paginate<T>(items: T[], pagination: PaginationOptions = DEFAULT_PAGINATION): PaginatedResult<T> {
+  const limit = Math.max(1, pagination.limit);
+  const totalPages = Math.max(1, Math.ceil(items.length / limit));
+  const page = Math.min(Math.max(1, pagination.page), totalPages);
+  const start = (page - 1) * limit;
+
+  return {
+    items: items.slice(start, start + limit),
+    total: items.length,
+    page,
+    totalPages,
+    hasNext: page < totalPages,
+    hasPrevious: page > 1,
+  };
+}
+
+export interface PaymentCurrency {
+  currency: Currency;
+  decimals: number;
+}
+
+// Payment token decimals never change, so they are read once per token
+const paymentCurrencies = new Map<string, Promise<PaymentCurrency>>();
+
+/**
+ * Money currency for a campaign payment token
+ * Native campaigns are MNT; allow-listed ERC20 payment tokens are USD stablecoins.
+ */
+export function getPaymentCurrency(paymentToken: string): Promise<PaymentCurrency> {
+  const key = paymentToken.toLowerCase();
+  let paymentCurrency = paymentCurrencies.get(key);
+  if (!paymentCurrency) {
+    paymentCurrency = getPaymentTokenInfo(paymentToken).then((info) => ({
+      currency: isNativePaymentToken(paymentToken) ? 'MNT' : 'USDC',
+      decimals: info.decimals,
+    }));
+    // Let a failed read be retried on the next call
+    paymentCurrency.catch(() => paymentCurrencies.delete(key));
+    paymentCurrencies.set(key, paymentCurrency);
+  }
+  return paymentCurrency;
+}
@@ -0,0 +1,748 @@
+/**
+ * In-Memory Blockchain Service - Infrastructure Layer
+ * IBlockchainService fake for unit tests. Mirrors the MilestoneEscrow, GovernanceV2,
+ * DividendDistributor and InvestorRegistry rules for pledges, refunds, token claims,
+ * withdrawals, milestone releases, votes, dividends and attestations without a chain or wallet. Votes are weighed by current
+ * equity token balances, following delegation. Payment tokens share the native balances.
+ */
+
+import type {
+  IBlockchainService,
+  TransactionResult,
+  WalletInfo,
+} from '../../application/ports/services/IBlockchainService';
+import type { InvestorTier } from '../../domain/entities';
+
+const PLATFORM_FEE_BPS = BigInt(200);
+const HOLDER_VETO_BPS = BigInt(2000);
+const BPS_DENOMINATOR = BigInt(10000);
+const ZERO = BigInt(0);
+const DEFAULT_VOTING_PERIOD = 3 * 86400;
+const DIVIDEND_CLAIM_PERIOD = 365 * 86400;
+
+// GovernanceV2 vote types
+const VOTE_AGAINST = 0;
+const VOTE_FOR = 1;
+const VOTE_ABSTAIN = 2;
+
+export interface InMemoryProject {
+  /** Equity token address identifying the project */
+  address: string;
+  creator: string;
+  name: string;
+  symbol: string;
+  goal: bigint;
+  /** Unix seconds */
+  deadline: number;
+  founderShareBps?: bigint;
+  /** Opens pro-rata refunds after a milestone failure */
+  emergencyRefund?: boolean;
+  /** Milestone shares of the raised funds in basis points; empty for campaigns without milestones */
+  milestones?: bigint[];
+}
+
+export type InMemoryMilestoneStatus = 'pending' | 'submitted' | 'approved' | 'rejected' | 'released';
+
+export interface InMemoryMilestone {
+  status: InMemoryMilestoneStatus;
+  evidenceHash: string;
+  proposalId: number | null;
+  autoReleased: boolean;
+}
+
+export interface InMemoryAttestation {
+  tier: InvestorTier;
+  verifier: string;
+  /** Unix seconds */
+  expiresAt: number;
+  revoked: boolean;
+}
+
+export interface RecordedTransaction {
+  hash: string;
+  operation: string;
+  from: string;
+  projectAddress: string;
+  amount?: bigint;
+  result: TransactionResult;
+}
+
+interface MilestoneState extends InMemoryMilestone {
+  percentage: bigint;
+  vetoes: Set<string>;
+  vetoWeight: bigint;
+}
+
+interface ProposalState {
+  projectAddress: string;
+  proposer: string;
+  /** null for general proposals */
+  milestoneIndex: number | null;
+  endTime: number;
+  executed: boolean;
+  canceled: boolean;
+  votes: Map<string, { support: number; weight: bigint }>;
+}
+
+interface DistributionState {
+  projectAddress: string;
+  amount: bigint;
+  claimedAmount: bigint;
+  createdAt: number;
+  reclaimed: boolean;
+  /** Holder shares at the deposit, counting tokens not claimed from the escrow yet */
+  shares: Map<string, bigint>;
+  totalShares: bigint;
+  claimed: Set<string>;
+}
+
+interface ProjectState extends Required<Omit<InMemoryProject, 'milestones'>> {
+  milestones: MilestoneState[];
+  autoRelease: boolean;
+  releasedAmount: bigint;
+  /** Set by the first emergency refund paid; stops further submissions and releases */
+  refundsPaid: boolean;
+  pledged: bigint;
+  claimed: boolean;
+  founderTokensClaimed: boolean;
+  pledges: Map<string, bigint>;
+  tokenBalances: Map<string, bigint>;
+  tokenSupply: bigint;
+  /** Holder => address voting with the holder's tokens (absent = the holder) */
+  delegates: Map<string, string>;
+}
+
+export interface InMemoryBlockchainServiceOptions {
+  account?: string | null;
+  chainId?: number;
+  /** Current time in Unix seconds; override to move past deadlines */
+  now?: () => number;
+  /** Platform guardian allowed to veto approved releases */
+  guardian?: string;
+  /** Seconds a proposal stays open for votes */
+  votingPeriod?: number;
+  /** Investor registry owner allowed to approve verifiers */
+  registryOwner?: string;
+}
+
+export class InMemoryBlockchainService implements IBlockchainService {
+  readonly transactions: RecordedTransaction[] = [];
+
+  private account: string | null;
+  private chainId: number;
+  private now: () => number;
+  private guardian: string | null;
+  private votingPeriod: number;
+  private registryOwner: string | null;
+  private verifiers = new Set<string>();
+  private attestations = new Map<string, InMemoryAttestation>();
+  private balances = new Map<string, bigint>();
+  private projects = new Map<string, ProjectState>();
+  private proposals: ProposalState[] = [];
+  private distributions: DistributionState[] = [];
+  private nextFailure: string | null = null;
+
+  constructor(options: InMemoryBlockchainServiceOptions = {}) {
+    this.account = options.account?.toLowerCase() ?? null;
+    this.chainId = options.chainId ?? 5003;
+    this.now = options.now ?? (() => Math.floor(Date.now() / 1000));
+    this.guardian = options.guardian?.toLowerCase() ?? null;
+    this.votingPeriod = options.votingPeriod ?? DEFAULT_VOTING_PERIOD;
+    this.registryOwner = options.registryOwner?.toLowerCase() ?? null;
+  }
+
+  // ============ Test Setup ============
+
+  connect(address: string): void {
+    this.account = address.toLowerCase();
+  }
+
+  disconnect(): void {
+    this.account = null;
+  }
+
+  setBalance(address: string, balance: bigint): void {
+    this.balances.set(address.toLowerCase(), balance);
+  }
+
+  addProject(project: InMemoryProject): void {
+    const { milestones = [], ...rest } = project;
+    this.projects.set(project.address.toLowerCase(), {
+      founderShareBps: ZERO,
+      emergencyRefund: false,
+      ...rest,
+      creator: project.creator.toLowerCase(),
+      milestones: milestones.map((percentage) => ({
+        percentage,
+        status: 'pending',
+        evidenceHash: '',
+        proposalId: null,
+        autoReleased: false,
+        vetoes: new Set(),
+        vetoWeight: ZERO,
+      })),
+      autoRelease: false,
+      releasedAmount: ZERO,
+      refundsPaid: false,
+      pledged: ZERO,
+      claimed: false,
+      founderTokensClaimed: false,
+      pledges: new Map(),
+      tokenBalances: new Map(),
+      tokenSupply: ZERO,
+      delegates: new Map(),
+    });
+  }
+
+  /**
+   * Open a general (non-milestone) proposal, returning its ID
+   */
+  addProposal(projectAddress: string, proposer: string): number {
+    this.getProject(projectAddress);
+    return this.openProposal(projectAddress, proposer.toLowerCase(), null);
+  }
+
+  /**
+   * Milestone state, for assertions
+   */
+  getMilestone(projectAddress: string, milestoneIndex: number): InMemoryMilestone {
+    const { status, evidenceHash, proposalId, autoReleased } = this.getProject(projectAddress).milestones[milestoneIndex];
+    return { status, evidenceHash, proposalId, autoReleased };
+  }
+
+  /**
+   * Latest attestation of an investor, for assertions
+   */
+  getAttestation(investor: string): InMemoryAttestation | null {
+    const attestation = this.attestations.get(investor.toLowerCase());
+    return attestation ? { ...attestation } : null;
+  }
+
+  /**
+   * Make the next write operation fail with the given error
+   */
+  failNextTransaction(error = 'Transaction reverted'): void {
+    this.nextFailure = error;
+  }
+
+  // ============ Wallet Operations ============
+
+  async getConnectedAddress(): Promise<string | null> {
+    return this.account;
+  }
+
+  async getWalletInfo(): Promise<WalletInfo | null> {
+    if (!this.account) return null;
+    return {
+      address: this.account,
+      balance: await this.getBalance(this.account),
+      chainId: this.chainId,
+      isConnected: true,
+    };
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.account !== null;
+  }
+
+  // ============ Balance Operations ============
+
+  async getBalance(address: string): Promise<bigint> {
+    return this.balances.get(address.toLowerCase()) ?? ZERO;
+  }
+
+  async getTokenBalance(address: string, tokenAddress: string): Promise<bigint> {
+    return this.getEquityTokenBalance(tokenAddress, address);
+  }
+
+  // ============ Crowdfunding Operations ============
+
+  async invest(projectAddress: string, amount: bigint): Promise<TransactionResult> {
+    return this.record('invest', projectAddress, amount, (from, project) => {
+      if (this.now() >= project.deadline) return 'Campaign ended';
+      if (amount <= ZERO) return 'Zero amount';
+
+      const balance = this.balances.get(from) ?? ZERO;
+      if (balance < amount) return 'Insufficient balance';
+
+      this.balances.set(from, balance - amount);
+      project.pledges.set(from, (project.pledges.get(from) ?? ZERO) + amount);
+      project.pledged += amount;
+    });
+  }
+
+  async refund(projectAddress: string): Promise<TransactionResult> {
+    return this.record('refund', projectAddress, undefined, (from, project) => {
+      const pledged = project.pledges.get(from) ?? ZERO;
+      if (pledged === ZERO) return 'No pledge';
+
+      const failed = this.now() >= project.deadline && project.pledged < project.goal;
+      if (!failed && !project.emergencyRefund) return 'Refund not available';
+
+      // Refunds burn any equity tokens claimed for the pledge and are pro-rata to the unreleased funds
+      const tokens = project.tokenBalances.get(from) ?? ZERO;
+      const refund = (pledged * (project.pledged - project.releasedAmount)) / project.pledged;
+      project.tokenBalances.set(from, ZERO);
+      project.tokenSupply -= tokens;
+      project.pledges.set(from, ZERO);
+      if (!failed) project.refundsPaid = true;
+      this.balances.set(from, (this.balances.get(from) ?? ZERO) + refund);
+    });
+  }
+
+  async claimTokens(projectAddress: string): Promise<TransactionResult> {
+    return this.record('claimTokens', projectAddress, undefined, (from, project) => {
+      if (!this.isSuccessful(project)) return 'Campaign not successful';
+
+      const pledged = project.pledges.get(from) ?? ZERO;
+      if (pledged === ZERO) return 'No pledge';
+      if ((project.tokenBalances.get(from) ?? ZERO) > ZERO) return 'Tokens already claimed';
+
+      project.tokenBalances.set(from, pledged);
+      project.tokenSupply += pledged;
+    });
+  }
+
+  async withdrawFunds(projectAddress: string): Promise<TransactionResult> {
+    return this.record('withdrawFunds', projectAddress, undefined, (from, project) => {
+      if (from !== project.creator) return 'Not campaign creator';
+      if (!this.isSuccessful(project)) return 'Campaign not successful';
+      if (project.claimed) return 'Already claimed';
+
+      const fee = (project.pledged * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
+      project.claimed = true;
+      this.balances.set(from, (this.balances.get(from) ?? ZERO) + project.pledged - fee);
+    });
+  }
+
+  async claimFounderTokens(projectAddress: string): Promise<TransactionResult> {
+    return this.record('claimFounderTokens', projectAddress, undefined, (from, project) => {
+      if (from !== project.creator) return 'Not campaign creator';
+      if (!this.isSuccessful(project)) return 'Campaign not successful';
+      if (project.founderShareBps === ZERO) return 'No founder share';
+      if (project.founderTokensClaimed) return 'Founder tokens already claimed';
+
+      const tokens = this.founderTokens(project);
+      project.founderTokensClaimed = true;
+      project.tokenBalances.set(from, (project.tokenBalances.get(from) ?? ZERO) + tokens);
+      project.tokenSupply += tokens;
+    });
+  }
+
+  async getProjectFundRaised(projectAddress: string): Promise<bigint> {
+    return this.getProject(projectAddress).pledged;
+  }
+
+  async getProjectInvestorCount(projectAddress: string): Promise<number> {
+    const project = this.getProject(projectAddress);
+    return [...project.pledges.values()].filter((amount) => amount > ZERO).length;
+  }
+
+  async getInvestorContribution(projectAddress: string, investor: string): Promise<bigint> {
+    return this.getProject(projectAddress).pledges.get(investor.toLowerCase()) ?? ZERO;
+  }
+
+  // ============ Milestone Operations ============
+
+  async submitMilestone(projectAddress: string, milestoneIndex: number, evidenceHash: string): Promise<TransactionResult> {
+    return this.record('submitMilestone', projectAddress, undefined, (from, project) => {
+      if (from !== project.creator) return 'Not campaign creator';
+      if (!this.isSuccessful(project)) return 'Campaign not successful';
+      if (project.refundsPaid) return 'Emergency refund active';
+
+      const milestone = project.milestones[milestoneIndex];
+      if (!milestone) return 'Milestone not found';
+      if (milestone.status !== 'pending' && milestone.status !== 'rejected') return 'Milestone already submitted';
+
+      milestone.status = 'submitted';
+      milestone.evidenceHash = evidenceHash;
+      milestone.proposalId = this.openProposal(projectAddress, from, milestoneIndex);
+    });
+  }
+
+  async releaseMilestoneFunds(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.record('releaseMilestoneFunds', projectAddress, undefined, (from, project) => {
+      if (from !== project.creator && !project.autoRelease) return 'Not campaign creator';
+
+      const milestone = project.milestones[milestoneIndex];
+      if (!milestone) return 'Milestone not found';
+      if (milestone.status !== 'approved') return 'Milestone not approved';
+      if (project.refundsPaid) return 'Emergency refund active';
+
+      this.release(project, milestone);
+    });
+  }
+
+  async setAutoRelease(projectAddress: string, enabled: boolean): Promise<TransactionResult> {
+    return this.record('setAutoRelease', projectAddress, undefined, (from, project) => {
+      if (project.milestones.length === 0) return 'Not a milestone campaign';
+      if (from !== project.creator) return 'Not campaign creator';
+
+      project.autoRelease = enabled;
+    });
+  }
+
+  async vetoMilestoneRelease(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.record('vetoMilestoneRelease', projectAddress, undefined, (from, project) => {
+      if (from !== this.guardian) return 'Not guardian';
+
+      const milestone = project.milestones[milestoneIndex];
+      if (!milestone) return 'Milestone not found';
+      if (milestone.status !== 'approved') return 'Milestone not approved';
+
+      this.reject(project, milestone);
+    });
+  }
+
+  async signalReleaseVeto(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.record('signalReleaseVeto', projectAddress, undefined, (from, project) => {
+      const milestone = project.milestones[milestoneIndex];
+      if (!milestone) return 'Milestone not found';
+      if (milestone.status !== 'approved') return 'Milestone not approved';
+      if (milestone.vetoes.has(from)) return 'Already vetoed';
+
+      const weight = this.votingPower(project, from);
+      if (weight === ZERO) return 'No veto power';
+
+      milestone.vetoes.add(from);
+      milestone.vetoWeight += weight;
+      if (milestone.vetoWeight * BPS_DENOMINATOR >= project.tokenSupply * HOLDER_VETO_BPS) {
+        this.reject(project, milestone);
+      }
+    });
+  }
+
+  // ============ Governance Operations ============
+
+  async castVote(proposalId: number, support: number, releaseBps?: bigint): Promise<TransactionResult> {
+    return this.recordProposal('castVote', proposalId, (from, proposal, project) => {
+      if (this.now() >= proposal.endTime) return 'Voting ended';
+      if (support !== VOTE_AGAINST && support !== VOTE_FOR && support !== VOTE_ABSTAIN) return 'Invalid vote type';
+      if (releaseBps !== undefined && releaseBps < BPS_DENOMINATOR) {
+        if (support !== VOTE_FOR || proposal.milestoneIndex === null) return 'Release share only applies to milestone for votes';
+        if (releaseBps <= ZERO) return 'Invalid release share';
+      }
+
+      const weight = this.votingPower(project, from);
+      if (weight === ZERO) return 'No voting power';
+
+      // A later vote replaces the earlier one while voting is open
+      proposal.votes.set(from, { support, weight });
+    });
+  }
+
+  async executeProposal(proposalId: number): Promise<TransactionResult> {
+    return this.recordProposal('executeProposal', proposalId, (_from, proposal, project) => {
+      if (this.now() < proposal.endTime) return 'Voting not ended';
+
+      proposal.executed = true;
+      if (proposal.milestoneIndex === null) return;
+
+      const milestone = project.milestones[proposal.milestoneIndex];
+      let forWeight = ZERO;
+      let againstWeight = ZERO;
+      for (const vote of proposal.votes.values()) {
+        if (vote.support === VOTE_FOR) forWeight += vote.weight;
+        if (vote.support === VOTE_AGAINST) againstWeight += vote.weight;
+      }
+
+      if (forWeight <= againstWeight) {
+        this.reject(project, milestone);
+        return;
+      }
+
+      milestone.status = 'approved';
+      if (project.autoRelease) {
+        milestone.autoReleased = true;
+        this.release(project, milestone);
+      }
+    });
+  }
+
+  async cancelProposal(proposalId: number): Promise<TransactionResult> {
+    return this.recordProposal('cancelProposal', proposalId, (from, proposal, project) => {
+      // Milestone proposals belong to the campaign creator
+      const owner = proposal.milestoneIndex === null ? proposal.proposer : project.creator;
+      if (from !== owner) return 'Not proposer';
+
+      if (proposal.milestoneIndex !== null) {
+        // A finished vote must be executed so rejections cannot be dodged
+        if (this.now() >= proposal.endTime) return 'Voting ended';
+        project.milestones[proposal.milestoneIndex].status = 'pending';
+      }
+      proposal.canceled = true;
+    });
+  }
+
+  // ============ Dividend Operations ============
+
+  async createDistribution(projectAddress: string, amount: bigint): Promise<TransactionResult> {
+    return this.record('createDistribution', projectAddress, amount, (from, project) => {
+      if (from !== project.creator) return 'Not campaign creator';
+      if (!this.isSuccessful(project)) return 'Campaign not successful';
+      if (amount <= ZERO) return 'Zero amount';
+
+      const balance = this.balances.get(from) ?? ZERO;
+      if (balance < amount) return 'Insufficient balance';
+
+      this.balances.set(from, balance - amount);
+      this.distributions.push({
+        projectAddress,
+        amount,
+        claimedAmount: ZERO,
+        createdAt: this.now(),
+        reclaimed: false,
+        shares: this.entitlements(project),
+        totalShares: project.pledged + this.founderTokens(project),
+        claimed: new Set(),
+      });
+    });
+  }
+
+  async claimDividend(distributionId: number): Promise<TransactionResult> {
+    return this.recordDistribution('claimDividend', distributionId, (from, distribution) => {
+      if (distribution.claimed.has(from)) return 'Already claimed';
+
+      const share = (distribution.amount * (distribution.shares.get(from) ?? ZERO)) / distribution.totalShares;
+      if (share === ZERO) return 'Nothing to claim';
+
+      distribution.claimed.add(from);
+      distribution.claimedAmount += share;
+      this.balances.set(from, (this.balances.get(from) ?? ZERO) + share);
+    });
+  }
+
+  async reclaimUnclaimedDividend(distributionId: number): Promise<TransactionResult> {
+    return this.recordDistribution('reclaimUnclaimedDividend', distributionId, (from, distribution, project) => {
+      if (from !== project.creator) return 'Not campaign creator';
+      if (this.now() < distribution.createdAt + DIVIDEND_CLAIM_PERIOD) return 'Claim period active';
+
+      distribution.reclaimed = true;
+      const remaining = distribution.amount - distribution.claimedAmount;
+      this.balances.set(from, (this.balances.get(from) ?? ZERO) + remaining);
+    });
+  }
+
+  // ============ Investor Registry Operations ============
+
+  async issueAttestation(investor: string, tier: InvestorTier, expiresAt: number): Promise<TransactionResult> {
+    return this.commit('issueAttestation', '', undefined, (from) => {
+      if (!this.verifiers.has(from)) return 'Not verifier';
+      if (/^0x0{40}$/.test(investor)) return 'Invalid investor';
+      if (expiresAt <= this.now()) return 'Invalid expiry';
+
+      this.attestations.set(investor.toLowerCase(), { tier, verifier: from, expiresAt, revoked: false });
+    });
+  }
+
+  async revokeAttestation(investor: string): Promise<TransactionResult> {
+    return this.commit('revokeAttestation', '', undefined, (from) => {
+      if (!this.verifiers.has(from) && from !== this.registryOwner) return 'Not verifier';
+
+      const attestation = this.attestations.get(investor.toLowerCase());
+      if (!attestation || attestation.revoked) return 'No attestation';
+
+      attestation.revoked = true;
+    });
+  }
+
+  async setVerifier(verifier: string, allowed: boolean): Promise<TransactionResult> {
+    return this.commit('setVerifier', '', undefined, (from) => {
+      if (from !== this.registryOwner) return 'Not owner';
+
+      if (allowed) {
+        this.verifiers.add(verifier.toLowerCase());
+      } else {
+        this.verifiers.delete(verifier.toLowerCase());
+      }
+    });
+  }
+
+  // ============ Equity Token Operations ============
+
+  async getEquityTokenBalance(tokenAddress: string, investor: string): Promise<bigint> {
+    return this.getProject(tokenAddress).tokenBalances.get(investor.toLowerCase()) ?? ZERO;
+  }
+
+  async getEquityTokenInfo(tokenAddress: string): Promise<{ name: string; symbol: string; totalSupply: bigint }> {
+    const { name, symbol, tokenSupply } = this.getProject(tokenAddress);
+    return { name, symbol, totalSupply: tokenSupply };
+  }
+
+  async delegateVotes(tokenAddress: string, delegatee: string): Promise<TransactionResult> {
+    return this.record('delegateVotes', tokenAddress, undefined, (from, project) => {
+      const target = delegatee.toLowerCase();
+      if (target === from) {
+        project.delegates.delete(from);
+      } else {
+        project.delegates.set(from, target);
+      }
+    });
+  }
+
+  // ============ Transaction Utilities ============
+
+  async waitForTransaction(hash: string): Promise<TransactionResult> {
+    const transaction = this.findTransaction(hash);
+    return transaction?.result ?? { success: false, transactionHash: hash, error: 'Transaction not found' };
+  }
+
+  async getTransactionReceipt(hash: string): Promise<unknown> {
+    return this.findTransaction(hash) ?? null;
+  }
+
+  async estimateGas(): Promise<bigint> {
+    return BigInt(100000);
+  }
+
+  // ============ Internal ============
+
+  private getProject(projectAddress: string): ProjectState {
+    const project = this.projects.get(projectAddress.toLowerCase());
+    if (!project) throw new Error(`No campaign found for project ${projectAddress}`);
+    return project;
+  }
+
+  private openProposal(projectAddress: string, proposer: string, milestoneIndex: number | null): number {
+    this.proposals.push({
+      projectAddress,
+      proposer,
+      milestoneIndex,
+      endTime: this.now() + this.votingPeriod,
+      executed: false,
+      canceled: false,
+      votes: new Map(),
+    });
+    return this.proposals.length - 1;
+  }
+
+  private release(project: ProjectState, milestone: MilestoneState): void {
+    const amount = (project.pledged * milestone.percentage) / BPS_DENOMINATOR;
+    const fee = (amount * PLATFORM_FEE_BPS) / BPS_DENOMINATOR;
+    milestone.status = 'released';
+    project.releasedAmount += amount;
+    this.balances.set(project.creator, (this.balances.get(project.creator) ?? ZERO) + amount - fee);
+  }
+
+  // A rejected milestone opens emergency refunds of the unreleased funds
+  private reject(project: ProjectState, milestone: MilestoneState): void {
+    milestone.status = 'rejected';
+    project.emergencyRefund = true;
+  }
+
+  // Balances of the holders who vote through the account, including its own unless delegated
+  private votingPower(project: ProjectState, account: string): bigint {
+    let votes = ZERO;
+    for (const [holder, balance] of project.tokenBalances) {
+      if ((project.delegates.get(holder) ?? holder) === account) votes += balance;
+    }
+    return votes;
+  }
+
+  private founderTokens(project: ProjectState): bigint {
+    return (project.pledged * project.founderShareBps) / BPS_DENOMINATOR;
+  }
+
+  // Token balances plus the pledges and founder share the escrow has not minted yet
+  private entitlements(project: ProjectState): Map<string, bigint> {
+    const shares = new Map(project.tokenBalances);
+    for (const [investor, pledged] of project.pledges) {
+      if ((shares.get(investor) ?? ZERO) === ZERO) shares.set(investor, pledged);
+    }
+    if (!project.founderTokensClaimed) {
+      shares.set(project.creator, (shares.get(project.creator) ?? ZERO) + this.founderTokens(project));
+    }
+    return shares;
+  }
+
+  private isSuccessful(project: ProjectState): boolean {
+    return this.now() >= project.deadline && project.pledged >= project.goal;
+  }
+
+  private findTransaction(hash: string): RecordedTransaction | undefined {
+    return this.transactions.find((transaction) => transaction.hash === hash.toLowerCase());
+  }
+
+  /**
+   * Apply a write operation on an open proposal
+   */
+  private async recordProposal(
+    operation: string,
+    proposalId: number,
+    apply: (from: string, proposal: ProposalState, project: ProjectState) => string | void
+  ): Promise<TransactionResult> {
+    const proposal = this.proposals[proposalId];
+    if (!proposal) {
+      return this.record(operation, '', undefined, () => undefined, 'Proposal not found');
+    }
+
+    return this.record(operation, proposal.projectAddress, undefined, (from, project) => {
+      if (proposal.canceled) return 'Proposal canceled';
+      if (proposal.executed) return 'Already executed';
+      return apply(from, proposal, project);
+    });
+  }
+
+  /**
+   * Apply a write operation on an open distribution
+   */
+  private async recordDistribution(
+    operation: string,
+    distributionId: number,
+    apply: (from: string, distribution: DistributionState, project: ProjectState) => string | void
+  ): Promise<TransactionResult> {
+    const distribution = this.distributions[distributionId];
+    if (!distribution) {
+      return this.record(operation, '', undefined, () => undefined, 'Distribution not found');
+    }
+
+    return this.record(operation, distribution.projectAddress, undefined, (from, project) => {
+      if (distribution.reclaimed) return 'Distribution closed';
+      return apply(from, distribution, project);
+    });
+  }
+
+  /**
+   * Apply a write operation on a project
+   * @param notFound - Revert reason when the project does not exist
+   */
+  private async record(
+    operation: string,
+    projectAddress: string,
+    amount: bigint | undefined,
+    apply: (from: string, project: ProjectState) => string | void,
+    notFound = `No campaign found for project ${projectAddress}`
+  ): Promise<TransactionResult> {
+    return this.commit(operation, projectAddress, amount, (from) => {
+      const project = this.projects.get(projectAddress.toLowerCase());
+      return project ? apply(from, project) : notFound;
+    });
+  }
+
+  /**
+   * Apply a write operation atomically and record it like a mined transaction
+   * @param apply - Returns a revert reason, or nothing on success
+   */
+  private async commit(
+    operation: string,
+    projectAddress: string,
+    amount: bigint | undefined,
+    apply: (from: string) => string | void
+  ): Promise<TransactionResult> {
+    if (!this.account) {
+      return { success: false, transactionHash: '', error: 'Wallet not connected' };
+    }
+
+    const hash = `0x${(this.transactions.length + 1).toString(16).padStart(64, '0')}`;
+    const failure = this.nextFailure;
+    this.nextFailure = null;
+
+    const error = failure ?? apply(this.account);
+    const result: TransactionResult = error
+      ? { success: false, transactionHash: hash, error }
+      : { success: true, transactionHash: hash, blockNumber: this.transactions.length + 1 };
+
+    this.transactions.push({ hash, operation, from: this.account, projectAddress, amount, result });
+    return result;
+  }
+}
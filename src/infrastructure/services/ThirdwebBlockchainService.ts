@@ -0,0 +1,443 @@
+/**
+ * Thirdweb Blockchain Service - Infrastructure Layer
+ * Implements IBlockchainService against MilestoneEscrow, GovernanceV2, DividendDistributor,
+ * InvestorRegistry and per-campaign EquityTokens. A project is addressed by its equity token, which records its escrow campaign ID.
+ */
+
+import { estimateGas, sendTransaction, waitForReceipt } from 'thirdweb';
+import { eth_getBalance, eth_getTransactionReceipt, getRpcClient } from 'thirdweb/rpc';
+import type { Account } from 'thirdweb/wallets';
+import type { Chain } from 'thirdweb/chains';
+import { client, hardhatLocal, mantleSepolia } from '../blockchain/client';
+import { EquityTokenContract } from '../blockchain/contracts/EquityTokenContract';
+import { EscrowPledgeHistory } from '../repositories/EscrowPledgeHistory';
+import {
+  getCampaign,
+  getPledge,
+  getPaymentTokenAllowance,
+  isNativePaymentToken,
+  preparePledge,
+  preparePledgeToken,
+  prepareApprovePaymentToken,
+  prepareRefund,
+  prepareEmergencyRefund,
+  prepareClaim,
+  prepareClaimTokens,
+  prepareClaimFounderTokens,
+  type CampaignData,
+} from '@/lib/contracts/escrow';
+import {
+  prepareSubmitMilestoneForApproval,
+  prepareReleaseMilestoneFunds,
+  prepareSetAutoRelease,
+  prepareVetoMilestoneRelease,
+  prepareSignalReleaseVeto,
+} from '@/lib/contracts/milestones';
+import {
+  prepareCastVote,
+  prepareVoteWithReleaseShare,
+  prepareExecuteProposal,
+  prepareCancelProposal,
+} from '@/lib/contracts/governance';
+import {
+  prepareApproveDistributionToken,
+  prepareCreateDistribution,
+  prepareClaimDividend,
+  prepareReclaimUnclaimed,
+} from '@/lib/contracts/dividends';
+import { prepareDelegate } from '@/lib/contracts/equity-token';
+import {
+  prepareIssueAttestation,
+  prepareRevokeAttestation,
+  prepareSetVerifier,
+  type RegistryNetwork,
+} from '@/lib/contracts/registry';
+import { InvestorTier as RegistryTier } from '@/lib/contracts/compliance';
+import { VoteType } from '@/lib/contracts/types';
+import type {
+  IBlockchainService,
+  TransactionResult,
+  WalletInfo,
+} from '@/src/application/ports/services';
+import type { InvestorTier } from '@/src/domain/entities';
+
+export type InvestStep = 'approving' | 'pledging';
+
+// Any prepared transaction, whatever ABI its contract was created with
+type PreparedTransaction = Parameters<typeof sendTransaction>[0]['transaction'];
+
+export interface ThirdwebBlockchainServiceOptions {
+  /** Connected wallet account; read operations work without one */
+  account?: Account | null;
+  chain?: Chain;
+  /** Shared with the on-chain repositories to avoid reading the same logs twice */
+  history?: EscrowPledgeHistory;
+  /** Progress callback for stablecoin pledges, which need an approval first */
+  onInvestStep?: (step: InvestStep) => void;
+}
+
+export class ThirdwebBlockchainService implements IBlockchainService {
+  private account: Account | null;
+  private chain: Chain;
+  private history: EscrowPledgeHistory;
+  private onInvestStep?: (step: InvestStep) => void;
+  // Token -> campaign links are immutable once deployed
+  private campaignIds = new Map<string, number>();
+
+  constructor(options: ThirdwebBlockchainServiceOptions = {}) {
+    this.account = options.account ?? null;
+    this.chain = options.chain ?? mantleSepolia;
+    this.history = options.history ?? new EscrowPledgeHistory({ chain: this.chain });
+    this.onInvestStep = options.onInvestStep;
+  }
+
+  // ============ Wallet Operations ============
+
+  async getConnectedAddress(): Promise<string | null> {
+    return this.account?.address ?? null;
+  }
+
+  async getWalletInfo(): Promise<WalletInfo | null> {
+    if (!this.account) return null;
+
+    return {
+      address: this.account.address,
+      balance: await this.getBalance(this.account.address),
+      chainId: this.chain.id,
+      isConnected: true,
+    };
+  }
+
+  async isConnected(): Promise<boolean> {
+    return this.account !== null;
+  }
+
+  // ============ Balance Operations ============
+
+  async getBalance(address: string): Promise<bigint> {
+    return eth_getBalance(this.rpc(), { address });
+  }
+
+  async getTokenBalance(address: string, tokenAddress: string): Promise<bigint> {
+    return new EquityTokenContract(tokenAddress, this.chain).getBalance(address);
+  }
+
+  // ============ Crowdfunding Operations ============
+
+  /**
+   * Pledge to a campaign; stablecoin campaigns approve the escrow first when needed
+   */
+  async invest(projectAddress: string, amount: bigint): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id, campaign } = await this.resolveCampaign(projectAddress);
+
+      if (!isNativePaymentToken(campaign.paymentToken)) {
+        const allowance = await getPaymentTokenAllowance(campaign.paymentToken, account.address);
+        if (allowance < amount) {
+          this.onInvestStep?.('approving');
+          const approval = await this.send(account, prepareApprovePaymentToken(campaign.paymentToken, amount));
+          if (!approval.success) return approval;
+        }
+      }
+
+      this.onInvestStep?.('pledging');
+      return this.send(account, this.prepareInvest(id, campaign, amount));
+    });
+  }
+
+  /**
+   * Refund a pledge: the standard refund for failed campaigns, or the pro-rata
+   * emergency refund for funded milestone campaigns
+   */
+  async refund(projectAddress: string): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id, campaign } = await this.resolveCampaign(projectAddress);
+      return this.send(account, this.prepareRefund(id, campaign));
+    });
+  }
+
+  async claimTokens(projectAddress: string): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareClaimTokens(id));
+    });
+  }
+
+  async withdrawFunds(projectAddress: string): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareClaim(id));
+    });
+  }
+
+  async claimFounderTokens(projectAddress: string): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareClaimFounderTokens(id));
+    });
+  }
+
+  async getProjectFundRaised(projectAddress: string): Promise<bigint> {
+    const { campaign } = await this.resolveCampaign(projectAddress);
+    return campaign.pledged;
+  }
+
+  async getProjectInvestorCount(projectAddress: string): Promise<number> {
+    const [{ id }] = await Promise.all([this.resolveCampaign(projectAddress), this.history.sync()]);
+    return this.history.getInvestorCounts().get(id) ?? 0;
+  }
+
+  async getInvestorContribution(projectAddress: string, investor: string): Promise<bigint> {
+    const { id } = await this.resolveCampaign(projectAddress);
+    return getPledge(id, investor);
+  }
+
+  // ============ Milestone Operations ============
+
+  async submitMilestone(projectAddress: string, milestoneIndex: number, evidenceHash: string): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(
+        account,
+        prepareSubmitMilestoneForApproval(id, milestoneIndex, evidenceHash as `0x${string}`)
+      );
+    });
+  }
+
+  async releaseMilestoneFunds(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareReleaseMilestoneFunds(id, milestoneIndex));
+    });
+  }
+
+  async setAutoRelease(projectAddress: string, enabled: boolean): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareSetAutoRelease(id, enabled));
+    });
+  }
+
+  async vetoMilestoneRelease(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareVetoMilestoneRelease(id, milestoneIndex));
+    });
+  }
+
+  async signalReleaseVeto(projectAddress: string, milestoneIndex: number): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id } = await this.resolveCampaign(projectAddress);
+      return this.send(account, prepareSignalReleaseVeto(id, milestoneIndex));
+    });
+  }
+
+  // ============ Governance Operations ============
+
+  /**
+   * Cast or change a vote; a partial release share is only sent with for votes
+   */
+  async castVote(proposalId: number, support: number, releaseBps?: bigint): Promise<TransactionResult> {
+    return this.execute((account) =>
+      this.send(
+        account,
+        support === VoteType.For && releaseBps !== undefined && releaseBps < BigInt(10000)
+          ? prepareVoteWithReleaseShare(proposalId, releaseBps)
+          : prepareCastVote(proposalId, support as VoteType)
+      )
+    );
+  }
+
+  async executeProposal(proposalId: number): Promise<TransactionResult> {
+    return this.execute((account) => this.send(account, prepareExecuteProposal(proposalId)));
+  }
+
+  async cancelProposal(proposalId: number): Promise<TransactionResult> {
+    return this.execute((account) => this.send(account, prepareCancelProposal(proposalId)));
+  }
+
+  // ============ Dividend Operations ============
+
+  /**
+   * Deposit revenue in the campaign's payment token; stablecoins are approved first
+   */
+  async createDistribution(projectAddress: string, amount: bigint): Promise<TransactionResult> {
+    return this.execute(async (account) => {
+      const { id, campaign } = await this.resolveCampaign(projectAddress);
+
+      if (!isNativePaymentToken(campaign.paymentToken)) {
+        const approval = await this.send(account, prepareApproveDistributionToken(campaign.paymentToken, amount));
+        if (!approval.success) return approval;
+      }
+
+      return this.send(account, prepareCreateDistribution(id, campaign.paymentToken, amount));
+    });
+  }
+
+  async claimDividend(distributionId: number): Promise<TransactionResult> {
+    return this.execute((account) => this.send(account, prepareClaimDividend(distributionId)));
+  }
+
+  async reclaimUnclaimedDividend(distributionId: number): Promise<TransactionResult> {
+    return this.execute((account) => this.send(account, prepareReclaimUnclaimed(distributionId)));
+  }
+
+  // ============ Investor Registry Operations ============
+
+  async issueAttestation(investor: string, tier: InvestorTier, expiresAt: number): Promise<TransactionResult> {
+    const registryTier = tier === 'professional' ? RegistryTier.Professional : RegistryTier.Retail;
+    return this.execute((account) =>
+      this.send(account, prepareIssueAttestation(investor, registryTier, expiresAt, this.registryNetwork()))
+    );
+  }
+
+  async revokeAttestation(investor: string): Promise<TransactionResult> {
+    return this.execute((account) =>
+      this.send(account, prepareRevokeAttestation(investor, this.registryNetwork()))
+    );
+  }
+
+  async setVerifier(verifier: string, allowed: boolean): Promise<TransactionResult> {
+    return this.execute((account) =>
+      this.send(account, prepareSetVerifier(verifier, allowed, this.registryNetwork()))
+    );
+  }
+
+  // ============ Equity Token Operations ============
+
+  async getEquityTokenBalance(tokenAddress: string, investor: string): Promise<bigint> {
+    return new EquityTokenContract(tokenAddress, this.chain).getBalance(investor);
+  }
+
+  async getEquityTokenInfo(tokenAddress: string): Promise<{ name: string; symbol: string; totalSupply: bigint }> {
+    const { name, symbol, totalSupply } = await new EquityTokenContract(tokenAddress, this.chain).getTokenInfo();
+    return { name, symbol, totalSupply };
+  }
+
+  async delegateVotes(tokenAddress: string, delegatee: string): Promise<TransactionResult> {
+    return this.execute((account) => this.send(account, prepareDelegate(tokenAddress, delegatee)));
+  }
+
+  // ============ Transaction Utilities ============
+
+  async waitForTransaction(hash: string): Promise<TransactionResult> {
+    try {
+      const receipt = await waitForReceipt({
+        client,
+        chain: this.chain,
+        transactionHash: hash as `0x${string}`,
+      });
+      return {
+        success: receipt.status === 'success',
+        transactionHash: hash,
+        blockNumber: Number(receipt.blockNumber),
+        error: receipt.status === 'success' ? undefined : 'Transaction reverted',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        transactionHash: hash,
+        error: error instanceof Error ? error.message : 'Failed to wait for transaction',
+      };
+    }
+  }
+
+  async getTransactionReceipt(hash: string): Promise<unknown> {
+    return eth_getTransactionReceipt(this.rpc(), { hash: hash as `0x${string}` });
+  }
+
+  /**
+   * Estimate gas for a crowdfunding operation
+   * @param operation - invest, refund, claimTokens, withdrawFunds or claimFounderTokens
+   * @param params - [projectAddress] plus the amount for invest
+   */
+  async estimateGas(operation: string, params: unknown[]): Promise<bigint> {
+    const [projectAddress, amount] = params as [string, bigint | undefined];
+    const { id, campaign } = await this.resolveCampaign(projectAddress);
+
+    let transaction: PreparedTransaction;
+    switch (operation) {
+      case 'invest':
+        transaction = this.prepareInvest(id, campaign, amount ?? BigInt(0));
+        break;
+      case 'refund':
+        transaction = this.prepareRefund(id, campaign);
+        break;
+      case 'claimTokens':
+        transaction = prepareClaimTokens(id);
+        break;
+      case 'withdrawFunds':
+        transaction = prepareClaim(id);
+        break;
+      case 'claimFounderTokens':
+        transaction = prepareClaimFounderTokens(id);
+        break;
+      default:
+        throw new Error(`Unsupported operation: ${operation}`);
+    }
+
+    return estimateGas({ transaction, from: this.account ?? undefined });
+  }
+
+  // ============ Internal ============
+
+  private rpc() {
+    return getRpcClient({ client, chain: this.chain });
+  }
+
+  // Admin tooling also runs the registry on a local hardhat node
+  private registryNetwork(): RegistryNetwork {
+    return this.chain.id === hardhatLocal.id ? 'local' : 'sepolia';
+  }
+
+  private async resolveCampaign(projectAddress: string): Promise<{ id: number; campaign: CampaignData }> {
+    const key = projectAddress.toLowerCase();
+    let id = this.campaignIds.get(key);
+    if (id === undefined) {
+      id = await new EquityTokenContract(projectAddress, this.chain).getCampaignId();
+      this.campaignIds.set(key, id);
+    }
+
+    const campaign = await getCampaign(id);
+    if (!campaign || campaign.equityToken.toLowerCase() !== key) {
+      throw new Error(`No campaign found for project ${projectAddress}`);
+    }
+    return { id, campaign };
+  }
+
+  private prepareInvest(id: number, campaign: CampaignData, amount: bigint): PreparedTransaction {
+    return isNativePaymentToken(campaign.paymentToken)
+      ? preparePledge(id, amount)
+      : preparePledgeToken(id, amount);
+  }
+
+  private prepareRefund(id: number, campaign: CampaignData): PreparedTransaction {
+    return campaign.hasMilestones && campaign.pledged >= campaign.goal
+      ? prepareEmergencyRefund(id)
+      : prepareRefund(id);
+  }
+
+  /**
+   * Run a write operation, reporting failures as a TransactionResult
+   */
+  private async execute(operation: (account: Account) => Promise<TransactionResult>): Promise<TransactionResult> {
+    if (!this.account) {
+      return { success: false, transactionHash: '', error: 'Wallet not connected' };
+    }
+
+    try {
+      return await operation(this.account);
+    } catch (error) {
+      return {
+        success: false,
+        transactionHash: '',
+        error: error instanceof Error ? error.message : 'Transaction failed',
+      };
+    }
+  }
+
+  private async send(account: Account, transaction: PreparedTransaction): Promise<TransactionResult> {
+    const { transactionHash } = await sendTransaction({ transaction, account });
+    return this.waitForTransaction(transactionHash);
+  }
+}
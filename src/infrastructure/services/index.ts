@@ -12,3 +12,15 @@ export type {
   ProjectFundingStatus,
   InvestorPosition,
 } from './CrowdfundingService';
+
+export { ThirdwebBlockchainService } from './ThirdwebBlockchainService';
+export type { ThirdwebBlockchainServiceOptions, InvestStep } from './ThirdwebBlockchainService';
+
+export { InMemoryBlockchainService } from './InMemoryBlockchainService';
+export type {
+  InMemoryBlockchainServiceOptions,
+  InMemoryProject,
+  InMemoryMilestone,
+  InMemoryMilestoneStatus,
+  RecordedTransaction,
+} from './InMemoryBlockchainService';
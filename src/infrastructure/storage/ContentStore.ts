@@ -0,0 +1,22 @@
+/**
+ * Content Store - Infrastructure Layer
+ * Content-addressed storage for off-chain documents, keyed by their SHA-256 hash
+ */
+
+import { createHash } from 'crypto';
+
+export interface ContentStore {
+  /**
+   * Store content and return its SHA-256 hash as a 0x-prefixed bytes32
+   */
+  put(content: string): Promise<`0x${string}`>;
+
+  /**
+   * Load content by hash; null if the store does not hold it
+   */
+  get(hash: `0x${string}`): Promise<string | null>;
+}
+
+export function sha256Hex(content: string): `0x${string}` {
+  return `0x${createHash('sha256').update(content, 'utf8').digest('hex')}`;
+}
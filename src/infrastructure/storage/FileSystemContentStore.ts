@@ -0,0 +1,32 @@
+/**
+ * File System Content Store - Infrastructure Layer
+ * Keeps each document as <hash>.json in a local directory
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { sha256Hex, type ContentStore } from './ContentStore';
+
+export class FileSystemContentStore implements ContentStore {
+  constructor(private readonly directory: string) {}
+
+  async put(content: string): Promise<`0x${string}`> {
+    const hash = sha256Hex(content);
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.pathFor(hash), content, 'utf8');
+    return hash;
+  }
+
+  async get(hash: `0x${string}`): Promise<string | null> {
+    try {
+      return await fs.readFile(this.pathFor(hash), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private pathFor(hash: `0x${string}`): string {
+    return path.join(this.directory, `${hash.slice(2).toLowerCase()}.json`);
+  }
+}
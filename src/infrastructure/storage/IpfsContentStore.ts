@@ -0,0 +1,79 @@
+/**
+ * IPFS Content Store - Infrastructure Layer
+ * Stores documents through an IPFS (Kubo-compatible) HTTP API as single raw blocks,
+ * so the CIDv1 is derived directly from the SHA-256 hash recorded on-chain.
+ */
+
+import { sha256Hex, type ContentStore } from './ContentStore';
+
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567';
+
+// CIDv1 prefix: version 1, raw codec (0x55), sha2-256 multihash (0x12) of 32 bytes
+const CID_PREFIX = [0x01, 0x55, 0x12, 0x20];
+
+/**
+ * Derive the base32 CIDv1 of a raw block from its SHA-256 hash
+ */
+export function cidFromHash(hash: `0x${string}`): string {
+  const digest = hash.slice(2).match(/../g)!.map((byte) => parseInt(byte, 16));
+  const bytes = [...CID_PREFIX, ...digest];
+
+  let bits = 0;
+  let value = 0;
+  let encoded = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      encoded += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    encoded += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return `b${encoded}`;
+}
+
+export class IpfsContentStore implements ContentStore {
+  /**
+   * @param apiUrl IPFS HTTP API base URL, e.g. http://127.0.0.1:5001
+   * @param gatewayUrl IPFS gateway base URL, e.g. http://127.0.0.1:8080
+   */
+  constructor(
+    private readonly apiUrl: string,
+    private readonly gatewayUrl: string
+  ) {}
+
+  async put(content: string): Promise<`0x${string}`> {
+    const hash = sha256Hex(content);
+
+    const form = new FormData();
+    form.append('file', new Blob([content], { type: 'application/json' }));
+
+    const response = await fetch(
+      `${this.apiUrl}/api/v0/add?cid-version=1&raw-leaves=true&pin=true`,
+      { method: 'POST', body: form }
+    );
+    if (!response.ok) {
+      throw new Error(`IPFS add failed with status ${response.status}`);
+    }
+
+    const { Hash: cid } = (await response.json()) as { Hash: string };
+    if (cid !== cidFromHash(hash)) {
+      throw new Error(`IPFS returned CID ${cid}, expected a single raw block`);
+    }
+
+    return hash;
+  }
+
+  async get(hash: `0x${string}`): Promise<string | null> {
+    const response = await fetch(`${this.gatewayUrl}/ipfs/${cidFromHash(hash)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`IPFS gateway request failed with status ${response.status}`);
+    }
+    return response.text();
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Content Storage - Public API
+ * Select the backend with METADATA_STORE=filesystem (default) or METADATA_STORE=ipfs
+ */
+
+import { FileSystemContentStore } from './FileSystemContentStore';
+import { IpfsContentStore } from './IpfsContentStore';
+import type { ContentStore } from './ContentStore';
+
+export { type ContentStore, sha256Hex } from './ContentStore';
+export { FileSystemContentStore } from './FileSystemContentStore';
+export { IpfsContentStore, cidFromHash } from './IpfsContentStore';
+
+export const DEFAULT_METADATA_DIR = 'data/metadata';
+
+let contentStore: ContentStore | null = null;
+
+export function getContentStore(): ContentStore {
+  if (!contentStore) {
+    contentStore =
+      process.env.METADATA_STORE === 'ipfs'
+        ? new IpfsContentStore(
+            process.env.IPFS_API_URL || 'http://127.0.0.1:5001',
+            process.env.IPFS_GATEWAY_URL || 'http://127.0.0.1:8080'
+          )
+        : new FileSystemContentStore(process.env.METADATA_DIR || DEFAULT_METADATA_DIR);
+  }
+  return contentStore;
+}
@@ -5,8 +5,16 @@
 // Wallet Hooks
 export { useWallet, useUSDCBalance } from './useWallet';
 
+// Blockchain Service (IBlockchainService bound to the connected wallet)
+export { useBlockchainService } from './useBlockchainService';
+
 // Investment Hooks (Escrow-based)
-export { useInvestment, useProjectInvestment } from './useInvestment';
+export {
+  useInvestment,
+  useProjectInvestment,
+  useCampaignPaymentToken,
+  useInvestmentAllowance,
+} from './useInvestment';
 
 // Equity Token Hooks
 export {
@@ -29,7 +37,18 @@ export {
   useMilestones,
   useSubmitMilestone,
   useReleaseMilestoneFunds,
+  useAutoRelease,
+  useReleaseVeto,
   useEmergencyRefund,
   useMilestoneVoting,
   useMilestoneClaimTokens,
 } from './useMilestones';
+
+// Governance Hooks (GovernanceV2-based)
+export { useProposalActions, useDelegateVotes } from './useGovernance';
+
+// Dividend Hooks (DividendDistributor-based)
+export { useDividendActions } from './useDividends';
+
+// Investor Registry Hooks (InvestorRegistry-based)
+export { useAttestationActions } from './useInvestorRegistry';
@@ -0,0 +1,36 @@
+'use client';
+
+/**
+ * useBlockchainService Hook - Presentation Layer
+ * Provides the IBlockchainService adapter bound to the connected wallet; hooks
+ * pass it to the application use cases that submit their writes
+ */
+
+import { useMemo } from 'react';
+import { useActiveAccount } from 'thirdweb/react';
+import type { Chain } from 'thirdweb/chains';
+import { ThirdwebBlockchainService, type InvestStep } from '@/src/infrastructure/services';
+import type { IBlockchainService } from '@/src/application/ports/services';
+import { getCampaign } from '@/lib/contracts/escrow';
+
+export function useBlockchainService(
+  onInvestStep?: (step: InvestStep) => void,
+  chain?: Chain
+): IBlockchainService {
+  const account = useActiveAccount();
+
+  // Pass a stable (memoized) callback, or the service is recreated on every render
+  return useMemo(
+    () => new ThirdwebBlockchainService({ account, chain, onInvestStep }),
+    [account, chain, onInvestStep]
+  );
+}
+
+/**
+ * Look up the equity token that identifies a campaign in IBlockchainService
+ */
+export async function getProjectAddress(campaignId: number): Promise<string> {
+  const campaign = await getCampaign(campaignId);
+  if (!campaign) throw new Error('Campaign not found');
+  return campaign.equityToken;
+}
@@ -0,0 +1,69 @@
+'use client';
+
+/**
+ * useDividends Hook - Presentation Layer
+ * Hook for depositing, claiming and reclaiming DividendDistributor distributions
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import {
+  ClaimDividendUseCase,
+  CreateDistributionUseCase,
+  ReclaimUnclaimedDividendUseCase,
+  type CreateDistributionInput,
+} from '@/src/application/use-cases';
+import { useBlockchainService } from './useBlockchainService';
+
+/**
+ * Submits distribution transactions; each action throws if the transaction fails
+ */
+export function useDividendActions() {
+  const blockchainService = useBlockchainService();
+  const createUseCase = useMemo(() => new CreateDistributionUseCase(blockchainService), [blockchainService]);
+  const claimUseCase = useMemo(() => new ClaimDividendUseCase(blockchainService), [blockchainService]);
+  const reclaimUseCase = useMemo(() => new ReclaimUnclaimedDividendUseCase(blockchainService), [blockchainService]);
+  const [isSending, setIsSending] = useState(false);
+
+  const createDistribution = useCallback(
+    async (input: CreateDistributionInput) => {
+      setIsSending(true);
+      try {
+        return await createUseCase.execute(input);
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [createUseCase]
+  );
+
+  const claimDividend = useCallback(
+    async (distributionId: number) => {
+      setIsSending(true);
+      try {
+        return await claimUseCase.execute({ distributionId });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [claimUseCase]
+  );
+
+  const reclaimUnclaimed = useCallback(
+    async (distributionId: number) => {
+      setIsSending(true);
+      try {
+        return await reclaimUseCase.execute({ distributionId });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [reclaimUseCase]
+  );
+
+  return {
+    isSending,
+    createDistribution,
+    claimDividend,
+    reclaimUnclaimed,
+  };
+}
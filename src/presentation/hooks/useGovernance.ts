@@ -0,0 +1,82 @@
+'use client';
+
+/**
+ * useGovernance Hook - Presentation Layer
+ * Hooks for voting on and executing GovernanceV2 proposals and delegating voting power
+ * from the connected wallet
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import {
+  CastVoteUseCase,
+  DelegateVotesUseCase,
+  ExecuteProposalUseCase,
+  type CastVoteInput,
+} from '@/src/application/use-cases';
+import { useBlockchainService } from './useBlockchainService';
+
+/**
+ * Submits proposal transactions; each action throws if the transaction fails
+ */
+export function useProposalActions() {
+  const blockchainService = useBlockchainService();
+  const castVoteUseCase = useMemo(() => new CastVoteUseCase(blockchainService), [blockchainService]);
+  const executeUseCase = useMemo(() => new ExecuteProposalUseCase(blockchainService), [blockchainService]);
+  const [isSending, setIsSending] = useState(false);
+
+  const castVote = useCallback(
+    async (input: CastVoteInput) => {
+      setIsSending(true);
+      try {
+        return await castVoteUseCase.execute(input);
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [castVoteUseCase]
+  );
+
+  const executeProposal = useCallback(
+    async (proposalId: number) => {
+      setIsSending(true);
+      try {
+        return await executeUseCase.execute({ proposalId });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [executeUseCase]
+  );
+
+  return {
+    isSending,
+    castVote,
+    executeProposal,
+  };
+}
+
+/**
+ * Delegates the connected holder's voting power on a project; throws if the transaction fails
+ */
+export function useDelegateVotes(projectAddress: string) {
+  const blockchainService = useBlockchainService();
+  const delegateUseCase = useMemo(() => new DelegateVotesUseCase(blockchainService), [blockchainService]);
+  const [isSending, setIsSending] = useState(false);
+
+  const delegateVotes = useCallback(
+    async (delegatee: string) => {
+      setIsSending(true);
+      try {
+        return await delegateUseCase.execute({ projectAddress, delegatee });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [delegateUseCase, projectAddress]
+  );
+
+  return {
+    isSending,
+    delegateVotes,
+  };
+}
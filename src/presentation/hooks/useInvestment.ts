@@ -2,40 +2,53 @@
 
 /**
  * useInvestment Hook - Presentation Layer
- * Hook for investment operations using native MNT token via Escrow contract
+ * Hook for investment operations via Escrow contract, paid in native MNT
+ * or an ERC20 stablecoin (approve-then-pledge)
  *
  * IMPORTANT: Uses proper memoization to prevent infinite re-renders
  */
 
 import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { useActiveAccount, useSendTransaction } from 'thirdweb/react';
-import { toWei } from 'thirdweb';
+import { useActiveAccount } from 'thirdweb/react';
 import { getCrowdfundingService } from '@/src/infrastructure/services';
+import { getInvestmentRepository, getProjectRepository } from '@/src/infrastructure/repositories';
+import { InvestInProjectUseCase } from '@/src/application/use-cases';
 // Unified contract: both regular and milestone campaigns use the same MilestoneEscrow contract
-import { preparePledge, getPledge } from '@/lib/contracts/escrow';
+import {
+  getPledge,
+  getCampaign,
+  getPaymentTokenInfo,
+  isNativePaymentToken,
+  type PaymentTokenInfo,
+} from '@/lib/contracts/escrow';
+import { getInvestorAllowance, type InvestorAllowance } from '@/lib/contracts/compliance';
+import { NATIVE_TOKEN } from '@/lib/constants/addresses';
+import { useBlockchainService } from './useBlockchainService';
 
 // Simple cache to prevent duplicate RPC calls
 const positionCache = new Map<string, { data: unknown; timestamp: number }>();
 const CACHE_TTL = 30000; // 30 seconds cache
 
+type InvestmentStep = 'idle' | 'approving' | 'pledging' | 'complete';
+
 interface InvestmentState {
   isPledging: boolean;
   error: string | null;
-  step: 'idle' | 'pledging' | 'complete';
+  step: InvestmentStep;
 }
 
 interface UseInvestmentResult {
   invest: (params: InvestParams) => Promise<boolean>;
   state: InvestmentState;
   isInvesting: boolean;
-  currentStep: 'idle' | 'pledging' | 'complete';
+  currentStep: InvestmentStep;
   error: string | null;
   reset: () => void;
 }
 
 interface InvestParams {
   campaignId: number;
-  amountMnt: string;
+  amount: string; // In the campaign's payment token (MNT or stablecoin)
 }
 
 /**
@@ -43,7 +56,6 @@ interface InvestParams {
  */
 export function useInvestment(): UseInvestmentResult {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
 
   const [state, setState] = useState<InvestmentState>({
     isPledging: false,
@@ -51,6 +63,15 @@ export function useInvestment(): UseInvestmentResult {
     step: 'idle',
   });
 
+  const blockchainService = useBlockchainService(
+    useCallback((step: InvestmentStep) => setState((prev) => ({ ...prev, step })), [])
+  );
+
+  const investInProject = useMemo(
+    () => new InvestInProjectUseCase(getProjectRepository(), getInvestmentRepository(), blockchainService),
+    [blockchainService]
+  );
+
   const reset = useCallback(() => {
     setState({
       isPledging: false,
@@ -67,14 +88,14 @@ export function useInvestment(): UseInvestmentResult {
       }
 
       try {
-        // Convert amount to wei
-        const amountWei = toWei(params.amountMnt);
-
-        // Call pledge() on unified MilestoneEscrow contract - MNT is held in escrow
-        setState((prev) => ({ ...prev, isPledging: true, step: 'pledging', error: null }));
+        setState((prev) => ({ ...prev, isPledging: true, error: null }));
 
-        const pledgeTx = preparePledge(params.campaignId, amountWei);
-        await sendTransaction(pledgeTx);
+        // Stablecoin campaigns are approved-then-pledged by the service, reporting each step
+        await investInProject.execute({
+          projectId: String(params.campaignId),
+          investorAddress: account.address,
+          amount: params.amount,
+        });
 
         setState((prev) => ({ ...prev, isPledging: false, step: 'complete' }));
 
@@ -84,12 +105,13 @@ export function useInvestment(): UseInvestmentResult {
         setState((prev) => ({
           ...prev,
           isPledging: false,
+          step: 'idle',
           error: errorMessage,
         }));
         return false;
       }
     },
-    [account, sendTransaction]
+    [account, investInProject]
   );
 
   const isInvesting = state.isPledging;
@@ -214,3 +236,89 @@ export function useProjectInvestment(campaignId: number): UseProjectInvestmentRe
     hasInvestment,
   };
 }
+
+const NATIVE_PAYMENT_TOKEN: PaymentTokenInfo = { address: NATIVE_TOKEN, symbol: 'MNT', decimals: 18 };
+
+/**
+ * Hook to get the payment token (MNT or stablecoin) a campaign accepts
+ */
+export function useCampaignPaymentToken(campaignId: number) {
+  const [paymentToken, setPaymentToken] = useState<PaymentTokenInfo>(NATIVE_PAYMENT_TOKEN);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (campaignId < 0) return;
+
+    let cancelled = false;
+
+    const fetchPaymentToken = async () => {
+      setIsLoading(true);
+      try {
+        const campaign = await getCampaign(campaignId);
+        const info = campaign
+          ? await getPaymentTokenInfo(campaign.paymentToken)
+          : NATIVE_PAYMENT_TOKEN;
+        if (!cancelled) setPaymentToken(info);
+      } catch (err) {
+        console.error('Failed to fetch payment token:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchPaymentToken();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  return {
+    paymentToken,
+    isNative: isNativePaymentToken(paymentToken.address),
+    isLoading,
+  };
+}
+
+/**
+ * Hook to get the connected investor's remaining annual allowance from the
+ * InvestmentCompliance contract (amounts normalized to 18 decimals)
+ * allowance is null when no compliance module is deployed
+ */
+export function useInvestmentAllowance() {
+  const account = useActiveAccount();
+  const [allowance, setAllowance] = useState<InvestorAllowance | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const address = account?.address;
+    if (!address) return;
+
+    let cancelled = false;
+
+    const fetchAllowance = async () => {
+      setIsLoading(true);
+      try {
+        const result = await getInvestorAllowance(address);
+        if (!cancelled) setAllowance(result);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchAllowance();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [account?.address, version]);
+
+  const refetch = useCallback(() => setVersion((v) => v + 1), []);
+
+  return {
+    allowance: account?.address ? allowance : null,
+    isLoading,
+    refetch,
+  };
+}
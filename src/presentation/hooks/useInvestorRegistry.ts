@@ -0,0 +1,71 @@
+'use client';
+
+/**
+ * useInvestorRegistry Hook - Presentation Layer
+ * Hook for issuing and revoking InvestorRegistry attestations and managing verifiers
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import {
+  IssueAttestationUseCase,
+  RevokeAttestationUseCase,
+  SetVerifierUseCase,
+  type IssueAttestationInput,
+} from '@/src/application/use-cases';
+import { hardhatLocal, mantleSepolia } from '@/lib/thirdweb/chains';
+import type { RegistryNetwork } from '@/lib/contracts/registry';
+import { useBlockchainService } from './useBlockchainService';
+
+/**
+ * Submits registry transactions on the given network; each action throws if the transaction fails
+ */
+export function useAttestationActions(network: RegistryNetwork) {
+  const blockchainService = useBlockchainService(undefined, network === 'local' ? hardhatLocal : mantleSepolia);
+  const issueUseCase = useMemo(() => new IssueAttestationUseCase(blockchainService), [blockchainService]);
+  const revokeUseCase = useMemo(() => new RevokeAttestationUseCase(blockchainService), [blockchainService]);
+  const setVerifierUseCase = useMemo(() => new SetVerifierUseCase(blockchainService), [blockchainService]);
+  const [isSending, setIsSending] = useState(false);
+
+  const issueAttestation = useCallback(
+    async (input: IssueAttestationInput) => {
+      setIsSending(true);
+      try {
+        return await issueUseCase.execute(input);
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [issueUseCase]
+  );
+
+  const revokeAttestation = useCallback(
+    async (investor: string) => {
+      setIsSending(true);
+      try {
+        return await revokeUseCase.execute({ investor });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [revokeUseCase]
+  );
+
+  const setVerifier = useCallback(
+    async (verifier: string, allowed: boolean) => {
+      setIsSending(true);
+      try {
+        return await setVerifierUseCase.execute({ verifier, allowed });
+      } finally {
+        setIsSending(false);
+      }
+    },
+    [setVerifierUseCase]
+  );
+
+  return {
+    isSending,
+    issueAttestation,
+    revokeAttestation,
+    setVerifier,
+  };
+}
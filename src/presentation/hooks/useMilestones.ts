@@ -5,8 +5,8 @@
  * Hooks for milestone-based fund release operations via MilestoneEscrow contract
  */
 
-import { useState, useCallback, useEffect } from 'react';
-import { useActiveAccount, useSendTransaction } from 'thirdweb/react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useActiveAccount } from 'thirdweb/react';
 import { toEther } from 'thirdweb/utils';
 import {
   getMilestoneCampaign,
@@ -16,26 +16,45 @@ import {
   isMilestoneCampaignSuccessful,
   getMilestoneProgress,
   canRequestEmergencyRefund,
-  prepareSubmitMilestoneForApproval,
-  prepareReleaseMilestoneFunds,
-  prepareEmergencyRefund,
-  prepareMilestoneClaimTokens,
+  getAutoRelease,
+  getGovernanceControls,
+  getReleaseWindow,
+  getReleaseGuardian,
   getProposalV2,
   getVotingResultsV2,
-  prepareVoteV2,
-  prepareExecuteProposalV2,
 } from '@/lib/contracts/milestones';
 import {
+  GovernanceControls,
   MilestoneData,
   MilestoneCampaignData,
   MilestoneStatus,
   ProposalV2Data,
+  ReleaseWindow,
+  VotingResultsV2,
+  VoteType,
   getMilestoneStatusLabel,
   calculateMilestoneAmount,
   bpsToPercentage,
   formatMilestoneDeadline,
   getMilestoneDaysRemaining,
 } from '@/lib/contracts/types';
+import {
+  MILESTONE_EVIDENCE_VERSION,
+  uploadMilestoneEvidence,
+  type MilestoneEvidence,
+} from '@/lib/metadata';
+import {
+  CancelProposalUseCase,
+  CastVoteUseCase,
+  ClaimTokensUseCase,
+  ExecuteProposalUseCase,
+  RefundInvestmentUseCase,
+  ReleaseMilestoneFundsUseCase,
+  SetAutoReleaseUseCase,
+  SubmitMilestoneUseCase,
+  VetoMilestoneReleaseUseCase,
+} from '@/src/application/use-cases';
+import { useBlockchainService, getProjectAddress } from './useBlockchainService';
 
 // ============================================
 // Types
@@ -45,6 +64,8 @@ interface MilestonesState {
   isLoading: boolean;
   campaign: MilestoneCampaignData | null;
   milestones: MilestoneData[];
+  releaseWindows: (ReleaseWindow | null)[]; // Set for approved milestones awaiting release
+  controls: GovernanceControls | null; // Refunds, submission pause and payout address set by votes
   progress: {
     total: number;
     released: number;
@@ -55,8 +76,14 @@ interface MilestonesState {
   error: string | null;
 }
 
+/**
+ * Evidence the creator attaches when submitting a milestone
+ */
+export type MilestoneEvidenceInput = Pick<MilestoneEvidence, 'report' | 'links' | 'files'>;
+
 interface SubmitMilestoneState {
   isSubmitting: boolean;
+  isCanceling: boolean;
   error: string | null;
 }
 
@@ -65,11 +92,24 @@ interface ReleaseFundsState {
   error: string | null;
 }
 
+interface AutoReleaseState {
+  enabled: boolean;
+  isUpdating: boolean;
+  error: string | null;
+}
+
+interface ReleaseVetoState {
+  guardian: string | null;
+  isVetoing: boolean;
+  error: string | null;
+}
+
 interface EmergencyRefundState {
   isChecking: boolean;
   isRefunding: boolean;
   canRefund: boolean;
   pledgeAmount: bigint;
+  refundAmount: bigint;
   error: string | null;
 }
 
@@ -77,11 +117,7 @@ interface MilestoneVotingState {
   isLoading: boolean;
   isVoting: boolean;
   proposal: ProposalV2Data | null;
-  votingResults: {
-    forPercent: bigint;
-    againstPercent: bigint;
-    totalVotes: bigint;
-  };
+  votingResults: VotingResultsV2;
   hasVoted: boolean;
   error: string | null;
 }
@@ -98,6 +134,8 @@ export function useMilestones(campaignId: number) {
     isLoading: true,
     campaign: null,
     milestones: [],
+    releaseWindows: [],
+    controls: null,
     progress: {
       total: 0,
       released: 0,
@@ -112,10 +150,11 @@ export function useMilestones(campaignId: number) {
     setState((prev) => ({ ...prev, isLoading: true, error: null }));
 
     try {
-      const [campaign, milestones, progress] = await Promise.all([
+      const [campaign, milestones, progress, controls] = await Promise.all([
         getMilestoneCampaign(campaignId),
         getCampaignMilestones(campaignId),
         getMilestoneProgress(campaignId),
+        getGovernanceControls(campaignId),
       ]);
 
       if (!campaign) {
@@ -127,10 +166,18 @@ export function useMilestones(campaignId: number) {
         return;
       }
 
+      const releaseWindows = await Promise.all(
+        milestones.map((milestone, index) =>
+          milestone.status === MilestoneStatus.Approved ? getReleaseWindow(campaignId, index) : null
+        )
+      );
+
       setState({
         isLoading: false,
         campaign,
         milestones,
+        releaseWindows,
+        controls,
         progress,
         error: null,
       });
@@ -194,44 +241,88 @@ export function useMilestones(campaignId: number) {
 
 /**
  * Hook for campaign creators to submit milestones for approval
+ * The evidence bundle is stored first and its hash recorded with the submission
  */
 export function useSubmitMilestone(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const submitUseCase = useMemo(() => new SubmitMilestoneUseCase(blockchainService), [blockchainService]);
+  const cancelUseCase = useMemo(() => new CancelProposalUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<SubmitMilestoneState>({
     isSubmitting: false,
+    isCanceling: false,
     error: null,
   });
 
   const submitMilestone = useCallback(
-    async (milestoneIndex: number) => {
+    async (milestoneIndex: number, evidence: MilestoneEvidenceInput) => {
       if (!account?.address) {
-        setState({ isSubmitting: false, error: 'Please connect your wallet' });
+        setState((prev) => ({ ...prev, isSubmitting: false, error: 'Please connect your wallet' }));
         return false;
       }
 
-      setState({ isSubmitting: true, error: null });
+      setState((prev) => ({ ...prev, isSubmitting: true, error: null }));
 
       try {
-        const tx = prepareSubmitMilestoneForApproval(campaignId, milestoneIndex);
-        await sendTransaction(tx);
+        const evidenceHash = await uploadMilestoneEvidence({
+          version: MILESTONE_EVIDENCE_VERSION,
+          campaignId,
+          milestoneIndex,
+          ...evidence,
+        });
+        await submitUseCase.execute({
+          projectAddress: await getProjectAddress(campaignId),
+          milestoneIndex,
+          evidenceHash,
+        });
 
-        setState({ isSubmitting: false, error: null });
+        setState((prev) => ({ ...prev, isSubmitting: false, error: null }));
         return true;
       } catch (error) {
-        setState({
+        setState((prev) => ({
+          ...prev,
           isSubmitting: false,
           error: error instanceof Error ? error.message : 'Failed to submit milestone',
-        });
+        }));
+        return false;
+      }
+    },
+    [account?.address, campaignId, submitUseCase]
+  );
+
+  /**
+   * Cancel an open milestone proposal, returning the milestone to Pending
+   */
+  const cancelSubmission = useCallback(
+    async (proposalId: number) => {
+      if (!account?.address) {
+        setState((prev) => ({ ...prev, isCanceling: false, error: 'Please connect your wallet' }));
+        return false;
+      }
+
+      setState((prev) => ({ ...prev, isCanceling: true, error: null }));
+
+      try {
+        await cancelUseCase.execute({ proposalId });
+
+        setState((prev) => ({ ...prev, isCanceling: false, error: null }));
+        return true;
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isCanceling: false,
+          error: error instanceof Error ? error.message : 'Failed to cancel submission',
+        }));
         return false;
       }
     },
-    [account?.address, campaignId, sendTransaction]
+    [account?.address, cancelUseCase]
   );
 
   return {
     ...state,
     submitMilestone,
+    cancelSubmission,
   };
 }
 
@@ -244,7 +335,8 @@ export function useSubmitMilestone(campaignId: number) {
  */
 export function useReleaseMilestoneFunds(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const releaseUseCase = useMemo(() => new ReleaseMilestoneFundsUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<ReleaseFundsState>({
     isReleasing: false,
     error: null,
@@ -260,8 +352,7 @@ export function useReleaseMilestoneFunds(campaignId: number) {
       setState({ isReleasing: true, error: null });
 
       try {
-        const tx = prepareReleaseMilestoneFunds(campaignId, milestoneIndex);
-        await sendTransaction(tx);
+        await releaseUseCase.execute({ projectAddress: await getProjectAddress(campaignId), milestoneIndex });
 
         setState({ isReleasing: false, error: null });
         return true;
@@ -273,7 +364,7 @@ export function useReleaseMilestoneFunds(campaignId: number) {
         return false;
       }
     },
-    [account?.address, campaignId, sendTransaction]
+    [account?.address, campaignId, releaseUseCase]
   );
 
   const getReleaseSummary = useCallback(
@@ -304,21 +395,155 @@ export function useReleaseMilestoneFunds(campaignId: number) {
   };
 }
 
+// ============================================
+// Hook: useAutoRelease
+// ============================================
+
+/**
+ * Hook for the creator's auto-release setting, which releases approved funds when the proposal executes
+ */
+export function useAutoRelease(campaignId: number) {
+  const account = useActiveAccount();
+  const blockchainService = useBlockchainService();
+  const autoReleaseUseCase = useMemo(() => new SetAutoReleaseUseCase(blockchainService), [blockchainService]);
+  const [state, setState] = useState<AutoReleaseState>({
+    enabled: false,
+    isUpdating: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getAutoRelease(campaignId).then((enabled) => {
+      if (!cancelled) setState((prev) => ({ ...prev, enabled }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [campaignId]);
+
+  const setAutoRelease = useCallback(
+    async (enabled: boolean) => {
+      if (!account?.address) {
+        setState((prev) => ({ ...prev, error: 'Please connect your wallet' }));
+        return false;
+      }
+
+      setState((prev) => ({ ...prev, isUpdating: true, error: null }));
+
+      try {
+        await autoReleaseUseCase.execute({ projectAddress: await getProjectAddress(campaignId), enabled });
+
+        setState({ enabled, isUpdating: false, error: null });
+        return true;
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isUpdating: false,
+          error: error instanceof Error ? error.message : 'Failed to update auto-release',
+        }));
+        return false;
+      }
+    },
+    [account?.address, campaignId, autoReleaseUseCase]
+  );
+
+  return {
+    ...state,
+    setAutoRelease,
+  };
+}
+
+// ============================================
+// Hook: useReleaseVeto
+// ============================================
+
+/**
+ * Hook to veto an approved milestone's release during its timelock, as the
+ * platform guardian or as one of the token holders joining a holder veto
+ */
+export function useReleaseVeto(campaignId: number) {
+  const account = useActiveAccount();
+  const blockchainService = useBlockchainService();
+  const vetoUseCase = useMemo(() => new VetoMilestoneReleaseUseCase(blockchainService), [blockchainService]);
+  const [state, setState] = useState<ReleaseVetoState>({
+    guardian: null,
+    isVetoing: false,
+    error: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    getReleaseGuardian().then((guardian) => {
+      if (!cancelled) setState((prev) => ({ ...prev, guardian }));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const isGuardian =
+    !!account?.address && account.address.toLowerCase() === state.guardian?.toLowerCase();
+
+  const vetoRelease = useCallback(
+    async (milestoneIndex: number) => {
+      if (!account?.address) {
+        setState((prev) => ({ ...prev, error: 'Please connect your wallet' }));
+        return false;
+      }
+
+      setState((prev) => ({ ...prev, isVetoing: true, error: null }));
+
+      try {
+        await vetoUseCase.execute({
+          projectAddress: await getProjectAddress(campaignId),
+          milestoneIndex,
+          asGuardian: isGuardian,
+        });
+
+        setState((prev) => ({ ...prev, isVetoing: false }));
+        return true;
+      } catch (error) {
+        setState((prev) => ({
+          ...prev,
+          isVetoing: false,
+          error: error instanceof Error ? error.message : 'Failed to veto release',
+        }));
+        return false;
+      }
+    },
+    [account?.address, campaignId, isGuardian, vetoUseCase]
+  );
+
+  return {
+    ...state,
+    isGuardian,
+    vetoRelease,
+  };
+}
+
 // ============================================
 // Hook: useEmergencyRefund
 // ============================================
 
 /**
- * Hook for investors to request emergency refund after milestone rejection
+ * Hook for investors to request emergency refund after a milestone is rejected or expires,
+ * or to reclaim shares withheld by partial approvals once every milestone is released
  */
 export function useEmergencyRefund(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const refundUseCase = useMemo(() => new RefundInvestmentUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<EmergencyRefundState>({
     isChecking: false,
     isRefunding: false,
     canRefund: false,
     pledgeAmount: BigInt(0),
+    refundAmount: BigInt(0),
     error: null,
   });
 
@@ -331,18 +556,26 @@ export function useEmergencyRefund(campaignId: number) {
     setState((prev) => ({ ...prev, isChecking: true, error: null }));
 
     try {
-      const [canRefund, pledgeAmount] = await Promise.all([
+      const [canRefund, pledgeAmount, campaign] = await Promise.all([
         canRequestEmergencyRefund(campaignId),
         getMilestonePledge(campaignId, account.address),
+        getMilestoneCampaign(campaignId),
       ]);
 
       const hasPledge = pledgeAmount > BigInt(0);
 
+      // Refund is pro-rata to the funds not yet released to the creator
+      const refundAmount =
+        campaign && campaign.pledged > BigInt(0)
+          ? (pledgeAmount * (campaign.pledged - campaign.releasedAmount)) / campaign.pledged
+          : BigInt(0);
+
       setState({
         isChecking: false,
         isRefunding: false,
         canRefund: canRefund && hasPledge,
         pledgeAmount,
+        refundAmount,
         error: null,
       });
     } catch (error) {
@@ -360,14 +593,14 @@ export function useEmergencyRefund(campaignId: number) {
     setState((prev) => ({ ...prev, isRefunding: true, error: null }));
 
     try {
-      const tx = prepareEmergencyRefund(campaignId);
-      await sendTransaction(tx);
+      await refundUseCase.execute({ projectAddress: await getProjectAddress(campaignId) });
 
       setState((prev) => ({
         ...prev,
         isRefunding: false,
         canRefund: false,
         pledgeAmount: BigInt(0),
+        refundAmount: BigInt(0),
       }));
 
       return true;
@@ -379,7 +612,7 @@ export function useEmergencyRefund(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canRefund]);
+  }, [refundUseCase, campaignId, state.canRefund]);
 
   return {
     ...state,
@@ -398,7 +631,9 @@ export function useEmergencyRefund(campaignId: number) {
  */
 export function useMilestoneVoting(proposalId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const castVoteUseCase = useMemo(() => new CastVoteUseCase(blockchainService), [blockchainService]);
+  const executeUseCase = useMemo(() => new ExecuteProposalUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<MilestoneVotingState>({
     isLoading: true,
     isVoting: false,
@@ -406,7 +641,10 @@ export function useMilestoneVoting(proposalId: number) {
     votingResults: {
       forPercent: BigInt(0),
       againstPercent: BigInt(0),
+      abstainPercent: BigInt(0),
       totalVotes: BigInt(0),
+      quorumVotes: BigInt(0),
+      quorumReached: false,
     },
     hasVoted: false,
     error: null,
@@ -453,7 +691,7 @@ export function useMilestoneVoting(proposalId: number) {
   }, [fetchProposal, proposalId]);
 
   const vote = useCallback(
-    async (support: boolean) => {
+    async (support: VoteType) => {
       if (!account?.address) {
         setState((prev) => ({ ...prev, error: 'Please connect your wallet' }));
         return false;
@@ -462,8 +700,7 @@ export function useMilestoneVoting(proposalId: number) {
       setState((prev) => ({ ...prev, isVoting: true, error: null }));
 
       try {
-        const tx = prepareVoteV2(proposalId, support);
-        await sendTransaction(tx);
+        await castVoteUseCase.execute({ proposalId, support });
 
         setState((prev) => ({
           ...prev,
@@ -484,7 +721,7 @@ export function useMilestoneVoting(proposalId: number) {
         return false;
       }
     },
-    [account?.address, fetchProposal, proposalId, sendTransaction]
+    [account?.address, castVoteUseCase, fetchProposal, proposalId]
   );
 
   const executeProposal = useCallback(async () => {
@@ -496,8 +733,7 @@ export function useMilestoneVoting(proposalId: number) {
     setState((prev) => ({ ...prev, isVoting: true, error: null }));
 
     try {
-      const tx = prepareExecuteProposalV2(proposalId);
-      await sendTransaction(tx);
+      await executeUseCase.execute({ proposalId });
 
       setState((prev) => ({ ...prev, isVoting: false, error: null }));
       await fetchProposal();
@@ -510,7 +746,7 @@ export function useMilestoneVoting(proposalId: number) {
       }));
       return false;
     }
-  }, [account?.address, fetchProposal, proposalId, sendTransaction]);
+  }, [account?.address, executeUseCase, fetchProposal, proposalId]);
 
   return {
     ...state,
@@ -529,7 +765,8 @@ export function useMilestoneVoting(proposalId: number) {
  */
 export function useMilestoneClaimTokens(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const claimTokensUseCase = useMemo(() => new ClaimTokensUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState({
     isChecking: false,
     isClaiming: false,
@@ -591,8 +828,7 @@ export function useMilestoneClaimTokens(campaignId: number) {
     setState((prev) => ({ ...prev, isClaiming: true, error: null }));
 
     try {
-      const tx = prepareMilestoneClaimTokens(campaignId);
-      await sendTransaction(tx);
+      await claimTokensUseCase.execute({ projectAddress: await getProjectAddress(campaignId) });
 
       setState((prev) => ({
         ...prev,
@@ -609,7 +845,7 @@ export function useMilestoneClaimTokens(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canClaim]);
+  }, [claimTokensUseCase, campaignId, state.canClaim]);
 
   return {
     ...state,
@@ -5,20 +5,23 @@
  * Hooks for refund and withdrawal operations via Escrow contract
  */
 
-import { useState, useCallback } from 'react';
-import { useActiveAccount, useSendTransaction } from 'thirdweb/react';
+import { useState, useCallback, useMemo } from 'react';
+import { useActiveAccount } from 'thirdweb/react';
 import { toEther } from 'thirdweb/utils';
 import {
   getCampaign,
   getPledge,
   isCampaignSuccessful,
   hasClaimedTokens,
-  prepareRefund,
-  prepareClaim,
-  prepareClaimTokens,
-  prepareClaimFounderTokens,
   type CampaignData,
 } from '@/lib/contracts/escrow';
+import {
+  ClaimFounderTokensUseCase,
+  ClaimTokensUseCase,
+  RefundInvestmentUseCase,
+  WithdrawFundsUseCase,
+} from '@/src/application/use-cases';
+import { useBlockchainService } from './useBlockchainService';
 
 interface RefundState {
   isChecking: boolean;
@@ -62,7 +65,8 @@ interface ClaimFounderTokensState {
  */
 export function useRefund(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const refundUseCase = useMemo(() => new RefundInvestmentUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<RefundState>({
     isChecking: false,
     isRefunding: false,
@@ -121,13 +125,12 @@ export function useRefund(campaignId: number) {
   }, [account?.address, campaignId]);
 
   const requestRefund = useCallback(async () => {
-    if (!state.canRefund) return false;
+    if (!state.canRefund || !state.campaign) return false;
 
     setState((prev) => ({ ...prev, isRefunding: true, error: null }));
 
     try {
-      const tx = prepareRefund(campaignId);
-      await sendTransaction(tx);
+      await refundUseCase.execute({ projectAddress: state.campaign.equityToken });
 
       setState((prev) => ({
         ...prev,
@@ -145,7 +148,7 @@ export function useRefund(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canRefund]);
+  }, [refundUseCase, state.canRefund, state.campaign]);
 
   const formatRefundAmount = useCallback(
     (amount: bigint) => toEther(amount),
@@ -165,7 +168,8 @@ export function useRefund(campaignId: number) {
  */
 export function useWithdraw(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const withdrawUseCase = useMemo(() => new WithdrawFundsUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<WithdrawState>({
     isChecking: false,
     isWithdrawing: false,
@@ -222,13 +226,12 @@ export function useWithdraw(campaignId: number) {
   }, [account?.address, campaignId]);
 
   const requestWithdrawal = useCallback(async () => {
-    if (!state.canWithdraw) return false;
+    if (!state.canWithdraw || !state.campaign) return false;
 
     setState((prev) => ({ ...prev, isWithdrawing: true, error: null }));
 
     try {
-      const tx = prepareClaim(campaignId);
-      await sendTransaction(tx);
+      await withdrawUseCase.execute({ projectAddress: state.campaign.equityToken });
 
       setState((prev) => ({
         ...prev,
@@ -245,7 +248,7 @@ export function useWithdraw(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canWithdraw]);
+  }, [withdrawUseCase, state.canWithdraw, state.campaign]);
 
   const getWithdrawalSummary = useCallback(() => {
     if (!state.campaign) return null;
@@ -275,7 +278,8 @@ export function useWithdraw(campaignId: number) {
  */
 export function useClaimTokens(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const claimTokensUseCase = useMemo(() => new ClaimTokensUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<ClaimTokensState>({
     isChecking: false,
     isClaiming: false,
@@ -337,13 +341,12 @@ export function useClaimTokens(campaignId: number) {
   }, [account?.address, campaignId]);
 
   const claimTokens = useCallback(async () => {
-    if (!state.canClaim) return false;
+    if (!state.canClaim || !state.campaign) return false;
 
     setState((prev) => ({ ...prev, isClaiming: true, error: null }));
 
     try {
-      const tx = prepareClaimTokens(campaignId);
-      await sendTransaction(tx);
+      await claimTokensUseCase.execute({ projectAddress: state.campaign.equityToken });
 
       setState((prev) => ({
         ...prev,
@@ -361,7 +364,7 @@ export function useClaimTokens(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canClaim]);
+  }, [claimTokensUseCase, state.canClaim, state.campaign]);
 
   return {
     ...state,
@@ -376,7 +379,8 @@ export function useClaimTokens(campaignId: number) {
  */
 export function useClaimFounderTokens(campaignId: number) {
   const account = useActiveAccount();
-  const { mutateAsync: sendTransaction } = useSendTransaction();
+  const blockchainService = useBlockchainService();
+  const claimFounderTokensUseCase = useMemo(() => new ClaimFounderTokensUseCase(blockchainService), [blockchainService]);
   const [state, setState] = useState<ClaimFounderTokensState>({
     isChecking: false,
     isClaiming: false,
@@ -442,13 +446,12 @@ export function useClaimFounderTokens(campaignId: number) {
   }, [account?.address, campaignId]);
 
   const claimFounderTokens = useCallback(async () => {
-    if (!state.canClaim) return false;
+    if (!state.canClaim || !state.campaign) return false;
 
     setState((prev) => ({ ...prev, isClaiming: true, error: null }));
 
     try {
-      const tx = prepareClaimFounderTokens(campaignId);
-      await sendTransaction(tx);
+      await claimFounderTokensUseCase.execute({ projectAddress: state.campaign.equityToken });
 
       setState((prev) => ({
         ...prev,
@@ -466,7 +469,7 @@ export function useClaimFounderTokens(campaignId: number) {
       }));
       return false;
     }
-  }, [campaignId, sendTransaction, state.canClaim]);
+  }, [claimFounderTokensUseCase, state.canClaim, state.campaign]);
 
   return {
     ...state,
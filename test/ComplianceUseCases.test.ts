@@ -0,0 +1,141 @@
+import "tsconfig-paths/register";
+import { expect } from "chai";
+import {
+  IssueAttestationUseCase,
+  RevokeAttestationUseCase,
+  SetVerifierUseCase,
+} from "../src/application/use-cases";
+import { DomainError } from "../src/domain/errors";
+import { InMemoryBlockchainService } from "../src/infrastructure/services/InMemoryBlockchainService";
+
+const ONE_DAY = 86400;
+
+// Domain error a use case rejected with
+async function rejection(execution: Promise<unknown>): Promise<DomainError> {
+  try {
+    await execution;
+  } catch (error) {
+    expect(error).to.be.instanceOf(DomainError);
+    return error as DomainError;
+  }
+  throw new Error("Use case did not reject");
+}
+
+describe("Compliance use cases", function () {
+  const OWNER = "0x1111111111111111111111111111111111111111";
+  const VERIFIER = "0x2222222222222222222222222222222222222222";
+  const INVESTOR = "0x3333333333333333333333333333333333333333";
+  const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+  let now: number;
+  let blockchain: InMemoryBlockchainService;
+  let issueAttestation: IssueAttestationUseCase;
+
+  beforeEach(async function () {
+    now = Math.floor(Date.now() / 1000);
+
+    blockchain = new InMemoryBlockchainService({ now: () => now, registryOwner: OWNER });
+    blockchain.connect(OWNER);
+    await new SetVerifierUseCase(blockchain).execute({ verifier: VERIFIER, allowed: true });
+    blockchain.connect(VERIFIER);
+
+    issueAttestation = new IssueAttestationUseCase(blockchain, () => now);
+  });
+
+  describe("IssueAttestationUseCase", function () {
+    it("Should record the attestation from the verifier", async function () {
+      await issueAttestation.execute({ investor: INVESTOR, tier: "professional", expiresAt: now + 365 * ONE_DAY });
+
+      expect(blockchain.getAttestation(INVESTOR)).to.deep.equal({
+        tier: "professional",
+        verifier: VERIFIER,
+        expiresAt: now + 365 * ONE_DAY,
+        revoked: false,
+      });
+    });
+
+    it("Should reject a zero or malformed investor before sending a transaction", async function () {
+      const expiresAt = now + ONE_DAY;
+
+      const zero = await rejection(issueAttestation.execute({ investor: ZERO_ADDRESS, tier: "retail", expiresAt }));
+      const malformed = await rejection(issueAttestation.execute({ investor: "0x1234", tier: "retail", expiresAt }));
+
+      expect(zero.code).to.equal("VALIDATION_ERROR");
+      expect(zero.message).to.contain("zero address");
+      expect(malformed.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.transactions).to.have.length(1);
+    });
+
+    it("Should reject an expiry that is not in the future", async function () {
+      const expired = await rejection(issueAttestation.execute({ investor: INVESTOR, tier: "retail", expiresAt: now }));
+      const fractional = await rejection(
+        issueAttestation.execute({ investor: INVESTOR, tier: "retail", expiresAt: now + 0.5 })
+      );
+
+      expect(expired.code).to.equal("VALIDATION_ERROR");
+      expect(expired.message).to.contain("must be in the future");
+      expect(fractional.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.getAttestation(INVESTOR)).to.equal(null);
+    });
+
+    it("Should surface the revert for a wallet that is not a verifier", async function () {
+      blockchain.connect(INVESTOR);
+
+      const error = await rejection(
+        issueAttestation.execute({ investor: INVESTOR, tier: "retail", expiresAt: now + ONE_DAY })
+      );
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Not verifier");
+    });
+  });
+
+  describe("RevokeAttestationUseCase", function () {
+    beforeEach(async function () {
+      await issueAttestation.execute({ investor: INVESTOR, tier: "retail", expiresAt: now + ONE_DAY });
+    });
+
+    it("Should let the registry owner revoke an attestation once", async function () {
+      blockchain.connect(OWNER);
+      const revokeAttestation = new RevokeAttestationUseCase(blockchain);
+
+      await revokeAttestation.execute({ investor: INVESTOR });
+      const again = await rejection(revokeAttestation.execute({ investor: INVESTOR }));
+
+      expect(blockchain.getAttestation(INVESTOR)?.revoked).to.equal(true);
+      expect(again.message).to.contain("No attestation");
+    });
+
+    it("Should require a connected wallet", async function () {
+      blockchain.disconnect();
+
+      const error = await rejection(new RevokeAttestationUseCase(blockchain).execute({ investor: INVESTOR }));
+
+      expect(error.code).to.equal("UNAUTHORIZED");
+    });
+  });
+
+  describe("SetVerifierUseCase", function () {
+    it("Should stop a removed verifier from issuing attestations", async function () {
+      blockchain.connect(OWNER);
+      await new SetVerifierUseCase(blockchain).execute({ verifier: VERIFIER, allowed: false });
+      blockchain.connect(VERIFIER);
+
+      const error = await rejection(
+        issueAttestation.execute({ investor: INVESTOR, tier: "retail", expiresAt: now + ONE_DAY })
+      );
+
+      expect(error.message).to.contain("Not verifier");
+    });
+
+    it("Should only let the registry owner manage verifiers", async function () {
+      const setVerifier = new SetVerifierUseCase(blockchain);
+
+      const notOwner = await rejection(setVerifier.execute({ verifier: INVESTOR, allowed: true }));
+      const zero = await rejection(setVerifier.execute({ verifier: ZERO_ADDRESS, allowed: true }));
+
+      expect(notOwner.message).to.contain("Not owner");
+      expect(zero.code).to.equal("VALIDATION_ERROR");
+    });
+  });
+});
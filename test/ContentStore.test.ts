@@ -0,0 +1,37 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { FileSystemContentStore, cidFromHash } from "../src/infrastructure/storage";
+
+describe("ContentStore", function () {
+  let directory: string;
+  let store: FileSystemContentStore;
+
+  beforeEach(function () {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "crowdmantle-metadata-"));
+    store = new FileSystemContentStore(directory);
+  });
+
+  afterEach(function () {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("Should address content by the SHA-256 hash recorded on-chain", async function () {
+    const content = JSON.stringify({ version: 1, name: "Test Campaign" });
+
+    const hash = await store.put(content);
+
+    expect(hash).to.equal(ethers.sha256(ethers.toUtf8Bytes(content)));
+    expect(await store.get(hash)).to.equal(content);
+    expect(await store.get(ethers.ZeroHash as `0x${string}`)).to.equal(null);
+  });
+
+  it("Should derive the IPFS raw-block CID from the content hash", function () {
+    // Well-known CIDv1 of the empty raw block
+    expect(cidFromHash(ethers.sha256("0x") as `0x${string}`)).to.equal(
+      "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku"
+    );
+  });
+});
@@ -0,0 +1,427 @@
+import "tsconfig-paths/register";
+import { expect } from "chai";
+import type { IInvestmentRepository, IProjectRepository } from "../src/application/ports/repositories";
+import { ProjectMapper } from "../src/application/mappers/ProjectMapper";
+import {
+  ClaimFounderTokensUseCase,
+  ClaimTokensUseCase,
+  InvestInProjectUseCase,
+  RefundInvestmentUseCase,
+  WithdrawFundsUseCase,
+} from "../src/application/use-cases";
+import { Investment, Project } from "../src/domain/entities";
+import { DomainError } from "../src/domain/errors";
+import { Address, Money, type Currency } from "../src/domain/value-objects";
+import { InMemoryBlockchainService } from "../src/infrastructure/services/InMemoryBlockchainService";
+
+const ONE_DAY = 86400;
+
+// Project lookups by ID; only findById is exercised by the use cases
+class StubProjectRepository implements IProjectRepository {
+  private projects = new Map<string, Project>();
+
+  add(project: Project): void {
+    this.projects.set(project.id, project);
+  }
+
+  async findById(id: string): Promise<Project | null> {
+    return this.projects.get(id) ?? null;
+  }
+
+  async findAll() {
+    const items = [...this.projects.values()];
+    return { items, total: items.length, page: 1, totalPages: 1, hasNext: false, hasPrevious: false };
+  }
+
+  async findByCategory(): Promise<Project[]> {
+    return [];
+  }
+
+  async findByStatus(): Promise<Project[]> {
+    return [];
+  }
+
+  async findActive(): Promise<Project[]> {
+    return [];
+  }
+
+  async findFeatured(): Promise<Project[]> {
+    return [];
+  }
+
+  async search(): Promise<Project[]> {
+    return [];
+  }
+
+  async count(): Promise<number> {
+    return this.projects.size;
+  }
+
+  async save(project: Project): Promise<void> {
+    this.add(project);
+  }
+
+  async updateFundingStatus(): Promise<void> {}
+}
+
+// Records saved investments; the annual total is set by each test
+class StubInvestmentRepository implements IInvestmentRepository {
+  readonly saved: Investment[] = [];
+  annualTotal = Money.zero("USDC");
+
+  async findAll() {
+    return { items: this.saved, total: this.saved.length, page: 1, totalPages: 1, hasNext: false, hasPrevious: false };
+  }
+
+  async findById(id: string): Promise<Investment | null> {
+    return this.saved.find((investment) => investment.id === id) ?? null;
+  }
+
+  async findByInvestor(address: Address): Promise<Investment[]> {
+    return this.saved.filter((investment) => investment.investor.equals(address));
+  }
+
+  async findByProject(projectId: string): Promise<Investment[]> {
+    return this.saved.filter((investment) => investment.projectId === projectId);
+  }
+
+  async findByTransactionHash(hash: string): Promise<Investment | null> {
+    return this.saved.find((investment) => investment.transactionHash === hash) ?? null;
+  }
+
+  async getAnnualTotalByInvestor(): Promise<Money> {
+    return this.annualTotal;
+  }
+
+  async getTotalByProject(): Promise<number> {
+    return 0;
+  }
+
+  async getInvestorCountByProject(): Promise<number> {
+    return 0;
+  }
+
+  async save(investment: Investment): Promise<void> {
+    this.saved.push(investment);
+  }
+
+  async updateStatus(): Promise<void> {}
+}
+
+// Domain error a use case rejected with
+async function rejection(execution: Promise<unknown>): Promise<DomainError> {
+  try {
+    await execution;
+  } catch (error) {
+    expect(error).to.be.instanceOf(DomainError);
+    return error as DomainError;
+  }
+  throw new Error("Use case did not reject");
+}
+
+describe("Crowdfunding use cases", function () {
+  const CREATOR = "0x1111111111111111111111111111111111111111";
+  const INVESTOR = "0x2222222222222222222222222222222222222222";
+  const OTHER_INVESTOR = "0x3333333333333333333333333333333333333333";
+  const USDC_TOKEN = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+  const MNT_TOKEN = "0xbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbbb";
+  const USDC = (amount: number) => BigInt(amount) * 10n ** 6n;
+  const MNT = (amount: number) => BigInt(amount) * 10n ** 18n;
+
+  let now: number;
+  let deadline: number;
+  let blockchain: InMemoryBlockchainService;
+  let projects: StubProjectRepository;
+  let investments: StubInvestmentRepository;
+
+  function projectFixture(
+    id: string,
+    contractAddress: string,
+    currency: Currency,
+    decimals: number,
+    overrides: { goal?: bigint; fundRaised?: bigint; minInvestment?: bigint } = {}
+  ): Project {
+    const unit = 10n ** BigInt(decimals);
+    return ProjectMapper.toEntity({
+      id,
+      name: `Project ${id}`,
+      description: "",
+      longDescription: "",
+      currency,
+      decimals,
+      goal: overrides.goal ?? 1000n * unit,
+      fundRaised: overrides.fundRaised ?? 0n,
+      deadline,
+      expectedReturn: 0,
+      category: "tech",
+      status: "active",
+      investorCount: 0,
+      minInvestment: overrides.minInvestment ?? 10n * unit,
+      tokenSymbol: "EQT",
+      contractAddress,
+      companyInfo: { foundedYear: 2024, employees: 3, location: "Seoul" },
+      image: "",
+    });
+  }
+
+  beforeEach(function () {
+    now = Math.floor(Date.now() / 1000);
+    deadline = now + 30 * ONE_DAY;
+
+    blockchain = new InMemoryBlockchainService({ account: INVESTOR, now: () => now });
+    blockchain.addProject({
+      address: USDC_TOKEN,
+      creator: CREATOR,
+      name: "Coffee Equity",
+      symbol: "BEAN",
+      goal: USDC(1000),
+      deadline,
+      founderShareBps: 1000n,
+    });
+    blockchain.addProject({
+      address: MNT_TOKEN,
+      creator: CREATOR,
+      name: "Robotics Equity",
+      symbol: "BOT",
+      goal: MNT(1000),
+      deadline,
+    });
+    blockchain.setBalance(INVESTOR, MNT(5000));
+    blockchain.setBalance(OTHER_INVESTOR, MNT(5000));
+
+    projects = new StubProjectRepository();
+    projects.add(projectFixture("0", USDC_TOKEN, "USDC", 6));
+    projects.add(projectFixture("1", MNT_TOKEN, "MNT", 18));
+    investments = new StubInvestmentRepository();
+  });
+
+  // Move the fake's clock past the campaign deadline
+  function endCampaign() {
+    now = deadline + 1;
+  }
+
+  async function pledge(investor: string, projectAddress: string, amount: bigint) {
+    blockchain.connect(investor);
+    const result = await blockchain.invest(projectAddress, amount);
+    expect(result.success).to.equal(true);
+  }
+
+  describe("InvestInProjectUseCase", function () {
+    let investInProject: InvestInProjectUseCase;
+
+    beforeEach(function () {
+      investInProject = new InvestInProjectUseCase(projects, investments, blockchain);
+    });
+
+    it("Should pledge the full amount in the campaign's payment token without adding a fee", async function () {
+      const output = await investInProject.execute({ projectId: "0", investorAddress: INVESTOR, amount: "250.5" });
+
+      expect(output.success).to.equal(true);
+      expect(blockchain.transactions).to.have.length(1);
+      expect(blockchain.transactions[0].operation).to.equal("invest");
+      expect(blockchain.transactions[0].amount).to.equal(250_500_000n);
+      expect(await blockchain.getInvestorContribution(USDC_TOKEN, INVESTOR)).to.equal(250_500_000n);
+
+      expect(output.transactionHash).to.equal(blockchain.transactions[0].hash);
+      expect(output.investment?.amount).to.equal(250.5);
+      expect(output.investment?.platformFee).to.equal(0);
+      expect(output.investment?.tokenAmount).to.equal(250.5);
+      expect(output.investment?.status).to.equal("pending");
+      expect(investments.saved).to.have.length(1);
+    });
+
+    it("Should pledge MNT campaigns with 18 decimals", async function () {
+      await investInProject.execute({ projectId: "1", investorAddress: INVESTOR, amount: 12.5 });
+
+      expect(await blockchain.getInvestorContribution(MNT_TOKEN, INVESTOR)).to.equal(125n * 10n ** 17n);
+    });
+
+    it("Should reject unknown projects", async function () {
+      const error = await rejection(
+        investInProject.execute({ projectId: "99", investorAddress: INVESTOR, amount: 100 })
+      );
+
+      expect(error.code).to.equal("PROJECT_NOT_FOUND");
+      expect(blockchain.transactions).to.have.length(0);
+    });
+
+    it("Should reject funded projects and amounts below the minimum", async function () {
+      projects.add(projectFixture("2", USDC_TOKEN, "USDC", 6, { fundRaised: USDC(1000) }));
+
+      const funded = await rejection(
+        investInProject.execute({ projectId: "2", investorAddress: INVESTOR, amount: 100 })
+      );
+      const belowMinimum = await rejection(
+        investInProject.execute({ projectId: "0", investorAddress: INVESTOR, amount: "9.99" })
+      );
+
+      expect(funded.code).to.equal("PROJECT_NOT_INVESTABLE");
+      expect(belowMinimum.code).to.equal("PROJECT_NOT_INVESTABLE");
+      expect(belowMinimum.message).to.contain("Minimum investment");
+      expect(blockchain.transactions).to.have.length(0);
+    });
+
+    it("Should enforce the annual limit on stablecoin campaigns only", async function () {
+      investments.annualTotal = Money.fromUSDC(450);
+
+      const error = await rejection(
+        investInProject.execute({ projectId: "0", investorAddress: INVESTOR, amount: 100 })
+      );
+      expect(error.code).to.equal("INVESTMENT_LIMIT_EXCEEDED");
+      expect(blockchain.transactions).to.have.length(0);
+
+      const output = await investInProject.execute({ projectId: "1", investorAddress: INVESTOR, amount: 100 });
+      expect(output.success).to.equal(true);
+    });
+
+    it("Should warn when the investment nears the annual limit", async function () {
+      investments.annualTotal = Money.fromUSDC(400);
+
+      const output = await investInProject.execute({ projectId: "0", investorAddress: INVESTOR, amount: 80 });
+
+      expect(output.warnings).to.include("You are approaching your annual investment limit.");
+    });
+
+    it("Should not record an investment when the pledge transaction fails", async function () {
+      blockchain.failNextTransaction("Insufficient allowance");
+
+      const error = await rejection(
+        investInProject.execute({ projectId: "0", investorAddress: INVESTOR, amount: 100 })
+      );
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Insufficient allowance");
+      expect(investments.saved).to.have.length(0);
+    });
+  });
+
+  describe("RefundInvestmentUseCase", function () {
+    let refundInvestment: RefundInvestmentUseCase;
+
+    beforeEach(function () {
+      refundInvestment = new RefundInvestmentUseCase(blockchain);
+    });
+
+    it("Should refund the full pledge after a failed campaign", async function () {
+      await pledge(INVESTOR, MNT_TOKEN, MNT(300));
+      endCampaign();
+
+      const output = await refundInvestment.execute({ projectAddress: MNT_TOKEN });
+
+      expect(output.success).to.equal(true);
+      expect(output.pledgeAmount).to.equal(MNT(300));
+      expect(await blockchain.getInvestorContribution(MNT_TOKEN, INVESTOR)).to.equal(0n);
+      expect(await blockchain.getBalance(INVESTOR)).to.equal(MNT(5000));
+    });
+
+    it("Should reject a refund without a pledge before sending a transaction", async function () {
+      endCampaign();
+
+      const error = await rejection(refundInvestment.execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.transactions).to.have.length(0);
+    });
+
+    it("Should surface the revert while the campaign is still running", async function () {
+      await pledge(INVESTOR, MNT_TOKEN, MNT(300));
+
+      const error = await rejection(refundInvestment.execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Refund not available");
+    });
+
+    it("Should require a connected wallet", async function () {
+      blockchain.disconnect();
+
+      const error = await rejection(refundInvestment.execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("UNAUTHORIZED");
+      expect(error.message).to.contain("Wallet not connected");
+    });
+  });
+
+  describe("ClaimTokensUseCase", function () {
+    let claimTokens: ClaimTokensUseCase;
+
+    beforeEach(function () {
+      claimTokens = new ClaimTokensUseCase(blockchain);
+    });
+
+    it("Should mint equity tokens 1:1 with the pledge after a successful campaign", async function () {
+      await pledge(INVESTOR, MNT_TOKEN, MNT(600));
+      await pledge(OTHER_INVESTOR, MNT_TOKEN, MNT(400));
+      endCampaign();
+      blockchain.connect(INVESTOR);
+
+      const output = await claimTokens.execute({ projectAddress: MNT_TOKEN });
+
+      expect(output.tokenAmount).to.equal(MNT(600));
+      expect(await blockchain.getEquityTokenBalance(MNT_TOKEN, INVESTOR)).to.equal(MNT(600));
+      expect((await blockchain.getEquityTokenInfo(MNT_TOKEN)).totalSupply).to.equal(MNT(600));
+    });
+
+    it("Should surface the revert when the campaign failed", async function () {
+      await pledge(INVESTOR, MNT_TOKEN, MNT(600));
+      endCampaign();
+
+      const error = await rejection(claimTokens.execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Campaign not successful");
+    });
+
+    it("Should reject a claim without a pledge", async function () {
+      await pledge(OTHER_INVESTOR, MNT_TOKEN, MNT(1000));
+      endCampaign();
+      blockchain.connect(INVESTOR);
+
+      const error = await rejection(claimTokens.execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.transactions).to.have.length(1);
+    });
+  });
+
+  describe("Creator payouts", function () {
+    beforeEach(async function () {
+      await pledge(INVESTOR, MNT_TOKEN, MNT(1000));
+      await pledge(INVESTOR, USDC_TOKEN, USDC(1000));
+      endCampaign();
+    });
+
+    it("Should pay the creator the raised funds less the platform fee", async function () {
+      blockchain.connect(CREATOR);
+
+      await new WithdrawFundsUseCase(blockchain).execute({ projectAddress: MNT_TOKEN });
+
+      expect(await blockchain.getBalance(CREATOR)).to.equal(MNT(980));
+    });
+
+    it("Should only let the creator withdraw", async function () {
+      const error = await rejection(new WithdrawFundsUseCase(blockchain).execute({ projectAddress: MNT_TOKEN }));
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Not campaign creator");
+    });
+
+    it("Should reject founder tokens for a campaign without a founder share", async function () {
+      blockchain.connect(CREATOR);
+
+      const error = await rejection(
+        new ClaimFounderTokensUseCase(blockchain).execute({ projectAddress: MNT_TOKEN })
+      );
+
+      expect(error.message).to.contain("No founder share");
+    });
+
+    it("Should mint the founder share to the creator", async function () {
+      blockchain.connect(CREATOR);
+
+      await new ClaimFounderTokensUseCase(blockchain).execute({ projectAddress: USDC_TOKEN });
+
+      expect(await blockchain.getEquityTokenBalance(USDC_TOKEN, CREATOR)).to.equal(USDC(100));
+    });
+  });
+});
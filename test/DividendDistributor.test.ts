@@ -0,0 +1,241 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, DividendDistributor, EquityToken, MockStablecoin } from "../typechain-types";
+
+describe("DividendDistributor", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let distributor: DividendDistributor;
+  let equityToken: EquityToken;
+  let platformWallet: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+
+  // Fund campaign 0 (60/40 split), end it and optionally let the investors claim tokens
+  async function fundCampaign(claimTokens = true) {
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("60") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("40") });
+
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(creator).claim(0);
+
+    if (claimTokens) {
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(investor2).claimTokens(0);
+    }
+  }
+
+  beforeEach(async function () {
+    [platformWallet, creator, investor1, investor2, outsider] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
+    await milestoneEscrow.waitForDeployment();
+
+    const DistributorFactory = await ethers.getContractFactory("DividendDistributor");
+    distributor = await DistributorFactory.deploy(await milestoneEscrow.getAddress());
+    await distributor.waitForDeployment();
+
+    await milestoneEscrow
+      .connect(creator)
+      .createCampaign(ethers.parseEther("100"), 7, "Rental Income", "Rental Equity", "RENT", 0n, NATIVE_TOKEN, NO_METADATA);
+
+    const campaign = await milestoneEscrow.getCampaign(0);
+    equityToken = await ethers.getContractAt("EquityToken", campaign.equityToken);
+  });
+
+  describe("Deposits", function () {
+    it("Should only accept deposits from the creator of a successful campaign", async function () {
+      await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("100") });
+      await expect(
+        distributor.connect(creator).createDistribution(0, NATIVE_TOKEN, 0, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(distributor, "CampaignNotSuccessful");
+
+      await time.increase(8 * ONE_DAY);
+      await milestoneEscrow.connect(creator).claim(0);
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+
+      await expect(
+        distributor.connect(investor1).createDistribution(0, NATIVE_TOKEN, 0, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(distributor, "NotCampaignCreator");
+      await expect(
+        distributor.connect(creator).createDistribution(0, NATIVE_TOKEN, 0)
+      ).to.be.revertedWithCustomError(distributor, "ZeroAmount");
+      await expect(
+        distributor.connect(creator).createDistribution(1, NATIVE_TOKEN, 0, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(distributor, "CampaignNotFound");
+    });
+
+    it("Should accept deposits before any equity tokens are claimed", async function () {
+      await fundCampaign(false);
+
+      await distributor.connect(creator).createDistribution(0, NATIVE_TOKEN, 0, { value: ethers.parseEther("10") });
+
+      expect(await equityToken.totalSupply()).to.equal(0n);
+      expect(await distributor.getClaimableAmount(0, investor1.address)).to.equal(ethers.parseEther("6"));
+      expect(await distributor.getClaimableAmount(0, investor2.address)).to.equal(ethers.parseEther("4"));
+    });
+
+    it("Should record the distribution with a snapshot", async function () {
+      await fundCampaign();
+
+      await expect(
+        distributor.connect(creator).createDistribution(0, NATIVE_TOKEN, 0, { value: ethers.parseEther("10") })
+      ).to.emit(distributor, "DistributionCreated");
+
+      const distribution = await distributor.getDistribution(0);
+      expect(distribution.campaignId).to.equal(0n);
+      expect(distribution.amount).to.equal(ethers.parseEther("10"));
+      expect(distribution.snapshotTime).to.equal(BigInt(await time.latest()) - 1n);
+      expect(await distributor.getCampaignDistributions(0)).to.deep.equal([0n]);
+    });
+  });
+
+  describe("Claims", function () {
+    beforeEach(async function () {
+      await fundCampaign();
+      await time.increase(1);
+      await distributor.connect(creator).createDistribution(0, NATIVE_TOKEN, 0, { value: ethers.parseEther("10") });
+    });
+
+    it("Should pay holders pro-rata to their snapshot balance", async function () {
+      expect(await distributor.getClaimableAmount(0, investor1.address)).to.equal(ethers.parseEther("6"));
+      expect(await distributor.getClaimableAmount(0, investor2.address)).to.equal(ethers.parseEther("4"));
+
+      await expect(distributor.connect(investor1).claim(0)).to.changeEtherBalances(
+        [investor1, distributor],
+        [ethers.parseEther("6"), -ethers.parseEther("6")]
+      );
+      await expect(distributor.connect(investor1).claim(0)).to.be.revertedWithCustomError(
+        distributor,
+        "AlreadyClaimed"
+      );
+      expect(await distributor.getClaimableAmount(0, investor1.address)).to.equal(0n);
+    });
+
+    it("Should ignore tokens received after the snapshot", async function () {
+      await equityToken.connect(investor2).transfer(outsider.address, ethers.parseEther("40"));
+
+      expect(await distributor.getClaimableAmount(0, outsider.address)).to.equal(0n);
+      await expect(distributor.connect(outsider).claim(0)).to.be.revertedWithCustomError(
+        distributor,
+        "NothingToClaim"
+      );
+
+      await distributor.connect(investor2).claim(0);
+      expect((await distributor.getDistribution(0)).claimedAmount).to.equal(ethers.parseEther("4"));
+    });
+
+    it("Should let the creator reclaim the remainder after the claim period", async function () {
+      await distributor.connect(investor1).claim(0);
+
+      await expect(distributor.connect(creator).reclaimUnclaimed(0)).to.be.revertedWithCustomError(
+        distributor,
+        "ClaimPeriodActive"
+      );
+
+      await time.increase(365 * ONE_DAY);
+      await expect(distributor.connect(investor1).reclaimUnclaimed(0)).to.be.revertedWithCustomError(
+        distributor,
+        "NotCampaignCreator"
+      );
+      await expect(distributor.connect(creator).reclaimUnclaimed(0))
+        .to.emit(distributor, "UnclaimedReclaimed")
+        .withArgs(0, creator.address, ethers.parseEther("4"));
+
+      await expect(distributor.connect(investor2).claim(0)).to.be.revertedWithCustomError(
+        distributor,
+        "DistributionClosed"
+      );
+    });
+  });
+
+  describe("Unclaimed Entitlements", function () {
+    beforeEach(async function () {
+      // Campaign 1: 20% founder share, so 100 pledged entitles the creator to 25 tokens
+      await milestoneEscrow
+        .connect(creator)
+        .createCampaign(ethers.parseEther("100"), 7, "Solar Farm", "Solar Equity", "SUN", 2000n, NATIVE_TOKEN, NO_METADATA);
+      await milestoneEscrow.connect(investor1).pledge(1, { value: ethers.parseEther("60") });
+      await milestoneEscrow.connect(investor2).pledge(1, { value: ethers.parseEther("40") });
+
+      await time.increase(8 * ONE_DAY);
+      await milestoneEscrow.connect(creator).claim(1);
+      await milestoneEscrow.connect(creator).claimFounderTokens(1);
+    });
+
+    it("Should keep the share of an investor who has not claimed tokens", async function () {
+      await milestoneEscrow.connect(investor1).claimTokens(1);
+      await time.increase(1);
+      await distributor.connect(creator).createDistribution(1, NATIVE_TOKEN, 0, { value: ethers.parseEther("25") });
+
+      expect(await distributor.getClaimableAmount(0, creator.address)).to.equal(ethers.parseEther("5"));
+      expect(await distributor.getClaimableAmount(0, investor1.address)).to.equal(ethers.parseEther("12"));
+      expect(await distributor.getClaimableAmount(0, investor2.address)).to.equal(ethers.parseEther("8"));
+
+      // Claiming the tokens after the snapshot does not change the share
+      await milestoneEscrow.connect(investor2).claimTokens(1);
+      await expect(distributor.connect(investor2).claim(0)).to.changeEtherBalance(investor2, ethers.parseEther("8"));
+    });
+
+    it("Should not let a creator holding only founder tokens take the whole deposit", async function () {
+      await time.increase(1);
+      await distributor.connect(creator).createDistribution(1, NATIVE_TOKEN, 0, { value: ethers.parseEther("25") });
+
+      await expect(distributor.connect(creator).claim(0)).to.changeEtherBalances(
+        [creator, distributor],
+        [ethers.parseEther("5"), -ethers.parseEther("5")]
+      );
+      expect(await distributor.getClaimableAmount(0, investor1.address)).to.equal(ethers.parseEther("12"));
+    });
+  });
+
+  describe("Stablecoin Distributions", function () {
+    let usdc: MockStablecoin;
+    const USDC = (amount: string) => ethers.parseUnits(amount, 6);
+
+    beforeEach(async function () {
+      const MockStablecoinFactory = await ethers.getContractFactory("MockStablecoin");
+      usdc = await MockStablecoinFactory.deploy("Mock USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+
+      await usdc.mint(creator.address, USDC("1000"));
+      await usdc.connect(creator).approve(await distributor.getAddress(), USDC("1000"));
+      await fundCampaign();
+    });
+
+    it("Should only accept payment tokens allowed by the escrow", async function () {
+      await expect(
+        distributor.connect(creator).createDistribution(0, await usdc.getAddress(), USDC("100"))
+      ).to.be.revertedWithCustomError(distributor, "PaymentTokenNotAllowed");
+    });
+
+    it("Should distribute stablecoin revenue pro-rata", async function () {
+      await milestoneEscrow.setPaymentTokenAllowed(await usdc.getAddress(), true);
+
+      await expect(
+        distributor
+          .connect(creator)
+          .createDistribution(0, await usdc.getAddress(), USDC("100"), { value: 1n })
+      ).to.be.revertedWithCustomError(distributor, "WrongPaymentMethod");
+
+      await distributor.connect(creator).createDistribution(0, await usdc.getAddress(), USDC("100"));
+
+      await distributor.connect(investor1).claim(0);
+      await distributor.connect(investor2).claim(0);
+      expect(await usdc.balanceOf(investor1.address)).to.equal(USDC("60"));
+      expect(await usdc.balanceOf(investor2.address)).to.equal(USDC("40"));
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import "tsconfig-paths/register";
+import { expect } from "chai";
+import {
+  ClaimDividendUseCase,
+  CreateDistributionUseCase,
+  ReclaimUnclaimedDividendUseCase,
+} from "../src/application/use-cases";
+import { DomainError } from "../src/domain/errors";
+import { InMemoryBlockchainService } from "../src/infrastructure/services/InMemoryBlockchainService";
+
+const ONE_DAY = 86400;
+
+// Domain error a use case rejected with
+async function rejection(execution: Promise<unknown>): Promise<DomainError> {
+  try {
+    await execution;
+  } catch (error) {
+    expect(error).to.be.instanceOf(DomainError);
+    return error as DomainError;
+  }
+  throw new Error("Use case did not reject");
+}
+
+describe("Dividend use cases", function () {
+  const CREATOR = "0x1111111111111111111111111111111111111111";
+  const INVESTOR1 = "0x2222222222222222222222222222222222222222";
+  const INVESTOR2 = "0x3333333333333333333333333333333333333333";
+  const PROJECT = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+  const MNT = (amount: number) => BigInt(amount) * 10n ** 18n;
+
+  let now: number;
+  let blockchain: InMemoryBlockchainService;
+  let createDistribution: CreateDistributionUseCase;
+  let claimDividend: ClaimDividendUseCase;
+
+  beforeEach(async function () {
+    now = Math.floor(Date.now() / 1000);
+    const deadline = now + 30 * ONE_DAY;
+
+    blockchain = new InMemoryBlockchainService({ now: () => now });
+    blockchain.addProject({
+      address: PROJECT,
+      creator: CREATOR,
+      name: "Rental Income",
+      symbol: "RENT",
+      goal: MNT(1000),
+      deadline,
+      founderShareBps: 2000n,
+    });
+
+    // Fund the campaign 600/400; only the first investor claims equity tokens
+    for (const [investor, amount] of [[INVESTOR1, MNT(600)], [INVESTOR2, MNT(400)]] as const) {
+      blockchain.setBalance(investor, amount);
+      blockchain.connect(investor);
+      expect((await blockchain.invest(PROJECT, amount)).success).to.equal(true);
+    }
+    now = deadline + 1;
+    blockchain.connect(INVESTOR1);
+    expect((await blockchain.claimTokens(PROJECT)).success).to.equal(true);
+
+    blockchain.setBalance(CREATOR, MNT(120));
+    blockchain.connect(CREATOR);
+
+    createDistribution = new CreateDistributionUseCase(blockchain);
+    claimDividend = new ClaimDividendUseCase(blockchain);
+  });
+
+  describe("CreateDistributionUseCase", function () {
+    it("Should take the deposit from the creator", async function () {
+      const output = await createDistribution.execute({ projectAddress: PROJECT, amount: MNT(120) });
+
+      expect(output.success).to.equal(true);
+      expect(await blockchain.getBalance(CREATOR)).to.equal(0n);
+    });
+
+    it("Should reject an empty deposit before sending a transaction", async function () {
+      const error = await rejection(createDistribution.execute({ projectAddress: PROJECT, amount: 0n }));
+
+      expect(error.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.transactions).to.have.length(3);
+    });
+
+    it("Should surface the revert for a non-creator", async function () {
+      blockchain.connect(INVESTOR1);
+
+      const error = await rejection(createDistribution.execute({ projectAddress: PROJECT, amount: MNT(1) }));
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Not campaign creator");
+    });
+  });
+
+  describe("ClaimDividendUseCase", function () {
+    beforeEach(async function () {
+      await createDistribution.execute({ projectAddress: PROJECT, amount: MNT(120) });
+    });
+
+    it("Should pay every holder pro-rata, including those who have not claimed tokens", async function () {
+      // 1000 pledged plus 200 founder tokens share the 120 deposited
+      for (const holder of [INVESTOR1, INVESTOR2, CREATOR]) {
+        blockchain.connect(holder);
+        await claimDividend.execute({ distributionId: 0 });
+      }
+
+      expect(await blockchain.getBalance(INVESTOR1)).to.equal(MNT(60));
+      expect(await blockchain.getBalance(INVESTOR2)).to.equal(MNT(40));
+      expect(await blockchain.getBalance(CREATOR)).to.equal(MNT(20));
+    });
+
+    it("Should only pay a holder once", async function () {
+      blockchain.connect(INVESTOR2);
+      await claimDividend.execute({ distributionId: 0 });
+
+      const error = await rejection(claimDividend.execute({ distributionId: 0 }));
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Already claimed");
+    });
+
+    it("Should reject malformed input and a disconnected wallet", async function () {
+      const badId = await rejection(claimDividend.execute({ distributionId: -1 }));
+      blockchain.disconnect();
+      const disconnected = await rejection(claimDividend.execute({ distributionId: 0 }));
+
+      expect(badId.code).to.equal("VALIDATION_ERROR");
+      expect(disconnected.code).to.equal("UNAUTHORIZED");
+    });
+  });
+
+  describe("ReclaimUnclaimedDividendUseCase", function () {
+    let reclaimUnclaimed: ReclaimUnclaimedDividendUseCase;
+
+    beforeEach(async function () {
+      reclaimUnclaimed = new ReclaimUnclaimedDividendUseCase(blockchain);
+      await createDistribution.execute({ projectAddress: PROJECT, amount: MNT(120) });
+      blockchain.connect(INVESTOR1);
+      await claimDividend.execute({ distributionId: 0 });
+      blockchain.connect(CREATOR);
+    });
+
+    it("Should return the remainder to the creator after the claim period", async function () {
+      const early = await rejection(reclaimUnclaimed.execute({ distributionId: 0 }));
+      expect(early.message).to.contain("Claim period active");
+
+      now += 365 * ONE_DAY;
+      await reclaimUnclaimed.execute({ distributionId: 0 });
+
+      expect(await blockchain.getBalance(CREATOR)).to.equal(MNT(60));
+      blockchain.connect(INVESTOR2);
+      const closed = await rejection(claimDividend.execute({ distributionId: 0 }));
+      expect(closed.message).to.contain("Distribution closed");
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, EquityToken, InvestorRegistry } from "../typechain-types";
+
+describe("EquityToken", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let equityToken: EquityToken;
+  let platformWallet: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+
+  // Fund the campaign, end it and let both investors claim their tokens
+  async function fundAndClaim() {
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("60") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("40") });
+
+    await time.increaseTo(await equityToken.campaignEnd());
+    await milestoneEscrow.connect(creator).claim(0);
+    await milestoneEscrow.connect(investor1).claimTokens(0);
+    await milestoneEscrow.connect(investor2).claimTokens(0);
+  }
+
+  beforeEach(async function () {
+    [platformWallet, creator, investor1, investor2, outsider] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
+    await milestoneEscrow.waitForDeployment();
+
+    await milestoneEscrow
+      .connect(creator)
+      .createCampaign(ethers.parseEther("100"), 7, "Restricted", "Restricted Equity", "RST", 0n, NATIVE_TOKEN, NO_METADATA);
+
+    const campaign = await milestoneEscrow.getCampaign(0);
+    equityToken = await ethers.getContractAt("EquityToken", campaign.equityToken);
+  });
+
+  describe("Configuration", function () {
+    it("Should deploy with the creator as issuer and no restrictions", async function () {
+      const campaign = await milestoneEscrow.getCampaign(0);
+      expect(await equityToken.issuer()).to.equal(creator.address);
+      expect(await equityToken.escrowContract()).to.equal(await milestoneEscrow.getAddress());
+      expect(await equityToken.campaignEnd()).to.equal(campaign.endAt);
+
+      const rules = await equityToken.transferRules();
+      expect(rules.lockupPeriod).to.equal(0n);
+      expect(rules.registeredOnly).to.equal(false);
+      expect(rules.maxHolders).to.equal(0n);
+    });
+
+    it("Should only let the issuer set rules before the campaign ends", async function () {
+      await expect(
+        equityToken.connect(investor1).setTransferRules(ONE_DAY, false, 0)
+      ).to.be.revertedWithCustomError(equityToken, "OnlyIssuer");
+
+      await expect(equityToken.connect(creator).setTransferRules(30 * ONE_DAY, true, 10))
+        .to.emit(equityToken, "TransferRulesSet")
+        .withArgs(30 * ONE_DAY, true, 10);
+      expect(await equityToken.lockupEndsAt()).to.equal((await equityToken.campaignEnd()) + BigInt(30 * ONE_DAY));
+
+      await time.increaseTo(await equityToken.campaignEnd());
+      await expect(
+        equityToken.connect(creator).setTransferRules(0, false, 0)
+      ).to.be.revertedWithCustomError(equityToken, "TransferRulesFrozen");
+    });
+  });
+
+  describe("Lock-up", function () {
+    it("Should block transfers until the lock-up ends", async function () {
+      await equityToken.connect(creator).setTransferRules(30 * ONE_DAY, false, 0);
+      await fundAndClaim();
+
+      const unlocksAt = await equityToken.lockupEndsAt();
+      await expect(equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("1")))
+        .to.be.revertedWithCustomError(equityToken, "TransferLocked")
+        .withArgs(unlocksAt);
+
+      await time.increaseTo(unlocksAt);
+      await equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("1"));
+      expect(await equityToken.balanceOf(outsider.address)).to.equal(ethers.parseEther("1"));
+    });
+
+    it("Should still let the escrow mint during the lock-up", async function () {
+      await equityToken.connect(creator).setTransferRules(30 * ONE_DAY, false, 0);
+      await fundAndClaim();
+
+      expect(await equityToken.balanceOf(investor1.address)).to.equal(ethers.parseEther("60"));
+      expect(await equityToken.balanceOf(investor2.address)).to.equal(ethers.parseEther("40"));
+    });
+  });
+
+  describe("Registered Investors", function () {
+    let registry: InvestorRegistry;
+
+    beforeEach(async function () {
+      const RegistryFactory = await ethers.getContractFactory("InvestorRegistry");
+      registry = await RegistryFactory.deploy();
+      await registry.waitForDeployment();
+      await registry.setVerifier(platformWallet.address, true);
+
+      const expiresAt = (await time.latest()) + 365 * ONE_DAY;
+      await registry.issueAttestation(investor1.address, 0, expiresAt);
+      await registry.issueAttestation(investor2.address, 0, expiresAt);
+      await milestoneEscrow.setInvestorRegistry(await registry.getAddress());
+
+      await equityToken.connect(creator).setTransferRules(0, true, 0);
+      await fundAndClaim();
+    });
+
+    it("Should allow transfers between verified investors", async function () {
+      await equityToken.connect(investor1).transfer(investor2.address, ethers.parseEther("10"));
+      expect(await equityToken.balanceOf(investor2.address)).to.equal(ethers.parseEther("50"));
+    });
+
+    it("Should reject unverified recipients and senders", async function () {
+      await expect(equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("1")))
+        .to.be.revertedWithCustomError(equityToken, "InvestorNotRegistered")
+        .withArgs(outsider.address);
+
+      await registry.revokeAttestation(investor2.address);
+      await expect(equityToken.connect(investor2).transfer(investor1.address, ethers.parseEther("1")))
+        .to.be.revertedWithCustomError(equityToken, "InvestorNotRegistered")
+        .withArgs(investor2.address);
+    });
+  });
+
+  describe("Max Holders", function () {
+    it("Should track holders and cap new ones", async function () {
+      await equityToken.connect(creator).setTransferRules(0, false, 2);
+      await fundAndClaim();
+      expect(await equityToken.holderCount()).to.equal(2n);
+
+      await expect(equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("1")))
+        .to.be.revertedWithCustomError(equityToken, "MaxHoldersExceeded")
+        .withArgs(2);
+
+      // Transfers between existing holders are fine
+      await equityToken.connect(investor1).transfer(investor2.address, ethers.parseEther("10"));
+
+      // A holder who exits makes room for a new one
+      await equityToken.connect(investor2).transfer(investor1.address, ethers.parseEther("50"));
+      expect(await equityToken.holderCount()).to.equal(1n);
+      await equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("1"));
+      expect(await equityToken.holderCount()).to.equal(2n);
+    });
+  });
+
+  describe("Delegation", function () {
+    beforeEach(async function () {
+      await fundAndClaim();
+    });
+
+    it("Should give holders their own voting power until they delegate", async function () {
+      expect(await equityToken.delegates(investor1.address)).to.equal(investor1.address);
+      expect(await equityToken.getVotes(investor1.address)).to.equal(ethers.parseEther("60"));
+      expect(await equityToken.getVotes(investor2.address)).to.equal(ethers.parseEther("40"));
+    });
+
+    it("Should move voting power to a delegate and back", async function () {
+      await expect(equityToken.connect(investor1).delegate(outsider.address))
+        .to.emit(equityToken, "DelegateChanged")
+        .withArgs(investor1.address, investor1.address, outsider.address)
+        .and.to.emit(equityToken, "DelegateVotesChanged")
+        .withArgs(outsider.address, 0, ethers.parseEther("60"));
+      const delegatedAt = await equityToken.clock();
+
+      expect(await equityToken.delegates(investor1.address)).to.equal(outsider.address);
+      expect(await equityToken.getVotes(investor1.address)).to.equal(0n);
+      expect(await equityToken.getVotes(outsider.address)).to.equal(ethers.parseEther("60"));
+
+      await time.increase(ONE_DAY);
+      await expect(equityToken.connect(investor1).delegate(investor1.address))
+        .to.emit(equityToken, "DelegateChanged")
+        .withArgs(investor1.address, outsider.address, investor1.address);
+      await time.increase(1);
+
+      expect(await equityToken.getVotes(outsider.address)).to.equal(0n);
+      expect(await equityToken.getPastVotes(outsider.address, delegatedAt)).to.equal(ethers.parseEther("60"));
+      expect(await equityToken.getPastDelegate(investor1.address, delegatedAt - 1n)).to.equal(investor1.address);
+      expect(await equityToken.getPastDelegate(investor1.address, delegatedAt)).to.equal(outsider.address);
+      expect(await equityToken.getPastDelegate(investor1.address, (await equityToken.clock()) - 1n))
+        .to.equal(investor1.address);
+    });
+
+    it("Should move delegated votes with transfers", async function () {
+      await equityToken.connect(investor1).delegate(outsider.address);
+
+      await equityToken.connect(investor2).transfer(investor1.address, ethers.parseEther("10"));
+      expect(await equityToken.getVotes(outsider.address)).to.equal(ethers.parseEther("70"));
+      expect(await equityToken.getVotes(investor2.address)).to.equal(ethers.parseEther("30"));
+
+      await equityToken.connect(investor1).transfer(investor2.address, ethers.parseEther("20"));
+      expect(await equityToken.getVotes(outsider.address)).to.equal(ethers.parseEther("50"));
+      expect(await equityToken.getVotes(investor2.address)).to.equal(ethers.parseEther("50"));
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import Database from "better-sqlite3";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, GovernanceV2 } from "../typechain-types";
+import { EventIndexer, IndexerStore } from "../src/infrastructure/indexer";
+
+describe("EventIndexer", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let governance: GovernanceV2;
+  let store: IndexerStore;
+  let indexer: EventIndexer;
+  let platformWallet: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+
+  // Voting rules per proposal type: [General, Milestone, Amendment]
+  const VOTING_RULES = [
+    { quorumBps: 2000n, approvalBps: 5000n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+  ];
+  const GOVERNANCE_PARAMS = { votingPeriod: 3 * ONE_DAY, proposalThresholdBps: 100 }; // 3-day votes, 1% to propose
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+  const EVIDENCE = ethers.id("milestone evidence");
+
+  beforeEach(async function () {
+    [platformWallet, creator, investor1, investor2] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
+    await milestoneEscrow.waitForDeployment();
+    const startBlock = await ethers.provider.getBlockNumber();
+
+    const GovernanceV2Factory = await ethers.getContractFactory("GovernanceV2");
+    governance = await GovernanceV2Factory.deploy(await milestoneEscrow.getAddress());
+    await governance.waitForDeployment();
+
+    await milestoneEscrow.setGovernanceContract(await governance.getAddress());
+
+    store = new IndexerStore(":memory:");
+    indexer = new EventIndexer({
+      provider: ethers.provider,
+      store,
+      escrowAddress: await milestoneEscrow.getAddress(),
+      governanceAddress: await governance.getAddress(),
+      startBlock,
+      batchSize: 5,
+    });
+  });
+
+  afterEach(function () {
+    store.close();
+  });
+
+  async function createMilestoneCampaign() {
+    await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+      ethers.parseEther("100"),
+      7,
+      "Indexed Campaign",
+      "Indexed Token",
+      "IDX",
+      1000n,
+      ["M1", "M2"],
+      ["First milestone", "Second milestone"],
+      [5000n, 5000n],
+      [30n, 60n],
+      VOTING_RULES,
+      GOVERNANCE_PARAMS,
+      NATIVE_TOKEN,
+      NO_METADATA
+    );
+  }
+
+  it("Should index campaigns, pledges and unpledges", async function () {
+    await createMilestoneCampaign();
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("60") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("30") });
+    await milestoneEscrow.connect(investor2).unpledge(0, ethers.parseEther("10"));
+
+    await indexer.sync();
+
+    const campaigns = store.getAllCampaigns();
+    expect(campaigns).to.have.length(1);
+
+    const onChain = await milestoneEscrow.getCampaign(0);
+    const indexed = campaigns[0];
+    expect(indexed.creator).to.equal(creator.address);
+    expect(indexed.name).to.equal("Indexed Campaign");
+    expect(indexed.goal).to.equal(onChain.goal);
+    expect(indexed.pledged).to.equal(ethers.parseEther("80"));
+    expect(indexed.endAt).to.equal(onChain.endAt);
+    expect(indexed.equityToken).to.equal(onChain.equityToken);
+    expect(indexed.founderShareBps).to.equal(1000n);
+    expect(indexed.milestoneCount).to.equal(2n);
+    expect(indexed.hasMilestones).to.equal(true);
+    expect(indexed.paymentToken).to.equal(NATIVE_TOKEN);
+    expect(indexed.metadataHash).to.equal(NO_METADATA);
+
+    expect(store.getCampaignsByCreator(creator.address.toLowerCase())).to.have.length(1);
+    expect(store.getCampaignsByCreator(investor1.address)).to.have.length(0);
+
+    const invested = store.getCampaignsByInvestor(investor2.address);
+    expect(invested).to.have.length(1);
+    expect(invested[0].pledgeAmount).to.equal(ethers.parseEther("20"));
+
+    const milestones = store.getMilestones(0);
+    expect(milestones.map((m) => m.title)).to.deep.equal(["M1", "M2"]);
+    expect(milestones[0].percentage).to.equal(5000n);
+  });
+
+  it("Should index milestone status changes and votes", async function () {
+    await createMilestoneCampaign();
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("70") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("30") });
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(investor1).claimTokens(0);
+    await milestoneEscrow.connect(investor2).claimTokens(0);
+
+    await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+    await governance.connect(investor1).vote(0, true);
+    await governance.connect(investor2).vote(0, false);
+
+    await indexer.sync();
+
+    let milestone = store.getMilestones(0)[0];
+    expect(milestone.status).to.equal(1); // Voting
+    expect(milestone.proposalId).to.equal(0n);
+    expect(milestone.evidenceHash).to.equal(EVIDENCE);
+
+    const votes = store.getVotes(0);
+    expect(votes).to.have.length(2);
+    expect(votes.find((v) => v.voter === investor1.address)?.weight).to.equal(ethers.parseEther("70"));
+    expect(votes.find((v) => v.voter === investor2.address)?.support).to.equal(0);
+    expect(store.getCampaignsByInvestor(investor1.address)[0].tokensClaimed).to.equal(true);
+
+    // Incremental sync picks up execution and release only
+    await time.increase(3 * ONE_DAY + 1);
+    await governance.executeProposal(0);
+    await milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0);
+
+    await indexer.sync();
+
+    milestone = store.getMilestones(0)[0];
+    expect(milestone.status).to.equal(4); // Released
+    expect(store.getProposal(0)?.executed).to.equal(true);
+    expect(store.getProposal(0)?.passed).to.equal(true);
+    expect(store.getCampaign(0)?.releasedAmount).to.equal(ethers.parseEther("50"));
+    expect(store.getVotes(0)).to.have.length(2);
+  });
+
+  it("Should index approved milestone amendments", async function () {
+    await createMilestoneCampaign();
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("100") });
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(investor1).claimTokens(0);
+
+    const [first, second] = await milestoneEscrow.getCampaignMilestones(0);
+    const newDeadline = first.deadline + BigInt(7 * ONE_DAY);
+    await governance
+      .connect(creator)
+      .createAmendmentProposal(0, "Reschedule", "", [newDeadline, second.deadline], [4000n, 6000n]);
+    await governance.connect(investor1).vote(0, true);
+    await time.increase(3 * ONE_DAY + 1);
+    await governance.executeProposal(0);
+
+    await indexer.sync();
+
+    const milestones = store.getMilestones(0);
+    expect(milestones[0].percentage).to.equal(4000n);
+    expect(milestones[0].deadline).to.equal(newDeadline);
+    expect(milestones[1].percentage).to.equal(6000n);
+    expect(store.getProposal(0)?.proposalType).to.equal(2); // Amendment
+  });
+
+  it("Should index delegations and top delegates", async function () {
+    await createMilestoneCampaign();
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("70") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("30") });
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(investor1).claimTokens(0);
+    await milestoneEscrow.connect(investor2).claimTokens(0);
+
+    const campaign = await milestoneEscrow.getCampaign(0);
+    const equityToken = await ethers.getContractAt("EquityToken", campaign.equityToken);
+    await equityToken.connect(investor2).delegate(investor1.address);
+
+    await indexer.sync();
+
+    const [top] = store.getTopDelegates(0);
+    expect(top.delegate).to.equal(investor1.address);
+    expect(top.votes).to.equal(ethers.parseEther("100"));
+    expect(top.delegators).to.equal(1);
+
+    await equityToken.connect(investor2).delegate(investor2.address);
+    await indexer.sync();
+
+    expect(store.getTopDelegates(0)).to.have.length(0);
+    const history = store.getDelegationHistory(0, investor2.address);
+    expect(history.map((d) => d.toDelegate)).to.deep.equal([investor1.address, investor2.address]);
+    expect(history[1].fromDelegate).to.equal(investor1.address);
+  });
+
+  it("Should clear pledges on refund and resume from the stored cursor", async function () {
+    await createMilestoneCampaign();
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("10") });
+
+    const lastBlock = await indexer.sync();
+    expect(lastBlock).to.equal(await ethers.provider.getBlockNumber());
+    expect(store.getLastIndexedBlock()).to.equal(lastBlock);
+
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(investor1).refund(0);
+
+    // A fresh indexer over the same store continues after the cursor
+    const resumed = new EventIndexer({
+      provider: ethers.provider,
+      store,
+      escrowAddress: await milestoneEscrow.getAddress(),
+      governanceAddress: await governance.getAddress(),
+    });
+    await resumed.sync();
+
+    expect(store.getPledge(0, investor1.address)).to.equal(0n);
+    expect(store.getCampaignsByInvestor(investor1.address)).to.have.length(0);
+    expect(store.getCampaign(0)?.pledged).to.equal(ethers.parseEther("10"));
+  });
+
+  it("Should rebuild a database written by an older schema and re-index it", async function () {
+    await createMilestoneCampaign();
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+    const filename = path.join(dir, "indexer.db");
+    try {
+      // Unversioned schema from before campaign metadata was indexed
+      const legacy = new Database(filename);
+      legacy.exec(`
+        CREATE TABLE meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+        CREATE TABLE campaigns (id INTEGER PRIMARY KEY, creator TEXT NOT NULL, goal TEXT NOT NULL);
+      `);
+      legacy.prepare("INSERT INTO meta (key, value) VALUES ('lastIndexedBlock', ?)").run(
+        String(await ethers.provider.getBlockNumber())
+      );
+      legacy.close();
+
+      const migrated = new IndexerStore(filename);
+      try {
+        expect(migrated.getLastIndexedBlock()).to.equal(null);
+
+        await new EventIndexer({
+          provider: ethers.provider,
+          store: migrated,
+          escrowAddress: await milestoneEscrow.getAddress(),
+          governanceAddress: await governance.getAddress(),
+        }).sync();
+
+        expect(migrated.getCampaign(0)?.metadataHash).to.equal(NO_METADATA);
+        expect(migrated.getMilestones(0)).to.have.length(2);
+      } finally {
+        migrated.close();
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
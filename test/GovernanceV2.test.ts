@@ -1,6 +1,6 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
-import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { takeSnapshot, time } from "@nomicfoundation/hardhat-network-helpers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { MilestoneEscrow, GovernanceV2, EquityToken } from "../typechain-types";
 
@@ -13,16 +13,32 @@ describe("GovernanceV2", function () {
   let investor1: HardhatEthersSigner;
   let investor2: HardhatEthersSigner;
   let investor3: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
 
   const ONE_DAY = 86400;
+
+  // Voting rules per proposal type: [General, Milestone, Amendment]
+  const VOTING_RULES = [
+    { quorumBps: 2000n, approvalBps: 5000n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+  ];
+  const GOVERNANCE_PARAMS = { votingPeriod: 3 * ONE_DAY, proposalThresholdBps: 100 }; // 3-day votes, 1% to propose
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+  const EVIDENCE = ethers.id("milestone evidence");
   const VOTING_PERIOD = 3 * ONE_DAY;
 
   beforeEach(async function () {
-    [platformWallet, creator, investor1, investor2, investor3] = await ethers.getSigners();
+    [platformWallet, creator, investor1, investor2, investor3, outsider] = await ethers.getSigners();
+
+    // Deploy EquityTokenFactory and MilestoneEscrow
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
 
-    // Deploy MilestoneEscrow
     const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
-    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address);
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
     await milestoneEscrow.waitForDeployment();
 
     // Deploy GovernanceV2
@@ -53,7 +69,11 @@ describe("GovernanceV2", function () {
       milestoneTitles,
       milestoneDescriptions,
       milestonePercentages,
-      milestoneDaysAfterEnd
+      milestoneDaysAfterEnd,
+      VOTING_RULES,
+      GOVERNANCE_PARAMS,
+      NATIVE_TOKEN,
+      NO_METADATA
     );
 
     // Fund the campaign
@@ -74,6 +94,25 @@ describe("GovernanceV2", function () {
     equityToken = await ethers.getContractAt("EquityToken", campaign.equityToken);
   });
 
+  // Execute with the lowest gas limit the transaction succeeds with. Anyone can execute and
+  // choose the limit, so no limit may let execution succeed while the escrow call runs out of gas.
+  async function executeWithLeastGas(proposalId: number) {
+    let low = 21000n;
+    let high = 2n * (await governance.executeProposal.estimateGas(proposalId));
+    while (high - low > 1n) {
+      const mid = (low + high) / 2n;
+      const snapshot = await takeSnapshot();
+      const succeeded = await governance.executeProposal(proposalId, { gasLimit: mid }).then(
+        () => true,
+        () => false
+      );
+      await snapshot.restore();
+      if (succeeded) high = mid;
+      else low = mid;
+    }
+    return governance.executeProposal(proposalId, { gasLimit: high });
+  }
+
   describe("General Proposals", function () {
     it("Should create general proposal with sufficient tokens", async function () {
       // investor1 has 50% of tokens (more than 1% required)
@@ -158,10 +197,74 @@ describe("GovernanceV2", function () {
     });
   });
 
+  describe("Abstain and Vote Changes", function () {
+    const AGAINST = 0;
+    const FOR = 1;
+    const ABSTAIN = 2;
+
+    beforeEach(async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+    });
+
+    it("Should count abstentions toward quorum but not approval", async function () {
+      await governance.connect(investor3).castVote(0, FOR); // 20 tokens
+      expect((await governance.getVotingResults(0)).quorumReached).to.equal(false);
+
+      await expect(governance.connect(investor2).castVote(0, ABSTAIN)) // 30 tokens
+        .to.emit(governance, "Voted")
+        .withArgs(0, investor2.address, ABSTAIN, ethers.parseEther("30"));
+
+      const results = await governance.getVotingResults(0);
+      expect(results.forPercent).to.equal(40);
+      expect(results.abstainPercent).to.equal(60);
+      expect(results.totalVotes).to.equal(ethers.parseEther("50"));
+      expect(results.quorumReached).to.equal(true);
+
+      await time.increase(VOTING_PERIOD + 1);
+      expect(await governance.proposalPassed(0)).to.equal(true);
+    });
+
+    it("Should move the voter's weight when they change their vote", async function () {
+      await governance.connect(investor1).voteWithReleaseShare(0, 5000);
+      expect(await governance.releaseVotes(0)).to.equal(ethers.parseEther("25"));
+
+      await governance.connect(investor1).castVote(0, AGAINST);
+      let proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(0n);
+      expect(proposal.againstVotes).to.equal(ethers.parseEther("50"));
+      expect(await governance.releaseVotes(0)).to.equal(0n);
+
+      await governance.connect(investor1).vote(0, true);
+      proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(ethers.parseEther("50"));
+      expect(proposal.againstVotes).to.equal(0n);
+      expect(await governance.getApprovedReleaseBps(0)).to.equal(10000n);
+
+      const vote = await governance.getVote(0, investor1.address);
+      expect(vote.voted).to.equal(true);
+      expect(vote.support).to.equal(FOR);
+      expect(vote.weight).to.equal(ethers.parseEther("50"));
+      expect(vote.releaseBps).to.equal(10000n);
+
+      await expect(
+        governance.connect(investor1).castVote(0, FOR)
+      ).to.be.revertedWithCustomError(governance, "AlreadyVoted");
+    });
+
+    it("Should not allow vote changes after voting ends", async function () {
+      await governance.connect(investor1).castVote(0, FOR);
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(
+        governance.connect(investor1).castVote(0, AGAINST)
+      ).to.be.revertedWithCustomError(governance, "VotingEnded");
+    });
+  });
+
   describe("Milestone Proposals", function () {
     it("Should create milestone proposal through escrow", async function () {
       await expect(
-        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0)
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
       ).to.emit(governance, "ProposalCreated");
 
       const proposal = await governance.getProposal(0);
@@ -182,7 +285,7 @@ describe("GovernanceV2", function () {
 
     it("Should update milestone status on approval", async function () {
       // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
 
       // Vote in favor
       await governance.connect(investor1).vote(0, true);
@@ -203,7 +306,7 @@ describe("GovernanceV2", function () {
 
     it("Should update milestone status on rejection", async function () {
       // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
 
       // Vote against
       await governance.connect(investor1).vote(0, false);
@@ -222,15 +325,555 @@ describe("GovernanceV2", function () {
       expect(milestone.status).to.equal(3); // Rejected
     });
 
+    it("Should weight the approved release share by voting power", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      expect(await governance.getApprovedReleaseBps(0)).to.equal(10000);
+
+      // 50 tokens at 40% and 30 tokens at 100%: (20 + 30) / 80 = 62.5%
+      await expect(governance.connect(investor1).voteWithReleaseShare(0, 4000n))
+        .to.emit(governance, "ReleaseShareVoted")
+        .withArgs(0, investor1.address, 4000n);
+      await governance.connect(investor2).vote(0, true);
+      await governance.connect(investor3).vote(0, false);
+
+      expect(await governance.getApprovedReleaseBps(0)).to.equal(6250);
+
+      await time.increase(VOTING_PERIOD + 1);
+      await governance.executeProposal(0);
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(2); // Approved
+      expect(milestone.percentage).to.equal(3125);
+    });
+
+    it("Should only accept release shares on milestone proposals", async function () {
+      await governance.connect(investor1).createProposal(0, "General", "Not a milestone");
+      await expect(
+        governance.connect(investor1).voteWithReleaseShare(0, 5000n)
+      ).to.be.revertedWithCustomError(governance, "NotMilestoneProposal");
+
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await expect(
+        governance.connect(investor1).voteWithReleaseShare(1, 0n)
+      ).to.be.revertedWithCustomError(governance, "InvalidReleaseShare");
+      await expect(
+        governance.connect(investor1).voteWithReleaseShare(1, 10001n)
+      ).to.be.revertedWithCustomError(governance, "InvalidReleaseShare");
+    });
+
     it("Should track milestone proposal IDs", async function () {
       // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
 
       const proposalId = await governance.getMilestoneProposalId(0, 0);
       expect(proposalId).to.equal(0);
     });
   });
 
+  describe("Amendment Proposals", function () {
+    let deadlines: bigint[];
+
+    beforeEach(async function () {
+      const milestones = await milestoneEscrow.getCampaignMilestones(0);
+      deadlines = milestones.map((m) => m.deadline);
+    });
+
+    async function passProposal(proposalId: number) {
+      await governance.connect(investor1).vote(proposalId, true);
+      await governance.connect(investor2).vote(proposalId, true);
+      await time.increase(VOTING_PERIOD + 1);
+    }
+
+    it("Should let the creator propose an amendment", async function () {
+      const newDeadlines = [deadlines[0] + BigInt(14 * ONE_DAY), deadlines[1]];
+
+      await expect(
+        governance.connect(creator).createAmendmentProposal(
+          0,
+          "Extend M1",
+          "Supplier delay",
+          newDeadlines,
+          [5000n, 5000n]
+        )
+      ).to.emit(governance, "ProposalCreated");
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.proposalType).to.equal(2); // Amendment
+
+      const [storedDeadlines, storedPercentages] = await governance.getAmendment(0);
+      expect(storedDeadlines).to.deep.equal(newDeadlines);
+      expect(storedPercentages).to.deep.equal([5000n, 5000n]);
+    });
+
+    it("Should only allow the campaign creator to propose amendments", async function () {
+      await expect(
+        governance.connect(investor1).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n])
+      ).to.be.revertedWithCustomError(governance, "OnlyCreatorCanAmend");
+    });
+
+    it("Should reject invalid schedules when proposing", async function () {
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Bad", "", deadlines, [4000n, 5000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "PercentagesMustSumTo100");
+
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Same", "", deadlines, [5000n, 5000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "EmptyAmendment");
+
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Swap", "", [deadlines[1], deadlines[0]], [5000n, 5000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "DeadlinesNotAscending");
+
+      const past = BigInt(await time.latest()) - BigInt(ONE_DAY);
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Past", "", [past, deadlines[1]], [5000n, 5000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "DeadlineNotInFuture");
+    });
+
+    it("Should rebalance unreleased percentages on approval", async function () {
+      await governance.connect(creator).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n]);
+      await passProposal(0);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "AmendmentProposalExecuted")
+        .withArgs(0, 0, true)
+        .and.to.emit(milestoneEscrow, "MilestoneAmended")
+        .withArgs(0, 0, 4000n, deadlines[0]);
+
+      expect((await milestoneEscrow.getMilestone(0, 0)).percentage).to.equal(4000);
+      expect((await milestoneEscrow.getMilestone(0, 1)).percentage).to.equal(6000);
+    });
+
+    it("Should revive an expired milestone with an extended deadline", async function () {
+      await time.increaseTo(deadlines[0] + 1n);
+      await milestoneEscrow.markMilestoneExpired(0, 0);
+
+      const newDeadline = BigInt(await time.latest()) + BigInt(10 * ONE_DAY);
+      await governance.connect(creator).createAmendmentProposal(
+        0,
+        "Extend M1",
+        "Missed the deadline",
+        [newDeadline, deadlines[1]],
+        [5000n, 5000n]
+      );
+      await passProposal(0);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(milestoneEscrow, "MilestoneStatusChanged")
+        .withArgs(0, 0, 0); // Pending
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.deadline).to.equal(newDeadline);
+      expect(milestone.status).to.equal(0);
+
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      ).to.emit(milestoneEscrow, "MilestoneSubmitted");
+    });
+
+    it("Should not revive an expired milestone once emergency refunds were paid", async function () {
+      await time.increaseTo(deadlines[0] + 1n);
+      await milestoneEscrow.markMilestoneExpired(0, 0);
+
+      const newDeadline = BigInt(await time.latest()) + BigInt(10 * ONE_DAY);
+      const revived = [newDeadline, deadlines[1]];
+      await governance.connect(creator).createAmendmentProposal(0, "Extend M1", "", revived, [5000n, 5000n]);
+
+      // A holder takes their refund while the amendment is being voted on
+      await expect(milestoneEscrow.connect(investor3).emergencyRefund(0)).to.changeEtherBalance(
+        investor3,
+        ethers.parseEther("20")
+      );
+      await passProposal(0);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "AmendmentProposalExecuted")
+        .withArgs(0, 0, false);
+      expect((await milestoneEscrow.getMilestone(0, 0)).status).to.equal(5); // Expired
+
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Extend M1", "", revived, [5000n, 5000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "EmergencyRefundActive");
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 1, EVIDENCE)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "EmergencyRefundActive");
+
+      // The remaining holders are still refunded in full from this campaign's funds
+      await expect(milestoneEscrow.connect(investor1).emergencyRefund(0)).to.changeEtherBalance(
+        investor1,
+        ethers.parseEther("50")
+      );
+      await expect(milestoneEscrow.connect(investor2).emergencyRefund(0)).to.changeEtherBalance(
+        investor2,
+        ethers.parseEther("30")
+      );
+    });
+
+    it("Should not amend milestones that are in a vote", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      await expect(
+        governance.connect(creator).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "MilestoneNotAmendable");
+    });
+
+    it("Should leave the schedule unchanged when rejected", async function () {
+      await governance.connect(creator).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n]);
+      await governance.connect(investor1).vote(0, false);
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "AmendmentProposalExecuted")
+        .withArgs(0, 0, false);
+
+      expect((await milestoneEscrow.getMilestone(0, 0)).percentage).to.equal(5000);
+    });
+
+    it("Should skip an amendment that became invalid during the vote", async function () {
+      await governance.connect(creator).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n]);
+
+      // Milestone 0 enters its own vote before the amendment is executed
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await passProposal(0);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "AmendmentProposalExecuted")
+        .withArgs(0, 0, false)
+        .and.to.emit(governance, "ProposalExecuted")
+        .withArgs(0, true);
+
+      expect((await milestoneEscrow.getMilestone(0, 0)).percentage).to.equal(5000);
+    });
+
+    it("Should apply a passed amendment however little gas execution is given", async function () {
+      await governance.connect(creator).createAmendmentProposal(0, "Rebalance", "", deadlines, [4000n, 6000n]);
+      await passProposal(0);
+
+      const gas = await governance.executeProposal.estimateGas(0);
+      await expect(governance.executeProposal(0, { gasLimit: (gas * 9n) / 10n })).to.be.reverted;
+      expect((await governance.getProposal(0)).executed).to.equal(false);
+
+      await expect(executeWithLeastGas(0))
+        .to.emit(governance, "AmendmentProposalExecuted")
+        .withArgs(0, 0, true);
+      expect((await milestoneEscrow.getMilestone(0, 0)).percentage).to.equal(4000);
+    });
+
+    it("Should only allow governance to amend milestones", async function () {
+      await expect(
+        milestoneEscrow.connect(creator).amendMilestones(0, deadlines, [4000n, 6000n])
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OnlyGovernanceContract");
+    });
+  });
+
+  describe("Action Proposals", function () {
+    const NO_ACTION = { actionType: 0, payoutAddress: ethers.ZeroAddress };
+    const EMERGENCY_REFUND = { actionType: 1, payoutAddress: ethers.ZeroAddress };
+    const PAUSE_SUBMISSIONS = { actionType: 3, payoutAddress: ethers.ZeroAddress };
+    const RESUME_SUBMISSIONS = { actionType: 4, payoutAddress: ethers.ZeroAddress };
+
+    async function passProposal(proposalId: number) {
+      await governance.connect(investor1).vote(proposalId, true);
+      await governance.connect(investor2).vote(proposalId, true);
+      await time.increase(VOTING_PERIOD + 1);
+    }
+
+    it("Should store the action and reject invalid ones", async function () {
+      const replacePayout = { actionType: 2, payoutAddress: outsider.address };
+      await expect(
+        governance.connect(investor1).createActionProposal(0, "New payout", "Creator key lost", replacePayout)
+      ).to.emit(governance, "ProposalCreated");
+
+      const action = await governance.getProposalAction(0);
+      expect(action.actionType).to.equal(2);
+      expect(action.payoutAddress).to.equal(outsider.address);
+      expect((await governance.getProposal(0)).proposalType).to.equal(0); // General
+
+      await expect(
+        governance.connect(investor1).createActionProposal(0, "Nothing", "", NO_ACTION)
+      ).to.be.revertedWithCustomError(governance, "InvalidProposalAction");
+      await expect(
+        governance.connect(investor1).createActionProposal(0, "No address", "", { actionType: 2, payoutAddress: ethers.ZeroAddress })
+      ).to.be.revertedWithCustomError(governance, "InvalidProposalAction");
+      await expect(
+        governance.connect(investor1).createActionProposal(0, "Stray address", "", { ...EMERGENCY_REFUND, payoutAddress: outsider.address })
+      ).to.be.revertedWithCustomError(governance, "InvalidProposalAction");
+      await expect(
+        governance.connect(outsider).createActionProposal(0, "Refund", "", EMERGENCY_REFUND)
+      ).to.be.revertedWithCustomError(governance, "InsufficientTokens");
+    });
+
+    it("Should open emergency refunds and lock approved tranches on approval", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).createActionProposal(0, "Refund", "Project abandoned", EMERGENCY_REFUND);
+      await governance.connect(investor1).vote(0, true);
+      await passProposal(1);
+      await governance.executeProposal(0);
+
+      await expect(governance.executeProposal(1))
+        .to.emit(governance, "ProposalActionExecuted")
+        .withArgs(1, 0, 1, true)
+        .and.to.emit(milestoneEscrow, "EmergencyRefundEnabled")
+        .withArgs(0, ethers.parseEther("100"));
+
+      expect(await milestoneEscrow.submissionsPaused(0)).to.equal(true);
+      await expect(
+        milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "EmergencyRefundActive");
+
+      await expect(milestoneEscrow.connect(investor1).emergencyRefund(0)).to.changeEtherBalance(
+        investor1,
+        ethers.parseEther("50")
+      );
+    });
+
+    it("Should send milestone payouts to a replaced payout address", async function () {
+      const replacePayout = { actionType: 2, payoutAddress: outsider.address };
+      await governance.connect(investor1).createActionProposal(0, "New payout", "", replacePayout);
+      await passProposal(0);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(milestoneEscrow, "PayoutAddressUpdated")
+        .withArgs(0, creator.address, outsider.address);
+      expect(await milestoneEscrow.getPayoutAddress(0)).to.equal(outsider.address);
+
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await passProposal(1);
+      await governance.executeProposal(1);
+
+      await expect(milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0)).to.changeEtherBalances(
+        [creator, outsider],
+        [0n, ethers.parseEther("49")] // 50% tranche less the 2% platform fee
+      );
+    });
+
+    it("Should pause and resume milestone submissions", async function () {
+      await governance.connect(investor1).createActionProposal(0, "Pause", "", PAUSE_SUBMISSIONS);
+      await passProposal(0);
+      await governance.executeProposal(0);
+
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "MilestoneSubmissionsPaused");
+
+      // A rejected action leaves the escrow unchanged
+      await governance.connect(investor1).createActionProposal(0, "Resume", "", RESUME_SUBMISSIONS);
+      await governance.connect(investor1).vote(1, false);
+      await time.increase(VOTING_PERIOD + 1);
+      await expect(governance.executeProposal(1))
+        .to.emit(governance, "ProposalActionExecuted")
+        .withArgs(1, 0, 4, false);
+      expect(await milestoneEscrow.submissionsPaused(0)).to.equal(true);
+
+      await governance.connect(investor1).createActionProposal(0, "Resume", "", RESUME_SUBMISSIONS);
+      await passProposal(2);
+      await governance.executeProposal(2);
+
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      ).to.emit(milestoneEscrow, "MilestoneSubmitted");
+    });
+
+    it("Should run a passed action however little gas execution is given", async function () {
+      await governance.connect(investor1).createActionProposal(0, "Refund", "Project abandoned", EMERGENCY_REFUND);
+      await passProposal(0);
+
+      // Too little gas leaves the proposal executable instead of settling it without its action
+      const gas = await governance.executeProposal.estimateGas(0);
+      await expect(governance.executeProposal(0, { gasLimit: (gas * 9n) / 10n })).to.be.reverted;
+      expect((await governance.getProposal(0)).executed).to.equal(false);
+
+      await expect(executeWithLeastGas(0))
+        .to.emit(governance, "ProposalActionExecuted")
+        .withArgs(0, 0, 1, true);
+      expect(await milestoneEscrow.submissionsPaused(0)).to.equal(true);
+    });
+
+    it("Should only allow governance to run escrow actions", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).enableEmergencyRefund(0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OnlyGovernanceContract");
+      await expect(
+        milestoneEscrow.connect(creator).setPayoutAddress(0, creator.address)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OnlyGovernanceContract");
+      await expect(
+        milestoneEscrow.connect(investor1).setSubmissionsPaused(0, true)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OnlyGovernanceContract");
+    });
+  });
+
+  describe("Vote Snapshots", function () {
+    beforeEach(async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+    });
+
+    it("Should not allow tokens to be voted twice after a transfer", async function () {
+      await governance.connect(investor1).vote(0, false);
+
+      // Move the already-voted tokens to a fresh wallet and try again
+      await equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("50"));
+
+      await expect(
+        governance.connect(outsider).vote(0, false)
+      ).to.be.revertedWithCustomError(governance, "NoVotingPower");
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.againstVotes).to.equal(ethers.parseEther("50"));
+    });
+
+    it("Should not count tokens received after the snapshot", async function () {
+      await equityToken.connect(investor3).transfer(investor2.address, ethers.parseEther("20"));
+
+      await governance.connect(investor2).vote(0, true);
+
+      expect(await governance.getVoteWeight(0, investor2.address)).to.equal(ethers.parseEther("30"));
+    });
+
+    it("Should keep snapshot voting power after tokens are transferred away", async function () {
+      await equityToken.connect(investor2).transfer(outsider.address, ethers.parseEther("30"));
+
+      expect(await governance.getVotingPower(0, investor2.address)).to.equal(ethers.parseEther("30"));
+      expect(await governance.getVotingPower(0, outsider.address)).to.equal(0);
+
+      await governance.connect(investor2).vote(0, true);
+      const proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(ethers.parseEther("30"));
+    });
+
+    it("Should expose past balances on the equity token", async function () {
+      const proposal = await governance.getProposal(0);
+
+      await equityToken.connect(investor1).transfer(outsider.address, ethers.parseEther("10"));
+
+      expect(await equityToken.getPastBalance(investor1.address, proposal.snapshotTime))
+        .to.equal(ethers.parseEther("50"));
+      expect(await equityToken.getPastTotalSupply(proposal.snapshotTime))
+        .to.equal(ethers.parseEther("100"));
+
+      const now = await equityToken.clock();
+      await expect(
+        equityToken.getPastBalance(investor1.address, now + 100n)
+      ).to.be.revertedWithCustomError(equityToken, "FutureLookup");
+    });
+  });
+
+  describe("Delegation", function () {
+    it("Should count voting power delegated before the snapshot", async function () {
+      await equityToken.connect(investor3).delegate(investor1.address);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      expect(await governance.getVotingPower(0, investor1.address)).to.equal(ethers.parseEther("70"));
+      await expect(
+        governance.connect(investor3).vote(0, true)
+      ).to.be.revertedWithCustomError(governance, "NoVotingPower");
+
+      await governance.connect(investor1).vote(0, true);
+      const proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(ethers.parseEther("70"));
+    });
+
+    it("Should not count delegations made after the snapshot", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await equityToken.connect(investor3).delegate(investor1.address);
+
+      expect(await governance.getVotingPower(0, investor1.address)).to.equal(ethers.parseEther("50"));
+      await governance.connect(investor3).vote(0, false);
+      expect(await governance.getVoteWeight(0, investor3.address)).to.equal(ethers.parseEther("20"));
+    });
+  });
+
+  describe("Signed Ballots", function () {
+    const BALLOT_TYPES = {
+      Ballot: [
+        { name: "proposalId", type: "uint256" },
+        { name: "support", type: "uint8" },
+        { name: "releaseBps", type: "uint256" },
+        { name: "voter", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    };
+
+    async function signBallot(
+      voter: HardhatEthersSigner,
+      support: number,
+      overrides: { releaseBps?: bigint; nonce?: bigint; deadline?: bigint } = {}
+    ) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const ballot = {
+        proposalId: 0n,
+        support,
+        releaseBps: overrides.releaseBps ?? 10000n,
+        voter: voter.address,
+        nonce: overrides.nonce ?? (await governance.nonces(voter.address)),
+        deadline: overrides.deadline ?? BigInt((await time.latest()) + ONE_DAY),
+      };
+      const domain = { name: "GovernanceV2", version: "1", chainId, verifyingContract: await governance.getAddress() };
+      return { ballot, signature: await voter.signTypedData(domain, BALLOT_TYPES, ballot) };
+    }
+
+    beforeEach(async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+    });
+
+    it("Should count a ballot submitted by a relayer for the signer", async function () {
+      const { ballot, signature } = await signBallot(investor1, 1, { releaseBps: 6000n });
+
+      await expect(governance.connect(outsider).castVoteBySig(ballot, signature))
+        .to.emit(governance, "Voted")
+        .withArgs(0, investor1.address, 1, ethers.parseEther("50"))
+        .and.to.emit(governance, "ReleaseShareVoted")
+        .withArgs(0, investor1.address, 6000);
+
+      expect(await governance.hasAddressVoted(0, investor1.address)).to.equal(true);
+      expect(await governance.hasAddressVoted(0, outsider.address)).to.equal(false);
+      expect(await governance.nonces(investor1.address)).to.equal(1n);
+    });
+
+    it("Should reject forged, replayed and expired ballots", async function () {
+      const { ballot, signature } = await signBallot(investor1, 1);
+
+      const forged = { ...ballot, voter: investor2.address };
+      await expect(
+        governance.connect(outsider).castVoteBySig(forged, signature)
+      ).to.be.revertedWithCustomError(governance, "InvalidSignature");
+
+      await governance.connect(outsider).castVoteBySig(ballot, signature);
+      await expect(
+        governance.connect(outsider).castVoteBySig(ballot, signature)
+      ).to.be.revertedWithCustomError(governance, "InvalidAccountNonce");
+
+      const expired = await signBallot(investor2, 0, { deadline: BigInt(await time.latest()) });
+      await time.increase(1);
+      await expect(
+        governance.connect(outsider).castVoteBySig(expired.ballot, expired.signature)
+      ).to.be.revertedWithCustomError(governance, "SignatureExpired");
+
+      const againstWithShare = await signBallot(investor2, 0, { releaseBps: 5000n });
+      await expect(
+        governance.connect(outsider).castVoteBySig(againstWithShare.ballot, againstWithShare.signature)
+      ).to.be.revertedWithCustomError(governance, "InvalidReleaseShare");
+    });
+
+    it("Should cast a batch of ballots in one transaction", async function () {
+      const first = await signBallot(investor2, 1);
+      const second = await signBallot(investor3, 2);
+
+      await governance
+        .connect(outsider)
+        .castVotesBySig([first.ballot, second.ballot], [first.signature, second.signature]);
+
+      const proposal = await governance.getProposal(0);
+      expect(proposal.forVotes).to.equal(ethers.parseEther("30"));
+      expect(proposal.abstainVotes).to.equal(ethers.parseEther("20"));
+
+      await expect(
+        governance.connect(outsider).castVotesBySig([first.ballot], [])
+      ).to.be.revertedWithCustomError(governance, "ArrayLengthMismatch");
+    });
+  });
+
   describe("Proposal Status", function () {
     beforeEach(async function () {
       await governance.connect(investor1).createProposal(
@@ -241,13 +884,13 @@ describe("GovernanceV2", function () {
     });
 
     it("Should return correct status for active proposal", async function () {
-      const status = await governance.getProposalStatus(0);
+      const [status] = await governance.getProposalStatus(0);
       expect(status).to.equal(1); // Active
     });
 
     it("Should return correct status for ended proposal", async function () {
       await time.increase(VOTING_PERIOD + 1);
-      const status = await governance.getProposalStatus(0);
+      const [status] = await governance.getProposalStatus(0);
       expect(status).to.equal(2); // Ended
     });
 
@@ -256,18 +899,163 @@ describe("GovernanceV2", function () {
       await time.increase(VOTING_PERIOD + 1);
       await governance.executeProposal(0);
 
-      const status = await governance.getProposalStatus(0);
+      const [status] = await governance.getProposalStatus(0);
       expect(status).to.equal(3); // Executed
     });
 
     it("Should return correct status for canceled proposal", async function () {
       await governance.connect(investor1).cancelProposal(0);
 
-      const status = await governance.getProposalStatus(0);
+      const [status] = await governance.getProposalStatus(0);
       expect(status).to.equal(4); // Canceled
     });
   });
 
+  describe("Governance Parameters", function () {
+    it("Should use the campaign's voting period and proposal threshold", async function () {
+      await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+        ethers.parseEther("100"),
+        7,
+        "Quick Campaign",
+        "Quick Token",
+        "QUICK",
+        0n,
+        ["M1"],
+        ["Only milestone"],
+        [10000n],
+        [30n],
+        VOTING_RULES,
+        { votingPeriod: ONE_DAY, proposalThresholdBps: 1000 },
+        NATIVE_TOKEN,
+        NO_METADATA
+      );
+      await milestoneEscrow.connect(investor1).pledge(1, { value: ethers.parseEther("95") });
+      await milestoneEscrow.connect(investor3).pledge(1, { value: ethers.parseEther("5") });
+      await time.increase(8 * ONE_DAY);
+      await milestoneEscrow.connect(investor1).claimTokens(1);
+      await milestoneEscrow.connect(investor3).claimTokens(1);
+
+      const [votingPeriod, proposalThresholdBps] = await governance.getGovernanceParams(1);
+      expect(votingPeriod).to.equal(ONE_DAY);
+      expect(proposalThresholdBps).to.equal(1000);
+
+      // 5% of supply is below the 10% threshold
+      await expect(
+        governance.connect(investor3).createProposal(1, "Small holder", "Below threshold")
+      ).to.be.revertedWithCustomError(governance, "InsufficientTokens");
+
+      await governance.connect(investor1).createProposal(1, "Large holder", "Above threshold");
+      const proposal = await governance.getProposal(0);
+      expect(proposal.endTime - proposal.startTime).to.equal(BigInt(ONE_DAY));
+    });
+
+    it("Should fall back to the defaults for campaigns without milestones", async function () {
+      await milestoneEscrow
+        .connect(creator)
+        .createCampaign(ethers.parseEther("100"), 7, "Plain Campaign", "Plain Token", "PLAIN", 0n, NATIVE_TOKEN, NO_METADATA);
+
+      const [votingPeriod, proposalThresholdBps] = await governance.getGovernanceParams(1);
+      expect(votingPeriod).to.equal(VOTING_PERIOD);
+      expect(proposalThresholdBps).to.equal(100);
+    });
+  });
+
+  describe("Quorum and Approval Threshold", function () {
+    it("Should store voting rules per proposal type", async function () {
+      const generalRules = await milestoneEscrow.getVotingRules(0, 0);
+      expect(generalRules.quorumBps).to.equal(2000);
+      expect(generalRules.approvalBps).to.equal(5000);
+
+      const milestoneRules = await milestoneEscrow.getVotingRules(0, 1);
+      expect(milestoneRules.quorumBps).to.equal(3000);
+      expect(milestoneRules.approvalBps).to.equal(6667);
+
+      const amendmentRules = await milestoneEscrow.getVotingRules(0, 2);
+      expect(amendmentRules.quorumBps).to.equal(3000);
+      expect(amendmentRules.approvalBps).to.equal(6667);
+    });
+
+    it("Should reject milestone when quorum is not reached", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      // 20% participation against a 30% quorum
+      await governance.connect(investor3).vote(0, true);
+
+      const results = await governance.getVotingResults(0);
+      expect(results.quorumVotes).to.equal(ethers.parseEther("30"));
+      expect(results.quorumReached).to.equal(false);
+
+      await time.increase(VOTING_PERIOD + 1);
+      expect(await governance.proposalPassed(0)).to.equal(false);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "MilestoneProposalExecuted")
+        .withArgs(0, 0, 0, false);
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(3); // Rejected
+    });
+
+    it("Should require a supermajority for milestone approval", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      // 62.5% in favor is a simple majority but below the 66.67% threshold
+      await governance.connect(investor1).vote(0, true);
+      await governance.connect(investor2).vote(0, false);
+
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "MilestoneProposalExecuted")
+        .withArgs(0, 0, 0, false);
+    });
+
+    it("Should allow resubmitting a milestone rejected without a supermajority", async function () {
+      // A general proposal takes ID 0 so the milestone proposal has a tracked nonzero ID
+      await governance.connect(investor1).createProposal(0, "Roadmap", "Signal");
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      // More for than against, but below the 66.67% threshold
+      await governance.connect(investor1).vote(1, true);
+      await governance.connect(investor2).vote(1, false);
+      await time.increase(VOTING_PERIOD + 1);
+      await governance.executeProposal(1);
+      expect((await milestoneEscrow.getMilestone(0, 0)).status).to.equal(3); // Rejected
+
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      ).to.emit(milestoneEscrow, "MilestoneSubmitted");
+      expect(await governance.getMilestoneProposalId(0, 0)).to.equal(2);
+    });
+
+    it("Should apply the general rules to general proposals", async function () {
+      await governance.connect(investor1).createProposal(0, "Test", "Test");
+
+      // Same split passes under the simple-majority general rules
+      await governance.connect(investor1).vote(0, true);
+      await governance.connect(investor2).vote(0, false);
+
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(governance, "ProposalExecuted")
+        .withArgs(0, true);
+    });
+
+    it("Should expose quorum state in proposal status", async function () {
+      await governance.connect(investor1).createProposal(0, "Test", "Test");
+
+      let [status, quorumReached] = await governance.getProposalStatus(0);
+      expect(status).to.equal(1); // Active
+      expect(quorumReached).to.equal(false);
+
+      await governance.connect(investor3).vote(0, true);
+
+      [status, quorumReached] = await governance.getProposalStatus(0);
+      expect(quorumReached).to.equal(true);
+    });
+  });
+
   describe("Voting Results", function () {
     it("Should calculate voting percentages correctly", async function () {
       await governance.connect(investor1).createProposal(
@@ -280,7 +1068,7 @@ describe("GovernanceV2", function () {
       await governance.connect(investor2).vote(0, false); // 30 tokens
       await governance.connect(investor3).vote(0, true); // 20 tokens
 
-      const [forPercent, againstPercent, totalVotes] = await governance.getVotingResults(0);
+      const [forPercent, againstPercent, , totalVotes] = await governance.getVotingResults(0);
 
       // For: 70 tokens (70%), Against: 30 tokens (30%)
       expect(forPercent).to.equal(70);
@@ -295,7 +1083,7 @@ describe("GovernanceV2", function () {
         "This is a test proposal"
       );
 
-      const [forPercent, againstPercent, totalVotes] = await governance.getVotingResults(0);
+      const [forPercent, againstPercent, , totalVotes] = await governance.getVotingResults(0);
 
       expect(forPercent).to.equal(0);
       expect(againstPercent).to.equal(0);
@@ -317,7 +1105,7 @@ describe("GovernanceV2", function () {
       await governance.connect(investor1).createProposal(0, "General", "General proposal");
 
       // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
 
       // Check proposal types
       expect(await governance.isMilestoneProposal(0)).to.be.false;
@@ -399,5 +1187,56 @@ describe("GovernanceV2", function () {
         governance.connect(investor1).cancelProposal(0)
       ).to.be.revertedWithCustomError(governance, "AlreadyExecuted");
     });
+
+    it("Should return canceled milestone to Pending for resubmission", async function () {
+      // General proposal first so the milestone proposal ID is non-zero
+      await governance.connect(investor1).createProposal(0, "Test", "Test");
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      expect(await governance.getMilestoneProposalId(0, 0)).to.equal(1);
+
+      await expect(governance.connect(creator).cancelProposal(1))
+        .to.emit(milestoneEscrow, "MilestoneStatusChanged")
+        .withArgs(0, 0, 0) // Pending
+        .and.to.emit(governance, "ProposalCanceled")
+        .withArgs(1);
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(0); // Pending
+      expect(milestone.proposalId).to.equal(0);
+      expect(await governance.getMilestoneProposalId(0, 0)).to.equal(0);
+
+      // Resubmit and approve
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      expect(await governance.getMilestoneProposalId(0, 0)).to.equal(2);
+
+      await governance.connect(investor1).vote(2, true);
+      await governance.connect(investor2).vote(2, true);
+      await time.increase(VOTING_PERIOD + 1);
+      await governance.executeProposal(2);
+
+      expect((await milestoneEscrow.getMilestone(0, 0)).status).to.equal(2); // Approved
+    });
+
+    it("Should only allow the campaign creator to cancel milestone proposals", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      await expect(
+        governance.connect(investor1).cancelProposal(0)
+      ).to.be.revertedWithCustomError(governance, "NotProposer");
+
+      await expect(
+        milestoneEscrow.connect(creator).resetMilestoneStatus(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OnlyGovernanceContract");
+    });
+
+    it("Should not allow canceling milestone proposal after voting ends", async function () {
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).vote(0, false);
+      await time.increase(VOTING_PERIOD + 1);
+
+      await expect(
+        governance.connect(creator).cancelProposal(0)
+      ).to.be.revertedWithCustomError(governance, "VotingEnded");
+    });
   });
 });
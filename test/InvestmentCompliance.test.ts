@@ -0,0 +1,196 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, InvestmentCompliance, InvestorRegistry, MockStablecoin } from "../typechain-types";
+
+describe("InvestmentCompliance", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let compliance: InvestmentCompliance;
+  let platformWallet: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+  const RETAIL_CAP = ethers.parseEther("500");
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+
+  const Tier = { Retail: 0, Professional: 1 };
+
+  async function createCampaign(goal = ethers.parseEther("1000"), paymentToken = NATIVE_TOKEN) {
+    await milestoneEscrow
+      .connect(creator)
+      .createCampaign(goal, 7, "Capped Campaign", "Capped Equity", "CAP", 0n, paymentToken, NO_METADATA);
+    return Number(await milestoneEscrow.campaignCount()) - 1;
+  }
+
+  beforeEach(async function () {
+    [platformWallet, creator, investor1, investor2] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
+    await milestoneEscrow.waitForDeployment();
+
+    const ComplianceFactory = await ethers.getContractFactory("InvestmentCompliance");
+    compliance = await ComplianceFactory.deploy(await milestoneEscrow.getAddress(), ethers.ZeroAddress, RETAIL_CAP);
+    await compliance.waitForDeployment();
+
+    await milestoneEscrow.setComplianceModule(await compliance.getAddress());
+  });
+
+  describe("Deployment", function () {
+    it("Should cap retail investors and leave professional investors uncapped", async function () {
+      expect(await compliance.escrowContract()).to.equal(await milestoneEscrow.getAddress());
+      expect(await compliance.tierCaps(Tier.Retail)).to.equal(RETAIL_CAP);
+      expect(await compliance.tierCaps(Tier.Professional)).to.equal(ethers.MaxUint256);
+      expect(await milestoneEscrow.complianceModule()).to.equal(await compliance.getAddress());
+    });
+
+    it("Should only let the owner change the module, registry and caps", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).setComplianceModule(NATIVE_TOKEN)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OwnableUnauthorizedAccount");
+      await expect(
+        compliance.connect(investor1).setInvestorRegistry(investor1.address)
+      ).to.be.revertedWithCustomError(compliance, "OwnableUnauthorizedAccount");
+      await expect(
+        compliance.connect(investor1).setTierCap(Tier.Retail, ethers.MaxUint256)
+      ).to.be.revertedWithCustomError(compliance, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should only accept records from the escrow", async function () {
+      await expect(
+        compliance.recordInvestment(investor1.address, NATIVE_TOKEN, 1n)
+      ).to.be.revertedWithCustomError(compliance, "OnlyEscrowContract");
+      await expect(
+        compliance.releaseInvestment(investor1.address, NATIVE_TOKEN, 1n)
+      ).to.be.revertedWithCustomError(compliance, "OnlyEscrowContract");
+    });
+  });
+
+  describe("Annual Caps", function () {
+    it("Should reject direct pledges beyond the cap across campaigns", async function () {
+      const first = await createCampaign();
+      const second = await createCampaign();
+
+      await expect(milestoneEscrow.connect(investor1).pledge(first, { value: ethers.parseEther("300") }))
+        .to.emit(compliance, "InvestmentRecorded")
+        .withArgs(investor1.address, ethers.parseEther("300"), ethers.parseEther("300"));
+
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(second, { value: ethers.parseEther("250") })
+      )
+        .to.be.revertedWithCustomError(compliance, "AnnualLimitExceeded")
+        .withArgs(ethers.parseEther("250"), ethers.parseEther("200"));
+
+      await milestoneEscrow.connect(investor1).pledge(second, { value: ethers.parseEther("200") });
+      expect(await compliance.getRemainingAllowance(investor1.address)).to.equal(0n);
+
+      // Other investors have their own allowance
+      await milestoneEscrow.connect(investor2).pledge(second, { value: ethers.parseEther("500") });
+    });
+
+    it("Should report tier, cap, usage and remaining allowance", async function () {
+      const campaignId = await createCampaign();
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("120") });
+
+      const allowance = await compliance.getAllowance(investor1.address);
+      expect(allowance.tier).to.equal(Tier.Retail);
+      expect(allowance.cap).to.equal(RETAIL_CAP);
+      expect(allowance.used).to.equal(ethers.parseEther("120"));
+      expect(allowance.remaining).to.equal(ethers.parseEther("380"));
+    });
+
+    it("Should normalize stablecoin pledges to 18 decimals", async function () {
+      const MockStablecoinFactory = await ethers.getContractFactory("MockStablecoin");
+      const usdc: MockStablecoin = await MockStablecoinFactory.deploy("Mock USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+      await milestoneEscrow.setPaymentTokenAllowed(await usdc.getAddress(), true);
+
+      const USDC = (amount: string) => ethers.parseUnits(amount, 6);
+      const campaignId = await createCampaign(USDC("1000"), await usdc.getAddress());
+      await usdc.mint(investor1.address, USDC("1000"));
+      await usdc.connect(investor1).approve(await milestoneEscrow.getAddress(), USDC("1000"));
+
+      await milestoneEscrow.connect(investor1).pledgeToken(campaignId, USDC("400"));
+      expect(await compliance.getWindowTotal(investor1.address)).to.equal(ethers.parseEther("400"));
+
+      await expect(
+        milestoneEscrow.connect(investor1).pledgeToken(campaignId, USDC("101"))
+      ).to.be.revertedWithCustomError(compliance, "AnnualLimitExceeded");
+    });
+
+    it("Should let professional investors exceed the retail cap", async function () {
+      const campaignId = await createCampaign();
+
+      const RegistryFactory = await ethers.getContractFactory("InvestorRegistry");
+      const registry: InvestorRegistry = await RegistryFactory.deploy();
+      await registry.waitForDeployment();
+      await registry.setVerifier(platformWallet.address, true);
+      await registry.issueAttestation(investor1.address, Tier.Professional, (await time.latest()) + 30 * ONE_DAY);
+      await compliance.setInvestorRegistry(await registry.getAddress());
+
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("900") });
+
+      expect(await compliance.getRemainingAllowance(investor1.address)).to.equal(ethers.MaxUint256);
+      expect(await compliance.getWindowTotal(investor1.address)).to.equal(ethers.parseEther("900"));
+    });
+
+    it("Should skip checks when no module is set", async function () {
+      const campaignId = await createCampaign();
+      await milestoneEscrow.setComplianceModule(NATIVE_TOKEN);
+
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("900") });
+      expect(await compliance.getWindowTotal(investor1.address)).to.equal(0n);
+    });
+  });
+
+  describe("Releases and Rolling Window", function () {
+    it("Should give unpledged amounts back to the allowance", async function () {
+      const campaignId = await createCampaign();
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("500") });
+
+      await expect(milestoneEscrow.connect(investor1).unpledge(campaignId, ethers.parseEther("200")))
+        .to.emit(compliance, "InvestmentReleased")
+        .withArgs(investor1.address, ethers.parseEther("200"), ethers.parseEther("300"));
+
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("200") });
+    });
+
+    it("Should release refunds of failed campaigns", async function () {
+      const campaignId = await createCampaign();
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("400") });
+
+      await time.increase(8 * ONE_DAY);
+      await milestoneEscrow.connect(investor1).refund(campaignId);
+
+      expect(await compliance.getRemainingAllowance(investor1.address)).to.equal(RETAIL_CAP);
+    });
+
+    it("Should drop pledges older than 365 days from the total", async function () {
+      await milestoneEscrow.connect(investor1).pledge(await createCampaign(), { value: ethers.parseEther("300") });
+
+      await time.increase(200 * ONE_DAY);
+      await milestoneEscrow.connect(investor1).pledge(await createCampaign(), { value: ethers.parseEther("200") });
+
+      await time.increase(100 * ONE_DAY);
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(await createCampaign(), { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(compliance, "AnnualLimitExceeded");
+
+      // The first pledge leaves the window; the second one still counts
+      await time.increase(70 * ONE_DAY);
+      expect(await compliance.getWindowTotal(investor1.address)).to.equal(ethers.parseEther("200"));
+
+      const campaignId = await createCampaign();
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("300") });
+      expect(await compliance.getRemainingAllowance(investor1.address)).to.equal(0n);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { InvestorRegistry, MilestoneEscrow, InvestmentCompliance } from "../typechain-types";
+
+describe("InvestorRegistry", function () {
+  let registry: InvestorRegistry;
+  let owner: HardhatEthersSigner;
+  let verifier: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+
+  const Tier = { Retail: 0, Professional: 1 };
+
+  async function expiresIn(days: number) {
+    return (await time.latest()) + days * ONE_DAY;
+  }
+
+  beforeEach(async function () {
+    [owner, verifier, creator, investor1, investor2] = await ethers.getSigners();
+
+    const RegistryFactory = await ethers.getContractFactory("InvestorRegistry");
+    registry = await RegistryFactory.deploy();
+    await registry.waitForDeployment();
+
+    await registry.setVerifier(verifier.address, true);
+  });
+
+  describe("Verifiers", function () {
+    it("Should only let the owner approve verifiers", async function () {
+      await expect(
+        registry.connect(investor1).setVerifier(investor1.address, true)
+      ).to.be.revertedWithCustomError(registry, "OwnableUnauthorizedAccount");
+
+      await expect(registry.setVerifier(investor2.address, true))
+        .to.emit(registry, "VerifierSet")
+        .withArgs(investor2.address, true);
+      expect(await registry.verifiers(investor2.address)).to.equal(true);
+    });
+
+    it("Should only let verifiers issue attestations", async function () {
+      await expect(
+        registry.connect(investor1).issueAttestation(investor1.address, Tier.Retail, await expiresIn(30))
+      ).to.be.revertedWithCustomError(registry, "NotVerifier");
+
+      // The owner is not a verifier unless approved
+      await expect(
+        registry.issueAttestation(investor1.address, Tier.Retail, await expiresIn(30))
+      ).to.be.revertedWithCustomError(registry, "NotVerifier");
+    });
+  });
+
+  describe("Attestations", function () {
+    it("Should issue an attestation with tier and expiry", async function () {
+      const expiresAt = await expiresIn(30);
+
+      await expect(registry.connect(verifier).issueAttestation(investor1.address, Tier.Professional, expiresAt))
+        .to.emit(registry, "AttestationIssued")
+        .withArgs(investor1.address, verifier.address, Tier.Professional, expiresAt);
+
+      expect(await registry.isVerified(investor1.address)).to.equal(true);
+      expect(await registry.getInvestorTier(investor1.address)).to.equal(Tier.Professional);
+
+      const attestation = await registry.getAttestation(investor1.address);
+      expect(attestation.verifier).to.equal(verifier.address);
+      expect(attestation.expiresAt).to.equal(expiresAt);
+      expect(attestation.revoked).to.equal(false);
+    });
+
+    it("Should reject invalid investors and past expiries", async function () {
+      await expect(
+        registry.connect(verifier).issueAttestation(ethers.ZeroAddress, Tier.Retail, await expiresIn(30))
+      ).to.be.revertedWithCustomError(registry, "InvalidInvestor");
+      await expect(
+        registry.connect(verifier).issueAttestation(investor1.address, Tier.Retail, await time.latest())
+      ).to.be.revertedWithCustomError(registry, "InvalidExpiry");
+    });
+
+    it("Should treat expired attestations as unverified retail investors", async function () {
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Professional, await expiresIn(30));
+
+      await time.increase(31 * ONE_DAY);
+
+      expect(await registry.isVerified(investor1.address)).to.equal(false);
+      expect(await registry.getInvestorTier(investor1.address)).to.equal(Tier.Retail);
+    });
+
+    it("Should let verifiers and the owner revoke attestations", async function () {
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Professional, await expiresIn(30));
+      await registry.connect(verifier).issueAttestation(investor2.address, Tier.Retail, await expiresIn(30));
+
+      await expect(
+        registry.connect(investor1).revokeAttestation(investor2.address)
+      ).to.be.revertedWithCustomError(registry, "NotVerifier");
+
+      await expect(registry.connect(verifier).revokeAttestation(investor1.address))
+        .to.emit(registry, "AttestationRevoked")
+        .withArgs(investor1.address, verifier.address);
+      await registry.revokeAttestation(investor2.address);
+
+      expect(await registry.isVerified(investor1.address)).to.equal(false);
+      expect(await registry.getInvestorTier(investor1.address)).to.equal(Tier.Retail);
+      expect(await registry.isVerified(investor2.address)).to.equal(false);
+
+      await expect(
+        registry.connect(verifier).revokeAttestation(investor1.address)
+      ).to.be.revertedWithCustomError(registry, "NoAttestation");
+    });
+
+    it("Should restore verification when a new attestation is issued", async function () {
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Retail, await expiresIn(30));
+      await registry.connect(verifier).revokeAttestation(investor1.address);
+
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Professional, await expiresIn(30));
+      expect(await registry.isVerified(investor1.address)).to.equal(true);
+      expect(await registry.getInvestorTier(investor1.address)).to.equal(Tier.Professional);
+    });
+  });
+
+  describe("Escrow and Compliance Integration", function () {
+    let milestoneEscrow: MilestoneEscrow;
+    let compliance: InvestmentCompliance;
+    let campaignId: number;
+
+    beforeEach(async function () {
+      const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+      const tokenFactory = await TokenFactory.deploy();
+      await tokenFactory.waitForDeployment();
+
+      const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+      milestoneEscrow = await MilestoneEscrowFactory.deploy(owner.address, await tokenFactory.getAddress());
+      await milestoneEscrow.waitForDeployment();
+
+      const ComplianceFactory = await ethers.getContractFactory("InvestmentCompliance");
+      compliance = await ComplianceFactory.deploy(
+        await milestoneEscrow.getAddress(),
+        await registry.getAddress(),
+        ethers.parseEther("500")
+      );
+      await compliance.waitForDeployment();
+
+      await milestoneEscrow.setComplianceModule(await compliance.getAddress());
+      await milestoneEscrow.setInvestorRegistry(await registry.getAddress());
+
+      await milestoneEscrow
+        .connect(creator)
+        .createCampaign(ethers.parseEther("2000"), 7, "KYC Campaign", "KYC Equity", "KYC", 0n, NATIVE_TOKEN, NO_METADATA);
+      campaignId = Number(await milestoneEscrow.campaignCount()) - 1;
+    });
+
+    it("Should only accept pledges from verified investors", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(milestoneEscrow, "InvestorNotVerified");
+
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Retail, await expiresIn(30));
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("1") });
+
+      await registry.connect(verifier).revokeAttestation(investor1.address);
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(milestoneEscrow, "InvestorNotVerified");
+    });
+
+    it("Should apply the attested tier's cap", async function () {
+      await registry.connect(verifier).issueAttestation(investor1.address, Tier.Retail, await expiresIn(30));
+      await registry.connect(verifier).issueAttestation(investor2.address, Tier.Professional, await expiresIn(30));
+
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("600") })
+      ).to.be.revertedWithCustomError(compliance, "AnnualLimitExceeded");
+      await milestoneEscrow.connect(investor2).pledge(campaignId, { value: ethers.parseEther("600") });
+
+      const allowance = await compliance.getAllowance(investor2.address);
+      expect(allowance.tier).to.equal(Tier.Professional);
+      expect(allowance.remaining).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should only let the owner change the escrow's registry", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).setInvestorRegistry(ethers.ZeroAddress)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OwnableUnauthorizedAccount");
+
+      await expect(milestoneEscrow.setInvestorRegistry(ethers.ZeroAddress))
+        .to.emit(milestoneEscrow, "InvestorRegistryUpdated")
+        .withArgs(await registry.getAddress(), ethers.ZeroAddress);
+
+      // Without a registry any wallet may pledge again
+      await milestoneEscrow.connect(investor1).pledge(campaignId, { value: ethers.parseEther("1") });
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { time } from "@nomicfoundation/hardhat-network-helpers";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
-import { MilestoneEscrow, GovernanceV2 } from "../typechain-types";
+import { MilestoneEscrow, GovernanceV2, MockStablecoin } from "../typechain-types";
 
 describe("MilestoneEscrow", function () {
   let milestoneEscrow: MilestoneEscrow;
@@ -14,12 +14,27 @@ describe("MilestoneEscrow", function () {
 
   const ONE_DAY = 86400;
 
+  // Voting rules per proposal type: [General, Milestone, Amendment]
+  const VOTING_RULES = [
+    { quorumBps: 2000n, approvalBps: 5000n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+  ];
+  const GOVERNANCE_PARAMS = { votingPeriod: 3 * ONE_DAY, proposalThresholdBps: 100 }; // 3-day votes, 1% to propose
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+  const EVIDENCE = ethers.id("milestone evidence");
+
   beforeEach(async function () {
     [platformWallet, creator, investor1, investor2] = await ethers.getSigners();
 
-    // Deploy MilestoneEscrow
+    // Deploy EquityTokenFactory and MilestoneEscrow
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
     const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
-    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address);
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
     await milestoneEscrow.waitForDeployment();
 
     // Deploy GovernanceV2
@@ -54,7 +69,9 @@ describe("MilestoneEscrow", function () {
           "Test Campaign",
           "Test Token",
           "TEST",
-          founderShareBps
+          founderShareBps,
+          NATIVE_TOKEN,
+          NO_METADATA
         )
       ).to.emit(milestoneEscrow, "CampaignCreated");
 
@@ -62,6 +79,25 @@ describe("MilestoneEscrow", function () {
       expect(campaign.creator).to.equal(creator.address);
       expect(campaign.goal).to.equal(goal);
       expect(campaign.hasMilestones).to.be.false;
+      expect(campaign.metadataHash).to.equal(NO_METADATA);
+    });
+
+    it("Should record the off-chain metadata hash", async function () {
+      const metadata = JSON.stringify({ version: 1, name: "Test Campaign" });
+      const metadataHash = ethers.sha256(ethers.toUtf8Bytes(metadata));
+
+      await milestoneEscrow.connect(creator).createCampaign(
+        ethers.parseEther("100"),
+        7,
+        "Test Campaign",
+        "Test Token",
+        "TEST",
+        0n,
+        NATIVE_TOKEN,
+        metadataHash
+      );
+
+      expect((await milestoneEscrow.getCampaign(0)).metadataHash).to.equal(metadataHash);
     });
 
     it("Should create campaign with milestones", async function () {
@@ -89,7 +125,11 @@ describe("MilestoneEscrow", function () {
           milestoneTitles,
           milestoneDescriptions,
           milestonePercentages,
-          milestoneDaysAfterEnd
+          milestoneDaysAfterEnd,
+          VOTING_RULES,
+          GOVERNANCE_PARAMS,
+          NATIVE_TOKEN,
+          NO_METADATA
         )
       ).to.emit(milestoneEscrow, "CampaignCreated");
 
@@ -124,20 +164,51 @@ describe("MilestoneEscrow", function () {
           milestoneTitles,
           milestoneDescriptions,
           milestonePercentages,
-          milestoneDaysAfterEnd
+          milestoneDaysAfterEnd,
+          VOTING_RULES,
+          GOVERNANCE_PARAMS,
+          NATIVE_TOKEN,
+          NO_METADATA
         )
       ).to.be.revertedWithCustomError(milestoneEscrow, "PercentagesMustSumTo100");
     });
 
-    it("Should reject more than 3 milestones", async function () {
+    it("Should accept up to 10 milestones", async function () {
+      const milestoneTitles = Array.from({ length: 10 }, (_, i) => `M${i + 1}`);
+      const milestonePercentages = Array(10).fill(1000n);
+      const milestoneDaysAfterEnd = milestoneTitles.map((_, i) => BigInt((i + 1) * 30));
+
+      await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+        ethers.parseEther("100"),
+        7,
+        "Long Project",
+        "Long Token",
+        "LONG",
+        1000n,
+        milestoneTitles,
+        milestoneTitles,
+        milestonePercentages,
+        milestoneDaysAfterEnd,
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
+      );
+
+      const campaign = await milestoneEscrow.getCampaign(0);
+      expect(campaign.milestoneCount).to.equal(10);
+      expect((await milestoneEscrow.getMilestone(0, 9)).deadline).to.equal(campaign.endAt + BigInt(300 * ONE_DAY));
+    });
+
+    it("Should reject more than 10 milestones", async function () {
       const goal = ethers.parseEther("100");
       const durationDays = 7;
       const founderShareBps = 1000n;
 
-      const milestoneTitles = ["M1", "M2", "M3", "M4"];
-      const milestoneDescriptions = ["M1", "M2", "M3", "M4"];
-      const milestonePercentages = [2500n, 2500n, 2500n, 2500n];
-      const milestoneDaysAfterEnd = [30n, 60n, 90n, 120n];
+      const milestoneTitles = Array.from({ length: 11 }, (_, i) => `M${i + 1}`);
+      const milestoneDescriptions = milestoneTitles;
+      const milestonePercentages = [...Array(10).fill(900n), 1000n];
+      const milestoneDaysAfterEnd = milestoneTitles.map((_, i) => BigInt((i + 1) * 30));
 
       await expect(
         milestoneEscrow.connect(creator).createCampaignWithMilestones(
@@ -150,10 +221,103 @@ describe("MilestoneEscrow", function () {
           milestoneTitles,
           milestoneDescriptions,
           milestonePercentages,
-          milestoneDaysAfterEnd
+          milestoneDaysAfterEnd,
+          VOTING_RULES,
+          GOVERNANCE_PARAMS,
+          NATIVE_TOKEN,
+          NO_METADATA
         )
       ).to.be.revertedWithCustomError(milestoneEscrow, "InvalidMilestoneCount");
     });
+
+    it("Should reject invalid voting rules", async function () {
+      const goal = ethers.parseEther("100");
+      const durationDays = 7;
+      const founderShareBps = 1000n;
+
+      const milestoneTitles = ["MVP", "Beta"];
+      const milestoneDescriptions = ["MVP", "Beta"];
+      const milestonePercentages = [5000n, 5000n];
+      const milestoneDaysAfterEnd = [30n, 60n];
+
+      // Approval threshold below a simple majority
+      await expect(
+        milestoneEscrow.connect(creator).createCampaignWithMilestones(
+          goal,
+          durationDays,
+          "Bad Rules",
+          "Bad Token",
+          "BAD",
+          founderShareBps,
+          milestoneTitles,
+          milestoneDescriptions,
+          milestonePercentages,
+          milestoneDaysAfterEnd,
+          [VOTING_RULES[0], { quorumBps: 3000n, approvalBps: 4000n }, VOTING_RULES[2]],
+          GOVERNANCE_PARAMS,
+          NATIVE_TOKEN,
+          NO_METADATA
+        )
+      ).to.be.revertedWithCustomError(milestoneEscrow, "InvalidVotingRules");
+
+      // Missing rules for a proposal type
+      await expect(
+        milestoneEscrow.connect(creator).createCampaignWithMilestones(
+          goal,
+          durationDays,
+          "Bad Rules",
+          "Bad Token",
+          "BAD",
+          founderShareBps,
+          milestoneTitles,
+          milestoneDescriptions,
+          milestonePercentages,
+          milestoneDaysAfterEnd,
+          [VOTING_RULES[0]],
+          GOVERNANCE_PARAMS,
+          NATIVE_TOKEN,
+          NO_METADATA
+        )
+      ).to.be.revertedWithCustomError(milestoneEscrow, "InvalidVotingRules");
+    });
+
+    it("Should store governance params and reject out-of-range ones", async function () {
+      const createWith = (params: { votingPeriod: number; proposalThresholdBps: number }) =>
+        milestoneEscrow.connect(creator).createCampaignWithMilestones(
+          ethers.parseEther("100"),
+          7,
+          "Governed Campaign",
+          "Governed Token",
+          "GOV",
+          0n,
+          ["MVP", "Beta"],
+          ["MVP", "Beta"],
+          [5000n, 5000n],
+          [30n, 60n],
+          VOTING_RULES,
+          params,
+          NATIVE_TOKEN,
+          NO_METADATA
+        );
+
+      // Votes shorter than a day, no threshold, or a threshold above 10%
+      for (const params of [
+        { votingPeriod: ONE_DAY / 2, proposalThresholdBps: 100 },
+        { votingPeriod: 15 * ONE_DAY, proposalThresholdBps: 100 },
+        { votingPeriod: ONE_DAY, proposalThresholdBps: 0 },
+        { votingPeriod: ONE_DAY, proposalThresholdBps: 1500 },
+      ]) {
+        await expect(createWith(params)).to.be.revertedWithCustomError(milestoneEscrow, "InvalidGovernanceParams");
+      }
+
+      await expect(createWith({ votingPeriod: 7 * ONE_DAY, proposalThresholdBps: 500 }))
+        .to.emit(milestoneEscrow, "GovernanceParamsSet")
+        .withArgs(0, 7 * ONE_DAY, 500);
+
+      const params = await milestoneEscrow.getGovernanceParams(0);
+      expect(params.votingPeriod).to.equal(7 * ONE_DAY);
+      expect(params.proposalThresholdBps).to.equal(500);
+    });
   });
 
   describe("Pledging", function () {
@@ -177,7 +341,11 @@ describe("MilestoneEscrow", function () {
         milestoneTitles,
         milestoneDescriptions,
         milestonePercentages,
-        milestoneDaysAfterEnd
+        milestoneDaysAfterEnd,
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
       );
     });
 
@@ -224,7 +392,11 @@ describe("MilestoneEscrow", function () {
         milestoneTitles,
         milestoneDescriptions,
         milestonePercentages,
-        milestoneDaysAfterEnd
+        milestoneDaysAfterEnd,
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
       );
 
       // Fund the campaign
@@ -237,34 +409,43 @@ describe("MilestoneEscrow", function () {
 
     it("Should allow creator to submit milestone for approval", async function () {
       await expect(
-        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0)
-      ).to.emit(milestoneEscrow, "MilestoneSubmitted");
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      )
+        .to.emit(milestoneEscrow, "MilestoneSubmitted")
+        .withArgs(0, 0, 0, EVIDENCE);
 
       const milestone = await milestoneEscrow.getMilestone(0, 0);
       expect(milestone.status).to.equal(1); // Voting status
+      expect(milestone.evidenceHash).to.equal(EVIDENCE);
+    });
+
+    it("Should require an evidence bundle on submission", async function () {
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "EvidenceRequired");
     });
 
     it("Should not allow non-creator to submit milestone", async function () {
       await expect(
-        milestoneEscrow.connect(investor1).submitMilestoneForApproval(0, 0)
+        milestoneEscrow.connect(investor1).submitMilestoneForApproval(0, 0, EVIDENCE)
       ).to.be.revertedWithCustomError(milestoneEscrow, "NotCampaignCreator");
     });
 
     it("Should enforce sequential milestone completion", async function () {
       // Try to submit second milestone before first
       await expect(
-        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 1)
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 1, EVIDENCE)
       ).to.be.revertedWithCustomError(milestoneEscrow, "PreviousMilestoneNotCompleted");
     });
 
     it("Should release funds after milestone approval", async function () {
-      // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
-
-      // Claim tokens first (required to vote)
+      // Claim tokens before submission (voting power is snapshotted)
       await milestoneEscrow.connect(investor1).claimTokens(0);
       await milestoneEscrow.connect(investor2).claimTokens(0);
 
+      // Submit milestone
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
       // Get proposal ID
       const milestone = await milestoneEscrow.getMilestone(0, 0);
       const proposalId = milestone.proposalId;
@@ -299,6 +480,159 @@ describe("MilestoneEscrow", function () {
         ethers.parseEther("0.01") // Allow for gas costs
       );
     });
+
+    it("Should release only the share of the tranche approved by governance", async function () {
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(investor2).claimTokens(0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+      // 60 tokens approve 60% of the tranche, 40 tokens approve all of it: 76% overall
+      await governance.connect(investor1).voteWithReleaseShare(0, 6000n);
+      await governance.connect(investor2).vote(0, true);
+      await time.increase(4 * ONE_DAY);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(milestoneEscrow, "MilestoneReleaseReduced")
+        .withArgs(0, 0, 3800n, 1200n);
+
+      await expect(milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0))
+        .to.emit(milestoneEscrow, "MilestoneFundsReleased")
+        .withArgs(0, 0, ethers.parseEther("38"), ethers.parseEther("0.76"), ethers.parseEther("37.24"));
+
+      // The withheld 12% stays in escrow
+      expect(await milestoneEscrow.getUnreleasedFunds(0)).to.equal(ethers.parseEther("62"));
+    });
+
+    it("Should release funds when the proposal executes if auto-release is on", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).setAutoRelease(0, true)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "NotCampaignCreator");
+
+      await expect(milestoneEscrow.connect(creator).setAutoRelease(0, true))
+        .to.emit(milestoneEscrow, "AutoReleaseUpdated")
+        .withArgs(0, true);
+
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).vote(0, true);
+      await time.increase(4 * ONE_DAY);
+
+      await expect(governance.executeProposal(0))
+        .to.emit(milestoneEscrow, "MilestoneFundsReleased")
+        .withArgs(0, 0, ethers.parseEther("50"), ethers.parseEther("1"), ethers.parseEther("49"));
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(4); // Released
+    });
+  });
+
+  describe("Release Timelock", function () {
+    let guardian: HardhatEthersSigner;
+
+    beforeEach(async function () {
+      guardian = (await ethers.getSigners())[4];
+
+      await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+        ethers.parseEther("100"),
+        7,
+        "Test Campaign",
+        "Test Token",
+        "TEST",
+        0n,
+        ["M1", "M2"],
+        ["M1", "M2"],
+        [5000n, 5000n],
+        [30n, 60n],
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
+      );
+
+      await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("60") });
+      await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("40") });
+      await time.increase(8 * ONE_DAY);
+
+      await milestoneEscrow.setReleaseTimelock(2 * ONE_DAY);
+      await milestoneEscrow.setGuardian(guardian.address);
+
+      // Approve the first milestone
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(investor2).claimTokens(0);
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).vote(0, true);
+      await time.increase(4 * ONE_DAY);
+      await governance.executeProposal(0);
+    });
+
+    it("Should only let the owner set a bounded timelock", async function () {
+      await expect(
+        milestoneEscrow.connect(creator).setReleaseTimelock(ONE_DAY)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OwnableUnauthorizedAccount");
+      await expect(
+        milestoneEscrow.setReleaseTimelock(15 * ONE_DAY)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "InvalidTimelock");
+    });
+
+    it("Should hold approved funds until the timelock expires", async function () {
+      const window = await milestoneEscrow.getReleaseWindow(0, 0);
+      expect(window.unlockAt - window.approvedAt).to.equal(BigInt(2 * ONE_DAY));
+
+      await expect(
+        milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "ReleaseTimelocked");
+
+      await time.increase(2 * ONE_DAY);
+
+      await expect(
+        milestoneEscrow.connect(guardian).vetoMilestoneRelease(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "VetoWindowClosed");
+      await expect(milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0))
+        .to.emit(milestoneEscrow, "MilestoneFundsReleased");
+    });
+
+    it("Should let anyone release after the timelock if auto-release is on", async function () {
+      await milestoneEscrow.connect(creator).setAutoRelease(0, true);
+      await time.increase(2 * ONE_DAY);
+
+      await expect(milestoneEscrow.connect(investor1).releaseMilestoneFunds(0, 0))
+        .to.emit(milestoneEscrow, "MilestoneFundsReleased")
+        .withArgs(0, 0, ethers.parseEther("50"), ethers.parseEther("1"), ethers.parseEther("49"));
+    });
+
+    it("Should let the guardian veto a release during the timelock", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).vetoMilestoneRelease(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "NotGuardian");
+
+      await expect(milestoneEscrow.connect(guardian).vetoMilestoneRelease(0, 0))
+        .to.emit(milestoneEscrow, "MilestoneReleaseVetoed")
+        .withArgs(0, 0, guardian.address);
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(3); // Rejected
+
+      // The veto opens emergency refunds
+      await expect(milestoneEscrow.connect(investor1).emergencyRefund(0))
+        .to.emit(milestoneEscrow, "Refunded")
+        .withArgs(0, investor1.address, ethers.parseEther("60"));
+    });
+
+    it("Should veto a release once holders of 20% of the supply object", async function () {
+      await expect(
+        milestoneEscrow.connect(creator).signalReleaseVeto(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "NoVetoPower");
+
+      // 40 of 100 tokens is past the 20% threshold
+      await expect(milestoneEscrow.connect(investor2).signalReleaseVeto(0, 0))
+        .to.emit(milestoneEscrow, "ReleaseVetoSignaled")
+        .withArgs(0, 0, investor2.address, ethers.parseEther("40"))
+        .and.to.emit(milestoneEscrow, "MilestoneReleaseVetoed")
+        .withArgs(0, 0, investor2.address);
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(3); // Rejected
+    });
   });
 
   describe("Emergency Refund", function () {
@@ -322,7 +656,11 @@ describe("MilestoneEscrow", function () {
         milestoneTitles,
         milestoneDescriptions,
         milestonePercentages,
-        milestoneDaysAfterEnd
+        milestoneDaysAfterEnd,
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
       );
 
       // Fund the campaign
@@ -334,13 +672,13 @@ describe("MilestoneEscrow", function () {
     });
 
     it("Should allow emergency refund after milestone rejection", async function () {
-      // Submit milestone
-      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0);
-
-      // Claim tokens to vote
+      // Claim tokens before submission (voting power is snapshotted)
       await milestoneEscrow.connect(investor1).claimTokens(0);
       await milestoneEscrow.connect(investor2).claimTokens(0);
 
+      // Submit milestone
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
       // Get proposal ID
       const milestone = await milestoneEscrow.getMilestone(0, 0);
       const proposalId = milestone.proposalId;
@@ -372,6 +710,217 @@ describe("MilestoneEscrow", function () {
         ethers.parseEther("0.01")
       );
     });
+
+    it("Should burn claimed equity tokens on emergency refund", async function () {
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(investor2).claimTokens(0);
+
+      const campaign = await milestoneEscrow.getCampaign(0);
+      const token = await ethers.getContractAt("EquityToken", campaign.equityToken);
+
+      await time.increase(31 * ONE_DAY);
+
+      await expect(milestoneEscrow.connect(investor1).emergencyRefund(0))
+        .to.emit(milestoneEscrow, "TokensBurned")
+        .withArgs(0, investor1.address, ethers.parseEther("60"));
+
+      expect(await token.balanceOf(investor1.address)).to.equal(0);
+      expect(await token.totalSupply()).to.equal(ethers.parseEther("40"));
+
+      // Investor who moved their tokens away cannot refund
+      await token.connect(investor2).transfer(investor1.address, ethers.parseEther("1"));
+      await expect(
+        milestoneEscrow.connect(investor2).emergencyRefund(0)
+      ).to.be.revertedWithCustomError(token, "ERC20InsufficientBalance");
+    });
+
+    it("Should only allow escrow to burn equity tokens", async function () {
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+
+      const campaign = await milestoneEscrow.getCampaign(0);
+      const token = await ethers.getContractAt("EquityToken", campaign.equityToken);
+
+      await expect(
+        token.connect(investor1).burnFrom(investor1.address, 1n)
+      ).to.be.revertedWithCustomError(token, "OnlyEscrowContract");
+    });
+
+    it("Should not allow emergency refund while milestones are on schedule", async function () {
+      await expect(
+        milestoneEscrow.connect(investor1).emergencyRefund(0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "NoMilestonesRejected");
+
+      await expect(
+        milestoneEscrow.markMilestoneExpired(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "MilestoneNotExpired");
+    });
+
+    it("Should expire a milestone whose deadline lapses without submission", async function () {
+      // Move past first milestone deadline (30 days after end)
+      await time.increase(31 * ONE_DAY);
+
+      await expect(milestoneEscrow.connect(investor2).markMilestoneExpired(0, 0))
+        .to.emit(milestoneEscrow, "MilestoneStatusChanged")
+        .withArgs(0, 0, 5) // Expired
+        .and.to.emit(milestoneEscrow, "EmergencyRefundEnabled")
+        .withArgs(0, ethers.parseEther("100"));
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(5);
+
+      // Expired milestones cannot be submitted or expired again
+      await expect(
+        milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "MilestoneDeadlinePassed");
+      await expect(
+        milestoneEscrow.markMilestoneExpired(0, 0)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "MilestoneNotExpired");
+
+      const balanceBefore = await ethers.provider.getBalance(investor1.address);
+      await milestoneEscrow.connect(investor1).emergencyRefund(0);
+      const balanceAfter = await ethers.provider.getBalance(investor1.address);
+
+      expect(balanceAfter - balanceBefore).to.be.closeTo(
+        ethers.parseEther("60"),
+        ethers.parseEther("0.01")
+      );
+    });
+
+    it("Should expire lapsed milestones during emergency refund", async function () {
+      await time.increase(31 * ONE_DAY);
+
+      await expect(milestoneEscrow.connect(investor2).emergencyRefund(0))
+        .to.emit(milestoneEscrow, "Refunded")
+        .withArgs(0, investor2.address, ethers.parseEther("40"));
+
+      const milestone = await milestoneEscrow.getMilestone(0, 0);
+      expect(milestone.status).to.equal(5); // Expired
+    });
+
+    it("Should refund funds withheld by partial approvals after the last release", async function () {
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+      await milestoneEscrow.connect(investor2).claimTokens(0);
+      await milestoneEscrow.connect(creator).setAutoRelease(0, true);
+
+      // First milestone in full, second at half its tranche
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).vote(0, true);
+      await time.increase(4 * ONE_DAY);
+      await governance.executeProposal(0);
+
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 1, EVIDENCE);
+      await governance.connect(investor1).voteWithReleaseShare(1, 5000n);
+      await time.increase(4 * ONE_DAY);
+      await governance.executeProposal(1);
+
+      expect(await milestoneEscrow.getUnreleasedFunds(0)).to.equal(ethers.parseEther("25"));
+
+      await expect(milestoneEscrow.connect(investor1).emergencyRefund(0))
+        .to.emit(milestoneEscrow, "Refunded")
+        .withArgs(0, investor1.address, ethers.parseEther("15"));
+    });
+  });
+
+  describe("Stablecoin Campaigns", function () {
+    let usdc: MockStablecoin;
+    const USDC = (amount: string) => ethers.parseUnits(amount, 6);
+
+    beforeEach(async function () {
+      const MockStablecoinFactory = await ethers.getContractFactory("MockStablecoin");
+      usdc = await MockStablecoinFactory.deploy("Mock USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+
+      await milestoneEscrow.setPaymentTokenAllowed(await usdc.getAddress(), true);
+
+      await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+        USDC("1000"),
+        7,
+        "USDC Campaign",
+        "USDC Equity",
+        "UEQ",
+        0n,
+        ["M1", "M2"],
+        ["M1", "M2"],
+        [5000n, 5000n],
+        [30n, 60n],
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        await usdc.getAddress(),
+        NO_METADATA
+      );
+
+      for (const investor of [investor1, investor2]) {
+        await usdc.mint(investor.address, USDC("1000"));
+        await usdc.connect(investor).approve(await milestoneEscrow.getAddress(), USDC("1000"));
+      }
+    });
+
+    it("Should only allow allow-listed payment tokens", async function () {
+      await milestoneEscrow.setPaymentTokenAllowed(await usdc.getAddress(), false);
+
+      await expect(
+        milestoneEscrow.connect(creator).createCampaign(
+          USDC("1000"),
+          7,
+          "USDC Campaign",
+          "USDC Equity",
+          "UEQ",
+          0n,
+          await usdc.getAddress(),
+          NO_METADATA
+        )
+      ).to.be.revertedWithCustomError(milestoneEscrow, "PaymentTokenNotAllowed");
+
+      await expect(
+        milestoneEscrow.connect(creator).setPaymentTokenAllowed(await usdc.getAddress(), true)
+      ).to.be.revertedWithCustomError(milestoneEscrow, "OwnableUnauthorizedAccount");
+    });
+
+    it("Should accept token pledges and match equity token decimals", async function () {
+      await expect(milestoneEscrow.connect(investor1).pledgeToken(0, USDC("600")))
+        .to.emit(milestoneEscrow, "Pledged")
+        .withArgs(0, investor1.address, USDC("600"), USDC("600"));
+
+      expect(await usdc.balanceOf(await milestoneEscrow.getAddress())).to.equal(USDC("600"));
+
+      await expect(
+        milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("1") })
+      ).to.be.revertedWithCustomError(milestoneEscrow, "WrongPaymentMethod");
+
+      const campaign = await milestoneEscrow.getCampaign(0);
+      expect(campaign.paymentToken).to.equal(await usdc.getAddress());
+
+      const token = await ethers.getContractAt("EquityToken", campaign.equityToken);
+      expect(await token.decimals()).to.equal(6);
+    });
+
+    it("Should pay out releases and refunds in the payment token", async function () {
+      await milestoneEscrow.connect(investor1).pledgeToken(0, USDC("600"));
+      await milestoneEscrow.connect(investor2).pledgeToken(0, USDC("400"));
+
+      // Unpledge returns tokens
+      await milestoneEscrow.connect(investor2).unpledge(0, USDC("100"));
+      await milestoneEscrow.connect(investor2).pledgeToken(0, USDC("100"));
+      expect(await usdc.balanceOf(investor2.address)).to.equal(USDC("600"));
+
+      await time.increase(8 * ONE_DAY);
+      await milestoneEscrow.connect(investor1).claimTokens(0);
+
+      await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+      await governance.connect(investor1).vote(0, true);
+      await time.increase(4 * ONE_DAY);
+      await governance.executeProposal(0);
+      await milestoneEscrow.connect(creator).releaseMilestoneFunds(0, 0);
+
+      // 500 USDC released: 2% fee to platform, rest to creator
+      expect(await usdc.balanceOf(platformWallet.address)).to.equal(USDC("10"));
+      expect(await usdc.balanceOf(creator.address)).to.equal(USDC("490"));
+
+      // Second milestone lapses, investor2 gets half of their pledge back
+      await time.increase(60 * ONE_DAY);
+      await milestoneEscrow.connect(investor2).emergencyRefund(0);
+      expect(await usdc.balanceOf(investor2.address)).to.equal(USDC("800"));
+    });
   });
 
   describe("View Functions", function () {
@@ -395,7 +944,11 @@ describe("MilestoneEscrow", function () {
         milestoneTitles,
         milestoneDescriptions,
         milestonePercentages,
-        milestoneDaysAfterEnd
+        milestoneDaysAfterEnd,
+        VOTING_RULES,
+        GOVERNANCE_PARAMS,
+        NATIVE_TOKEN,
+        NO_METADATA
       );
     });
 
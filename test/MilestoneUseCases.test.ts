@@ -0,0 +1,283 @@
+import "tsconfig-paths/register";
+import { expect } from "chai";
+import {
+  CancelProposalUseCase,
+  CastVoteUseCase,
+  DelegateVotesUseCase,
+  ExecuteProposalUseCase,
+  ReleaseMilestoneFundsUseCase,
+  SetAutoReleaseUseCase,
+  SubmitMilestoneUseCase,
+  VetoMilestoneReleaseUseCase,
+  VOTE_AGAINST,
+  VOTE_FOR,
+} from "../src/application/use-cases";
+import { DomainError } from "../src/domain/errors";
+import { InMemoryBlockchainService } from "../src/infrastructure/services/InMemoryBlockchainService";
+
+const ONE_DAY = 86400;
+const VOTING_PERIOD = 3 * ONE_DAY;
+
+// Domain error a use case rejected with
+async function rejection(execution: Promise<unknown>): Promise<DomainError> {
+  try {
+    await execution;
+  } catch (error) {
+    expect(error).to.be.instanceOf(DomainError);
+    return error as DomainError;
+  }
+  throw new Error("Use case did not reject");
+}
+
+describe("Milestone and governance use cases", function () {
+  const CREATOR = "0x1111111111111111111111111111111111111111";
+  const INVESTOR1 = "0x2222222222222222222222222222222222222222";
+  const INVESTOR2 = "0x3333333333333333333333333333333333333333";
+  const GUARDIAN = "0x4444444444444444444444444444444444444444";
+  const PROJECT = "0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa";
+  const EVIDENCE_HASH = `0x${"ab".repeat(32)}`;
+  const MNT = (amount: number) => BigInt(amount) * 10n ** 18n;
+
+  let now: number;
+  let blockchain: InMemoryBlockchainService;
+  let submitMilestone: SubmitMilestoneUseCase;
+  let castVote: CastVoteUseCase;
+  let executeProposal: ExecuteProposalUseCase;
+
+  beforeEach(async function () {
+    now = Math.floor(Date.now() / 1000);
+    const deadline = now + 30 * ONE_DAY;
+
+    blockchain = new InMemoryBlockchainService({ now: () => now, guardian: GUARDIAN, votingPeriod: VOTING_PERIOD });
+    blockchain.addProject({
+      address: PROJECT,
+      creator: CREATOR,
+      name: "Solar Equity",
+      symbol: "SUN",
+      goal: MNT(1000),
+      deadline,
+      milestones: [4000n, 6000n],
+    });
+
+    // Fund the campaign 600/400 and hand out equity tokens
+    for (const [investor, amount] of [[INVESTOR1, MNT(600)], [INVESTOR2, MNT(400)]] as const) {
+      blockchain.setBalance(investor, amount);
+      blockchain.connect(investor);
+      expect((await blockchain.invest(PROJECT, amount)).success).to.equal(true);
+    }
+    now = deadline + 1;
+    for (const investor of [INVESTOR1, INVESTOR2]) {
+      blockchain.connect(investor);
+      expect((await blockchain.claimTokens(PROJECT)).success).to.equal(true);
+    }
+    blockchain.connect(CREATOR);
+
+    submitMilestone = new SubmitMilestoneUseCase(blockchain);
+    castVote = new CastVoteUseCase(blockchain);
+    executeProposal = new ExecuteProposalUseCase(blockchain);
+  });
+
+  // Submit milestone 0 and vote it through
+  async function approveFirstMilestone() {
+    await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+    const { proposalId } = blockchain.getMilestone(PROJECT, 0);
+
+    blockchain.connect(INVESTOR1);
+    await castVote.execute({ proposalId: proposalId!, support: VOTE_FOR });
+    now += VOTING_PERIOD;
+    await executeProposal.execute({ proposalId: proposalId! });
+    blockchain.connect(CREATOR);
+  }
+
+  describe("SubmitMilestoneUseCase", function () {
+    it("Should record the evidence hash and open a vote", async function () {
+      await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+
+      const milestone = blockchain.getMilestone(PROJECT, 0);
+      expect(milestone.status).to.equal("submitted");
+      expect(milestone.evidenceHash).to.equal(EVIDENCE_HASH);
+      expect(milestone.proposalId).to.equal(0);
+    });
+
+    it("Should reject malformed input before sending a transaction", async function () {
+      const badHash = await rejection(
+        submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: "0x1234" })
+      );
+      const badIndex = await rejection(
+        submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: -1, evidenceHash: EVIDENCE_HASH })
+      );
+
+      expect(badHash.code).to.equal("VALIDATION_ERROR");
+      expect(badIndex.code).to.equal("VALIDATION_ERROR");
+      expect(blockchain.transactions).to.have.length(4);
+    });
+
+    it("Should surface the revert for a non-creator", async function () {
+      blockchain.connect(INVESTOR1);
+
+      const error = await rejection(
+        submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH })
+      );
+
+      expect(error.code).to.equal("TRANSACTION_FAILED");
+      expect(error.message).to.contain("Not campaign creator");
+    });
+  });
+
+  describe("CastVoteUseCase", function () {
+    it("Should only accept a release share on a for vote within 1-10000 bps", async function () {
+      await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+      blockchain.connect(INVESTOR1);
+
+      const invalidSupport = await rejection(castVote.execute({ proposalId: 0, support: 3 }));
+      const againstWithShare = await rejection(
+        castVote.execute({ proposalId: 0, support: VOTE_AGAINST, releaseBps: 5000n })
+      );
+      const zeroShare = await rejection(castVote.execute({ proposalId: 0, support: VOTE_FOR, releaseBps: 0n }));
+
+      expect(invalidSupport.code).to.equal("VALIDATION_ERROR");
+      expect(againstWithShare.message).to.contain("only applies to a for vote");
+      expect(zeroShare.message).to.contain("between 1 and 10000");
+
+      const output = await castVote.execute({ proposalId: 0, support: VOTE_FOR, releaseBps: 5000n });
+      expect(output.success).to.equal(true);
+    });
+
+    it("Should reject the milestone when against outweighs for", async function () {
+      await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+      blockchain.connect(INVESTOR1);
+      await castVote.execute({ proposalId: 0, support: VOTE_AGAINST });
+      blockchain.connect(INVESTOR2);
+      await castVote.execute({ proposalId: 0, support: VOTE_FOR });
+      now += VOTING_PERIOD;
+
+      await executeProposal.execute({ proposalId: 0 });
+
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("rejected");
+    });
+  });
+
+  describe("ReleaseMilestoneFundsUseCase", function () {
+    it("Should pay the approved tranche less the platform fee", async function () {
+      await approveFirstMilestone();
+
+      await new ReleaseMilestoneFundsUseCase(blockchain).execute({ projectAddress: PROJECT, milestoneIndex: 0 });
+
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("released");
+      expect(await blockchain.getBalance(CREATOR)).to.equal(MNT(392));
+    });
+
+    it("Should release on execution once auto-release is enabled", async function () {
+      await new SetAutoReleaseUseCase(blockchain).execute({ projectAddress: PROJECT, enabled: true });
+
+      await approveFirstMilestone();
+
+      expect(blockchain.getMilestone(PROJECT, 0).autoReleased).to.equal(true);
+      expect(await blockchain.getBalance(CREATOR)).to.equal(MNT(392));
+    });
+  });
+
+  describe("VetoMilestoneReleaseUseCase", function () {
+    let vetoRelease: VetoMilestoneReleaseUseCase;
+
+    beforeEach(async function () {
+      vetoRelease = new VetoMilestoneReleaseUseCase(blockchain);
+      await approveFirstMilestone();
+    });
+
+    it("Should let the guardian veto an approved release", async function () {
+      blockchain.connect(GUARDIAN);
+
+      await vetoRelease.execute({ projectAddress: PROJECT, milestoneIndex: 0, asGuardian: true });
+
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("rejected");
+    });
+
+    it("Should count token holder signals towards the holder veto", async function () {
+      blockchain.connect(INVESTOR2);
+
+      await vetoRelease.execute({ projectAddress: PROJECT, milestoneIndex: 0, asGuardian: false });
+
+      expect(blockchain.transactions.at(-1)?.operation).to.equal("signalReleaseVeto");
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("rejected");
+    });
+
+    it("Should surface the revert when a holder claims to be the guardian", async function () {
+      blockchain.connect(INVESTOR1);
+
+      const error = await rejection(vetoRelease.execute({ projectAddress: PROJECT, milestoneIndex: 0, asGuardian: true }));
+
+      expect(error.message).to.contain("Not guardian");
+    });
+  });
+
+  describe("CancelProposalUseCase", function () {
+    it("Should return a cancelled submission to pending", async function () {
+      await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+
+      await new CancelProposalUseCase(blockchain).execute({ proposalId: 0 });
+
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("pending");
+      blockchain.connect(INVESTOR1);
+      const error = await rejection(castVote.execute({ proposalId: 0, support: VOTE_FOR }));
+      expect(error.message).to.contain("Proposal canceled");
+    });
+
+    it("Should require a connected wallet", async function () {
+      blockchain.disconnect();
+
+      const error = await rejection(new CancelProposalUseCase(blockchain).execute({ proposalId: 0 }));
+
+      expect(error.code).to.equal("UNAUTHORIZED");
+    });
+  });
+
+  describe("DelegateVotesUseCase", function () {
+    let delegateVotes: DelegateVotesUseCase;
+
+    beforeEach(async function () {
+      delegateVotes = new DelegateVotesUseCase(blockchain);
+      await submitMilestone.execute({ projectAddress: PROJECT, milestoneIndex: 0, evidenceHash: EVIDENCE_HASH });
+    });
+
+    it("Should let the delegate vote with the holder's tokens", async function () {
+      blockchain.connect(INVESTOR1);
+      await delegateVotes.execute({ projectAddress: PROJECT, delegatee: INVESTOR2 });
+
+      const error = await rejection(castVote.execute({ proposalId: 0, support: VOTE_AGAINST }));
+      expect(error.message).to.contain("No voting power");
+
+      // 1000 delegated votes for outweigh nothing against
+      blockchain.connect(INVESTOR2);
+      await castVote.execute({ proposalId: 0, support: VOTE_FOR });
+      now += VOTING_PERIOD;
+      await executeProposal.execute({ proposalId: 0 });
+
+      expect(blockchain.getMilestone(PROJECT, 0).status).to.equal("approved");
+    });
+
+    it("Should give the votes back when delegating to yourself", async function () {
+      blockchain.connect(INVESTOR1);
+      await delegateVotes.execute({ projectAddress: PROJECT, delegatee: INVESTOR2 });
+      await delegateVotes.execute({ projectAddress: PROJECT, delegatee: INVESTOR1 });
+
+      const output = await castVote.execute({ proposalId: 0, support: VOTE_AGAINST });
+
+      expect(output.success).to.equal(true);
+    });
+
+    it("Should reject a malformed or zero delegate before sending a transaction", async function () {
+      blockchain.connect(INVESTOR1);
+      const sent = blockchain.transactions.length;
+
+      const malformed = await rejection(delegateVotes.execute({ projectAddress: PROJECT, delegatee: "0x1234" }));
+      const zero = await rejection(
+        delegateVotes.execute({ projectAddress: PROJECT, delegatee: "0x0000000000000000000000000000000000000000" })
+      );
+
+      expect(malformed.code).to.equal("VALIDATION_ERROR");
+      expect(zero.message).to.contain("zero address");
+      expect(blockchain.transactions).to.have.length(sent);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import fc from "fast-check";
+import { Money, type Currency } from "../src/domain/value-objects/Money";
+import { InvestmentRulesService } from "../src/domain/services/InvestmentRulesService";
+
+const units = fc.bigInt({ min: 0n, max: 10n ** 30n });
+const currency = fc.constantFrom<Currency>("USDC", "ETH", "MNT");
+const decimals = fc.integer({ min: 0, max: 18 });
+const bps = fc.integer({ min: 0, max: 10000 });
+
+describe("Money", function () {
+  describe("Conversions", function () {
+    it("Should round-trip wei without losing precision", function () {
+      fc.assert(
+        fc.property(units, currency, (wei, c) => {
+          expect(Money.fromWei(wei, c).toWei()).to.equal(wei);
+        })
+      );
+    });
+
+    it("Should round-trip exact decimal strings", function () {
+      fc.assert(
+        fc.property(units, currency, decimals, (u, c, d) => {
+          const money = Money.fromUnits(u, c, d);
+          expect(Money.fromDecimal(money.toDecimalString(), c, d).equals(money)).to.equal(true);
+        })
+      );
+    });
+
+    it("Should parse decimals exactly where floating point would not", function () {
+      expect(Money.fromUSDC("0.1").add(Money.fromUSDC("0.2")).equals(Money.fromUSDC("0.3"))).to.equal(true);
+      expect(Money.fromETH("1.000000000000000001").toWei()).to.equal(10n ** 18n + 1n);
+      expect(Money.fromUSDC(1e-6).toUnits()).to.equal(1n);
+      expect(Money.fromETH(1.5e-7).toWei()).to.equal(15n * 10n ** 10n);
+      expect(Money.fromUSDC(1e21).toUnits()).to.equal(10n ** 27n);
+      expect(Money.fromETH(1.2345e25).toWei()).to.equal(12345n * 10n ** 39n);
+    });
+
+    it("Should reject amounts with more decimals than the currency has", function () {
+      expect(() => Money.fromUSDC("0.0000001")).to.throw("decimal places");
+      expect(() => Money.fromUSDC("-1")).to.throw("negative");
+      expect(() => Money.fromUSDC("1.2.3")).to.throw("Invalid money amount");
+      expect(() => Money.fromUSDC(1.5e-7)).to.throw("decimal places");
+      expect(() => Money.fromUSDC(-1e-7)).to.throw("negative");
+    });
+
+    it("Should rescale between decimals, rounding down", function () {
+      fc.assert(
+        fc.property(units, decimals, decimals, (u, from, to) => {
+          const money = Money.fromUnits(u, "USDC", from);
+          const rescaled = money.withDecimals(to);
+          if (to >= from) {
+            expect(rescaled.withDecimals(from).equals(money)).to.equal(true);
+          } else {
+            expect(rescaled.toUnits()).to.equal(u / 10n ** BigInt(from - to));
+          }
+        })
+      );
+    });
+  });
+
+  describe("Arithmetic", function () {
+    it("Should undo an addition with a subtraction", function () {
+      fc.assert(
+        fc.property(units, units, currency, (a, b, c) => {
+          const x = Money.fromUnits(a, c);
+          const y = Money.fromUnits(b, c);
+          expect(x.add(y).subtract(y).equals(x)).to.equal(true);
+          expect(x.add(y).equals(y.add(x))).to.equal(true);
+        })
+      );
+    });
+
+    it("Should throw on negative results and clamp with subtractOrZero", function () {
+      fc.assert(
+        fc.property(units, units, (a, b) => {
+          const x = Money.fromUnits(a, "USDC");
+          const y = Money.fromUnits(b, "USDC");
+          if (a < b) {
+            expect(() => x.subtract(y)).to.throw("negative");
+            expect(x.subtractOrZero(y).isZero()).to.equal(true);
+          } else {
+            expect(x.subtractOrZero(y).toUnits()).to.equal(a - b);
+          }
+        })
+      );
+    });
+
+    it("Should round basis points down like the contracts", function () {
+      fc.assert(
+        fc.property(units, bps, (u, b) => {
+          expect(Money.fromUnits(u, "USDC").multiplyBps(b).toUnits()).to.equal((u * BigInt(b)) / 10000n);
+        })
+      );
+    });
+
+    it("Should allocate every unit in proportion to the ratios", function () {
+      const ratios = fc.array(fc.integer({ min: 0, max: 10000 }), { minLength: 1, maxLength: 12 })
+        .filter((values) => values.some((value) => value > 0));
+
+      fc.assert(
+        fc.property(units, ratios, (u, r) => {
+          const parts = Money.fromUnits(u, "MNT").allocate(r);
+          const total = BigInt(r.reduce((sum, ratio) => sum + ratio, 0));
+
+          expect(parts.reduce((sum, part) => sum + part.toUnits(), 0n)).to.equal(u);
+          parts.forEach((part, i) => {
+            const floor = (u * BigInt(r[i])) / total;
+            expect(part.toUnits() - floor).to.be.oneOf([0n, 1n]);
+            if (r[i] === 0) expect(part.isZero()).to.equal(true);
+          });
+        })
+      );
+    });
+
+    it("Should refuse to mix currencies or decimals", function () {
+      expect(() => Money.fromUSDC(1).add(Money.fromMNT(1))).to.throw("different currencies");
+      expect(() => Money.fromUnits(1n, "USDC", 6).lt(Money.fromUnits(1n, "USDC", 18))).to.throw("different decimals");
+    });
+  });
+
+  describe("Platform fee", function () {
+    it("Should add the fee the escrow takes, rounded down", function () {
+      fc.assert(
+        fc.property(units, (u) => {
+          const amount = Money.fromUnits(u, "USDC");
+          const fee = InvestmentRulesService.calculatePlatformFee(amount);
+
+          expect(fee.toUnits()).to.equal((u * 200n) / 10000n);
+          expect(InvestmentRulesService.calculateTotalAmount(amount).equals(amount.add(fee))).to.equal(true);
+        })
+      );
+    });
+
+    it("Should recover the net amount from a total within one unit", function () {
+      fc.assert(
+        fc.property(units, (u) => {
+          const total = InvestmentRulesService.calculateTotalAmount(Money.fromUnits(u, "USDC"));
+          const net = InvestmentRulesService.calculateNetAmount(total).toUnits();
+
+          expect(net - u).to.be.oneOf([-1n, 0n, 1n]);
+          expect(net <= total.toUnits()).to.equal(true);
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,362 @@
+import "tsconfig-paths/register";
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, MockStablecoin } from "../typechain-types";
+import { CONTRACTS } from "../lib/constants/addresses";
+import { mantleSepolia } from "../lib/thirdweb/chains";
+import type { CampaignMetadata } from "../lib/metadata";
+import type {
+  EscrowPledgeHistory,
+  OnChainInvestmentRepository,
+  OnChainProjectRepository,
+} from "../src/infrastructure/repositories";
+import { Address } from "../src/domain/value-objects/Address";
+
+// lib/thirdweb/client requires a client ID when it is first imported
+process.env.NEXT_PUBLIC_THIRDWEB_CLIENT_ID ??= "hardhat-test";
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params?: unknown[];
+}
+
+describe("On-chain repositories", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let usdc: MockStablecoin;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+  let history: EscrowPledgeHistory;
+  let projects: OnChainProjectRepository;
+  let investments: OnChainInvestmentRepository;
+  let originalFetch: typeof fetch;
+
+  const ESCROW_ADDRESS = CONTRACTS.MILESTONE_ESCROW;
+  const VOTING_RULES = [
+    { quorumBps: 2000n, approvalBps: 5000n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+  ];
+  const GOVERNANCE_PARAMS = { votingPeriod: 3 * 86400, proposalThresholdBps: 100 };
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+  const SOLAR_METADATA_HASH = ethers.id("solar metadata");
+  const SOLAR_METADATA: CampaignMetadata = {
+    version: 1,
+    name: "Solar Co-op",
+    description: "Community solar panels",
+    longDescription: "Rooftop solar for the neighbourhood",
+    category: "energy",
+    image: "https://example.com/solar.png",
+    companyName: "Solar Co-op Ltd",
+    companyInfo: { foundedYear: 2021, employees: 12, location: "Lisbon" },
+  };
+  const USDC = (amount: string) => ethers.parseUnits(amount, 6);
+
+  const pledgeTransactions: Record<string, string> = {};
+  let chainYear: number;
+
+  // Answer thirdweb's Mantle Sepolia RPC calls from the in-process Hardhat network
+  async function forward(request: RpcRequest) {
+    try {
+      const result = await network.provider.send(request.method, request.params ?? []);
+      return { jsonrpc: "2.0", id: request.id, result };
+    } catch (error) {
+      return { jsonrpc: "2.0", id: request.id, error: { code: -32603, message: (error as Error).message } };
+    }
+  }
+
+  async function routeRpcToHardhat(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const url = input instanceof Request ? input.url : String(input);
+    if (!url.startsWith(mantleSepolia.rpc)) return originalFetch(input, init);
+
+    const body = JSON.parse(String(init?.body)) as RpcRequest | RpcRequest[];
+    const response = Array.isArray(body) ? await Promise.all(body.map(forward)) : await forward(body);
+    return new Response(JSON.stringify(response), { headers: { "Content-Type": "application/json" } });
+  }
+
+  // The repositories read the escrow at its configured address, so deploy one and copy it there
+  async function deployEscrowAtConfiguredAddress(platformWallet: string): Promise<MilestoneEscrow> {
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    const deployed = await MilestoneEscrowFactory.deploy(platformWallet, await tokenFactory.getAddress());
+    await deployed.waitForDeployment();
+    const deployedAddress = await deployed.getAddress();
+
+    await network.provider.send("hardhat_setCode", [ESCROW_ADDRESS, await ethers.provider.getCode(deployedAddress)]);
+    // Constructor state (owner, reentrancy status, platform wallet) sits in the first slots
+    for (let slot = 0; slot < 64; slot++) {
+      const value = await ethers.provider.getStorage(deployedAddress, slot);
+      if (value !== ethers.ZeroHash) {
+        await network.provider.send("hardhat_setStorageAt", [ESCROW_ADDRESS, ethers.toBeHex(slot), value]);
+      }
+    }
+
+    return ethers.getContractAt("MilestoneEscrow", ESCROW_ADDRESS);
+  }
+
+  async function createCampaign(
+    name: string,
+    goal: bigint,
+    paymentToken: string,
+    metadataHash: string
+  ) {
+    await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+      goal,
+      30,
+      name,
+      `${name} Equity`,
+      name.slice(0, 3).toUpperCase(),
+      1000n,
+      ["M1", "M2"],
+      ["First milestone", "Second milestone"],
+      [5000n, 5000n],
+      [30n, 60n],
+      VOTING_RULES,
+      GOVERNANCE_PARAMS,
+      paymentToken,
+      metadataHash
+    );
+  }
+
+  async function recordPledge(label: string, transaction: Promise<{ hash: string }>) {
+    pledgeTransactions[label] = (await transaction).hash;
+  }
+
+  before(async function () {
+    let platformWallet: HardhatEthersSigner;
+    [platformWallet, creator, investor1, investor2] = await ethers.getSigners();
+
+    milestoneEscrow = await deployEscrowAtConfiguredAddress(platformWallet.address);
+
+    const MockStablecoinFactory = await ethers.getContractFactory("MockStablecoin");
+    usdc = await MockStablecoinFactory.deploy("Mock USD Coin", "USDC", 6);
+    await usdc.waitForDeployment();
+    await milestoneEscrow.setPaymentTokenAllowed(await usdc.getAddress(), true);
+    await usdc.mint(investor1.address, USDC("1000"));
+    await usdc.connect(investor1).approve(ESCROW_ADDRESS, USDC("1000"));
+
+    const fromBlock = BigInt(await ethers.provider.getBlockNumber());
+
+    // Campaign 0: MNT with metadata, two investors
+    await createCampaign("Solar", ethers.parseEther("100"), NATIVE_TOKEN, SOLAR_METADATA_HASH);
+    // Campaign 1: USDC without metadata, one investor with two pledges and a partial unpledge
+    await createCampaign("Coffee Roastery", USDC("1000"), await usdc.getAddress(), NO_METADATA);
+    // Campaign 2: MNT without metadata, its only pledge fully withdrawn
+    await createCampaign("Robotics Lab", ethers.parseEther("50"), NATIVE_TOKEN, NO_METADATA);
+
+    await recordPledge("solar1", milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("10") }));
+    await recordPledge("solar2", milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("20") }));
+    await recordPledge("coffee1", milestoneEscrow.connect(investor1).pledgeToken(1, USDC("300")));
+    await recordPledge("coffee2", milestoneEscrow.connect(investor1).pledgeToken(1, USDC("200")));
+    await milestoneEscrow.connect(investor1).unpledge(1, USDC("100"));
+    await recordPledge("robotics", milestoneEscrow.connect(investor2).pledge(2, { value: ethers.parseEther("5") }));
+    await milestoneEscrow.connect(investor2).unpledge(2, ethers.parseEther("5"));
+
+    const latest = await ethers.provider.getBlock("latest");
+    chainYear = new Date(latest!.timestamp * 1000).getUTCFullYear();
+
+    originalFetch = globalThis.fetch;
+    globalThis.fetch = routeRpcToHardhat;
+
+    // Loaded after the client ID is set
+    const repositories = await import("../src/infrastructure/repositories");
+    history = new repositories.EscrowPledgeHistory({ chain: mantleSepolia, fromBlock, blockRange: 5n });
+    projects = new repositories.OnChainProjectRepository({
+      history,
+      loadMetadata: async (metadataHash) => (metadataHash === SOLAR_METADATA_HASH ? SOLAR_METADATA : null),
+    });
+    investments = new repositories.OnChainInvestmentRepository({ history });
+  });
+
+  after(function () {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe("EscrowPledgeHistory", function () {
+    it("Should read pledge events in chain order with block timestamps", async function () {
+      await history.sync();
+      const events = history.getEvents();
+
+      expect(events.map((event) => event.kind)).to.deep.equal([
+        "pledged",
+        "pledged",
+        "pledged",
+        "pledged",
+        "unpledged",
+        "pledged",
+        "unpledged",
+      ]);
+      expect(events[0].campaignId).to.equal(0);
+      expect(events[0].investor).to.equal(investor1.address);
+      expect(events[0].amount).to.equal(ethers.parseEther("10"));
+      expect(events[0].transactionHash).to.equal(pledgeTransactions.solar1);
+
+      const receipt = await ethers.provider.getTransactionReceipt(pledgeTransactions.solar1);
+      const block = await ethers.provider.getBlock(receipt!.blockNumber);
+      expect(events[0].blockNumber).to.equal(BigInt(receipt!.blockNumber));
+      expect(events[0].timestamp).to.equal(block!.timestamp);
+    });
+
+    it("Should count investors with an outstanding pledge", async function () {
+      await history.sync();
+      const counts = history.getInvestorCounts();
+
+      expect(counts.get(0)).to.equal(2);
+      expect(counts.get(1)).to.equal(1);
+      expect(counts.has(2)).to.equal(false);
+      expect(history.isEmergencyRefundEnabled(0)).to.equal(false);
+    });
+  });
+
+  describe("OnChainProjectRepository", function () {
+    it("Should map a campaign and its verified metadata to a project", async function () {
+      const campaign = await milestoneEscrow.getCampaign(0);
+      const project = await projects.findById("0");
+
+      expect(project).to.not.equal(null);
+      expect(project!.name).to.equal("Solar Co-op");
+      expect(project!.description).to.equal("Community solar panels");
+      expect(project!.category).to.equal("energy");
+      expect(project!.companyInfo.location).to.equal("Lisbon");
+      expect(project!.goal.getCurrency()).to.equal("MNT");
+      expect(project!.goal.toUnits()).to.equal(ethers.parseEther("100"));
+      expect(project!.fundRaised.toUnits()).to.equal(ethers.parseEther("30"));
+      expect(project!.deadline.getTime()).to.equal(Number(campaign.endAt) * 1000);
+      expect(project!.investorCount).to.equal(2);
+      expect(project!.tokenSymbol).to.equal("SOL");
+      expect(project!.contractAddress.equals(Address.create(campaign.equityToken))).to.equal(true);
+      expect(project!.status).to.equal("active");
+    });
+
+    it("Should fall back to on-chain fields for campaigns without metadata", async function () {
+      const project = await projects.findById("1");
+
+      expect(project!.name).to.equal("Coffee Roastery");
+      expect(project!.description).to.equal("");
+      expect(project!.category).to.equal("tech");
+      expect(project!.goal.getCurrency()).to.equal("USDC");
+      expect(project!.goal.getDecimals()).to.equal(6);
+      expect(project!.fundRaised.toUnits()).to.equal(USDC("400"));
+      expect(project!.investorCount).to.equal(1);
+    });
+
+    it("Should return null for unknown or malformed IDs", async function () {
+      expect(await projects.findById("99")).to.equal(null);
+      expect(await projects.findById("abc")).to.equal(null);
+    });
+
+    it("Should paginate sorted campaigns", async function () {
+      const firstPage = await projects.findAll(undefined, { field: "createdAt", order: "asc" }, { page: 1, limit: 2 });
+      expect(firstPage.items.map((project) => project.id)).to.deep.equal(["0", "1"]);
+      expect(firstPage.total).to.equal(3);
+      expect(firstPage.totalPages).to.equal(2);
+      expect(firstPage.hasNext).to.equal(true);
+      expect(firstPage.hasPrevious).to.equal(false);
+
+      const secondPage = await projects.findAll(undefined, { field: "createdAt", order: "asc" }, { page: 2, limit: 2 });
+      expect(secondPage.items.map((project) => project.id)).to.deep.equal(["2"]);
+      expect(secondPage.hasNext).to.equal(false);
+      expect(secondPage.hasPrevious).to.equal(true);
+
+      const byInvestors = await projects.findAll(undefined, { field: "investorCount", order: "desc" });
+      expect(byInvestors.items.map((project) => project.id)).to.deep.equal(["0", "1", "2"]);
+
+      const byGoal = await projects.findAll(undefined, { field: "goal", order: "asc" });
+      expect(byGoal.items.map((project) => project.id)).to.deep.equal(["2", "0", "1"]);
+    });
+
+    it("Should filter campaigns by category, goal and search text", async function () {
+      const tech = await projects.findAll({ category: "tech" }, { field: "createdAt", order: "asc" });
+      expect(tech.items.map((project) => project.id)).to.deep.equal(["1", "2"]);
+
+      const largeGoals = await projects.findAll({ minGoal: 75 }, { field: "createdAt", order: "asc" });
+      expect(largeGoals.items.map((project) => project.id)).to.deep.equal(["0", "1"]);
+
+      const search = await projects.findAll({ search: "SOLAR" });
+      expect(search.items.map((project) => project.id)).to.deep.equal(["0"]);
+
+      expect(await projects.count({ status: "active", maxGoal: 100 })).to.equal(2);
+    });
+  });
+
+  describe("OnChainInvestmentRepository", function () {
+    it("Should map pledge events to investments", async function () {
+      const investment = await investments.findByTransactionHash(pledgeTransactions.solar1);
+
+      expect(investment).to.not.equal(null);
+      expect(investment!.projectId).to.equal("0");
+      expect(investment!.investor.equals(Address.create(investor1.address))).to.equal(true);
+      expect(investment!.amount.toUnits()).to.equal(ethers.parseEther("10"));
+      expect(investment!.amount.getCurrency()).to.equal("MNT");
+      expect(investment!.tokenAmount).to.equal(10);
+      expect(investment!.tokenSymbol).to.equal("SOL");
+      expect(investment!.status).to.equal("confirmed");
+    });
+
+    it("Should apply unpledges to the most recent pledges first", async function () {
+      const coffee1 = await investments.findByTransactionHash(pledgeTransactions.coffee1);
+      const coffee2 = await investments.findByTransactionHash(pledgeTransactions.coffee2);
+      expect(coffee1!.amount.toUnits()).to.equal(USDC("300"));
+      expect(coffee2!.amount.toUnits()).to.equal(USDC("100"));
+      expect(coffee2!.status).to.equal("confirmed");
+
+      // A fully withdrawn pledge keeps its original amount
+      const robotics = await investments.findByTransactionHash(pledgeTransactions.robotics);
+      expect(robotics!.status).to.equal("refunded");
+      expect(robotics!.amount.toUnits()).to.equal(ethers.parseEther("5"));
+    });
+
+    it("Should paginate filtered and sorted investments", async function () {
+      const byInvestor = await investments.findAll(
+        { investor: investor1.address },
+        { field: "amount", order: "asc" },
+        { page: 1, limit: 2 }
+      );
+      expect(byInvestor.total).to.equal(3);
+      expect(byInvestor.totalPages).to.equal(2);
+      expect(byInvestor.items.map((investment) => investment.transactionHash)).to.deep.equal([
+        pledgeTransactions.solar1,
+        pledgeTransactions.coffee2,
+      ]);
+
+      const lastPage = await investments.findAll(
+        { investor: investor1.address },
+        { field: "amount", order: "asc" },
+        { page: 2, limit: 2 }
+      );
+      expect(lastPage.items.map((investment) => investment.transactionHash)).to.deep.equal([
+        pledgeTransactions.coffee1,
+      ]);
+
+      const refunded = await investments.findAll({ status: "refunded" });
+      expect(refunded.items.map((investment) => investment.transactionHash)).to.deep.equal([
+        pledgeTransactions.robotics,
+      ]);
+
+      const newestFirst = await investments.findAll({ projectId: "0" });
+      expect(newestFirst.items.map((investment) => investment.transactionHash)).to.deep.equal([
+        pledgeTransactions.solar2,
+        pledgeTransactions.solar1,
+      ]);
+    });
+
+    it("Should total an investor's stablecoin investments for the year", async function () {
+      const investor = Address.create(investor1.address);
+
+      const total = await investments.getAnnualTotalByInvestor(investor, chainYear);
+      expect(total.getCurrency()).to.equal("USDC");
+      expect(total.toUnits()).to.equal(USDC("400"));
+
+      expect((await investments.getAnnualTotalByInvestor(investor, chainYear - 1)).isZero()).to.equal(true);
+      // Native-token pledges are not counted towards the annual limit
+      const native = await investments.getAnnualTotalByInvestor(Address.create(investor2.address), chainYear);
+      expect(native.isZero()).to.equal(true);
+    });
+  });
+});
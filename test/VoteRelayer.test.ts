@@ -0,0 +1,141 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MilestoneEscrow, GovernanceV2 } from "../typechain-types";
+import { BallotRejectedError, VoteRelayer } from "../src/infrastructure/relayer";
+
+describe("VoteRelayer", function () {
+  let milestoneEscrow: MilestoneEscrow;
+  let governance: GovernanceV2;
+  let relayer: VoteRelayer;
+  let platformWallet: HardhatEthersSigner;
+  let creator: HardhatEthersSigner;
+  let investor1: HardhatEthersSigner;
+  let investor2: HardhatEthersSigner;
+  let relayerWallet: HardhatEthersSigner;
+
+  const ONE_DAY = 86400;
+
+  // Voting rules per proposal type: [General, Milestone, Amendment]
+  const VOTING_RULES = [
+    { quorumBps: 2000n, approvalBps: 5000n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+    { quorumBps: 3000n, approvalBps: 6667n },
+  ];
+  const GOVERNANCE_PARAMS = { votingPeriod: 3 * ONE_DAY, proposalThresholdBps: 100 }; // 3-day votes, 1% to propose
+  const NATIVE_TOKEN = ethers.ZeroAddress;
+  const NO_METADATA = ethers.ZeroHash;
+  const EVIDENCE = ethers.id("milestone evidence");
+
+  const BALLOT_TYPES = {
+    Ballot: [
+      { name: "proposalId", type: "uint256" },
+      { name: "support", type: "uint8" },
+      { name: "releaseBps", type: "uint256" },
+      { name: "voter", type: "address" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+
+  async function signBallot(voter: HardhatEthersSigner, support: number) {
+    const { chainId } = await ethers.provider.getNetwork();
+    const ballot = {
+      proposalId: 0n,
+      support,
+      releaseBps: 10000n,
+      voter: voter.address,
+      nonce: await governance.nonces(voter.address),
+      deadline: BigInt((await time.latest()) + ONE_DAY),
+    };
+    const domain = { name: "GovernanceV2", version: "1", chainId, verifyingContract: await governance.getAddress() };
+    return { ...ballot, signature: await voter.signTypedData(domain, BALLOT_TYPES, ballot) };
+  }
+
+  // Reason the relayer gave for refusing a ballot
+  async function rejectionReason(submission: Promise<string>): Promise<string> {
+    try {
+      await submission;
+    } catch (error) {
+      expect(error).to.be.instanceOf(BallotRejectedError);
+      return (error as BallotRejectedError).reason;
+    }
+    throw new Error("Ballot was not rejected");
+  }
+
+  beforeEach(async function () {
+    [platformWallet, creator, investor1, investor2, relayerWallet] = await ethers.getSigners();
+
+    const TokenFactory = await ethers.getContractFactory("EquityTokenFactory");
+    const tokenFactory = await TokenFactory.deploy();
+    await tokenFactory.waitForDeployment();
+
+    const MilestoneEscrowFactory = await ethers.getContractFactory("MilestoneEscrow");
+    milestoneEscrow = await MilestoneEscrowFactory.deploy(platformWallet.address, await tokenFactory.getAddress());
+    await milestoneEscrow.waitForDeployment();
+
+    const GovernanceV2Factory = await ethers.getContractFactory("GovernanceV2");
+    governance = await GovernanceV2Factory.deploy(await milestoneEscrow.getAddress());
+    await governance.waitForDeployment();
+    await milestoneEscrow.setGovernanceContract(await governance.getAddress());
+
+    await milestoneEscrow.connect(creator).createCampaignWithMilestones(
+      ethers.parseEther("100"),
+      7,
+      "Relayed Campaign",
+      "Relayed Token",
+      "RLY",
+      0n,
+      ["M1", "M2"],
+      ["First milestone", "Second milestone"],
+      [5000n, 5000n],
+      [30n, 60n],
+      VOTING_RULES,
+      GOVERNANCE_PARAMS,
+      NATIVE_TOKEN,
+      NO_METADATA
+    );
+    await milestoneEscrow.connect(investor1).pledge(0, { value: ethers.parseEther("60") });
+    await milestoneEscrow.connect(investor2).pledge(0, { value: ethers.parseEther("40") });
+    await time.increase(8 * ONE_DAY);
+    await milestoneEscrow.connect(investor1).claimTokens(0);
+    await milestoneEscrow.connect(investor2).claimTokens(0);
+    await milestoneEscrow.connect(creator).submitMilestoneForApproval(0, 0, EVIDENCE);
+
+    relayer = new VoteRelayer({
+      signer: relayerWallet,
+      governanceAddress: await governance.getAddress(),
+      batchWindowMs: 50,
+    });
+  });
+
+  it("Should cast ballots from the same window in one transaction", async function () {
+    const [firstHash, secondHash] = await Promise.all([
+      relayer.submit(await signBallot(investor1, 1)),
+      relayer.submit(await signBallot(investor2, 0)),
+    ]);
+
+    expect(firstHash).to.equal(secondHash);
+    const receipt = await ethers.provider.getTransactionReceipt(firstHash);
+    expect(receipt?.from).to.equal(relayerWallet.address);
+
+    const proposal = await governance.getProposal(0);
+    expect(proposal.forVotes).to.equal(ethers.parseEther("60"));
+    expect(proposal.againstVotes).to.equal(ethers.parseEther("40"));
+    expect(relayer.pendingCount).to.equal(0);
+  });
+
+  it("Should reject ballots that would revert without queueing them", async function () {
+    const forged = { ...(await signBallot(investor1, 1)), voter: investor2.address };
+    expect(await rejectionReason(relayer.submit(forged))).to.equal("InvalidSignature");
+
+    const ballot = await signBallot(investor1, 1);
+    const pending = relayer.submit(ballot);
+    expect(await rejectionReason(relayer.submit(ballot))).to.equal("BallotPending");
+    await pending;
+
+    expect(await rejectionReason(relayer.submit(await signBallot(investor1, 1)))).to.equal("AlreadyVoted");
+    expect(relayer.pendingCount).to.equal(0);
+  });
+});